@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { JiraHelper } from '../helpers/jiraHelper';
+import { ConfluenceHelper } from '../helpers/confluenceHelper';
+import { AtlassianConfig, DeploymentType } from '../utils/configLoader';
+import { DEFAULT_SITE_NAME, deleteStoredApiToken, storeApiToken } from '../utils/credentialStore';
+import { HelperRegistry } from '../utils/helperRegistry';
+import { SiteProfile, getSiteProfiles, saveSiteProfile, setDefaultSiteName } from '../utils/siteProfiles';
+
+export function registerAuthCommands(
+    context: vscode.ExtensionContext,
+    helpers: HelperRegistry,
+    reloadHelpers: () => Promise<void>
+): void {
+    // Sign in: collect credentials, verify them, then store the token securely
+    const signInCommand = vscode.commands.registerCommand('atlassian.signIn', async () => {
+        const site = await pickSiteToSignIn();
+        if (!site) {
+            return;
+        }
+
+        const settings = vscode.workspace.getConfiguration('atlassianTools');
+        const existing: Partial<SiteProfile> | undefined = site === DEFAULT_SITE_NAME
+            ? {
+                baseUrl: settings.get<string>('atlassianBaseUrl') || '',
+                email: settings.get<string>('atlassianEmail') || '',
+                deploymentType: settings.get<DeploymentType>('deploymentType'),
+                confluenceBaseUrl: settings.get<string>('confluenceBaseUrl') || ''
+            }
+            : getSiteProfiles().find(profile => profile.name === site);
+
+        const deployment = await vscode.window.showQuickPick([
+            { label: 'Cloud', description: 'yourcompany.atlassian.net, email + API token', deploymentType: 'cloud' as DeploymentType },
+            { label: 'Server / Data Center', description: 'Self-hosted, personal access token', deploymentType: 'dataCenter' as DeploymentType }
+        ], {
+            placeHolder: existing?.deploymentType === 'dataCenter' ? 'Currently: Server / Data Center' : 'Select the deployment type',
+            ignoreFocusOut: true
+        });
+
+        if (!deployment) {
+            return;
+        }
+
+        const dataCenter = deployment.deploymentType === 'dataCenter';
+        const urlValidator = (value: string) => /^https?:\/\/\S+$/.test(value.trim()) ? undefined : 'Enter a valid http(s) URL';
+
+        const baseUrl = await vscode.window.showInputBox({
+            prompt: dataCenter ? `Jira base URL for site "${site}"` : `Atlassian base URL for site "${site}"`,
+            placeHolder: dataCenter ? 'https://jira.yourcompany.com' : 'https://yourcompany.atlassian.net',
+            value: existing?.baseUrl || '',
+            ignoreFocusOut: true,
+            validateInput: urlValidator
+        });
+
+        if (!baseUrl) {
+            return;
+        }
+
+        let email = '';
+        let confluenceBaseUrl: string | undefined;
+
+        if (dataCenter) {
+            // Data Center usually serves Confluence from its own host and context path
+            confluenceBaseUrl = await vscode.window.showInputBox({
+                prompt: 'Confluence base URL including any context path (leave empty if served from the Jira base URL)',
+                placeHolder: 'https://confluence.yourcompany.com',
+                value: existing?.confluenceBaseUrl || '',
+                ignoreFocusOut: true,
+                validateInput: (value) => value.trim() ? urlValidator(value) : undefined
+            });
+
+            if (confluenceBaseUrl === undefined) {
+                return;
+            }
+        } else {
+            email = await vscode.window.showInputBox({
+                prompt: 'Atlassian account email',
+                placeHolder: 'you@yourcompany.com',
+                value: existing?.email || '',
+                ignoreFocusOut: true
+            }) || '';
+
+            if (!email) {
+                return;
+            }
+        }
+
+        const apiToken = await vscode.window.showInputBox({
+            prompt: dataCenter
+                ? 'Personal access token (stored in VS Code secret storage)'
+                : 'Atlassian API token (stored in VS Code secret storage)',
+            password: true,
+            ignoreFocusOut: true
+        });
+
+        if (!apiToken) {
+            return;
+        }
+
+        const config: AtlassianConfig = {
+            baseUrl: baseUrl.trim().replace(/\/+$/, ''),
+            email: email.trim(),
+            apiToken: apiToken.trim(),
+            deploymentType: deployment.deploymentType,
+            ...(confluenceBaseUrl?.trim() && { confluenceBaseUrl: confluenceBaseUrl.trim().replace(/\/+$/, '') })
+        };
+
+        const [jiraConnected, confluenceConnected] = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Checking Atlassian connection...' },
+            () => Promise.all([
+                new JiraHelper(config).checkConnection(),
+                new ConfluenceHelper(config).checkConnection()
+            ])
+        );
+
+        if (!jiraConnected && !confluenceConnected) {
+            vscode.window.showErrorMessage(`Could not connect to ${config.baseUrl} with these credentials. Nothing was saved.`);
+            return;
+        }
+
+        try {
+            await saveSiteProfile({
+                name: site,
+                baseUrl: config.baseUrl,
+                email: config.email,
+                deploymentType: config.deploymentType,
+                confluenceBaseUrl: config.confluenceBaseUrl
+            });
+            await storeApiToken(context.secrets, config.apiToken, site);
+            await reloadHelpers();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save Atlassian credentials: ${error}`);
+            return;
+        }
+
+        const services = [jiraConnected && 'Jira', confluenceConnected && 'Confluence'].filter(Boolean).join(' and ');
+        const account = config.email ? ` as ${config.email}` : '';
+        vscode.window.showInformationMessage(`Signed in to ${services} on site "${site}"${account}`);
+    });
+
+    // Sign out: forget the stored token for one site
+    const signOutCommand = vscode.commands.registerCommand('atlassian.signOut', async () => {
+        const sites = helpers.getSiteNames();
+        if (sites.length === 0) {
+            vscode.window.showInformationMessage('Not signed in to any Atlassian site');
+            return;
+        }
+
+        const site = sites.length === 1
+            ? sites[0]
+            : await vscode.window.showQuickPick(sites, { placeHolder: 'Select the site to sign out of' });
+
+        if (!site) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Sign out of Atlassian site "${site}"? The stored API token will be removed.`,
+            { modal: true },
+            'Sign Out'
+        );
+
+        if (confirm !== 'Sign Out') {
+            return;
+        }
+
+        try {
+            await deleteStoredApiToken(context.secrets, site);
+            await reloadHelpers();
+            vscode.window.showInformationMessage(`Signed out of Atlassian site "${site}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to sign out: ${error}`);
+        }
+    });
+
+    // Switch site: change the active profile and remember it for this workspace
+    const switchSiteCommand = vscode.commands.registerCommand('atlassian.switchSite', async () => {
+        const activeSite = helpers.getActiveSite();
+        const items: Array<vscode.QuickPickItem & { site?: string }> = helpers.getSiteNames().map(site => ({
+            label: site === activeSite ? `$(check) ${site}` : site,
+            description: helpers.getSiteConfig(site)?.baseUrl,
+            site
+        }));
+        items.push({ label: '$(add) Sign in to another site...' });
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select the Atlassian site for this workspace' });
+        if (!selected) {
+            return;
+        }
+
+        if (!selected.site) {
+            await vscode.commands.executeCommand('atlassian.signIn');
+            return;
+        }
+
+        try {
+            helpers.setActiveSite(selected.site);
+            await setDefaultSiteName(selected.site);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to switch site: ${error}`);
+        }
+    });
+
+    context.subscriptions.push(signInCommand, signOutCommand, switchSiteCommand);
+}
+
+/**
+ * Ask which site profile to sign in to, offering to create a new one
+ */
+async function pickSiteToSignIn(): Promise<string | undefined> {
+    const names = [DEFAULT_SITE_NAME, ...getSiteProfiles().map(profile => profile.name)];
+    const newSiteLabel = '$(add) New site...';
+
+    const selected = await vscode.window.showQuickPick([...names, newSiteLabel], {
+        placeHolder: 'Select the site profile to sign in to'
+    });
+
+    if (selected !== newSiteLabel) {
+        return selected;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: 'Name for the new site profile',
+        placeHolder: 'client-a',
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+            const trimmed = value.trim();
+            if (!/^[\w.-]+$/.test(trimmed)) {
+                return 'Use letters, numbers, dots, dashes or underscores';
+            }
+            return names.includes(trimmed) ? `Site "${trimmed}" already exists` : undefined;
+        }
+    });
+
+    return name?.trim() || undefined;
+}
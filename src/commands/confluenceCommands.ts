@@ -1,19 +1,59 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { ConfluenceHelper } from '../helpers/confluenceHelper';
+import { ConfluencePage } from '../helpers/confluenceHelper';
+import { exportPages } from '../helpers/confluenceExporter';
+import { copyPageTree } from '../helpers/confluencePageCopier';
+import { savePageWithVersionCheck } from '../helpers/confluencePageSaver';
+import { publishFolder, readPublishMapping } from '../helpers/confluencePublisher';
+import { HelperRegistry } from '../utils/helperRegistry';
 import { ConfluenceTreeItem, ConfluenceTreeProvider } from '../ui/ConfluenceTreeProvider';
+import { ConfluencePageHistoryProvider, PageVersionItem } from '../ui/ConfluencePageHistoryProvider';
 import { ConfluencePageWebviewProvider } from '../ui/ConfluencePageWebviewProvider';
 import * as yamlConverters from '../utils/confluenceYamlConverters';
 
+// Read-only remote copies shown in conflict diffs, keyed by URI path
+const MERGE_SCHEME = 'confluence-merge';
+
 export function registerConfluenceCommands(
     context: vscode.ExtensionContext,
-    helper: ConfluenceHelper | null,
-    treeProvider: ConfluenceTreeProvider
+    helpers: HelperRegistry,
+    treeProvider: ConfluenceTreeProvider,
+    treeView: vscode.TreeView<ConfluenceTreeItem>,
+    historyProvider: ConfluencePageHistoryProvider
 ): void {
-    const webviewProvider = helper ? new ConfluencePageWebviewProvider(helper) : null;
+    const webviewProvider = new ConfluencePageWebviewProvider(helpers.getConfluenceHelper(), helpers.getJiraHelper());
+    const helperListener = helpers.onDidChangeHelpers(() => {
+        webviewProvider.setHelper(helpers.getConfluenceHelper(), helpers.getJiraHelper());
+    });
+
+    const mergeDocuments = new Map<string, string>();
+    const mergeContentProvider = vscode.workspace.registerTextDocumentContentProvider(MERGE_SCHEME, {
+        provideTextDocumentContent: (uri) => mergeDocuments.get(uri.path) || ''
+    });
+
+    /**
+     * Show the live page next to the local YAML so remote changes can be merged by hand.
+     * Resolves to true once the user chooses to save the merged document.
+     */
+    const mergeRemoteChanges = async (document: vscode.TextDocument, live: ConfluencePage, baseVersion: number): Promise<boolean> => {
+        const liveVersion = live.version?.number;
+        const remoteUri = vscode.Uri.from({ scheme: MERGE_SCHEME, path: `/page-${live.id}-v${liveVersion}.confluence.yaml` });
+        mergeDocuments.set(remoteUri.path, yamlConverters.pageToYaml(live, yamlConverters.pageFormatOf(document.getText())));
+        await vscode.commands.executeCommand('vscode.diff', remoteUri, document.uri, `${live.title}: Confluence v${liveVersion} ↔ Local`, { preview: false });
+
+        const choice = await vscode.window.showWarningMessage(
+            `"${live.title}" was edited on Confluence (version ${liveVersion}; yours is based on version ${baseVersion}). ` +
+            'Merge the remote changes into your copy on the right, then save.',
+            'Save Merged Version',
+            'Cancel'
+        );
+        return choice === 'Save Merged Version';
+    };
+
     // Open page in YAML editor
     const openPageYamlCommand = vscode.commands.registerCommand('confluence.openPageYaml', async (pageIdOrItem: string | ConfluenceTreeItem) => {
+        const helper = helpers.getConfluenceHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Confluence is not configured');
             return;
@@ -29,7 +69,7 @@ export function registerConfluenceCommands(
 
         try {
             const page = await helper.getPage(pageId, 'body.storage,space,version');
-            const yamlContent = yamlConverters.pageToYaml(page);
+            const yamlContent = yamlConverters.pageToYaml(page, editorFormat());
             await openYamlDocument(yamlContent, pageId);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to load page ${pageId}: ${error}`);
@@ -41,7 +81,7 @@ export function registerConfluenceCommands(
         // Open both YAML editor and preview
         vscode.commands.executeCommand('confluence.openPageYaml', pageId);
         
-        if (webviewProvider) {
+        if (helpers.getConfluenceHelper()) {
             await webviewProvider.showPage(pageId);
         }
     });
@@ -63,12 +103,13 @@ export function registerConfluenceCommands(
             return;
         }
 
-        const yamlContent = yamlConverters.newPageToYaml(spaceKey);
+        const yamlContent = yamlConverters.newPageToYaml(spaceKey, undefined, editorFormat());
         await openYamlDocument(yamlContent, 'new');
     });
 
     // Save to Confluence
     const saveToConfluenceCommand = vscode.commands.registerCommand('confluence.saveToConfluence', async () => {
+        const helper = helpers.getConfluenceHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Confluence is not configured');
             return;
@@ -104,14 +145,24 @@ export function registerConfluenceCommands(
                 vscode.commands.executeCommand('confluence.openPageYaml', newPage.id);
             } else if (pageData.id) {
                 // Update existing page
-                await helper.updatePage(
-                    pageData.id,
-                    extracted.title,
-                    extracted.content,
-                    extracted.version
-                );
+                const document = editor.document;
+                const saved = await savePageWithVersionCheck(helper, pageData.id, {
+                    getYaml: () => document.getText(),
+                    mergeRemoteChanges: (live, baseVersion) => mergeRemoteChanges(document, live, baseVersion)
+                });
+                if (!saved) {
+                    vscode.window.showInformationMessage(`Save of "${extracted.title}" cancelled`);
+                    return;
+                }
+
+                // Record the new version so the next save works without reopening the page
+                const edit = new vscode.WorkspaceEdit();
+                edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), saved.yaml);
+                await vscode.workspace.applyEdit(edit);
+                await document.save();
                 
-                vscode.window.showInformationMessage(`Updated page: ${extracted.title}`);
+                vscode.window.showInformationMessage(`Updated page: ${saved.page.title} (version ${saved.page.version?.number ?? extracted.version + 1})`);
+                historyProvider.refresh();
             }
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to save to Confluence: ${error}`);
@@ -124,8 +175,38 @@ export function registerConfluenceCommands(
         vscode.window.showInformationMessage('Confluence tree refreshed');
     });
 
+    // Fetch the next batch of pages below a space or page
+    const loadMoreCommand = vscode.commands.registerCommand('confluence.loadMore', (item: ConfluenceTreeItem) => treeProvider.loadMore(item));
+
+    // Expand the tree to the page open in the active editor
+    const revealActivePageCommand = vscode.commands.registerCommand('confluence.revealActivePage', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !editor.document.fileName.endsWith('.confluence.yaml')) {
+            vscode.window.showErrorMessage('Please open a Confluence YAML file first');
+            return;
+        }
+
+        const pageId = yamlConverters.yamlToPage(editor.document.getText()).id;
+        if (!pageId || pageId === 'new') {
+            vscode.window.showInformationMessage('This page has not been saved to Confluence yet');
+            return;
+        }
+
+        try {
+            const item = await treeProvider.findPageItem(pageId);
+            if (!item) {
+                vscode.window.showWarningMessage(`Page ${pageId} is not in one of the spaces listed in the Confluence view`);
+                return;
+            }
+            await treeView.reveal(item, { select: true, focus: true, expand: true });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to reveal page ${pageId}: ${error}`);
+        }
+    });
+
     // Add comment
     const addCommentCommand = vscode.commands.registerCommand('confluence.addComment', async (pageIdOrItem: string | ConfluenceTreeItem) => {
+        const helper = helpers.getConfluenceHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Confluence is not configured');
             return;
@@ -157,6 +238,7 @@ export function registerConfluenceCommands(
 
     // Delete page
     const deletePageCommand = vscode.commands.registerCommand('confluence.deletePage', async (pageIdOrItem: string | ConfluenceTreeItem) => {
+        const helper = helpers.getConfluenceHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Confluence is not configured');
             return;
@@ -188,17 +270,282 @@ export function registerConfluenceCommands(
         }
     });
 
+    // Publish a folder of Markdown files as a page tree
+    const publishFolderCommand = vscode.commands.registerCommand('confluence.publishFolder', async (folderUri?: vscode.Uri) => {
+        const helper = helpers.getConfluenceHelper();
+        if (!helper) {
+            vscode.window.showErrorMessage('Confluence is not configured');
+            return;
+        }
+
+        if (!folderUri) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                openLabel: 'Publish to Confluence'
+            });
+            folderUri = picked?.[0];
+        }
+        if (!folderUri) {
+            return;
+        }
+
+        // Default to the target of the last publish
+        const previous = await readPublishMapping(folderUri.fsPath);
+        const spaceKey = await vscode.window.showInputBox({
+            prompt: 'Enter space key (e.g., SPACE)',
+            placeHolder: 'SPACE',
+            value: previous?.spaceKey
+        });
+        if (!spaceKey) {
+            return;
+        }
+        const parentId = await vscode.window.showInputBox({
+            prompt: 'Enter the ID of the page to publish under',
+            placeHolder: '123456',
+            value: previous?.parentId
+        });
+        if (!parentId) {
+            return;
+        }
+
+        try {
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Publishing ${path.basename(folderUri.fsPath)} to Confluence`,
+                cancellable: true
+            }, (progress, token) => publishFolder(helper.withCancellation(token), {
+                folder: folderUri!.fsPath,
+                spaceKey,
+                parentId,
+                onProgress: message => progress.report({ message })
+            }));
+
+            const summary = `Published ${path.basename(folderUri.fsPath)}: ${result.created.length} created, ${result.updated.length} updated, ` +
+                `${result.unchanged.length} unchanged, ${result.attachments.length} attachments uploaded`;
+            if (result.warnings.length > 0) {
+                vscode.window.showWarningMessage(`${summary}. Links to missing files left unchanged: ${result.warnings.join(', ')}`);
+            } else {
+                vscode.window.showInformationMessage(summary);
+            }
+            treeProvider.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to publish folder: ${error}`);
+        }
+    });
+
+    // Export a space or page subtree to Markdown files
+    const exportPagesCommand = vscode.commands.registerCommand('confluence.exportPages', async (item?: ConfluenceTreeItem) => {
+        const helper = helpers.getConfluenceHelper();
+        if (!helper) {
+            vscode.window.showErrorMessage('Confluence is not configured');
+            return;
+        }
+
+        let spaceKey = item?.contextValue === 'space' ? item.spaceKey : undefined;
+        let pageId = item?.contextValue === 'page' ? (item.itemId || item.page?.id) : undefined;
+        if (!spaceKey && !pageId) {
+            const scope = await vscode.window.showQuickPick(['Space', 'Page and its descendants'], {
+                placeHolder: 'What do you want to export?'
+            });
+            if (scope === 'Space') {
+                spaceKey = await vscode.window.showInputBox({ prompt: 'Enter space key (e.g., SPACE)', placeHolder: 'SPACE' });
+            } else if (scope) {
+                pageId = await vscode.window.showInputBox({ prompt: 'Enter the ID of the page to export', placeHolder: '123456' });
+            }
+            if (!spaceKey && !pageId) {
+                return;
+            }
+        }
+
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Export Here'
+        });
+        const folder = picked?.[0]?.fsPath;
+        if (!folder) {
+            return;
+        }
+
+        try {
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Exporting ${spaceKey ? `space ${spaceKey}` : `page ${pageId}`} from Confluence`,
+                cancellable: true
+            }, (progress, token) => exportPages(helper.withCancellation(token), {
+                folder,
+                spaceKey,
+                pageId,
+                onProgress: message => progress.report({ message })
+            }));
+
+            vscode.window.showInformationMessage(
+                `Exported to ${path.basename(folder)}: ${result.written.length} written, ${result.unchanged.length} unchanged, ` +
+                `${result.removed.length} removed, ${result.attachments.length} attachments downloaded`
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export from Confluence: ${error}`);
+        }
+    });
+
+    // Copy a page with its descendants, attachments and labels
+    const copyPageTreeCommand = vscode.commands.registerCommand('confluence.copyPageTree', async (item?: ConfluenceTreeItem) => {
+        const helper = helpers.getConfluenceHelper();
+        if (!helper) {
+            vscode.window.showErrorMessage('Confluence is not configured');
+            return;
+        }
+
+        const pageId = item?.itemId || item?.page?.id || await vscode.window.showInputBox({ prompt: 'Enter the ID of the page to copy', placeHolder: '123456' });
+        if (!pageId) {
+            return;
+        }
+        const targetSpaceKey = await vscode.window.showInputBox({
+            prompt: 'Enter the key of the space to copy into',
+            placeHolder: 'SPACE',
+            value: item?.spaceKey
+        });
+        if (!targetSpaceKey) {
+            return;
+        }
+        const targetParentId = await vscode.window.showInputBox({
+            prompt: 'Enter the ID of the page to copy under (leave empty for the top level of the space)',
+            placeHolder: '123456',
+            // Next to the original by default
+            value: item?.spaceKey === targetSpaceKey && item.parent?.contextValue === 'page' ? item.parent.itemId : undefined
+        });
+        if (targetParentId === undefined) {
+            return;
+        }
+        // Titles must be unique within a space, so copies in the same space need a prefix
+        const titlePrefix = await vscode.window.showInputBox({
+            prompt: 'Text to prepend to every copied title',
+            value: item?.spaceKey === targetSpaceKey ? 'Copy of ' : ''
+        });
+        if (titlePrefix === undefined) {
+            return;
+        }
+
+        try {
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Copying page tree to ${targetSpaceKey}`,
+                cancellable: true
+            }, (progress, token) => copyPageTree(helper.withCancellation(token), {
+                pageId,
+                targetSpaceKey,
+                targetParentId: targetParentId || undefined,
+                titlePrefix,
+                onProgress: message => progress.report({ message })
+            }));
+
+            vscode.window.showInformationMessage(
+                `Copied ${Object.keys(result.pages).length} pages with ${result.attachments} attachments and ${result.labels} labels`
+            );
+            treeProvider.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to copy page tree: ${error}`);
+        }
+    });
+
+    // The Page History view follows the Confluence YAML file in the active editor
+    const showPageHistory = (editor: vscode.TextEditor | undefined) => {
+        if (editor?.document.fileName.endsWith('.confluence.yaml')) {
+            const pageId = yamlConverters.yamlToPage(editor.document.getText()).id;
+            historyProvider.setPage(pageId && pageId !== 'new' ? pageId : undefined);
+        }
+    };
+    showPageHistory(vscode.window.activeTextEditor);
+    const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(showPageHistory);
+
+    const refreshPageHistoryCommand = vscode.commands.registerCommand('confluence.refreshPageHistory', () => historyProvider.refresh());
+
+    // Diff two selected versions, or one version against the version before it
+    const compareVersionsCommand = vscode.commands.registerCommand('confluence.compareVersions', async (item: PageVersionItem, selected?: PageVersionItem[]) => {
+        const versions = (selected && selected.length > 1 ? selected : [item]).map(version => version.version.number).sort((a, b) => a - b);
+        if (versions.length > 2) {
+            vscode.window.showErrorMessage('Select one or two versions to compare');
+            return;
+        }
+        const [older, newer] = versions.length === 2 ? versions : [versions[0] - 1, versions[0]];
+        if (older < 1) {
+            vscode.window.showInformationMessage('Version 1 has no previous version to compare with');
+            return;
+        }
+
+        const { pageId, pageTitle } = item;
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            ConfluencePageHistoryProvider.versionUri(pageId, older, pageTitle),
+            ConfluencePageHistoryProvider.versionUri(pageId, newer, pageTitle),
+            `${pageTitle}: v${older} ↔ v${newer}`
+        );
+    });
+
+    // Publish an old version's content as the newest version
+    const restoreVersionCommand = vscode.commands.registerCommand('confluence.restoreVersion', async (item: PageVersionItem) => {
+        const helper = helpers.getConfluenceHelper();
+        if (!helper) {
+            vscode.window.showErrorMessage('Confluence is not configured');
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Restore version ${item.version.number} of "${item.pageTitle}"?`,
+            { modal: true, detail: 'Its title and content are published as a new version; later versions stay in the history.' },
+            'Restore'
+        );
+        if (confirm !== 'Restore') {
+            return;
+        }
+
+        try {
+            const restored = await helper.restorePageVersion(item.pageId, item.version.number);
+            historyProvider.refresh();
+            // An open YAML copy of the page is now based on an outdated version
+            const choice = await vscode.window.showInformationMessage(
+                `Restored version ${item.version.number} of "${restored.title}" as version ${restored.version?.number}`,
+                'Reopen Page'
+            );
+            if (choice === 'Reopen Page') {
+                await vscode.commands.executeCommand('confluence.openPageYaml', item.pageId);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to restore version: ${error}`);
+        }
+    });
+
     context.subscriptions.push(
         openPageYamlCommand,
         openPageCommand,
         createPageYamlCommand,
         saveToConfluenceCommand,
         refreshTreeCommand,
+        loadMoreCommand,
+        revealActivePageCommand,
         addCommentCommand,
-        deletePageCommand
+        deletePageCommand,
+        publishFolderCommand,
+        exportPagesCommand,
+        copyPageTreeCommand,
+        activeEditorListener,
+        refreshPageHistoryCommand,
+        compareVersionsCommand,
+        restoreVersionCommand,
+        helperListener,
+        mergeContentProvider
     );
 }
 
+function editorFormat(): yamlConverters.PageFormat {
+    return vscode.workspace.getConfiguration('atlassianTools').get<yamlConverters.PageFormat>('confluenceEditorFormat') || 'storage';
+}
+
 async function openYamlDocument(content: string, pageId: string): Promise<void> {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     
@@ -1,24 +1,45 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { JiraHelper } from '../helpers/jiraHelper';
+import * as yaml from 'js-yaml';
+import { JiraHelper, JiraIssue } from '../helpers/jiraHelper';
+import { StatusChangeResult, TransitionInput, screenFields, transitionToStatus } from '../helpers/jiraTransitions';
+import { HelperRegistry } from '../utils/helperRegistry';
 import { JiraTreeItem, JiraTreeProvider } from '../ui/JiraTreeProvider';
 import { JiraIssueWebviewProvider } from '../ui/JiraIssueWebviewProvider';
+import { transitionPrompts } from '../ui/jiraTransitionPrompts';
 import * as yamlConverters from '../utils/jiraYamlConverters';
+import { FieldConflict, isStale, mergeIssueFields } from '../utils/jiraYamlMerge';
+
+// Read-only documents shown in merge diffs, keyed by URI path
+const MERGE_SCHEME = 'jira-merge';
 
 export function registerJiraCommands(
     context: vscode.ExtensionContext,
-    helper: JiraHelper | null,
+    helpers: HelperRegistry,
     treeProvider: JiraTreeProvider
 ): void {
-    const webviewProvider = helper ? new JiraIssueWebviewProvider(helper) : null;
+    const webviewProvider = new JiraIssueWebviewProvider(helpers.getJiraHelper());
+    const helperListener = helpers.onDidChangeHelpers(() => {
+        webviewProvider.setHelper(helpers.getJiraHelper());
+    });
     
+    const mergeDocuments = new Map<string, string>();
+    const mergeContentProvider = vscode.workspace.registerTextDocumentContentProvider(MERGE_SCHEME, {
+        provideTextDocumentContent: (uri) => mergeDocuments.get(uri.path) || ''
+    });
+    const showMergeDocument = (name: string, content: string): vscode.Uri => {
+        const uri = vscode.Uri.from({ scheme: MERGE_SCHEME, path: `/${name}.jira.yaml` });
+        mergeDocuments.set(uri.path, content);
+        return uri;
+    };
+
     // Watch for changes to YAML files and sync to preview
     const yamlWatcher = vscode.workspace.onDidSaveTextDocument(async (document) => {
         if (document.fileName.endsWith('.jira.yaml')) {
             // Extract issue key from filename
             const match = document.fileName.match(/([A-Z]+-\\d+)\\.jira\\.yaml$/);
-            if (match && webviewProvider) {
+            if (match) {
                 const issueKey = match[1];
                 // Refresh the preview
                 await JiraIssueWebviewProvider.syncFromYaml(issueKey);
@@ -28,6 +49,7 @@ export function registerJiraCommands(
     
     // Open issue in YAML editor
     const openIssueYamlCommand = vscode.commands.registerCommand('jira.openIssueYaml', async (issueKeyOrItem: string | JiraTreeItem) => {
+        const helper = helpers.getJiraHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Jira is not configured');
             return;
@@ -43,9 +65,11 @@ export function registerJiraCommands(
         try {
             const issue = await helper.getIssue(issueKey);
             const yamlContent = yamlConverters.issueToYaml(issue);
+            // Kept as the base for merging when the issue changes on Jira before the YAML is saved
+            await context.workspaceState.update(baseStateKey(issueKey), yamlContent);
             const yamlUri = await openYamlDocument(yamlContent, issueKey);
             // Pass the yamlUri to webview for syncing
-            if (webviewProvider && yamlUri) {
+            if (yamlUri) {
                 await webviewProvider.showIssue(issueKey, yamlUri);
             }
         } catch (error) {
@@ -65,7 +89,7 @@ export function registerJiraCommands(
         // Open both YAML editor and preview
         vscode.commands.executeCommand('jira.openIssueYaml', issueKey);
         
-        if (webviewProvider) {
+        if (helpers.getJiraHelper()) {
             await webviewProvider.showIssue(issueKey);
         }
     });
@@ -87,6 +111,7 @@ export function registerJiraCommands(
 
     // Save to Jira
     const saveToJiraCommand = vscode.commands.registerCommand('jira.saveToJira', async () => {
+        const helper = helpers.getJiraHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Jira is not configured');
             return;
@@ -118,7 +143,7 @@ export function registerJiraCommands(
                     projectKey,
                     yamlData.summary || 'New Issue',
                     yamlData.issuetype || 'Task',
-                    yamlData.description
+                    issueData.fields?.description
                 );
 
                 vscode.window.showInformationMessage(`Created issue: ${newIssue.key}`);
@@ -126,25 +151,110 @@ export function registerJiraCommands(
                 // Reopen with the new issue key
                 vscode.commands.executeCommand('jira.openIssueYaml', newIssue.key);
             } else if (issueData.key) {
-                // Update existing issue
-                const fields = yamlConverters.extractIssueFields(yamlContent);
-                await helper.updateIssue(issueData.key, fields);
+                // Update existing issue; the stored issue lets an untouched description be kept as is
+                const current = await helper.getIssue(issueData.key);
+                let localYaml = yamlContent;
+                if (isStale(yamlContent, current)) {
+                    const merged = await mergeWithJira(issueData.key, yamlContent, current);
+                    if (merged === undefined) {
+                        vscode.window.showInformationMessage(`Save of ${issueData.key} cancelled; the YAML was not changed`);
+                        return;
+                    }
+                    localYaml = merged;
+                }
+
+                // Each field is converted by the schema Jira reports for it; fields it does not offer for editing are skipped
+                const editMeta = await helper.getEditMetadata(issueData.key);
+                const { fields, skipped, people, status } = yamlConverters.issueFieldChanges(localYaml, current, editMeta.fields || {}, user => helper.userReference(user));
+
+                // People are saved as account IDs, which the reloaded YAML records for the next save
+                for (const change of people) {
+                    const reference = await resolvePerson(helper, issueData.key, change);
+                    if (reference === undefined) {
+                        vscode.window.showInformationMessage(`Save of ${issueData.key} cancelled; the YAML was not changed`);
+                        return;
+                    }
+                    fields[change.field] = reference;
+                }
+
+                if (Object.keys(fields).length > 0) {
+                    await helper.updateIssue(issueData.key, fields);
+                }
+
+                // Status is not a field; the issue is moved through its workflow, asking for what the screens need
+                // The fields are already saved, so a failed move is reported with them rather than failing the save
+                let statusChange: StatusChangeResult | undefined;
+                let statusError: unknown;
+                if (status) {
+                    try {
+                        statusChange = await transitionToStatus(helper, issueData.key, status, transitionPrompts(helper, issueData.key));
+                    } catch (error) {
+                        statusError = error;
+                    }
+                }
+
+                // Reload what Jira now holds so the next save merges against it
+                const saved = yamlConverters.issueToYaml(await helper.getIssue(issueData.key));
+                await context.workspaceState.update(baseStateKey(issueData.key), saved);
+                const edit = new vscode.WorkspaceEdit();
+                edit.replace(editor.document.uri, new vscode.Range(0, 0, editor.document.lineCount, 0), saved);
+                await vscode.workspace.applyEdit(edit);
                 
                 // Save the document to clear the unsaved mark
                 await editor.document.save();
                 
                 // Refresh the preview if open
-                if (webviewProvider) {
-                    await JiraIssueWebviewProvider.syncFromYaml(issueData.key);
-                }
+                await JiraIssueWebviewProvider.syncFromYaml(issueData.key);
                 
-                vscode.window.showInformationMessage(`Updated issue: ${issueData.key}`);
+                const notSaved = skipped.map(field => `${field.field} (${field.reason})`);
+                if (statusChange?.cancelled) {
+                    notSaved.push(`status (change to ${status} cancelled)`);
+                } else if (statusError) {
+                    notSaved.push(`status (change to ${status} failed: ${statusError})`);
+                }
+                const moved = statusChange && statusChange.transitions.length > 0 ? ` (${statusChange.transitions.join(' → ')})` : '';
+                if (notSaved.length > 0) {
+                    vscode.window.showWarningMessage(`Updated issue: ${issueData.key}${moved}. Not saved: ${notSaved.join(', ')}`);
+                } else {
+                    vscode.window.showInformationMessage(`Updated issue: ${issueData.key}${moved}`);
+                }
             }
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to save to Jira: ${error}`);
         }
     });
 
+    /**
+     * Merge the local YAML with the issue as it now is on Jira, asking about each field changed on both sides.
+     * Returns the merged YAML, or undefined when the user cancels.
+     */
+    const mergeWithJira = async (issueKey: string, localYaml: string, current: JiraIssue): Promise<string | undefined> => {
+        const baseYaml = context.workspaceState.get<string>(baseStateKey(issueKey));
+        const serverYaml = yamlConverters.issueToYaml(current);
+        const { fields, conflicts } = mergeIssueFields(baseYaml, serverYaml, localYaml);
+
+        if (conflicts.length > 0) {
+            const serverUri = showMergeDocument(`${issueKey} (Jira)`, serverYaml);
+            const localUri = showMergeDocument(`${issueKey} (local)`, localYaml);
+            if (baseYaml !== undefined) {
+                const baseUri = showMergeDocument(`${issueKey} (base)`, baseYaml);
+                await vscode.commands.executeCommand('vscode.diff', baseUri, serverUri, `${issueKey}: Base ↔ Jira`, { preview: true, preserveFocus: true });
+            }
+            await vscode.commands.executeCommand('vscode.diff', serverUri, localUri, `${issueKey}: Jira ↔ Local`, { preview: false, preserveFocus: true });
+
+            for (const conflict of conflicts) {
+                const choice = await pickConflictResolution(issueKey, conflict);
+                if (!choice) {
+                    return undefined;
+                }
+                fields[conflict.field] = choice === 'server' ? conflict.server : conflict.local;
+            }
+        }
+
+        const data = yaml.load(localYaml) as any;
+        return yamlConverters.dumpIssueYaml({ ...data, fields });
+    };
+
     // Refresh tree
     const refreshTreeCommand = vscode.commands.registerCommand('jira.refreshTree', () => {
         treeProvider.refresh();
@@ -153,6 +263,7 @@ export function registerJiraCommands(
 
     // Add comment
     const addCommentCommand = vscode.commands.registerCommand('jira.addComment', async (issueKeyOrItem: string | JiraTreeItem) => {
+        const helper = helpers.getJiraHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Jira is not configured');
             return;
@@ -184,6 +295,7 @@ export function registerJiraCommands(
 
     // Transition issue
     const transitionIssueCommand = vscode.commands.registerCommand('jira.transitionIssue', async (issueKeyOrItem: string | JiraTreeItem) => {
+        const helper = helpers.getJiraHelper();
         if (!helper) {
             vscode.window.showErrorMessage('Jira is not configured');
             return;
@@ -201,7 +313,7 @@ export function registerJiraCommands(
             const transitionNames = transitions.transitions.map((t: any) => ({
                 label: t.name,
                 description: t.to?.name || '',
-                id: t.id
+                transition: t
             }));
 
             const selected = await vscode.window.showQuickPick(transitionNames, {
@@ -212,7 +324,17 @@ export function registerJiraCommands(
                 return;
             }
 
-            await helper.transitionIssue(issueKey, (selected as any).id);
+            // The transition screen may need a resolution or other fields, and can take a comment
+            const { transition } = selected as any;
+            let input: TransitionInput | undefined = {};
+            if (Object.keys(transition.fields || {}).length > 0) {
+                input = await transitionPrompts(helper, issueKey).screenFields(transition, screenFields(transition).filter(field => field.required));
+                if (!input) {
+                    return;
+                }
+            }
+
+            await helper.transitionIssue(issueKey, transition.id, input.fields, input.update);
             vscode.window.showInformationMessage(`Transitioned ${issueKey} to ${(selected as any).label}`);
             
             // Refresh tree
@@ -230,10 +352,72 @@ export function registerJiraCommands(
         refreshTreeCommand,
         addCommentCommand,
         transitionIssueCommand,
-        yamlWatcher
+        yamlWatcher,
+        helperListener,
+        mergeContentProvider
     );
 }
 
+function baseStateKey(issueKey: string): string {
+    return `jira.yamlBase.${issueKey}`;
+}
+
+async function pickConflictResolution(issueKey: string, conflict: FieldConflict): Promise<'local' | 'server' | undefined> {
+    const items: (vscode.QuickPickItem & { resolution: 'local' | 'server' })[] = [
+        { label: 'Keep my change', detail: describeValue(conflict.local), resolution: 'local' },
+        { label: 'Use the value on Jira', detail: describeValue(conflict.server), resolution: 'server' }
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+        title: `${issueKey}: ${conflict.field} was changed on Jira and locally`,
+        placeHolder: conflict.base !== undefined ? `When loaded: ${describeValue(conflict.base)}` : 'Choose the value to save',
+        ignoreFocusOut: true
+    });
+    return picked?.resolution;
+}
+
+/**
+ * The Jira user for a person changed in the YAML. An account ID is used as is; an email address or name is searched
+ * for (among assignable users for the assignee), taking a single match and offering several in a quick pick.
+ * Returns null to clear the field and undefined when the pick is cancelled; throws when nobody matches.
+ */
+async function resolvePerson(helper: JiraHelper, issueKey: string, change: yamlConverters.PersonChange): Promise<any> {
+    if (!change.value) {
+        return null;
+    }
+    if (change.by === 'id') {
+        return helper.userReference({ accountId: change.value, name: change.value });
+    }
+
+    const users: any[] = change.field === 'assignee'
+        ? await helper.findAssignableUsers(change.value, undefined, issueKey)
+        : await helper.searchUsers(change.value);
+    const wanted = change.value.toLowerCase();
+    const exact = users.filter(user => String((change.by === 'email' ? user.emailAddress : user.displayName) || '').toLowerCase() === wanted);
+    const candidates = exact.length > 0 ? exact : users;
+
+    if (candidates.length === 0) {
+        const key = change.by === 'email' ? `${change.field}Email` : change.field;
+        throw new Error(`${key}: no ${change.field === 'assignee' ? 'assignable ' : ''}Jira user matches "${change.value}"`);
+    }
+    if (candidates.length === 1) {
+        return helper.userReference(candidates[0]);
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        candidates.map(user => ({ label: user.displayName || user.name || user.accountId, description: user.emailAddress, detail: user.accountId || user.name, user })),
+        { title: `${issueKey}: several users match "${change.value}" for ${change.field}`, placeHolder: 'Choose the user to save', ignoreFocusOut: true }
+    );
+    return picked && helper.userReference(picked.user);
+}
+
+function describeValue(value: any): string {
+    if (value === undefined || value === null || value === '') {
+        return '(empty)';
+    }
+    const text = (typeof value === 'string' ? value : JSON.stringify(value)).replace(/\n/g, ' ⏎ ');
+    return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
 async function openYamlDocument(content: string, issueKey: string): Promise<vscode.Uri | undefined> {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     
@@ -1,46 +1,123 @@
 import * as vscode from 'vscode';
-import { JiraHelper } from './helpers/jiraHelper';
-import { ConfluenceHelper } from './helpers/confluenceHelper';
-import { loadAtlassianConfig, validateAtlassianConfig } from './utils/configLoader';
+import { API_TOKEN_SECRET_KEY, migratePlaintextApiToken } from './utils/credentialStore';
+import { HelperRegistry } from './utils/helperRegistry';
+import { getDefaultSiteName, loadSiteConfigs } from './utils/siteProfiles';
 import { registerJiraTools } from './tools/jiraTools';
 import { registerConfluenceTools } from './tools/confluenceTools';
 import { JiraTreeProvider } from './ui/JiraTreeProvider';
 import { ConfluenceTreeProvider } from './ui/ConfluenceTreeProvider';
+import { ConfluenceTreeDragAndDropController } from './ui/ConfluenceTreeDragAndDropController';
+import { ConfluencePageHistoryProvider } from './ui/ConfluencePageHistoryProvider';
+import { SiteStatusBar } from './ui/SiteStatusBar';
+import { AtlassianYamlSchemaProvider } from './ui/AtlassianYamlSchemaProvider';
 import { registerJiraCommands } from './commands/jiraCommands';
 import { registerConfluenceCommands } from './commands/confluenceCommands';
+import { registerAuthCommands } from './commands/authCommands';
 
-export function activate(context: vscode.ExtensionContext) {
+/**
+ * Settings that change how helpers connect; editing any of them rebuilds the helpers
+ */
+const CONNECTION_SETTINGS = [
+    'atlassianBaseUrl',
+    'atlassianEmail',
+    'atlassianApiToken',
+    'deploymentType',
+    'confluenceBaseUrl',
+    'sites'
+];
+
+export async function activate(context: vscode.ExtensionContext) {
     console.log('Atlassian Tools extension is now active');
 
-    const config = loadAtlassianConfig();
+    const helpers = new HelperRegistry();
+
+    // Move any plaintext token from settings into secret storage
+    if (await migratePlaintextApiToken(context.secrets)) {
+        vscode.window.showInformationMessage('Atlassian Tools: Your API token was moved from settings to secure storage.');
+    }
+
+    const reloadHelpers = async () => {
+        const configs = await loadSiteConfigs(context.secrets);
+        helpers.update(configs, helpers.getActiveSite() || getDefaultSiteName());
+    };
 
-    const jiraHelper = config && validateAtlassianConfig(config) 
-        ? new JiraHelper(config)
-        : null;
+    // Drive the "Configure Atlassian" welcome views
+    const updateContextKeys = () => {
+        vscode.commands.executeCommand('setContext', 'atlassianTools.jiraConfigured', !!helpers.getJiraHelper());
+        vscode.commands.executeCommand('setContext', 'atlassianTools.confluenceConfigured', !!helpers.getConfluenceHelper());
+    };
+    const contextKeyListener = helpers.onDidChangeHelpers(updateContextKeys);
 
-    const confluenceHelper = config && validateAtlassianConfig(config)
-        ? new ConfluenceHelper(config)
-        : null;
+    await reloadHelpers();
 
-    if (!jiraHelper || !confluenceHelper) {
-        console.warn('Atlassian Tools: Configuration not found or invalid. Please configure Jira and Confluence settings.');
+    if (!helpers.getJiraHelper() || !helpers.getConfluenceHelper()) {
+        console.warn('Atlassian Tools: Configuration not found or invalid. Run "Atlassian: Sign In" to configure Jira and Confluence.');
     }
 
     // Register language-model tools
-    registerJiraTools(context, jiraHelper);
-    registerConfluenceTools(context, confluenceHelper);
+    registerJiraTools(context, helpers);
+    registerConfluenceTools(context, helpers);
 
     // Register tree providers
-    const jiraTreeProvider = new JiraTreeProvider(jiraHelper);
-    const confluenceTreeProvider = new ConfluenceTreeProvider(confluenceHelper);
+    const jiraTreeProvider = new JiraTreeProvider(helpers.getJiraHelper());
+    const confluenceTreeProvider = new ConfluenceTreeProvider(helpers.getConfluenceHelper());
 
     vscode.window.registerTreeDataProvider('jiraTreeView', jiraTreeProvider);
-    vscode.window.registerTreeDataProvider('confluenceTreeView', confluenceTreeProvider);
+    // A tree view rather than a bare provider, so pages can be revealed in it and dragged between parents
+    const confluenceTreeView = vscode.window.createTreeView('confluenceTreeView', {
+        treeDataProvider: confluenceTreeProvider,
+        dragAndDropController: new ConfluenceTreeDragAndDropController(helpers, confluenceTreeProvider),
+        canSelectMany: true
+    });
+
+    // Versions of the page open in the editor; two can be selected for comparison
+    const pageHistoryProvider = new ConfluencePageHistoryProvider(helpers.getConfluenceHelper());
+    const pageHistoryView = vscode.window.createTreeView('confluencePageHistoryView', { treeDataProvider: pageHistoryProvider, canSelectMany: true });
+    const pageVersionContentProvider = vscode.workspace.registerTextDocumentContentProvider(ConfluencePageHistoryProvider.scheme, pageHistoryProvider);
+
+    const siteStatusBar = new SiteStatusBar(helpers);
+
+    // Diagnostics and completions for issue YAML and page frontmatter, checked against the site's metadata
+    const yamlSchemaProvider = new AtlassianYamlSchemaProvider(helpers);
+
+    // Rebuilt helpers (sign-in, sign-out, site switch, token changed in another window) flow into the trees
+    const helperListener = helpers.onDidChangeHelpers(() => {
+        jiraTreeProvider.setHelper(helpers.getJiraHelper());
+        confluenceTreeProvider.setHelper(helpers.getConfluenceHelper());
+        pageHistoryProvider.setHelper(helpers.getConfluenceHelper());
+    });
+
+    const secretListener = context.secrets.onDidChange((event) => {
+        if (event.key.startsWith(API_TOKEN_SECRET_KEY)) {
+            reloadHelpers().catch(error =>
+                vscode.window.showErrorMessage(`Atlassian Tools: Failed to reload the configuration: ${error}`));
+        }
+    });
+
+    // Settings edited by hand (or synced) take effect without reloading the window
+    const configListener = vscode.workspace.onDidChangeConfiguration(async (event) => {
+        if (event.affectsConfiguration('atlassianTools.atlassianApiToken')) {
+            // A token pasted into settings is moved to secret storage
+            await migratePlaintextApiToken(context.secrets);
+        }
+
+        if (CONNECTION_SETTINGS.some(setting => event.affectsConfiguration(`atlassianTools.${setting}`))) {
+            await reloadHelpers();
+        } else if (event.affectsConfiguration('atlassianTools.defaultSite')) {
+            const defaultSite = getDefaultSiteName();
+            if (defaultSite && defaultSite !== helpers.getActiveSite() && helpers.getSiteNames().includes(defaultSite)) {
+                helpers.setActiveSite(defaultSite);
+            }
+        }
+    });
 
     // Register UI commands (includes refresh commands)
-    registerJiraCommands(context, jiraHelper, jiraTreeProvider);
-    registerConfluenceCommands(context, confluenceHelper, confluenceTreeProvider);
-    
+    registerJiraCommands(context, helpers, jiraTreeProvider);
+    registerConfluenceCommands(context, helpers, confluenceTreeProvider, confluenceTreeView, pageHistoryProvider);
+    registerAuthCommands(context, helpers, reloadHelpers);
+
+    context.subscriptions.push(helpers, confluenceTreeView, pageHistoryView, pageVersionContentProvider, siteStatusBar, yamlSchemaProvider, helperListener, contextKeyListener, secretListener, configListener);
+
     console.log('Atlassian Tools: All tools, tree providers, and commands registered successfully');
 }
 
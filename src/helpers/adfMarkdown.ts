@@ -0,0 +1,1315 @@
+/**
+ * Conversion between Atlassian Document Format (ADF) and Markdown.
+ *
+ * Jira Cloud stores descriptions and comments as ADF; the YAML editor, the issue preview and the
+ * language model tools work with Markdown instead. Beyond CommonMark/GFM the Markdown dialect covers:
+ * - mentions:        @[Display Name](accountId)
+ * - emoji:           :shortname:
+ * - inline cards:    <https://example.com/browse/PROJ-1>
+ * - status lozenges: :status[IN REVIEW]{color=blue}
+ * - dates:           :date[2024-05-01]
+ * - panels:          > [!WARNING] on the first line of a block quote
+ * - media:           ![alt](media:<id>) placeholders for attachments
+ *
+ * A line break inside a paragraph is a hard break. Nodes without a Markdown form (expands, layouts,
+ * extensions, ...) are kept verbatim as JSON in an ```adf fenced block, or an <!--adf ...--> comment
+ * when inline, so they survive a round trip.
+ */
+
+import { randomUUID } from 'crypto';
+import { isAdfDocument } from './jiraWikiMarkup';
+
+export interface AdfMark {
+    type: string;
+    attrs?: Record<string, any>;
+}
+
+export interface AdfNode {
+    type: string;
+    attrs?: Record<string, any>;
+    content?: AdfNode[];
+    marks?: AdfMark[];
+    text?: string;
+}
+
+export interface AdfDocument {
+    type: 'doc';
+    version: 1;
+    content: AdfNode[];
+}
+
+// =============================================================================
+// ADF -> Markdown
+// =============================================================================
+
+/** Marks in the order they are nested, outermost first */
+const MARK_ORDER = ['link', 'strike', 'strong', 'em', 'underline', 'subsup', 'code'];
+
+/** Marks that Markdown cannot express; their text is kept without them */
+const DROPPED_MARKS = new Set(['textColor', 'backgroundColor', 'border', 'annotation', 'alignment', 'indentation', 'breakout']);
+
+const PANEL_TYPES = new Set(['info', 'note', 'warning', 'error', 'success', 'tip', 'custom']);
+
+/**
+ * Convert an ADF document to Markdown
+ */
+export function adfToMarkdown(adf: any): string {
+    if (!isAdfDocument(adf)) {
+        return '';
+    }
+    return blocksToMarkdown(adf.content);
+}
+
+/**
+ * Markdown for a rich text field value: ADF is converted, strings (Data Center wiki markup) pass through
+ */
+export function richTextToMarkdown(value: any): string {
+    if (!value) {
+        return '';
+    }
+    if (typeof value === 'string') {
+        return value;
+    }
+    return adfToMarkdown(value);
+}
+
+function blocksToMarkdown(nodes: AdfNode[]): string {
+    const blocks: string[] = [];
+    let previousFamily: string | undefined;
+    let alternate = false;
+    for (const node of nodes) {
+        // Adjacent lists of the same kind would merge, so every other one uses the alternative marker
+        const family = listFamily(node);
+        alternate = family !== undefined && family === previousFamily && !alternate;
+        previousFamily = family;
+        blocks.push(blockToMarkdown(node, alternate));
+    }
+    return blocks.filter(block => block !== '').join('\n\n');
+}
+
+function listFamily(node: AdfNode): string | undefined {
+    if (node.type === 'bulletList' || node.type === 'taskList') {
+        return 'bullet';
+    }
+    return node.type === 'orderedList' ? 'ordered' : undefined;
+}
+
+function blockToMarkdown(node: AdfNode, alternate: boolean = false): string {
+    const content = node.content || [];
+
+    switch (node.type) {
+        case 'paragraph':
+            return escapeLineStarts(inlineToMarkdown(content));
+        case 'heading': {
+            const level = Math.min(Math.max(node.attrs?.level || 1, 1), 6);
+            return `${'#'.repeat(level)} ${inlineToMarkdown(content).replace(/\\\n/g, ' ')}`.trimEnd();
+        }
+        case 'bulletList':
+            return content.map(item => listItemToMarkdown(item, alternate ? '* ' : '- ')).join('\n');
+        case 'orderedList': {
+            const start = node.attrs?.order ?? 1;
+            return content.map((item, index) => listItemToMarkdown(item, `${start + index}${alternate ? ')' : '.'} `)).join('\n');
+        }
+        case 'taskList':
+            return content.map(item => taskNodeToMarkdown(item, alternate ? '*' : '-')).join('\n');
+        case 'codeBlock':
+            return codeBlockToMarkdown(node);
+        case 'blockquote':
+            return quote(blocksToMarkdown(content));
+        case 'panel': {
+            const panelType = node.attrs?.panelType || 'info';
+            if (!PANEL_TYPES.has(panelType) || panelType === 'custom') {
+                return rawBlock(node);
+            }
+            return quote(`[!${panelType.toUpperCase()}]\n${blocksToMarkdown(content)}`);
+        }
+        case 'rule':
+            return '---';
+        case 'table':
+            return tableToMarkdown(node);
+        case 'mediaSingle':
+            return content.length === 1 && content[0].type === 'media' ? mediaToMarkdown(content[0]) : rawBlock(node);
+        case 'mediaGroup':
+            return content.every(media => media.type === 'media' && media.attrs?.type === 'file')
+                ? content.map(fileToMarkdown).join(' ')
+                : rawBlock(node);
+        default:
+            return rawBlock(node);
+    }
+}
+
+function listItemToMarkdown(item: AdfNode, marker: string): string {
+    const indent = ' '.repeat(marker.length);
+    const children = item.content || [];
+    const parts: string[] = [];
+    children.forEach((child, index) => {
+        const markdown = blockToMarkdown(child);
+        // Nested lists stay tight against the preceding paragraph, except ordered lists not starting at 1,
+        // which cannot interrupt a paragraph; further paragraphs need a blank line
+        const tight = listFamily(child) !== undefined && (child.attrs?.order ?? 1) === 1;
+        parts.push(index === 0 ? '' : (tight ? '\n' : '\n\n'));
+        parts.push(markdown);
+    });
+    const body = parts.join('').split('\n').map((line, index) => (index === 0 || line === '' ? line : indent + line)).join('\n');
+    return `${marker}${body}`;
+}
+
+function taskNodeToMarkdown(node: AdfNode, marker: string): string {
+    if (node.type === 'taskList') {
+        // Nested task lists are siblings of the items they belong under
+        return (node.content || []).map(item => taskNodeToMarkdown(item, marker)).join('\n').split('\n').map(line => `  ${line}`).join('\n');
+    }
+    const checked = node.attrs?.state === 'DONE' ? 'x' : ' ';
+    const text = inlineToMarkdown(node.content || []).split('\n').map((line, index) => (index === 0 ? line : `  ${line}`)).join('\n');
+    return `${marker} [${checked}] ${text}`.trimEnd();
+}
+
+function codeBlockToMarkdown(node: AdfNode): string {
+    const text = (node.content || []).map(child => child.text || '').join('');
+    const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${fence}${node.attrs?.language || ''}\n${text}\n${fence}`;
+}
+
+function quote(markdown: string): string {
+    return markdown.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+function tableToMarkdown(node: AdfNode): string {
+    const rows = node.content || [];
+    const header = rows[0]?.content || [];
+    const representable = rows.length > 0
+        && header.length > 0
+        && header.every(cell => cell.type === 'tableHeader')
+        && rows.every(row => (row.content || []).length === header.length && (row.content || []).every(cell =>
+            (cell.attrs?.colspan ?? 1) === 1
+            && (cell.attrs?.rowspan ?? 1) === 1
+            && (cell.content || []).every(block => block.type === 'paragraph')));
+    if (!representable) {
+        return rawBlock(node);
+    }
+
+    const toRow = (row: AdfNode) => `| ${(row.content || []).map(cellToMarkdown).join(' | ')} |`;
+    return [
+        toRow(rows[0]),
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...rows.slice(1).map(toRow)
+    ].join('\n');
+}
+
+function cellToMarkdown(cell: AdfNode): string {
+    return (cell.content || [])
+        .map(paragraph => inlineToMarkdown(paragraph.content || [], true))
+        .join('<br><br>');
+}
+
+/**
+ * Images (mediaSingle) become `![alt](media:<id>)`; attachments in a mediaGroup become `[alt](media:<id>)` links
+ */
+function mediaToMarkdown(media: AdfNode): string {
+    const alt = escapeText(media.attrs?.alt || '');
+    if (media.attrs?.type === 'external' && media.attrs?.url) {
+        return `![${alt}](${linkDestination(media.attrs.url)})`;
+    }
+    return `![${alt}](${mediaUrl(media)})`;
+}
+
+function fileToMarkdown(media: AdfNode): string {
+    return `[${escapeText(media.attrs?.alt || media.attrs?.id || '')}](${mediaUrl(media)})`;
+}
+
+function mediaUrl(media: AdfNode): string {
+    const collection = media.attrs?.collection ? `?collection=${encodeURIComponent(media.attrs.collection)}` : '';
+    return `media:${media.attrs?.id || ''}${collection}`;
+}
+
+function rawBlock(node: AdfNode): string {
+    return `\`\`\`adf\n${JSON.stringify(node, null, 2)}\n\`\`\``;
+}
+
+function inlineToMarkdown(nodes: AdfNode[], inTable: boolean = false): string {
+    return inlineRunToMarkdown(mergeTextNodes(nodes.map(stripDroppedMarks)), 0, inTable);
+}
+
+/**
+ * Emit a run of inline nodes, opening each mark once around the longest stretch of nodes that share it
+ */
+function inlineRunToMarkdown(nodes: AdfNode[], depth: number, inTable: boolean): string {
+    let result = '';
+    let index = 0;
+    while (index < nodes.length) {
+        const node = nodes[index];
+        const mark = outermostMark(node);
+        if (!mark) {
+            result += inlineNodeToMarkdown(node, inTable);
+            index++;
+            continue;
+        }
+
+        let end = index + 1;
+        while (end < nodes.length && (nodes[end].marks || []).some(other => sameMark(other, mark))) {
+            end++;
+        }
+        const inner = nodes.slice(index, end).map(child => ({
+            ...child,
+            marks: (child.marks || []).filter(other => !sameMark(other, mark))
+        }));
+        // Emphasis touching a "**" on either side would read as a longer run, so it switches to underscores
+        const touchesAsterisks = result.endsWith('*') || (nodes[end]?.marks || []).some(other => other.type === 'strong');
+        result += wrapMark(mark, inner, depth, inTable, touchesAsterisks);
+        index = end;
+    }
+    return result;
+}
+
+function wrapMark(mark: AdfMark, nodes: AdfNode[], depth: number, inTable: boolean, touchesAsterisks: boolean): string {
+    if (mark.type === 'code') {
+        const text = nodes.map(node => node.text || '').join('');
+        const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(longestRun + 1);
+        const padded = text.startsWith('`') || text.endsWith('`') ? ` ${text} ` : text;
+        return `${fence}${inTable ? padded.replace(/\|/g, '\\|') : padded}${fence}`;
+    }
+
+    const inner = inlineRunToMarkdown(nodes, depth + 1, inTable);
+    if (mark.type === 'link') {
+        return `[${inner}](${linkDestination(mark.attrs?.href || '')})`;
+    }
+
+    // Emphasis delimiters must hug the text, so surrounding whitespace moves outside them
+    const [, leading, text, trailing] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/) || ['', '', inner, ''];
+    if (!text) {
+        return inner;
+    }
+    switch (mark.type) {
+        case 'strong':
+            return `${leading}**${text}**${trailing}`;
+        case 'em':
+            return touchesAsterisks ? `${leading}_${text}_${trailing}` : `${leading}*${text}*${trailing}`;
+        case 'strike':
+            return `${leading}~~${text}~~${trailing}`;
+        case 'underline':
+            return `${leading}<u>${text}</u>${trailing}`;
+        case 'subsup': {
+            const tag = mark.attrs?.type === 'sub' ? 'sub' : 'sup';
+            return `${leading}<${tag}>${text}</${tag}>${trailing}`;
+        }
+        default:
+            return inner;
+    }
+}
+
+function inlineNodeToMarkdown(node: AdfNode, inTable: boolean): string {
+    switch (node.type) {
+        case 'text': {
+            const escaped = escapeText(node.text || '');
+            return inTable ? escaped.replace(/\|/g, '\\|') : escaped;
+        }
+        case 'hardBreak':
+            return inTable ? '<br>' : '\\\n';
+        case 'mention': {
+            const name = String(node.attrs?.text || '').replace(/^@/, '');
+            return `@[${escapeText(name)}](${node.attrs?.id || ''})`;
+        }
+        case 'emoji': {
+            const shortName = String(node.attrs?.shortName || '').replace(/^:|:$/g, '');
+            return shortName ? `:${shortName}:` : (node.attrs?.text || '');
+        }
+        case 'inlineCard':
+            return node.attrs?.url ? `<${node.attrs.url}>` : rawInline(node);
+        case 'status': {
+            const color = node.attrs?.color && node.attrs.color !== 'neutral' ? `{color=${node.attrs.color}}` : '';
+            return `:status[${escapeText(node.attrs?.text || '')}]${color}`;
+        }
+        case 'date': {
+            const timestamp = Number(node.attrs?.timestamp);
+            return Number.isFinite(timestamp) ? `:date[${new Date(timestamp).toISOString().slice(0, 10)}]` : rawInline(node);
+        }
+        case 'mediaInline':
+            return mediaToMarkdown(node);
+        default:
+            return rawInline(node);
+    }
+}
+
+function rawInline(node: AdfNode): string {
+    // '>' only occurs inside JSON strings, where the escape keeps the comment from closing early
+    return `<!--adf ${JSON.stringify(node).replace(/>/g, '\\u003e')}-->`;
+}
+
+function outermostMark(node: AdfNode): AdfMark | undefined {
+    const marks = node.marks || [];
+    return [...marks].sort((a, b) => markRank(a) - markRank(b))[0];
+}
+
+function markRank(mark: AdfMark): number {
+    const rank = MARK_ORDER.indexOf(mark.type);
+    return rank === -1 ? MARK_ORDER.length : rank;
+}
+
+function sameMark(a: AdfMark, b: AdfMark): boolean {
+    return a.type === b.type && JSON.stringify(a.attrs || {}) === JSON.stringify(b.attrs || {});
+}
+
+function stripDroppedMarks(node: AdfNode): AdfNode {
+    if (!node.marks) {
+        return node;
+    }
+    const stripped: AdfNode = { ...node, marks: node.marks.filter(mark => !DROPPED_MARKS.has(mark.type)) };
+    if (stripped.marks!.length === 0) {
+        delete stripped.marks;
+    }
+    return stripped;
+}
+
+function escapeText(text: string): string {
+    return text
+        .replace(/[\\`[\]<]/g, '\\$&')
+        .replace(/~(?=~)|(?<=~)~/g, '\\~')
+        // A lone asterisk between spaces and an underscore inside a word cannot start emphasis
+        .replace(/\*/g, (match, offset: number, source: string) => (isSpace(source[offset - 1]) && isSpace(source[offset + 1]) ? '*' : '\\*'))
+        .replace(/_/g, (match, offset: number, source: string) => (isWordChar(source[offset - 1]) && isWordChar(source[offset + 1]) ? '_' : '\\_'))
+        .replace(/:(?=[A-Za-z0-9_+-]*[A-Za-z][A-Za-z0-9_+-]*:)/g, '\\:');
+}
+
+function isSpace(char: string | undefined): boolean {
+    return char !== undefined && /\s/.test(char);
+}
+
+function isWordChar(char: string | undefined): boolean {
+    return char !== undefined && /[A-Za-z0-9]/.test(char);
+}
+
+/**
+ * Escape characters that would turn the start of a paragraph line into another block
+ */
+function escapeLineStarts(markdown: string): string {
+    return markdown.replace(/(^|\n)( {0,3})([#>+=-]|\d+(?=[.)]))/g, (match, newline, spaces, marker) =>
+        /^\d/.test(marker) ? match.replace(/(\d+)$/, '$1\\') : `${newline}${spaces}\\${marker}`);
+}
+
+function linkDestination(url: string): string {
+    return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+// =============================================================================
+// Markdown -> ADF
+// =============================================================================
+
+/**
+ * Convert Markdown to an ADF document.
+ * When the document the Markdown was generated from is given, blocks whose Markdown is unchanged are
+ * taken from it as they were, keeping what Markdown cannot express (colours, media sizes, local ids, ...).
+ */
+export function markdownToAdf(markdown: string, original?: any): AdfDocument {
+    const lines = (markdown || '').replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+    const content = parseBlocks(lines);
+    return { type: 'doc', version: 1, content: isAdfDocument(original) ? reuseOriginalBlocks(content, original.content) : content };
+}
+
+function reuseOriginalBlocks(blocks: AdfNode[], originals: AdfNode[]): AdfNode[] {
+    const unused = new Map<string, AdfNode[]>();
+    for (const node of originals) {
+        const markdown = blockToMarkdown(node);
+        unused.set(markdown, [...(unused.get(markdown) || []), node]);
+    }
+    return blocks.map(block => unused.get(blockToMarkdown(block))?.shift() || block);
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function parseBlocks(lines: string[]): AdfNode[] {
+    const blocks: AdfNode[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+
+        if (line.trim() === '') {
+            index++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            index = parseFencedBlock(lines, index, fence, blocks);
+            continue;
+        }
+
+        const heading = line.match(ATX_HEADING);
+        if (heading) {
+            blocks.push(withContent({ type: 'heading', attrs: { level: heading[1].length } }, parseInline(heading[2] || '')));
+            index++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            index++;
+            continue;
+        }
+
+        if (/^ {0,3}>/.test(line)) {
+            const quoted: string[] = [];
+            while (index < lines.length && /^ {0,3}>/.test(lines[index])) {
+                quoted.push(lines[index].replace(/^ {0,3}> ?/, ''));
+                index++;
+            }
+            blocks.push(quoteToAdf(quoted));
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            index = parseList(lines, index, blocks);
+            continue;
+        }
+
+        if (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]) && lines[index + 1].includes('-')) {
+            index = parseTable(lines, index, blocks);
+            continue;
+        }
+
+        index = parseParagraph(lines, index, blocks);
+    }
+
+    return blocks;
+}
+
+function parseFencedBlock(lines: string[], start: number, fence: RegExpMatchArray, blocks: AdfNode[]): number {
+    const [, marker, language] = fence;
+    const body: string[] = [];
+    let index = start + 1;
+    while (index < lines.length && !new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[index])) {
+        body.push(lines[index]);
+        index++;
+    }
+    const text = body.join('\n');
+
+    if (language === 'adf') {
+        try {
+            const node = JSON.parse(text);
+            if (node && typeof node.type === 'string') {
+                blocks.push(node);
+                return index + 1;
+            }
+        } catch {
+            // Not valid JSON: keep it as an ordinary code block
+        }
+    }
+
+    blocks.push(withContent(
+        { type: 'codeBlock', ...(language && { attrs: { language } }) },
+        text ? [{ type: 'text', text }] : []
+    ));
+    return index + 1;
+}
+
+function quoteToAdf(lines: string[]): AdfNode {
+    const panel = lines[0]?.match(/^\s*\[!(\w+)\]\s*$/);
+    if (panel && PANEL_TYPES.has(panel[1].toLowerCase())) {
+        return { type: 'panel', attrs: { panelType: panel[1].toLowerCase() }, content: parseBlocks(lines.slice(1)) };
+    }
+    return { type: 'blockquote', content: parseBlocks(lines) };
+}
+
+interface ListItemLines {
+    marker: string;
+    lines: string[];
+}
+
+function parseList(lines: string[], start: number, blocks: AdfNode[]): number {
+    const first = lines[start].match(LIST_ITEM)!;
+    const baseIndent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    const delimiter = first[2].slice(-1);
+    const items: ListItemLines[] = [];
+    let index = start;
+
+    while (index < lines.length) {
+        const match = lines[index].match(LIST_ITEM);
+        if (!match || match[1].length !== baseIndent || /\d/.test(match[2]) !== ordered || match[2].slice(-1) !== delimiter) {
+            break;
+        }
+        // A rule written with list markers is not a list item
+        if (RULE.test(lines[index])) {
+            break;
+        }
+
+        const contentIndent = baseIndent + match[2].length + (match[3].length > 4 || match[4] === '' ? 1 : match[3].length);
+        const item: ListItemLines = { marker: match[2], lines: [match[4]] };
+        index++;
+
+        while (index < lines.length) {
+            const line = lines[index];
+            if (line.trim() === '') {
+                // A blank line continues the item only when indented content follows
+                const next = lines.slice(index + 1).find(candidate => candidate.trim() !== '');
+                if (next === undefined || leadingSpaces(next) < contentIndent) {
+                    break;
+                }
+                item.lines.push('');
+            } else if (leadingSpaces(line) >= contentIndent) {
+                item.lines.push(line.slice(contentIndent));
+            } else if (!LIST_ITEM.test(line) && !startsBlock(line) && item.lines[item.lines.length - 1].trim() !== '') {
+                // Lazy continuation of the item's paragraph
+                item.lines.push(line.trim());
+            } else {
+                break;
+            }
+            index++;
+        }
+        items.push(item);
+
+        // Items separated by a blank line still belong to the same list
+        if (index < lines.length && lines[index].trim() === '') {
+            const next = lines.slice(index).findIndex(candidate => candidate.trim() !== '');
+            if (next !== -1 && LIST_ITEM.test(lines[index + next]) && lines[index + next].match(LIST_ITEM)![1].length === baseIndent) {
+                index += next;
+            }
+        }
+    }
+
+    if (!ordered && items.every(item => /^\[[ xX]\](\s|$)/.test(item.lines[0]))) {
+        blocks.push(taskListToAdf(items));
+    } else if (ordered) {
+        const order = parseInt(first[2], 10);
+        blocks.push({
+            type: 'orderedList',
+            ...(order !== 1 && { attrs: { order } }),
+            content: items.map(item => listItemToAdf(item.lines))
+        });
+    } else {
+        blocks.push({ type: 'bulletList', content: items.map(item => listItemToAdf(item.lines)) });
+    }
+    return index;
+}
+
+function listItemToAdf(lines: string[]): AdfNode {
+    const content = parseBlocks(lines);
+    return { type: 'listItem', content: content.length > 0 ? content : [{ type: 'paragraph' }] };
+}
+
+function taskListToAdf(items: ListItemLines[]): AdfNode {
+    const content: AdfNode[] = [];
+    for (const item of items) {
+        const state = /^\[[xX]\]/.test(item.lines[0]) ? 'DONE' : 'TODO';
+        const blocks = parseBlocks([item.lines[0].replace(/^\[[ xX]\]\s?/, ''), ...item.lines.slice(1)]);
+        const inline: AdfNode[] = [];
+        const nested: AdfNode[] = [];
+        for (const block of blocks) {
+            if (block.type === 'taskList') {
+                nested.push(block);
+            } else if (block.content) {
+                // Task items hold inline content only
+                inline.push(...(inline.length > 0 ? [{ type: 'hardBreak' }] : []), ...inlineContentOf(block));
+            }
+        }
+        content.push(withContent({ type: 'taskItem', attrs: { localId: newLocalId(), state } }, inline), ...nested);
+    }
+    return { type: 'taskList', attrs: { localId: newLocalId() }, content };
+}
+
+function inlineContentOf(block: AdfNode): AdfNode[] {
+    if (block.type === 'paragraph' || block.type === 'heading') {
+        return block.content || [];
+    }
+    return (block.content || []).flatMap(inlineContentOf);
+}
+
+function parseTable(lines: string[], start: number, blocks: AdfNode[]): number {
+    const header = splitTableRow(lines[start]);
+    const rows: AdfNode[] = [tableRowToAdf(header, 'tableHeader', header.length)];
+    let index = start + 2;
+    while (index < lines.length && lines[index].trim() !== '' && lines[index].includes('|')) {
+        rows.push(tableRowToAdf(splitTableRow(lines[index]), 'tableCell', header.length));
+        index++;
+    }
+    blocks.push({ type: 'table', content: rows });
+    return index;
+}
+
+function splitTableRow(line: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    const trimmed = line.trim().replace(/^\|/, '');
+    for (let i = 0; i < trimmed.length; i++) {
+        const char = trimmed[i];
+        if (char === '\\' && trimmed[i + 1] === '|') {
+            // An escaped pipe is literal, even inside a code span
+            current += '|';
+            i++;
+        } else if (char === '\\' && i + 1 < trimmed.length) {
+            current += char + trimmed[i + 1];
+            i++;
+        } else if (char === '|') {
+            cells.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim() !== '') {
+        cells.push(current);
+    }
+    return cells.map(cell => cell.trim());
+}
+
+function tableRowToAdf(cells: string[], cellType: string, width: number): AdfNode {
+    const padded = [...cells.slice(0, width), ...Array(Math.max(0, width - cells.length)).fill('')];
+    return {
+        type: 'tableRow',
+        content: padded.map(cell => ({
+            type: cellType,
+            content: cell.split(/<br\s*\/?>\s*<br\s*\/?>/i).map((paragraph: string) => withContent({ type: 'paragraph' }, parseInline(paragraph.trim())))
+        }))
+    };
+}
+
+function parseParagraph(lines: string[], start: number, blocks: AdfNode[]): number {
+    const paragraph: string[] = [lines[start]];
+    let index = start + 1;
+    while (index < lines.length && lines[index].trim() !== '') {
+        const line = lines[index];
+        if (/^ {0,3}(=+|-+)\s*$/.test(line)) {
+            // Setext heading underline
+            const level = line.trim().startsWith('=') ? 1 : 2;
+            blocks.push(withContent({ type: 'heading', attrs: { level } }, parseInline(paragraph.join(' ').trim())));
+            return index + 1;
+        }
+        if (startsBlock(line) || (LIST_ITEM.test(line) && /^ *([-*+]|1[.)]) +\S/.test(line))) {
+            break;
+        }
+        paragraph.push(line);
+        index++;
+    }
+
+    const text = paragraph.map(line => line.trim()).join('\n').replace(/( {2,}|\\)\n/g, '\n');
+    const inline = parseInline(text);
+    blocks.push(...paragraphToAdf(inline));
+    return index;
+}
+
+/**
+ * A paragraph holding nothing but images or media links becomes media; anything else stays a paragraph
+ */
+function paragraphToAdf(inline: AdfNode[]): AdfNode[] {
+    const media = inline.filter(node => !(node.type === 'text' && !node.text?.trim() && !node.marks));
+    const files = media.map(fileFromLink);
+    if (files.length > 0 && files.every(file => file !== undefined)) {
+        return [{ type: 'mediaGroup', content: files as AdfNode[] }];
+    }
+    if (media.length > 0 && media.every(node => node.type === 'mediaInline')) {
+        const nodes = media.map(node => ({ ...node, type: 'media' }));
+        if (nodes.length === 1) {
+            return [{ type: 'mediaSingle', attrs: { layout: 'center' }, content: nodes }];
+        }
+        if (nodes.every(node => node.attrs?.type === 'file')) {
+            return [{ type: 'mediaGroup', content: nodes }];
+        }
+        return nodes.map(node => ({ type: 'mediaSingle', attrs: { layout: 'center' }, content: [node] }));
+    }
+    return [withContent({ type: 'paragraph' }, inline)];
+}
+
+function fileFromLink(node: AdfNode): AdfNode | undefined {
+    const href = node.type === 'text' && node.marks?.length === 1 && node.marks[0].type === 'link' ? node.marks[0].attrs?.href : undefined;
+    if (typeof href !== 'string' || !href.startsWith('media:')) {
+        return undefined;
+    }
+    const media = mediaFromImage(node.text || '', href).attrs!;
+    // The label falls back to the id when the attachment has no name
+    if (media.alt === media.id) {
+        delete media.alt;
+    }
+    return { type: 'media', attrs: media };
+}
+
+function startsBlock(line: string): boolean {
+    return FENCE.test(line) || ATX_HEADING.test(line) || RULE.test(line) || /^ {0,3}>/.test(line);
+}
+
+function leadingSpaces(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+function withContent(node: AdfNode, content: AdfNode[]): AdfNode {
+    return content.length > 0 ? { ...node, content } : node;
+}
+
+function newLocalId(): string {
+    return randomUUID();
+}
+
+// =============================================================================
+// Inline Markdown
+// =============================================================================
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+function parseInline(text: string, marks: AdfMark[] = []): AdfNode[] {
+    const nodes: AdfNode[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) {
+            nodes.push(textNode(buffer, marks));
+            buffer = '';
+        }
+    };
+    const emit = (...parsed: AdfNode[]) => {
+        flush();
+        nodes.push(...parsed);
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        const rest = text.slice(i);
+
+        if (char === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (char === '\n') {
+            emit({ type: 'hardBreak' });
+            i++;
+            continue;
+        }
+
+        if (char === '`') {
+            const run = rest.match(/^`+/)![0];
+            const close = findCodeSpanEnd(text, i + run.length, run.length);
+            if (close !== -1) {
+                let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+                if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+                    code = code.slice(1, -1);
+                }
+                emit(textNode(code, [...marks, { type: 'code' }]));
+                i = close + run.length;
+                continue;
+            }
+            buffer += run;
+            i += run.length;
+            continue;
+        }
+
+        if (char === '@' && text[i + 1] === '[') {
+            const link = parseLinkAt(text, i + 1);
+            if (link) {
+                const name = unescapeText(link.label);
+                emit({ type: 'mention', attrs: { id: link.destination, text: `@${name}` } });
+                i = link.end;
+                continue;
+            }
+        }
+
+        if (char === '!' && text[i + 1] === '[') {
+            const link = parseLinkAt(text, i + 1);
+            if (link) {
+                emit(mediaFromImage(unescapeText(link.label), link.destination));
+                i = link.end;
+                continue;
+            }
+        }
+
+        if (char === '[') {
+            const link = parseLinkAt(text, i);
+            if (link) {
+                emit(...parseInline(link.label, [...marks, { type: 'link', attrs: { href: link.destination } }]));
+                i = link.end;
+                continue;
+            }
+        }
+
+        if (char === '<') {
+            const html = parseInlineHtml(text, i, marks);
+            if (html) {
+                emit(...html.nodes);
+                i = html.end;
+                continue;
+            }
+        }
+
+        if (char === ':') {
+            const directive = rest.match(/^:(status|date)\[((?:\\.|[^\]\\])*)\](?:\{color=(\w+)\})?/);
+            if (directive) {
+                const node = directiveToAdf(directive[1], unescapeText(directive[2]), directive[3]);
+                if (node) {
+                    emit(node);
+                    i += directive[0].length;
+                    continue;
+                }
+            }
+            const emoji = rest.match(/^:([A-Za-z0-9_+-]*[A-Za-z][A-Za-z0-9_+-]*):/);
+            if (emoji) {
+                emit({ type: 'emoji', attrs: { shortName: `:${emoji[1]}:` } });
+                i += emoji[0].length;
+                continue;
+            }
+        }
+
+        if (char === '*' || char === '_' || char === '~') {
+            const emphasis = parseEmphasis(text, i, marks);
+            if (emphasis) {
+                emit(...emphasis.nodes);
+                i = emphasis.end;
+                continue;
+            }
+        }
+
+        buffer += char;
+        i++;
+    }
+
+    flush();
+    return mergeTextNodes(nodes);
+}
+
+function textNode(text: string, marks: AdfMark[]): AdfNode {
+    const sorted = [...marks].sort((a, b) => markRank(a) - markRank(b));
+    return sorted.length > 0 ? { type: 'text', text, marks: sorted } : { type: 'text', text };
+}
+
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+    let index = from;
+    while (index < text.length) {
+        const next = text.indexOf('`'.repeat(length), index);
+        if (next === -1) {
+            return -1;
+        }
+        const runEnd = next + (text.slice(next).match(/^`+/)![0].length);
+        if (runEnd - next === length) {
+            return next;
+        }
+        index = runEnd;
+    }
+    return -1;
+}
+
+interface ParsedLink {
+    label: string;
+    destination: string;
+    end: number;
+}
+
+/**
+ * Parse `[label](destination)` starting at the opening bracket
+ */
+function parseLinkAt(text: string, start: number): ParsedLink | undefined {
+    let depth = 0;
+    let index = start;
+    for (; index < text.length; index++) {
+        const char = text[index];
+        if (char === '\\') {
+            index++;
+        } else if (char === '`') {
+            const run = text.slice(index).match(/^`+/)![0];
+            const close = findCodeSpanEnd(text, index + run.length, run.length);
+            if (close !== -1) {
+                index = close + run.length - 1;
+            }
+        } else if (char === '[') {
+            depth++;
+        } else if (char === ']') {
+            depth--;
+            if (depth === 0) {
+                break;
+            }
+        }
+    }
+    if (depth !== 0 || text[index + 1] !== '(') {
+        return undefined;
+    }
+
+    const label = text.slice(start + 1, index);
+    let cursor = index + 2;
+    let destination: string;
+    if (text[cursor] === '<') {
+        const close = text.indexOf('>', cursor);
+        if (close === -1) {
+            return undefined;
+        }
+        destination = text.slice(cursor + 1, close);
+        cursor = close + 1;
+    } else {
+        let parens = 0;
+        const begin = cursor;
+        for (; cursor < text.length; cursor++) {
+            const char = text[cursor];
+            if (char === '\\') {
+                cursor++;
+            } else if (char === '(') {
+                parens++;
+            } else if (char === ')') {
+                if (parens === 0) {
+                    break;
+                }
+                parens--;
+            } else if (/\s/.test(char)) {
+                break;
+            }
+        }
+        destination = unescapeText(text.slice(begin, cursor));
+    }
+
+    // Skip an optional title
+    const title = text.slice(cursor).match(/^\s+(?:"[^"]*"|'[^']*')/);
+    if (title) {
+        cursor += title[0].length;
+    }
+    const close = text.slice(cursor).match(/^\s*\)/);
+    if (!close) {
+        return undefined;
+    }
+    return { label, destination, end: cursor + close[0].length };
+}
+
+function mediaFromImage(alt: string, destination: string): AdfNode {
+    const media = destination.match(/^media:([^?]*)(?:\?collection=(.*))?$/);
+    const attrs: Record<string, any> = media
+        ? { type: 'file', id: media[1], collection: media[2] ? decodeURIComponent(media[2]) : '' }
+        : { type: 'external', url: destination };
+    if (alt) {
+        attrs.alt = alt;
+    }
+    return { type: 'mediaInline', attrs };
+}
+
+function directiveToAdf(name: string, value: string, color?: string): AdfNode | undefined {
+    if (name === 'status') {
+        return { type: 'status', attrs: { text: value, color: color || 'neutral' } };
+    }
+    const timestamp = Date.parse(`${value}T00:00:00Z`);
+    return Number.isNaN(timestamp) ? undefined : { type: 'date', attrs: { timestamp: String(timestamp) } };
+}
+
+const HTML_MARKS: Record<string, AdfMark> = {
+    u: { type: 'underline' },
+    ins: { type: 'underline' },
+    sub: { type: 'subsup', attrs: { type: 'sub' } },
+    sup: { type: 'subsup', attrs: { type: 'sup' } }
+};
+
+function parseInlineHtml(text: string, start: number, marks: AdfMark[]): { nodes: AdfNode[]; end: number } | undefined {
+    const rest = text.slice(start);
+
+    const autolink = rest.match(/^<((?:https?|ftp|mailto):[^\s<>]+)>/i);
+    if (autolink) {
+        return { nodes: [{ type: 'inlineCard', attrs: { url: autolink[1] } }], end: start + autolink[0].length };
+    }
+
+    const raw = rest.match(/^<!--adf ([\s\S]*?)-->/);
+    if (raw) {
+        try {
+            const node = JSON.parse(raw[1]);
+            return { nodes: [node], end: start + raw[0].length };
+        } catch {
+            return undefined;
+        }
+    }
+
+    if (/^<br\s*\/?>/i.test(rest)) {
+        return { nodes: [{ type: 'hardBreak' }], end: start + rest.match(/^<br\s*\/?>/i)![0].length };
+    }
+
+    const open = rest.match(/^<(u|ins|sub|sup)>/i);
+    if (open) {
+        const tag = open[1].toLowerCase();
+        const closeTag = `</${tag}>`;
+        const close = text.toLowerCase().indexOf(closeTag, start + open[0].length);
+        if (close !== -1) {
+            const inner = text.slice(start + open[0].length, close);
+            return { nodes: parseInline(inner, [...marks, HTML_MARKS[tag]]), end: close + closeTag.length };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse emphasis starting at a delimiter: ***strong em***, **strong**, *em*, _em_, ~~strike~~
+ */
+function parseEmphasis(text: string, start: number, marks: AdfMark[]): { nodes: AdfNode[]; end: number } | undefined {
+    const char = text[start];
+    const run = text.slice(start).match(char === '~' ? /^~+/ : (char === '*' ? /^\*+/ : /^_+/))![0];
+
+    const candidates: Array<{ delimiter: string; marks: AdfMark[] }> = char === '~'
+        ? [{ delimiter: '~~', marks: [{ type: 'strike' }] }]
+        : [
+            { delimiter: char.repeat(3), marks: [{ type: 'strong' }, { type: 'em' }] },
+            { delimiter: char.repeat(2), marks: [{ type: 'strong' }] },
+            { delimiter: char, marks: [{ type: 'em' }] }
+        ];
+
+    for (const candidate of candidates) {
+        const { delimiter } = candidate;
+        // A run opens one kind of emphasis ("**c" is not an empty "*" span); "***" may also open "**" around "*..."
+        if (run.length !== delimiter.length && run.length !== 3) {
+            continue;
+        }
+        const contentStart = start + delimiter.length;
+        // Opening delimiters are followed by text; underscores must also start a word
+        if (contentStart >= text.length || /\s/.test(text[contentStart])) {
+            continue;
+        }
+        if (char === '_' && start > 0 && /[A-Za-z0-9]/.test(text[start - 1])) {
+            continue;
+        }
+        const close = findClosingDelimiter(text, contentStart, delimiter);
+        if (close <= contentStart) {
+            continue;
+        }
+        const inner = text.slice(contentStart, close);
+        return {
+            nodes: parseInline(inner, [...marks, ...candidate.marks]),
+            end: close + delimiter.length
+        };
+    }
+    return undefined;
+}
+
+function findClosingDelimiter(text: string, from: number, delimiter: string): number {
+    const char = delimiter[0];
+    let index = from;
+    while (index < text.length) {
+        const current = text[index];
+        if (current === '\\') {
+            index += 2;
+            continue;
+        }
+        if (current === '`') {
+            const run = text.slice(index).match(/^`+/)![0];
+            const close = findCodeSpanEnd(text, index + run.length, run.length);
+            index = close === -1 ? index + run.length : close + run.length;
+            continue;
+        }
+        if (current === '[') {
+            const link = parseLinkAt(text, index);
+            if (link) {
+                index = link.end;
+                continue;
+            }
+        }
+        if (current === char) {
+            const run = text.slice(index).match(new RegExp(`^\\${char}+`))![0];
+            const closes = !/\s/.test(text[index - 1])
+                && (char !== '_' || index + run.length >= text.length || !/[A-Za-z0-9]/.test(text[index + run.length]));
+            if (closes && run.length === delimiter.length) {
+                return index;
+            }
+            if (closes && run.length === 3 && delimiter.length < 3) {
+                // "***" closing "**" after an inner "*": the outer delimiter is the tail of the run
+                return index + run.length - delimiter.length;
+            }
+            index += run.length;
+            continue;
+        }
+        index++;
+    }
+    return -1;
+}
+
+function unescapeText(text: string): string {
+    return text.replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1');
+}
+
+function mergeTextNodes(nodes: AdfNode[]): AdfNode[] {
+    const merged: AdfNode[] = [];
+    for (const node of nodes) {
+        const previous = merged[merged.length - 1];
+        if (previous?.type === 'text' && node.type === 'text'
+            && JSON.stringify(previous.marks || []) === JSON.stringify(node.marks || [])) {
+            merged[merged.length - 1] = { ...previous, text: (previous.text || '') + (node.text || '') };
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+}
+
+// =============================================================================
+// Plain text and HTML
+// =============================================================================
+
+/**
+ * Flatten ADF to plain text, one line per block
+ */
+export function adfToPlainText(adf: any): string {
+    if (!isAdfDocument(adf)) {
+        return typeof adf === 'string' ? adf : '';
+    }
+    return plainBlocks(adf.content).trim();
+}
+
+function plainBlocks(nodes: AdfNode[]): string {
+    return nodes.map(node => {
+        if (node.type === 'codeBlock') {
+            return (node.content || []).map(child => child.text || '').join('');
+        }
+        if (isInlineContainer(node)) {
+            return plainInline(node.content || []);
+        }
+        return plainBlocks(node.content || []);
+    }).filter(Boolean).join('\n');
+}
+
+function plainInline(nodes: AdfNode[]): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.text || '';
+            case 'hardBreak':
+                return '\n';
+            case 'mention':
+                return node.attrs?.text || '';
+            case 'emoji':
+                return node.attrs?.text || node.attrs?.shortName || '';
+            case 'inlineCard':
+                return node.attrs?.url || '';
+            case 'status':
+                return node.attrs?.text || '';
+            case 'date':
+                return Number.isFinite(Number(node.attrs?.timestamp)) ? new Date(Number(node.attrs?.timestamp)).toISOString().slice(0, 10) : '';
+            default:
+                return plainInline(node.content || []);
+        }
+    }).join('');
+}
+
+function isInlineContainer(node: AdfNode): boolean {
+    return node.type === 'paragraph' || node.type === 'heading' || node.type === 'taskItem' || node.type === 'decisionItem';
+}
+
+/**
+ * Render ADF as HTML for the webviews; all text is escaped
+ */
+export function adfToHtml(adf: any): string {
+    if (!isAdfDocument(adf)) {
+        return '';
+    }
+    return htmlBlocks(adf.content);
+}
+
+function htmlBlocks(nodes: AdfNode[]): string {
+    return nodes.map(htmlBlock).join('');
+}
+
+function htmlBlock(node: AdfNode): string {
+    const content = node.content || [];
+    switch (node.type) {
+        case 'paragraph':
+            return `<p>${htmlInline(content)}</p>`;
+        case 'heading': {
+            const level = Math.min(Math.max(node.attrs?.level || 1, 1), 6);
+            return `<h${level}>${htmlInline(content)}</h${level}>`;
+        }
+        case 'bulletList':
+            return `<ul>${htmlBlocks(content)}</ul>`;
+        case 'orderedList':
+            return `<ol${node.attrs?.order ? ` start="${Number(node.attrs.order)}"` : ''}>${htmlBlocks(content)}</ol>`;
+        case 'listItem':
+            return `<li>${htmlBlocks(content)}</li>`;
+        case 'taskList':
+            return `<ul class="adf-task-list">${htmlBlocks(content)}</ul>`;
+        case 'taskItem':
+            return `<li><input type="checkbox" disabled${node.attrs?.state === 'DONE' ? ' checked' : ''}> ${htmlInline(content)}</li>`;
+        case 'decisionList':
+            return `<ul class="adf-decision-list">${htmlBlocks(content)}</ul>`;
+        case 'decisionItem':
+            return `<li>${htmlInline(content)}</li>`;
+        case 'codeBlock': {
+            const text = content.map(child => child.text || '').join('');
+            return `<pre><code>${escapeHtml(text)}</code></pre>`;
+        }
+        case 'blockquote':
+            return `<blockquote>${htmlBlocks(content)}</blockquote>`;
+        case 'panel':
+            return `<div class="adf-panel adf-panel-${escapeHtml(node.attrs?.panelType || 'info')}">${htmlBlocks(content)}</div>`;
+        case 'rule':
+            return '<hr>';
+        case 'table':
+            return `<table class="adf-table">${htmlBlocks(content)}</table>`;
+        case 'tableRow':
+            return `<tr>${htmlBlocks(content)}</tr>`;
+        case 'tableHeader':
+        case 'tableCell': {
+            const tag = node.type === 'tableHeader' ? 'th' : 'td';
+            const colspan = Number(node.attrs?.colspan) || 1;
+            const rowspan = Number(node.attrs?.rowspan) || 1;
+            const span = `${colspan > 1 ? ` colspan="${colspan}"` : ''}${rowspan > 1 ? ` rowspan="${rowspan}"` : ''}`;
+            return `<${tag}${span}>${htmlBlocks(content)}</${tag}>`;
+        }
+        case 'mediaSingle':
+        case 'mediaGroup':
+            return `<p>${content.map(htmlMedia).join(' ')}</p>`;
+        case 'expand':
+        case 'nestedExpand':
+            return `<details><summary>${escapeHtml(node.attrs?.title || '')}</summary>${htmlBlocks(content)}</details>`;
+        default:
+            return htmlBlocks(content);
+    }
+}
+
+function htmlInline(nodes: AdfNode[]): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return (node.marks || []).reduce((html, mark) => htmlMark(html, mark), escapeHtml(node.text || ''));
+            case 'hardBreak':
+                return '<br>';
+            case 'mention':
+                return `<span class="mention">${escapeHtml(node.attrs?.text || node.attrs?.id || 'user')}</span>`;
+            case 'emoji':
+                return escapeHtml(node.attrs?.text || node.attrs?.shortName || '');
+            case 'inlineCard':
+                return node.attrs?.url ? `<a href="${escapeHtml(node.attrs.url)}">${escapeHtml(node.attrs.url)}</a>` : '';
+            case 'status':
+                return `<span class="adf-status adf-status-${escapeHtml(node.attrs?.color || 'neutral')}">${escapeHtml(node.attrs?.text || '')}</span>`;
+            case 'date':
+                return escapeHtml(plainInline([node]));
+            case 'mediaInline':
+                return htmlMedia(node);
+            default:
+                return htmlInline(node.content || []);
+        }
+    }).join('');
+}
+
+function htmlMark(html: string, mark: AdfMark): string {
+    switch (mark.type) {
+        case 'strong':
+            return `<strong>${html}</strong>`;
+        case 'em':
+            return `<em>${html}</em>`;
+        case 'strike':
+            return `<s>${html}</s>`;
+        case 'underline':
+            return `<u>${html}</u>`;
+        case 'code':
+            return `<code>${html}</code>`;
+        case 'subsup':
+            return mark.attrs?.type === 'sub' ? `<sub>${html}</sub>` : `<sup>${html}</sup>`;
+        case 'link':
+            return `<a href="${escapeHtml(mark.attrs?.href || '')}">${html}</a>`;
+        default:
+            return html;
+    }
+}
+
+function htmlMedia(media: AdfNode): string {
+    const label = media.attrs?.alt || media.attrs?.id || 'attachment';
+    return `<span class="adf-media">📎 ${escapeHtml(label)}</span>`;
+}
+
+function escapeHtml(unsafe: string): string {
+    return String(unsafe)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
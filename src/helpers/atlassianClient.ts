@@ -0,0 +1,333 @@
+import * as https from 'https';
+import * as http from 'http';
+import { URL } from 'url';
+import { AtlassianConfig, isDataCenter } from '../utils/configLoader';
+
+/**
+ * Minimal cancellation contract. Structurally compatible with vscode.CancellationToken
+ * so helpers can be used from both the extension and the standalone scripts.
+ */
+export interface CancellationTokenLike {
+    isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => any): { dispose(): any };
+}
+
+export interface AtlassianClientOptions {
+    /** Label used in error messages, e.g. 'JIRA' or 'Confluence' */
+    serviceName: string;
+    /** Base URL to resolve endpoints against instead of config.baseUrl; any context path is kept */
+    baseUrl?: string;
+    /** Per-attempt timeout in milliseconds (default: 30000) */
+    timeoutMs?: number;
+    /** Maximum number of retries on 429/503 responses (default: 4) */
+    maxRetries?: number;
+    /** Upper bound for a single backoff delay in milliseconds (default: 60000) */
+    maxBackoffMs?: number;
+}
+
+export interface RequestOptions {
+    token?: CancellationTokenLike;
+    timeoutMs?: number;
+    /** Extra headers, overriding the JSON defaults; a Buffer body is then sent as is */
+    headers?: Record<string, string>;
+}
+
+/**
+ * Error raised for any non-2xx response from an Atlassian REST API.
+ * The message keeps the raw response body so existing callers matching on it keep working.
+ */
+export class AtlassianApiError extends Error {
+    constructor(
+        public readonly serviceName: string,
+        public readonly statusCode: number,
+        public readonly method: string,
+        public readonly endpoint: string,
+        public readonly responseBody: string,
+        public readonly errorMessages: string[]
+    ) {
+        super(`${serviceName} API error: ${statusCode} - ${responseBody}`);
+        this.name = 'AtlassianApiError';
+    }
+}
+
+/**
+ * Raised when a request is aborted through its cancellation token
+ */
+export class RequestCancelledError extends Error {
+    constructor(public readonly endpoint: string) {
+        super(`Request cancelled: ${endpoint}`);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * Raised when a single attempt exceeds the configured timeout
+ */
+export class RequestTimeoutError extends Error {
+    constructor(public readonly endpoint: string, public readonly timeoutMs: number) {
+        super(`Request timed out after ${timeoutMs}ms: ${endpoint}`);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+/**
+ * Raised for operations that only exist on Atlassian Cloud when the site is Server/Data Center
+ */
+export class UnsupportedDeploymentError extends Error {
+    constructor(public readonly operation: string) {
+        super(`${operation} is only available on Atlassian Cloud and is not supported on Server/Data Center`);
+        this.name = 'UnsupportedDeploymentError';
+    }
+}
+
+const RETRYABLE_STATUS_CODES = [429, 503];
+const MAX_REDIRECTS = 5;
+
+interface RawResponse {
+    statusCode: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+/**
+ * Shared HTTP client for the Jira and Confluence helpers.
+ * Handles authentication, JSON encoding, timeouts, cancellation and 429/503 backoff.
+ */
+export class AtlassianClient {
+    private readonly timeoutMs: number;
+    private readonly maxRetries: number;
+    private readonly maxBackoffMs: number;
+
+    constructor(private readonly config: AtlassianConfig, private readonly options: AtlassianClientOptions) {
+        this.timeoutMs = options.timeoutMs ?? 30000;
+        this.maxRetries = options.maxRetries ?? 4;
+        this.maxBackoffMs = options.maxBackoffMs ?? 60000;
+    }
+
+    /**
+     * Make an authenticated JSON request, retrying rate-limited and unavailable responses
+     */
+    async request<T>(endpoint: string, method: string = 'GET', body?: any, requestOptions: RequestOptions = {}): Promise<T> {
+        const response = await this.exchange(endpoint, method, body, requestOptions, false);
+        const text = response.body.toString('utf-8');
+        try {
+            return (text ? JSON.parse(text) : {}) as T;
+        } catch {
+            return text as any;
+        }
+    }
+
+    /**
+     * Fetch a binary resource such as an attachment download, following redirects.
+     * Credentials are only sent to the configured site, not to the hosts it redirects to.
+     */
+    async download(endpoint: string, requestOptions: RequestOptions = {}): Promise<Buffer> {
+        let target = endpoint;
+        for (let redirects = 0; ; redirects++) {
+            const response = await this.exchange(target, 'GET', undefined, { ...requestOptions, headers: { 'Accept': '*/*', ...requestOptions.headers } }, redirects < MAX_REDIRECTS);
+            const location = response.headers.location;
+            if (response.statusCode < 300 || !location) {
+                return response.body;
+            }
+            target = new URL(location, this.resolveUrl(target)).toString();
+        }
+    }
+
+    /**
+     * Send the request until it succeeds, retrying 429/503 responses; any other failure raises an AtlassianApiError
+     */
+    private async exchange(endpoint: string, method: string, body: any, requestOptions: RequestOptions, followRedirects: boolean): Promise<RawResponse> {
+        const { token } = requestOptions;
+
+        for (let attempt = 0; ; attempt++) {
+            if (token?.isCancellationRequested) {
+                throw new RequestCancelledError(endpoint);
+            }
+
+            const response = await this.send(endpoint, method, body, requestOptions);
+
+            if (response.statusCode >= 200 && response.statusCode < 300) {
+                return response;
+            }
+            if (followRedirects && response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
+                return response;
+            }
+
+            if (RETRYABLE_STATUS_CODES.includes(response.statusCode) && attempt < this.maxRetries) {
+                const delay = this.getRetryDelay(response.headers['retry-after'], attempt);
+                console.warn(`${this.options.serviceName}: ${response.statusCode} on ${method} ${endpoint}, retrying in ${delay}ms`);
+                await this.sleep(delay, endpoint, token);
+                continue;
+            }
+
+            const responseBody = response.body.toString('utf-8');
+            throw new AtlassianApiError(
+                this.options.serviceName,
+                response.statusCode,
+                method,
+                endpoint,
+                responseBody,
+                parseErrorMessages(responseBody)
+            );
+        }
+    }
+
+    /**
+     * Endpoints are appended to the base URL rather than resolved, so a context path such as
+     * https://host/confluence is kept; absolute URLs (redirect targets) are used as they are
+     */
+    private resolveUrl(endpoint: string): URL {
+        if (/^https?:\/\//i.test(endpoint)) {
+            return new URL(endpoint);
+        }
+        const baseUrl = (this.options.baseUrl || this.config.baseUrl).replace(/\/+$/, '');
+        return new URL(baseUrl + endpoint);
+    }
+
+    /**
+     * Perform a single HTTP round trip
+     */
+    private send(endpoint: string, method: string, body: any, requestOptions: RequestOptions): Promise<RawResponse> {
+        const url = this.resolveUrl(endpoint);
+        const sameSite = url.origin === this.resolveUrl('').origin;
+        const timeoutMs = requestOptions.timeoutMs ?? this.timeoutMs;
+        const { token } = requestOptions;
+
+        return new Promise((resolve, reject) => {
+            const protocol = url.protocol === 'https:' ? https : http;
+            let cancelListener: { dispose(): any } | undefined;
+
+            const options = {
+                hostname: url.hostname,
+                port: url.port,
+                path: url.pathname + url.search,
+                method: method,
+                headers: {
+                    ...(sameSite && { 'Authorization': this.getAuthorizationHeader() }),
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json',
+                    ...requestOptions.headers
+                }
+            };
+
+            const req = protocol.request(options, (res) => {
+                const chunks: Buffer[] = [];
+
+                res.on('data', (chunk: Buffer) => {
+                    chunks.push(chunk);
+                });
+
+                res.on('end', () => {
+                    cancelListener?.dispose();
+                    resolve({ statusCode: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks) });
+                });
+            });
+
+            req.setTimeout(timeoutMs, () => {
+                req.destroy(new RequestTimeoutError(endpoint, timeoutMs));
+            });
+
+            req.on('error', (error) => {
+                cancelListener?.dispose();
+                reject(token?.isCancellationRequested ? new RequestCancelledError(endpoint) : error);
+            });
+
+            if (token) {
+                cancelListener = token.onCancellationRequested(() => {
+                    req.destroy(new RequestCancelledError(endpoint));
+                });
+            }
+
+            if (body !== undefined) {
+                req.write(Buffer.isBuffer(body) ? body : JSON.stringify(body));
+            }
+
+            req.end();
+        });
+    }
+
+    /**
+     * Cloud uses Basic auth with email and API token; Data Center uses a personal access token as a Bearer token
+     */
+    private getAuthorizationHeader(): string {
+        if (isDataCenter(this.config)) {
+            return `Bearer ${this.config.apiToken}`;
+        }
+        const auth = Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString('base64');
+        return `Basic ${auth}`;
+    }
+
+    /**
+     * Work out how long to wait before the next attempt.
+     * Honours Retry-After (seconds or HTTP date), otherwise uses exponential backoff with jitter.
+     */
+    private getRetryDelay(retryAfter: string | string[] | undefined, attempt: number): number {
+        const header = Array.isArray(retryAfter) ? retryAfter[0] : retryAfter;
+        if (header) {
+            const seconds = Number(header);
+            if (!isNaN(seconds)) {
+                return Math.min(Math.max(seconds, 0) * 1000, this.maxBackoffMs);
+            }
+            const date = Date.parse(header);
+            if (!isNaN(date)) {
+                return Math.min(Math.max(date - Date.now(), 0), this.maxBackoffMs);
+            }
+        }
+
+        const base = 1000 * Math.pow(2, attempt);
+        const jitter = Math.random() * 500;
+        return Math.min(base + jitter, this.maxBackoffMs);
+    }
+
+    private sleep(ms: number, endpoint: string, token?: CancellationTokenLike): Promise<void> {
+        return new Promise((resolve, reject) => {
+            let cancelListener: { dispose(): any } | undefined;
+            const timer = setTimeout(() => {
+                cancelListener?.dispose();
+                resolve();
+            }, ms);
+
+            if (token) {
+                cancelListener = token.onCancellationRequested(() => {
+                    clearTimeout(timer);
+                    cancelListener?.dispose();
+                    reject(new RequestCancelledError(endpoint));
+                });
+            }
+        });
+    }
+}
+
+/**
+ * Pull human-readable messages out of the various Atlassian error payload shapes:
+ * Jira ({ errorMessages, errors }), Confluence v1 ({ message }) and v2 ({ errors: [{ title, detail }] })
+ */
+function parseErrorMessages(body: string): string[] {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(body);
+    } catch {
+        return body ? [body] : [];
+    }
+
+    const messages: string[] = [];
+    if (Array.isArray(parsed?.errorMessages)) {
+        messages.push(...parsed.errorMessages);
+    }
+    if (Array.isArray(parsed?.errors)) {
+        for (const error of parsed.errors) {
+            const text = error?.detail || error?.title || error?.message;
+            if (text) {
+                messages.push(text);
+            }
+        }
+    } else if (parsed?.errors && typeof parsed.errors === 'object') {
+        for (const [field, message] of Object.entries(parsed.errors)) {
+            messages.push(`${field}: ${message}`);
+        }
+    }
+    if (typeof parsed?.message === 'string') {
+        messages.push(parsed.message);
+    }
+    return messages;
+}
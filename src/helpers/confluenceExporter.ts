@@ -0,0 +1,296 @@
+/**
+ * Export a Confluence space, or a page and its descendants, to a local Markdown mirror.
+ *
+ * - Each page becomes a Markdown file with the frontmatter of the page YAML editor; a page with
+ *   children becomes `<Title>/index.md` with the children next to it, other pages `<Title>.md`
+ * - Attachments are downloaded to `<page file name>.attachments/` and links to them point there
+ * - Page versions are kept in a manifest inside the folder, so re-exporting only rewrites pages
+ *   whose version changed, and removes the files of pages that no longer exist
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AdfDocument, AdfNode, adfToMarkdown } from './adfMarkdown';
+import { UnsupportedDeploymentError } from './atlassianClient';
+import { ConfluenceHelper } from './confluenceHelper';
+import { storageToAdf } from './storageMarkdown';
+import { pageToYaml } from '../utils/confluenceYamlConverters';
+
+export const MANIFEST_FILE_NAME = '.confluence-export.json';
+
+export interface ExportOptions {
+    /** Absolute path of the folder to export into */
+    folder: string;
+    /** Export every page of this space... */
+    spaceKey?: string;
+    /** ...or this page and its descendants */
+    pageId?: string;
+    /** Rewrite every page, even those whose version is unchanged */
+    force?: boolean;
+    onProgress?: (message: string) => void;
+}
+
+export interface ExportResult {
+    /** Folder-relative paths of the Markdown files, by outcome */
+    written: string[];
+    unchanged: string[];
+    removed: string[];
+    /** Downloaded attachments, folder-relative */
+    attachments: string[];
+    manifestFile: string;
+}
+
+/**
+ * Contents of the manifest file
+ */
+export interface ExportManifest {
+    spaceKey?: string;
+    pageId?: string;
+    /** Keyed by page id */
+    pages: Record<string, ExportedPage>;
+}
+
+interface ExportedPage {
+    /** Folder-relative path of the Markdown file, with forward slashes */
+    path: string;
+    version: number;
+    /** Version of each downloaded attachment, by local file name */
+    attachments?: Record<string, number>;
+}
+
+interface PageNode {
+    id: string;
+    title: string;
+    version: number;
+    children: PageNode[];
+}
+
+/**
+ * Export the space or page subtree, writing only pages that changed since the last export
+ */
+export async function exportPages(helper: ConfluenceHelper, options: ExportOptions): Promise<ExportResult> {
+    const { folder, spaceKey, pageId, force = false, onProgress } = options;
+    if (!spaceKey === !pageId) {
+        throw new Error('Specify either a space key or a page ID to export');
+    }
+
+    const manifestFile = path.join(folder, MANIFEST_FILE_NAME);
+    const previous = await readExportManifest(folder);
+    // A manifest for another source describes files this export does not own
+    const known = previous && previous.spaceKey === spaceKey && previous.pageId === pageId ? previous.pages : {};
+
+    onProgress?.('Listing pages');
+    const roots = spaceKey ? await spaceTree(helper, spaceKey) : [await pageTree(helper, pageId!)];
+    const files = assignPaths(roots);
+
+    const manifest: ExportManifest = { ...(spaceKey ? { spaceKey } : { pageId }), pages: {} };
+    const result: ExportResult = { written: [], unchanged: [], removed: [], attachments: [], manifestFile };
+    await fs.mkdir(folder, { recursive: true });
+
+    try {
+        for (const [node, file] of files) {
+            const entry = known[node.id];
+            const attachmentsDir = file.replace(/\.md$/, '.attachments');
+            if (!force && entry?.version === node.version && entry.path === file && await exists(path.join(folder, file))) {
+                manifest.pages[node.id] = entry;
+                result.unchanged.push(file);
+                continue;
+            }
+
+            onProgress?.(`Exporting ${node.title}`);
+            const page = await helper.getPage(node.id, 'body.storage,version,space');
+            const attachments: Record<string, number> = {};
+            for await (const attachment of helper.iterateAttachments(node.id)) {
+                const version = attachment.version?.number ?? 1;
+                const name = fileName(attachment.title);
+                const target = path.join(folder, attachmentsDir, name);
+                attachments[name] = version;
+                if (!force && entry?.path === file && entry.attachments?.[name] === version && await exists(target)) {
+                    continue;
+                }
+                await fs.mkdir(path.dirname(target), { recursive: true });
+                await fs.writeFile(target, await helper.downloadAttachment(attachment));
+                result.attachments.push(`${attachmentsDir}/${name}`);
+            }
+
+            // Attachments dropped from the page since the last export
+            for (const name of Object.keys(entry?.attachments || {})) {
+                if (!(name in attachments) || entry!.path !== file) {
+                    await removeFile(folder, `${entry!.path.replace(/\.md$/, '.attachments')}/${name}`);
+                }
+            }
+
+            const adf = localizeAttachmentLinks(storageToAdf(page.body?.storage?.value || ''), path.posix.basename(attachmentsDir));
+            await fs.mkdir(path.dirname(path.join(folder, file)), { recursive: true });
+            await fs.writeFile(path.join(folder, file), pageToYaml(page, 'markdown', adfToMarkdown(adf)), 'utf8');
+
+            manifest.pages[node.id] = { path: file, version: page.version?.number ?? node.version, ...(Object.keys(attachments).length > 0 ? { attachments } : {}) };
+            result.written.push(file);
+        }
+
+        // Files of pages that were deleted, moved out of the export or moved within it
+        const current = new Set(files.values());
+        for (const [id, entry] of Object.entries(known)) {
+            if (manifest.pages[id]?.path === entry.path || current.has(entry.path)) {
+                continue;
+            }
+            if (!manifest.pages[id]) {
+                for (const name of Object.keys(entry.attachments || {})) {
+                    await removeFile(folder, `${entry.path.replace(/\.md$/, '.attachments')}/${name}`);
+                }
+            }
+            if (await removeFile(folder, entry.path)) {
+                result.removed.push(entry.path);
+            }
+        }
+    } finally {
+        await fs.writeFile(manifestFile, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+    }
+
+    return result;
+}
+
+/**
+ * Manifest left by the last export into the folder, if any
+ */
+export async function readExportManifest(folder: string): Promise<ExportManifest | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(path.join(folder, MANIFEST_FILE_NAME), 'utf8'));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Page tree of a space from one listing of its pages; pages whose parent is not a page of the space are roots
+ */
+async function spaceTree(helper: ConfluenceHelper, spaceKey: string): Promise<PageNode[]> {
+    const listed: Array<{ id: string; title: string; version: number; parentId?: string }> = [];
+    try {
+        const space = await helper.getSpace(spaceKey);
+        for await (const page of helper.iterateSpacePages(space.id)) {
+            listed.push({ id: String(page.id), title: page.title, version: page.version?.number ?? 1, parentId: page.parentId ? String(page.parentId) : undefined });
+        }
+    } catch (error) {
+        // Data Center has no v2 API; the v1 listing reports ancestors instead of a parent id
+        if (!(error instanceof UnsupportedDeploymentError)) {
+            throw error;
+        }
+        for await (const page of helper.iteratePagesInSpace(spaceKey)) {
+            const parent = page.ancestors?.[page.ancestors.length - 1];
+            listed.push({ id: page.id, title: page.title, version: page.version?.number ?? 1, parentId: parent?.id });
+        }
+    }
+
+    const nodes = new Map(listed.map(page => [page.id, { id: page.id, title: page.title, version: page.version, children: [] as PageNode[] }]));
+    const roots: PageNode[] = [];
+    for (const page of listed) {
+        const parent = page.parentId ? nodes.get(page.parentId) : undefined;
+        (parent ? parent.children : roots).push(nodes.get(page.id)!);
+    }
+    return roots;
+}
+
+async function pageTree(helper: ConfluenceHelper, pageId: string): Promise<PageNode> {
+    const page = await helper.getPage(pageId, 'version');
+    const node: PageNode = { id: page.id, title: page.title, version: page.version?.number ?? 1, children: [] };
+    const pending = [node];
+    while (pending.length > 0) {
+        const parent = pending.shift()!;
+        for await (const child of helper.iterateChildPages(parent.id)) {
+            const childNode: PageNode = { id: child.id, title: child.title, version: child.version?.number ?? 1, children: [] };
+            parent.children.push(childNode);
+            pending.push(childNode);
+        }
+    }
+    return node;
+}
+
+/**
+ * Folder-relative Markdown path of every page, parents first
+ */
+function assignPaths(roots: PageNode[]): Map<PageNode, string> {
+    const files = new Map<PageNode, string>();
+    const place = (siblings: PageNode[], directory: string, reserved: string[] = []) => {
+        const taken = new Set(reserved);
+        for (const node of siblings) {
+            let name = fileName(node.title);
+            // Case-insensitive file systems would merge pages whose titles differ only in case
+            if (taken.has(name.toLowerCase())) {
+                name = `${name} (${node.id})`;
+            }
+            taken.add(name.toLowerCase());
+
+            const base = directory ? `${directory}/${name}` : name;
+            files.set(node, node.children.length > 0 ? `${base}/index.md` : `${base}.md`);
+            // The parent's own index.md shares the directory with its children
+            place(node.children, base, ['index']);
+        }
+    };
+    place(roots, '');
+    return files;
+}
+
+function fileName(title: string): string {
+    const name = [...title]
+        .map(char => char < ' ' || '\\/:*?"<>|'.includes(char) ? '-' : char)
+        .join('')
+        .replace(/^[.\s]+|[.\s]+$/g, '');
+    return name || 'Untitled';
+}
+
+/**
+ * Point attachment links and images at the downloaded files next to the page
+ */
+function localizeAttachmentLinks(adf: AdfDocument, attachmentsDir: string): AdfDocument {
+    const localize = (url: string) => url.startsWith('attachment:')
+        ? `${encodeURIComponent(attachmentsDir)}/${encodeURIComponent(fileName(decodeURIComponent(url.slice('attachment:'.length))))}`
+        : url;
+
+    const visit = (node: AdfNode): AdfNode => {
+        const rewritten: AdfNode = { ...node };
+        if ((node.type === 'media' || node.type === 'mediaInline') && typeof node.attrs?.url === 'string') {
+            rewritten.attrs = { ...node.attrs, url: localize(node.attrs.url) };
+        }
+        if (node.marks) {
+            rewritten.marks = node.marks.map(mark => mark.type === 'link' && typeof mark.attrs?.href === 'string'
+                ? { ...mark, attrs: { ...mark.attrs, href: localize(mark.attrs.href) } }
+                : mark);
+        }
+        if (node.content) {
+            rewritten.content = node.content.map(visit);
+        }
+        return rewritten;
+    };
+
+    return { ...adf, content: adf.content.map(visit) };
+}
+
+/**
+ * Delete a previously exported file, then any directories it leaves empty; resolves to whether it existed
+ */
+async function removeFile(folder: string, relativePath: string): Promise<boolean> {
+    const absolute = path.join(folder, relativePath);
+    try {
+        await fs.unlink(absolute);
+    } catch {
+        return false;
+    }
+    for (let directory = path.dirname(absolute); directory.startsWith(folder + path.sep); directory = path.dirname(directory)) {
+        try {
+            await fs.rmdir(directory);
+        } catch {
+            break;
+        }
+    }
+    return true;
+}
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        await fs.access(file);
+        return true;
+    } catch {
+        return false;
+    }
+}
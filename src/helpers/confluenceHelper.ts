@@ -1,7 +1,12 @@
-import * as https from 'https';
-import * as http from 'http';
-import { URL } from 'url';
-import { AtlassianConfig } from '../utils/configLoader';
+import { randomUUID } from 'crypto';
+import { AtlassianConfig, isDataCenter } from '../utils/configLoader';
+import { AtlassianClient, CancellationTokenLike, UnsupportedDeploymentError } from './atlassianClient';
+import { Page, collect, nextConfluenceStart, nextV2Cursor, paginate, paginatePages, takeItems } from './pagination';
+
+/** Largest page the v1 API returns when bodies are expanded */
+const V1_PAGE_SIZE = 50;
+/** Largest page the v2 API returns */
+const V2_PAGE_SIZE = 250;
 
 export interface ConfluencePage {
     id: string;
@@ -10,6 +15,12 @@ export interface ConfluencePage {
     title: string;
     space?: { key: string; name: string };
     version?: { number: number };
+    /** Present when expanded, root first */
+    ancestors?: Array<{ id: string; title?: string }>;
+    /** Present when expanded; tells whether the page has child pages without listing them */
+    childTypes?: { page?: { value: boolean } };
+    /** Present when expanded */
+    metadata?: { labels?: { results: Array<{ name: string; prefix?: string }> } };
     body?: {
         storage?: { value: string };
         view?: { value: string };
@@ -30,77 +41,93 @@ export interface ConfluenceSearchResult {
 
 export class ConfluenceHelper {
     private config: AtlassianConfig;
+    private client: AtlassianClient;
+    private cancellationToken?: CancellationTokenLike;
+    /** REST API root: Cloud serves Confluence under /wiki, Data Center directly under its context path */
+    private apiPath: string;
 
     constructor(config: AtlassianConfig) {
         this.config = config;
+        this.client = new AtlassianClient(config, { serviceName: 'Confluence', baseUrl: config.confluenceBaseUrl });
+        this.apiPath = isDataCenter(config) ? '/rest/api' : '/wiki/rest/api';
+    }
+
+    /**
+     * Return a view of this helper whose requests are aborted when the token is cancelled
+     */
+    withCancellation(token?: CancellationTokenLike): ConfluenceHelper {
+        const scoped = Object.create(this) as ConfluenceHelper;
+        scoped.cancellationToken = token;
+        return scoped;
     }
 
     /**
      * Make an authenticated request to Confluence REST API
      */
     private async request<T>(endpoint: string, method: string = 'GET', body?: any): Promise<T> {
-        const url = new URL(endpoint, this.config.baseUrl);
-        const auth = Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString('base64');
-
-        return new Promise((resolve, reject) => {
-            const protocol = url.protocol === 'https:' ? https : http;
-            
-            const options = {
-                hostname: url.hostname,
-                port: url.port,
-                path: url.pathname + url.search,
-                method: method,
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
-                }
-            };
-
-            const req = protocol.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-                        try {
-                            const parsed = data ? JSON.parse(data) : {};
-                            resolve(parsed);
-                        } catch (e) {
-                            resolve(data as any);
-                        }
-                    } else {
-                        reject(new Error(`Confluence API error: ${res.statusCode} - ${data}`));
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                reject(error);
-            });
-
-            if (body) {
-                req.write(JSON.stringify(body));
-            }
+        return this.client.request<T>(endpoint, method, body, { token: this.cancellationToken });
+    }
 
-            req.end();
+    /**
+     * Root of the v2 REST API, which only exists on Cloud
+     */
+    private v2Path(operation: string): string {
+        if (isDataCenter(this.config)) {
+            throw new UnsupportedDeploymentError(operation);
+        }
+        return '/wiki/api/v2';
+    }
+
+    /**
+     * Pages of a v1 list endpoint, which pages by start offset and links the next page
+     */
+    private v1Pages<T>(endpoint: string, params: URLSearchParams, pageSize: number, start: number = 0): AsyncGenerator<Page<T, number>> {
+        params.set('limit', pageSize.toString());
+        return paginatePages<T, number>(async (offset = start) => {
+            params.set('start', offset.toString());
+            const result = await this.request<{ results?: T[]; _links?: { next?: string }; totalSize?: number }>(`${endpoint}?${params.toString()}`);
+            return { items: result.results || [], next: nextConfluenceStart(offset, result), total: result.totalSize };
         });
     }
 
     /**
-     * Search for content using CQL (Confluence Query Language)
+     * Pages of a v2 list endpoint, which pages by an opaque cursor in `_links.next`
      */
-    async searchContent(cql: string, limit: number = 25, start: number = 0): Promise<ConfluenceSearchResult> {
-        const params = new URLSearchParams({
-            cql,
-            limit: limit.toString(),
-            start: start.toString(),
-            expand: 'space,version,body.storage'
+    private v2Pages<T>(endpoint: string, params: URLSearchParams, pageSize: number): AsyncGenerator<Page<T, string>> {
+        params.set('limit', pageSize.toString());
+        return paginatePages<T, string>(async (cursor) => {
+            if (cursor) {
+                params.set('cursor', cursor);
+            }
+            const result = await this.request<{ results?: T[]; _links?: { next?: string } }>(`${endpoint}?${params.toString()}`);
+            return { items: result.results || [], next: nextV2Cursor(result) };
         });
-        return this.request<ConfluenceSearchResult>(`/wiki/rest/api/content/search?${params.toString()}`);
+    }
+
+    /**
+     * Up to `limit` results of a v2 list endpoint, collected across cursor pages
+     */
+    private async v2List(endpoint: string, params: URLSearchParams, limit: number): Promise<{ results: any[]; size: number }> {
+        const results = await collect(paginate(this.v2Pages<any>(endpoint, params, Math.min(limit, V2_PAGE_SIZE))), limit);
+        return { results, size: results.length };
+    }
+
+    /**
+     * Search for content using CQL (Confluence Query Language), following pagination until limit results are collected
+     */
+    async searchContent(cql: string, limit: number = 25, start: number = 0): Promise<ConfluenceSearchResult> {
+        const params = new URLSearchParams({ cql, expand: 'space,version,body.storage' });
+        const pages = this.v1Pages<ConfluencePage>(`${this.apiPath}/content/search`, params, Math.min(limit, V1_PAGE_SIZE), start);
+        const { items } = await takeItems(pages, limit);
+        return { results: items, size: items.length, start, limit };
+    }
+
+    /**
+     * Iterate over every page matching a CQL query
+     */
+    iterateContent(cql: string): AsyncGenerator<ConfluencePage> {
+        const params = new URLSearchParams({ cql, expand: 'space,version,body.storage' });
+        return paginate(this.v1Pages<ConfluencePage>(`${this.apiPath}/content/search`, params, V1_PAGE_SIZE));
     }
 
     /**
@@ -108,7 +135,7 @@ export class ConfluenceHelper {
      */
     async getPage(pageId: string, expand?: string): Promise<ConfluencePage> {
         const expandParam = expand || 'body.storage,version,space';
-        return this.request<ConfluencePage>(`/wiki/rest/api/content/${pageId}?expand=${expandParam}`);
+        return this.request<ConfluencePage>(`${this.apiPath}/content/${pageId}?expand=${expandParam}`);
     }
 
     /**
@@ -140,14 +167,14 @@ export class ConfluenceHelper {
             body.ancestors = [{ id: parentId }];
         }
 
-        return this.request<ConfluencePage>('/wiki/rest/api/content', 'POST', body);
+        return this.request<ConfluencePage>(`${this.apiPath}/content`, 'POST', body);
     }
 
     /**
      * Update a page
      */
-    async updatePage(pageId: string, title: string, content: string, version: number): Promise<ConfluencePage> {
-        const body = {
+    async updatePage(pageId: string, title: string, content: string, version: number, parentId?: string): Promise<ConfluencePage> {
+        const body: any = {
             version: { number: version + 1 },
             title,
             type: 'page',
@@ -158,7 +185,13 @@ export class ConfluenceHelper {
                 }
             }
         };
-        return this.request<ConfluencePage>(`/wiki/rest/api/content/${pageId}`, 'PUT', body);
+
+        // Moves the page when the parent changed
+        if (parentId) {
+            body.ancestors = [{ id: parentId }];
+        }
+
+        return this.request<ConfluencePage>(`${this.apiPath}/content/${pageId}`, 'PUT', body);
     }
 
     /**
@@ -179,11 +212,34 @@ export class ConfluenceHelper {
         return result.results;
     }
 
+    /**
+     * Find the page with exactly this title in a space, as page links in storage format refer to pages
+     */
+    async findPageByTitle(spaceKey: string, title: string): Promise<ConfluencePage | undefined> {
+        const params = new URLSearchParams({ spaceKey, title, type: 'page', expand: 'version,space' });
+        const result = await this.request<any>(`${this.apiPath}/content?${params.toString()}`);
+        return result.results?.[0];
+    }
+
+    /**
+     * Absolute browser URL of a path on the Confluence site, such as a link in a page
+     */
+    siteUrl(path: string): string {
+        return (this.config.confluenceBaseUrl || this.config.baseUrl).replace(/\/+$/, '') + path;
+    }
+
     /**
      * Get current user info
      */
     async getCurrentUser(): Promise<any> {
-        return this.request('/wiki/rest/api/user/current');
+        return this.request(`${this.apiPath}/user/current`);
+    }
+
+    /**
+     * Get a user by account ID
+     */
+    async getUser(accountId: string): Promise<any> {
+        return this.request(`${this.apiPath}/user?accountId=${encodeURIComponent(accountId)}`);
     }
 
     /**
@@ -200,7 +256,7 @@ export class ConfluenceHelper {
      */
     async getStarredSpaces(): Promise<Array<{ key: string; name: string; id: string }>> {
         const cql = 'type = space AND favourite = currentUser() ORDER BY lastmodified DESC';
-        const result: any = await this.request(`/wiki/rest/api/content/search?cql=${encodeURIComponent(cql)}&limit=100`);
+        const result: any = await this.request(`${this.apiPath}/content/search?cql=${encodeURIComponent(cql)}&limit=100`);
         return result.results || [];
     }
 
@@ -277,9 +333,8 @@ export class ConfluenceHelper {
      * Get all Confluence spaces
      */
     async getAllSpaces(limit: number = 500): Promise<Array<{ key: string; name: string; id: string }>> {
-        const endpoint = `/wiki/rest/api/space?limit=${limit}`;
-        const result: any = await this.request(endpoint);
-        return result.results || [];
+        const pages = this.v1Pages<{ key: string; name: string; id: string }>(`${this.apiPath}/space`, new URLSearchParams(), Math.min(limit, V1_PAGE_SIZE));
+        return collect(paginate(pages), limit);
     }
 
     /**
@@ -316,14 +371,14 @@ export class ConfluenceHelper {
         if (location) {
             params.append('location', location);
         }
-        return this.request(`/wiki/rest/api/content/${pageId}/child/comment?${params.toString()}`);
+        return this.request(`${this.apiPath}/content/${pageId}/child/comment?${params.toString()}`);
     }
 
     /**
      * Delete a Confluence page
      */
     async deletePage(pageId: string): Promise<void> {
-        await this.request(`/wiki/rest/api/content/${pageId}`, 'DELETE');
+        await this.request(`${this.apiPath}/content/${pageId}`, 'DELETE');
     }
 
     // ===== COMMENT MANAGEMENT (v2 API) =====
@@ -332,28 +387,48 @@ export class ConfluenceHelper {
      * Get footer comments for a page (v2 API)
      */
     async getPageFooterComments(pageId: string, sort?: string, limit: number = 25): Promise<any> {
-        const params = new URLSearchParams({
-            'page-id': pageId,
-            limit: limit.toString()
-        });
+        const params = new URLSearchParams({ 'page-id': pageId });
+        if (sort) {
+            params.append('sort', sort);
+        }
+        return this.v2List(`${this.v2Path('getPageFooterComments')}/pages/${pageId}/footer-comments`, params, limit);
+    }
+
+    /**
+     * Iterate over every footer comment on a page (v2 API)
+     */
+    iteratePageFooterComments(pageId: string, sort?: string): AsyncGenerator<any> {
+        const params = new URLSearchParams({ 'page-id': pageId });
         if (sort) {
             params.append('sort', sort);
         }
-        return this.request(`/wiki/api/v2/pages/${pageId}/footer-comments?${params.toString()}`);
+        return paginate(this.v2Pages<any>(`${this.v2Path('getPageFooterComments')}/pages/${pageId}/footer-comments`, params, V2_PAGE_SIZE));
     }
 
     /**
      * Get inline comments for a page (v2 API)
      */
     async getPageInlineComments(pageId: string, sort?: string, limit: number = 25): Promise<any> {
-        const params = new URLSearchParams({
-            'page-id': pageId,
-            limit: limit.toString()
-        });
+        const params = new URLSearchParams({ 'page-id': pageId });
         if (sort) {
             params.append('sort', sort);
         }
-        return this.request(`/wiki/api/v2/pages/${pageId}/inline-comments?${params.toString()}`);
+        return this.v2List(`${this.v2Path('getPageInlineComments')}/pages/${pageId}/inline-comments`, params, limit);
+    }
+
+    /**
+     * Iterate over every inline comment on a page (v2 API)
+     * @param bodyFormat Include comment bodies in this format, e.g. 'storage'
+     */
+    iteratePageInlineComments(pageId: string, sort?: string, bodyFormat?: string): AsyncGenerator<any> {
+        const params = new URLSearchParams({ 'page-id': pageId });
+        if (sort) {
+            params.append('sort', sort);
+        }
+        if (bodyFormat) {
+            params.append('body-format', bodyFormat);
+        }
+        return paginate(this.v2Pages<any>(`${this.v2Path('getPageInlineComments')}/pages/${pageId}/inline-comments`, params, V2_PAGE_SIZE));
     }
 
     /**
@@ -376,7 +451,7 @@ export class ConfluenceHelper {
             payload.pageId = pageId;
         }
 
-        return this.request('/wiki/api/v2/footer-comments', 'POST', payload);
+        return this.request(`${this.v2Path('createFooterComment')}/footer-comments`, 'POST', payload);
     }
 
     /**
@@ -397,7 +472,7 @@ export class ConfluenceHelper {
             payload.pageId = pageId;
         }
 
-        return this.request('/wiki/api/v2/inline-comments', 'POST', payload);
+        return this.request(`${this.v2Path('createInlineComment')}/inline-comments`, 'POST', payload);
     }
 
     /**
@@ -414,7 +489,7 @@ export class ConfluenceHelper {
                 message: 'Updated comment'
             }
         };
-        return this.request(`/wiki/api/v2/footer-comments/${commentId}`, 'PUT', payload);
+        return this.request(`${this.v2Path('updateFooterComment')}/footer-comments/${commentId}`, 'PUT', payload);
     }
 
     /**
@@ -436,61 +511,61 @@ export class ConfluenceHelper {
             payload.resolutionStatus = resolutionStatus;
         }
 
-        return this.request(`/wiki/api/v2/inline-comments/${commentId}`, 'PUT', payload);
+        return this.request(`${this.v2Path('updateInlineComment')}/inline-comments/${commentId}`, 'PUT', payload);
     }
 
     /**
      * Get a footer comment by ID (v2 API)
      */
     async getFooterComment(commentId: string): Promise<any> {
-        return this.request(`/wiki/api/v2/footer-comments/${commentId}?body-format=storage`);
+        return this.request(`${this.v2Path('getFooterComment')}/footer-comments/${commentId}?body-format=storage`);
     }
 
     /**
      * Get an inline comment by ID (v2 API)
      */
     async getInlineComment(commentId: string): Promise<any> {
-        return this.request(`/wiki/api/v2/inline-comments/${commentId}?body-format=storage`);
+        return this.request(`${this.v2Path('getInlineComment')}/inline-comments/${commentId}?body-format=storage`);
     }
 
     /**
      * Delete a footer comment (v2 API)
      */
     async deleteFooterComment(commentId: string): Promise<void> {
-        await this.request(`/wiki/api/v2/footer-comments/${commentId}`, 'DELETE');
+        await this.request(`${this.v2Path('deleteFooterComment')}/footer-comments/${commentId}`, 'DELETE');
     }
 
     /**
      * Delete an inline comment (v2 API)
      */
     async deleteInlineComment(commentId: string): Promise<void> {
-        await this.request(`/wiki/api/v2/inline-comments/${commentId}`, 'DELETE');
+        await this.request(`${this.v2Path('deleteInlineComment')}/inline-comments/${commentId}`, 'DELETE');
     }
 
     /**
      * Get children comments of a footer comment (replies) (v2 API)
      */
     async getFooterCommentChildren(commentId: string, sort?: string, limit: number = 25): Promise<any> {
-        const params = new URLSearchParams({
-            limit: limit.toString()
-        });
+        const params = new URLSearchParams();
         if (sort) {
             params.append('sort', sort);
         }
-        return this.request(`/wiki/api/v2/footer-comments/${commentId}/children?${params.toString()}`);
+        return this.v2List(`${this.v2Path('getFooterCommentChildren')}/footer-comments/${commentId}/children`, params, limit);
     }
 
     /**
      * Get children comments of an inline comment (replies) (v2 API)
+     * @param bodyFormat Include comment bodies in this format, e.g. 'storage'
      */
-    async getInlineCommentChildren(commentId: string, sort?: string, limit: number = 25): Promise<any> {
-        const params = new URLSearchParams({
-            limit: limit.toString()
-        });
+    async getInlineCommentChildren(commentId: string, sort?: string, limit: number = 25, bodyFormat?: string): Promise<any> {
+        const params = new URLSearchParams();
         if (sort) {
             params.append('sort', sort);
         }
-        return this.request(`/wiki/api/v2/inline-comments/${commentId}/children?${params.toString()}`);
+        if (bodyFormat) {
+            params.append('body-format', bodyFormat);
+        }
+        return this.v2List(`${this.v2Path('getInlineCommentChildren')}/inline-comments/${commentId}/children`, params, limit);
     }
 
     /**
@@ -516,20 +591,37 @@ export class ConfluenceHelper {
      * Get a specific space by key
      */
     async getSpace(spaceKey: string): Promise<any> {
-        return this.request(`/wiki/rest/api/space/${spaceKey}?expand=description.plain,homepage`);
+        return this.request(`${this.apiPath}/space/${spaceKey}?expand=description.plain,homepage`);
     }
 
     /**
      * Get pages in a space (v2 API)
      */
     async getSpacePages(spaceId: string, limit: number = 25, sort?: string): Promise<any> {
-        const params = new URLSearchParams({
-            limit: limit.toString()
-        });
+        const params = new URLSearchParams();
+        if (sort) {
+            params.append('sort', sort);
+        }
+        return this.v2List(`${this.v2Path('getSpacePages')}/spaces/${spaceId}/pages`, params, limit);
+    }
+
+    /**
+     * Iterate over every page in a space (v2 API)
+     */
+    iterateSpacePages(spaceId: string, sort?: string): AsyncGenerator<any> {
+        const params = new URLSearchParams();
         if (sort) {
             params.append('sort', sort);
         }
-        return this.request(`/wiki/api/v2/spaces/${spaceId}/pages?${params.toString()}`);
+        return paginate(this.v2Pages<any>(`${this.v2Path('getSpacePages')}/spaces/${spaceId}/pages`, params, V2_PAGE_SIZE));
+    }
+
+    /**
+     * Iterate over every page in a space with its ancestors and version (v1 API, also available on Data Center)
+     */
+    iteratePagesInSpace(spaceKey: string): AsyncGenerator<ConfluencePage> {
+        const params = new URLSearchParams({ spaceKey, type: 'page', expand: 'ancestors,version' });
+        return paginate(this.v1Pages<ConfluencePage>(`${this.apiPath}/content`, params, V1_PAGE_SIZE));
     }
 
     // ===== PAGE OPERATIONS =====
@@ -538,42 +630,131 @@ export class ConfluenceHelper {
      * Get page version history
      */
     async getPageHistory(pageId: string, limit: number = 25): Promise<any> {
-        return this.request(`/wiki/rest/api/content/${pageId}/history?expand=lastUpdated,previousVersion&limit=${limit}`);
+        return this.request(`${this.apiPath}/content/${pageId}/history?expand=lastUpdated,previousVersion&limit=${limit}`);
     }
 
     /**
      * Get specific version of a page
      */
     async getPageVersion(pageId: string, version: number): Promise<any> {
-        return this.request(`/wiki/rest/api/content/${pageId}?status=historical&version=${version}&expand=body.storage,version`);
+        return this.request(`${this.apiPath}/content/${pageId}?status=historical&version=${version}&expand=body.storage,version`);
+    }
+
+    /**
+     * List the versions of a page, newest first, with author, date and message
+     */
+    async getPageVersions(pageId: string, limit: number = 25, start: number = 0): Promise<any> {
+        // Data Center lists versions only under its experimental API
+        const root = isDataCenter(this.config) ? '/rest/experimental' : this.apiPath;
+        const pages = this.v1Pages<any>(`${root}/content/${pageId}/version`, new URLSearchParams(), Math.min(limit, V1_PAGE_SIZE), start);
+        const { items, hasMore } = await takeItems(pages, limit);
+        return { results: items, size: items.length, start, limit, hasMore };
+    }
+
+    /**
+     * Republish the title and body of an old version as a new version of the page
+     */
+    async restorePageVersion(pageId: string, version: number): Promise<ConfluencePage> {
+        const [old, current] = await Promise.all([this.getPageVersion(pageId, version), this.getPage(pageId, 'version')]);
+        return this.request<ConfluencePage>(`${this.apiPath}/content/${pageId}`, 'PUT', {
+            version: { number: (current.version?.number || 0) + 1, message: `Restored version ${version}` },
+            title: old.title,
+            type: 'page',
+            body: {
+                storage: {
+                    value: old.body?.storage?.value || '',
+                    representation: 'storage'
+                }
+            }
+        });
     }
 
     /**
      * Get child pages of a page
      */
-    async getChildPages(pageId: string, limit: number = 25): Promise<any> {
-        return this.request(`/wiki/rest/api/content/${pageId}/child/page?expand=version&limit=${limit}`);
+    async getChildPages(pageId: string, limit: number = 25, start: number = 0): Promise<any> {
+        const params = new URLSearchParams({ expand: 'version,childTypes.page' });
+        const pages = this.v1Pages<any>(`${this.apiPath}/content/${pageId}/child/page`, params, Math.min(limit, V1_PAGE_SIZE), start);
+        const { items, hasMore } = await takeItems(pages, limit);
+        return { results: items, size: items.length, start, limit, hasMore };
+    }
+
+    /**
+     * Get the top-level pages of a space, in the order Confluence shows them
+     */
+    async getRootPages(spaceKey: string, limit: number = 25, start: number = 0): Promise<ConfluenceSearchResult & { hasMore: boolean }> {
+        const params = new URLSearchParams({ depth: 'root', expand: 'version,childTypes.page' });
+        const pages = this.v1Pages<ConfluencePage>(`${this.apiPath}/space/${encodeURIComponent(spaceKey)}/content/page`, params, Math.min(limit, V1_PAGE_SIZE), start);
+        const { items, hasMore } = await takeItems(pages, limit);
+        return { results: items, size: items.length, start, limit, hasMore };
+    }
+
+    /**
+     * Iterate over every child page of a page
+     */
+    iterateChildPages(pageId: string): AsyncGenerator<any> {
+        return paginate(this.v1Pages<any>(`${this.apiPath}/content/${pageId}/child/page`, new URLSearchParams({ expand: 'version' }), V1_PAGE_SIZE));
     }
 
     /**
      * Get page ancestors (parent pages)
      */
     async getPageAncestors(pageId: string): Promise<any> {
-        return this.request(`/wiki/rest/api/content/${pageId}?expand=ancestors`);
+        return this.request(`${this.apiPath}/content/${pageId}?expand=ancestors`);
     }
 
     /**
      * Get page attachments
      */
     async getPageAttachments(pageId: string, limit: number = 25): Promise<any> {
-        return this.request(`/wiki/rest/api/content/${pageId}/child/attachment?expand=version&limit=${limit}`);
+        return this.request(`${this.apiPath}/content/${pageId}/child/attachment?expand=version&limit=${limit}`);
+    }
+
+    /**
+     * Iterate over every attachment of a page
+     */
+    iterateAttachments(pageId: string): AsyncGenerator<any> {
+        return paginate(this.v1Pages<any>(`${this.apiPath}/content/${pageId}/child/attachment`, new URLSearchParams({ expand: 'version' }), V1_PAGE_SIZE));
+    }
+
+    /**
+     * Download the content of an attachment listed by getPageAttachments or iterateAttachments
+     */
+    async downloadAttachment(attachment: { _links?: { download?: string } }): Promise<Buffer> {
+        const download = attachment._links?.download;
+        if (!download) {
+            throw new Error('Attachment has no download link');
+        }
+        // Download links are relative to the Confluence context (/wiki on Cloud), not to the REST API
+        return this.client.download(this.apiPath.replace(/\/rest\/api$/, '') + download, { token: this.cancellationToken });
+    }
+
+    /**
+     * Upload a file as a page attachment, replacing an attachment with the same file name
+     */
+    async uploadAttachment(pageId: string, filename: string, data: Buffer, contentType: string = 'application/octet-stream'): Promise<any> {
+        const boundary = `----AtlassianTools${randomUUID().replace(/-/g, '')}`;
+        const safeName = filename.replace(/["\r\n]/g, '_');
+        const body = Buffer.concat([
+            Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${safeName}"\r\nContent-Type: ${contentType}\r\n\r\n`),
+            data,
+            Buffer.from(`\r\n--${boundary}\r\nContent-Disposition: form-data; name="minorEdit"\r\n\r\ntrue\r\n--${boundary}--\r\n`)
+        ]);
+        return this.client.request(`${this.apiPath}/content/${pageId}/child/attachment`, 'PUT', body, {
+            token: this.cancellationToken,
+            headers: {
+                'Content-Type': `multipart/form-data; boundary=${boundary}`,
+                // Required by Confluence for multipart uploads
+                'X-Atlassian-Token': 'no-check'
+            }
+        });
     }
 
     /**
      * Get page labels
      */
     async getPageLabels(pageId: string): Promise<any> {
-        return this.request(`/wiki/rest/api/content/${pageId}/label`);
+        return this.request(`${this.apiPath}/content/${pageId}/label`);
     }
 
     /**
@@ -581,14 +762,14 @@ export class ConfluenceHelper {
      */
     async addPageLabel(pageId: string, label: string): Promise<any> {
         const body = [{ prefix: 'global', name: label }];
-        return this.request(`/wiki/rest/api/content/${pageId}/label`, 'POST', body);
+        return this.request(`${this.apiPath}/content/${pageId}/label`, 'POST', body);
     }
 
     /**
      * Remove label from a page
      */
     async removePageLabel(pageId: string, label: string): Promise<void> {
-        await this.request(`/wiki/rest/api/content/${pageId}/label/${label}`, 'DELETE');
+        await this.request(`${this.apiPath}/content/${pageId}/label/${label}`, 'DELETE');
     }
 
     /**
@@ -605,7 +786,7 @@ export class ConfluenceHelper {
         if (targetParentId) {
             body.ancestors = [{ id: targetParentId }];
         }
-        return this.request(`/wiki/rest/api/content/${pageId}`, 'PUT', body);
+        return this.request(`${this.apiPath}/content/${pageId}`, 'PUT', body);
     }
 
     /**
@@ -642,7 +823,7 @@ export class ConfluenceHelper {
             limit: limit.toString()
         });
         try {
-            const result = await this.request<any>(`/wiki/rest/api/search?${params.toString()}`);
+            const result = await this.request<any>(`${this.apiPath}/search?${params.toString()}`);
             return result.results || [];
         } catch {
             // Fallback to returning empty array if search fails
@@ -654,6 +835,9 @@ export class ConfluenceHelper {
      * Get watchers of a page
      */
     async getPageWatchers(pageId: string): Promise<any> {
-        return this.request(`/wiki/rest/api/content/${pageId}/notification/child-created`);
+        if (isDataCenter(this.config)) {
+            throw new UnsupportedDeploymentError('getPageWatchers');
+        }
+        return this.request(`${this.apiPath}/content/${pageId}/notification/child-created`);
     }
 }
@@ -0,0 +1,149 @@
+/**
+ * Deep copy of a Confluence page and all of its descendants.
+ *
+ * - The copies keep the shape of the original tree below the target parent
+ * - Attachments are downloaded and uploaded again, labels are re-applied
+ * - Links between pages of the copied tree (by title or by page ID) point at the copies
+ */
+
+import { ConfluenceHelper, ConfluencePage } from './confluenceHelper';
+
+export interface CopyTreeOptions {
+    /** Root of the tree to copy */
+    pageId: string;
+    targetSpaceKey: string;
+    /** Page the copy of the root goes under; the top level of the space otherwise */
+    targetParentId?: string;
+    /** Prepended to every copied title; needed when copying within a space, where titles must be unique */
+    titlePrefix?: string;
+    onProgress?: (message: string) => void;
+}
+
+export interface CopyTreeResult {
+    rootPageId: string;
+    /** Copies keyed by the ID of the original page, parents first */
+    pages: Record<string, { pageId: string; title: string }>;
+    attachments: number;
+    labels: number;
+}
+
+interface SourcePage {
+    page: ConfluencePage;
+    parentId?: string;
+    title: string;
+}
+
+// Page ID references in link URLs: /pages/123, /pages/viewpage.action?pageId=123
+const PAGE_ID_REFERENCE = /(\/pages\/|[?&](?:amp;)?pageId=)(\d+)/g;
+const PAGE_TITLE_REFERENCE = /<ri:page\b[^>]*>/g;
+
+/**
+ * Copy the page and its descendants; copies already created are kept when a later step fails
+ */
+export async function copyPageTree(helper: ConfluenceHelper, options: CopyTreeOptions): Promise<CopyTreeResult> {
+    const { pageId, targetSpaceKey, targetParentId, titlePrefix = '', onProgress } = options;
+
+    // The whole tree is listed before anything is created, so copying into the tree itself terminates
+    onProgress?.('Listing pages');
+    const sources = await collectTree(helper, pageId, titlePrefix);
+    const sourceSpaceKey = sources[0].page.space?.key;
+    const titles = new Map(sources.map(source => [source.page.title, source.title]));
+
+    const copies = new Map<string, { page: ConfluencePage; storage: string }>();
+    const result: CopyTreeResult = { rootPageId: '', pages: {}, attachments: 0, labels: 0 };
+    for (const source of sources) {
+        onProgress?.(`Copying ${source.page.title}`);
+        const storage = rewriteTitleLinks(source.page.body?.storage?.value || '', titles, sourceSpaceKey, targetSpaceKey);
+        const parentId = source.parentId ? copies.get(source.parentId)!.page.id : targetParentId;
+        const copy = await helper.createPage(targetSpaceKey, source.title, storage, parentId);
+        copies.set(source.page.id, { page: copy, storage });
+        result.pages[source.page.id] = { pageId: copy.id, title: copy.title };
+
+        for await (const attachment of helper.iterateAttachments(source.page.id)) {
+            const data = await helper.downloadAttachment(attachment);
+            await helper.uploadAttachment(copy.id, attachment.title, data, attachment.extensions?.mediaType || attachment.metadata?.mediaType);
+            result.attachments++;
+        }
+        for (const label of source.page.metadata?.labels?.results || []) {
+            await helper.addPageLabel(copy.id, label.name);
+            result.labels++;
+        }
+    }
+    result.rootPageId = copies.get(pageId)!.page.id;
+
+    // Links by page ID can only be pointed at the copies once every copy exists
+    const ids = new Map([...copies].map(([id, copy]) => [id, copy.page.id]));
+    for (const { page, storage } of copies.values()) {
+        const rewritten = storage.replace(PAGE_ID_REFERENCE, (match, prefix: string, id: string) => ids.has(id) ? prefix + ids.get(id) : match);
+        if (rewritten !== storage) {
+            onProgress?.(`Updating links in ${page.title}`);
+            await helper.updatePage(page.id, page.title, rewritten, page.version?.number ?? 1);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * The page and its descendants with their bodies and labels, parents first
+ */
+async function collectTree(helper: ConfluenceHelper, pageId: string, titlePrefix: string): Promise<SourcePage[]> {
+    const fetch = (id: string) => helper.getPage(id, 'body.storage,version,space,metadata.labels');
+    const root = await fetch(pageId);
+    const sources: SourcePage[] = [{ page: root, title: titlePrefix + root.title }];
+    for (let index = 0; index < sources.length; index++) {
+        const parent = sources[index].page;
+        for await (const child of helper.iterateChildPages(parent.id)) {
+            const page = await fetch(child.id);
+            sources.push({ page, parentId: parent.id, title: titlePrefix + page.title });
+        }
+    }
+    return sources;
+}
+
+/**
+ * Point `<ri:page>` references to pages of the copied tree at the copies' titles and space
+ */
+function rewriteTitleLinks(storage: string, titles: Map<string, string>, sourceSpaceKey: string | undefined, targetSpaceKey: string): string {
+    return storage.replace(PAGE_TITLE_REFERENCE, (element) => {
+        const title = attribute(element, 'ri:content-title');
+        const spaceKey = attribute(element, 'ri:space-key');
+        // Without a space key the link is to a page in the same space as the linking page
+        const copied = title !== undefined && titles.has(title) && (spaceKey ?? sourceSpaceKey) === sourceSpaceKey;
+        if (!copied) {
+            // Keep links to pages outside the tree pointing at the source space
+            return spaceKey === undefined && title !== undefined && sourceSpaceKey && sourceSpaceKey !== targetSpaceKey
+                ? element.replace(/^<ri:page\b/, `<ri:page ri:space-key="${encodeEntities(sourceSpaceKey)}"`)
+                : element;
+        }
+        let rewritten = setAttribute(element, 'ri:content-title', titles.get(title!)!);
+        if (spaceKey !== undefined) {
+            rewritten = setAttribute(rewritten, 'ri:space-key', targetSpaceKey);
+        }
+        return rewritten;
+    });
+}
+
+function attribute(element: string, name: string): string | undefined {
+    const match = new RegExp(`\\s${name}="([^"]*)"`).exec(element);
+    return match ? decodeEntities(match[1]) : undefined;
+}
+
+function setAttribute(element: string, name: string, value: string): string {
+    return element.replace(new RegExp(`(\\s${name}=")[^"]*(")`), (_match, before: string, after: string) => before + encodeEntities(value) + after);
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
+
+function encodeEntities(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,61 @@
+/**
+ * Saving an edited page YAML document without overwriting someone else's edits.
+ *
+ * - The version the YAML records is compared with the live page before updating; when it moved on,
+ *   the caller merges the remote changes into the document first
+ * - A 409 from the update (someone saved between the check and the update) starts the check again
+ * - The saved document gets the new version in its frontmatter, so the next save needs no reopening
+ */
+
+import { AtlassianApiError } from './atlassianClient';
+import { ConfluenceHelper, ConfluencePage } from './confluenceHelper';
+import { extractPageContent, withVersion } from '../utils/confluenceYamlConverters';
+
+export interface PageSaveCallbacks {
+    /** Current text of the YAML document; read again after each merge */
+    getYaml: () => string;
+    /** Merge the live page into the document; resolving to false cancels the save */
+    mergeRemoteChanges: (live: ConfluencePage, baseVersion: number) => Promise<boolean>;
+}
+
+export interface SavedPage {
+    page: ConfluencePage;
+    /** The document with the saved version recorded in its frontmatter */
+    yaml: string;
+}
+
+/**
+ * Update the page from the YAML document, merging first whenever the live version moved on.
+ * Resolves to undefined when a merge is cancelled.
+ */
+export async function savePageWithVersionCheck(helper: ConfluenceHelper, pageId: string, callbacks: PageSaveCallbacks): Promise<SavedPage | undefined> {
+    let baseVersion = extractPageContent(callbacks.getYaml()).version;
+    let conflicted = false;
+    for (;;) {
+        const live = await helper.getPage(pageId, 'body.storage,version,space');
+        const liveVersion = live.version?.number ?? baseVersion;
+        if (liveVersion !== baseVersion) {
+            if (!await callbacks.mergeRemoteChanges(live, baseVersion)) {
+                return undefined;
+            }
+            baseVersion = liveVersion;
+        } else if (conflicted) {
+            // Rejected although nobody else saved in between: not a version conflict
+            throw new Error(`Confluence rejected version ${baseVersion + 1} of page ${pageId}`);
+        }
+
+        // A Markdown body keeps the live storage of blocks it did not change
+        const yamlContent = callbacks.getYaml();
+        const extracted = extractPageContent(yamlContent, live.body?.storage?.value);
+        try {
+            const page = await helper.updatePage(pageId, extracted.title, extracted.content, baseVersion);
+            return { page, yaml: withVersion(yamlContent, page.version?.number ?? baseVersion + 1) };
+        } catch (error) {
+            if (!(error instanceof AtlassianApiError && error.statusCode === 409)) {
+                throw error;
+            }
+            // Someone saved between the check and the update
+            conflicted = true;
+        }
+    }
+}
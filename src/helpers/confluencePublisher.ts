@@ -0,0 +1,385 @@
+/**
+ * Docs-as-code publishing: mirror a folder of Markdown files as a Confluence page tree.
+ *
+ * - Every `.md` file becomes a page under the page of its directory; subdirectories become pages too,
+ *   with an `index.md` or `README.md` in them as their body (a children macro otherwise)
+ * - Titles come from the first `# Heading` of a file, or its file name
+ * - Relative links between Markdown files become page links; linked local files and images
+ *   are uploaded as attachments of the linking page
+ * - Page IDs and content hashes are kept in a mapping file inside the folder, so republishing
+ *   only updates pages whose content, title or parent changed
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AdfDocument, AdfNode, markdownToAdf } from './adfMarkdown';
+import { AtlassianApiError } from './atlassianClient';
+import { ConfluenceHelper } from './confluenceHelper';
+import { adfToStorage } from './storageMarkdown';
+
+export const MAPPING_FILE_NAME = '.confluence-publish.json';
+
+const INDEX_FILES = ['index.md', 'README.md', 'readme.md'];
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+const DIRECTORY_BODY = '<ac:structured-macro ac:name="children"/>';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp',
+    '.pdf': 'application/pdf',
+    '.txt': 'text/plain'
+};
+
+export interface PublishOptions {
+    /** Absolute path of the folder to publish */
+    folder: string;
+    spaceKey: string;
+    /** Page the folder's top-level pages are created under */
+    parentId: string;
+    /** Update every page, even those unchanged since the last publish */
+    force?: boolean;
+    onProgress?: (message: string) => void;
+}
+
+export interface PublishResult {
+    /** Relative paths of the files and directories published, by outcome */
+    created: string[];
+    updated: string[];
+    unchanged: string[];
+    /** Uploaded attachments, as `<page path>: <file>` */
+    attachments: string[];
+    /** Links left unchanged because they name no page or file in the folder, as `<page path>: <link>` */
+    warnings: string[];
+    mappingFile: string;
+    pages: Record<string, { pageId: string; title: string }>;
+}
+
+/**
+ * Contents of the mapping file
+ */
+export interface PublishMapping {
+    spaceKey: string;
+    parentId: string;
+    /** Keyed by the folder-relative path of the file, or of the directory for directory pages */
+    pages: Record<string, PublishedPage>;
+}
+
+interface PublishedPage {
+    pageId: string;
+    title: string;
+    /** Hash of the published title, parent and storage */
+    hash: string;
+    /** Hash of each uploaded attachment, by file name */
+    attachments?: Record<string, string>;
+}
+
+interface SourcePage {
+    /** Folder-relative path with forward slashes; '' never occurs (the folder itself is the parent page) */
+    key: string;
+    /** Key of the parent directory page; undefined for top-level pages */
+    parentKey?: string;
+    title: string;
+    /** Absolute path of the Markdown file; undefined for directories without an index file */
+    file?: string;
+    markdown?: string;
+}
+
+/**
+ * Publish the folder, creating or updating one page per Markdown file and subdirectory
+ */
+export async function publishFolder(helper: ConfluenceHelper, options: PublishOptions): Promise<PublishResult> {
+    const { folder, spaceKey, parentId, force = false, onProgress } = options;
+    const mappingFile = path.join(folder, MAPPING_FILE_NAME);
+    const previous = await readPublishMapping(folder);
+    // A mapping for another target would update pages elsewhere
+    const known = previous && previous.spaceKey === spaceKey && previous.parentId === parentId ? previous.pages : {};
+
+    const sources = await collectSources(folder);
+    if (sources.length === 0) {
+        throw new Error(`No Markdown files found in ${folder}`);
+    }
+    const byKey = new Map(sources.map(source => [source.key, source]));
+
+    const mapping: PublishMapping = { spaceKey, parentId, pages: {} };
+    const result: PublishResult = { created: [], updated: [], unchanged: [], attachments: [], warnings: [], mappingFile, pages: {} };
+    const existingChildren = new Map<string, Map<string, any>>();
+
+    try {
+        // Parents sort before their children
+        for (const source of sources) {
+            const parentPageId = source.parentKey ? mapping.pages[source.parentKey].pageId : parentId;
+            const uploads = new Map<string, string>();
+            const storage = source.markdown !== undefined
+                ? adfToStorage(await rewriteLinks(markdownToAdf(source.markdown), source, folder, spaceKey, byKey, uploads, result.warnings))
+                : DIRECTORY_BODY;
+            const hash = sha256(JSON.stringify([source.title, parentPageId, storage]));
+            const entry = known[source.key];
+
+            let pageId = entry?.pageId;
+            let outcome: 'created' | 'updated' | 'unchanged' = 'unchanged';
+            if (!entry || entry.hash !== hash || force) {
+                onProgress?.(`Publishing ${source.key}`);
+                const published = await publishPage(helper, spaceKey, parentPageId, source.title, storage, entry?.pageId, existingChildren);
+                pageId = published.pageId;
+                outcome = published.created ? 'created' : 'updated';
+            }
+            result[outcome].push(source.key);
+
+            const attachments: Record<string, string> = {};
+            for (const [name, file] of uploads) {
+                const data = await fs.readFile(file);
+                const fileHash = sha256(data);
+                if (entry?.attachments?.[name] !== fileHash || outcome === 'created' || force) {
+                    onProgress?.(`Uploading ${name} to ${source.key}`);
+                    await helper.uploadAttachment(pageId!, name, data, CONTENT_TYPES[path.extname(name).toLowerCase()]);
+                    result.attachments.push(`${source.key}: ${name}`);
+                }
+                attachments[name] = fileHash;
+            }
+
+            mapping.pages[source.key] = { pageId: pageId!, title: source.title, hash, ...(uploads.size > 0 ? { attachments } : {}) };
+            result.pages[source.key] = { pageId: pageId!, title: source.title };
+        }
+    } finally {
+        // Keep what was published so far, so a retry does not duplicate pages
+        await fs.writeFile(mappingFile, JSON.stringify(mapping, null, 2) + '\n', 'utf8');
+    }
+
+    return result;
+}
+
+/**
+ * Update the mapped page, or else take over a same-titled child of the parent, or else create the page
+ */
+async function publishPage(
+    helper: ConfluenceHelper,
+    spaceKey: string,
+    parentPageId: string,
+    title: string,
+    storage: string,
+    pageId: string | undefined,
+    existingChildren: Map<string, Map<string, any>>
+): Promise<{ pageId: string; created: boolean }> {
+    if (pageId) {
+        try {
+            const page = await helper.getPage(pageId, 'version');
+            await helper.updatePage(pageId, title, storage, page.version?.number ?? 1, parentPageId);
+            return { pageId, created: false };
+        } catch (error) {
+            // Deleted on Confluence since the last publish: create it again
+            if (!(error instanceof AtlassianApiError && error.statusCode === 404)) {
+                throw error;
+            }
+        }
+    }
+
+    // Titles are unique within a space, so a page published before without a mapping is taken over
+    let children = existingChildren.get(parentPageId);
+    if (!children) {
+        children = new Map();
+        for await (const child of helper.iterateChildPages(parentPageId)) {
+            children.set(child.title, child);
+        }
+        existingChildren.set(parentPageId, children);
+    }
+    const existing = children.get(title);
+    if (existing) {
+        await helper.updatePage(existing.id, title, storage, existing.version?.number ?? 1, parentPageId);
+        return { pageId: existing.id, created: false };
+    }
+
+    const created = await helper.createPage(spaceKey, title, storage, parentPageId);
+    return { pageId: created.id, created: true };
+}
+
+/**
+ * Point relative links at the pages and attachments they name, collecting the files to upload by attachment name.
+ * Links to missing files or directories are left as they are and reported in `warnings`.
+ */
+async function rewriteLinks(
+    adf: AdfDocument,
+    source: SourcePage,
+    folder: string,
+    spaceKey: string,
+    byKey: Map<string, SourcePage>,
+    uploads: Map<string, string>,
+    warnings: string[]
+): Promise<AdfDocument> {
+    const resolve = async (href: string): Promise<string | undefined> => {
+        if (/^([a-z][a-z0-9+.-]*:|#|\/)/i.test(href)) {
+            return undefined;
+        }
+        const hash = href.indexOf('#');
+        const target = hash === -1 ? href : href.slice(0, hash);
+        const anchor = hash === -1 ? '' : href.slice(hash);
+        const absolute = path.resolve(path.dirname(source.file!), safeDecode(target));
+        const key = path.relative(folder, absolute).split(path.sep).join('/');
+        if (key.startsWith('..') || path.isAbsolute(key)) {
+            return undefined;
+        }
+
+        const page = byKey.get(key) || byKey.get(key.replace(/\/(index|README|readme)\.md$/, ''));
+        if (page) {
+            return `page:${encodeURIComponent(spaceKey)}/${encodeURIComponent(page.title)}${anchor}`;
+        }
+        const stats = await fs.stat(absolute).catch(() => undefined);
+        if (!stats?.isFile()) {
+            const warning = `${source.key}: ${href}`;
+            if (!warnings.includes(warning)) {
+                warnings.push(warning);
+            }
+            return undefined;
+        }
+        const name = attachmentName(absolute, uploads);
+        uploads.set(name, absolute);
+        return `attachment:${encodeURIComponent(name)}`;
+    };
+
+    // Sequential, so attachment names follow the order of the links
+    const visit = async (node: AdfNode): Promise<AdfNode> => {
+        const rewritten: AdfNode = { ...node };
+        if ((node.type === 'media' || node.type === 'mediaInline') && node.attrs?.type === 'external' && typeof node.attrs.url === 'string') {
+            const url = await resolve(node.attrs.url);
+            if (url?.startsWith('attachment:')) {
+                rewritten.attrs = { ...node.attrs, url };
+            }
+        }
+        if (node.marks) {
+            rewritten.marks = [];
+            for (const mark of node.marks) {
+                const href = mark.type === 'link' ? mark.attrs?.href : undefined;
+                const url = typeof href === 'string' ? await resolve(href) : undefined;
+                rewritten.marks.push(url ? { ...mark, attrs: { ...mark.attrs, href: url } } : mark);
+            }
+        }
+        if (node.content) {
+            rewritten.content = [];
+            for (const child of node.content) {
+                rewritten.content.push(await visit(child));
+            }
+        }
+        return rewritten;
+    };
+
+    const content: AdfNode[] = [];
+    for (const node of adf.content) {
+        content.push(await visit(node));
+    }
+    return { ...adf, content };
+}
+
+/**
+ * Attachment name for a linked file: its file name, with a `-2`, `-3`, ... suffix when another file
+ * linked from the same page already has that name
+ */
+function attachmentName(file: string, uploads: Map<string, string>): string {
+    for (const [name, uploaded] of uploads) {
+        if (uploaded === file) {
+            return name;
+        }
+    }
+    const extension = path.extname(file);
+    const stem = path.basename(file, extension);
+    let name = path.basename(file);
+    for (let counter = 2; uploads.has(name); counter++) {
+        name = `${stem}-${counter}${extension}`;
+    }
+    return name;
+}
+
+/**
+ * Walk the folder for Markdown files, parents first, skipping hidden and dependency directories
+ */
+async function collectSources(folder: string): Promise<SourcePage[]> {
+    const sources: SourcePage[] = [];
+
+    const walk = async (directory: string, parentKey?: string): Promise<{ found: boolean; index?: string }> => {
+        const entries = (await fs.readdir(directory, { withFileTypes: true }))
+            .filter(entry => !entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name))
+            .sort((a, b) => a.name.localeCompare(b.name));
+        // The folder itself is the chosen parent page, so its index file is an ordinary page
+        const index = directory === folder
+            ? undefined
+            : INDEX_FILES.find(name => entries.some(entry => entry.isFile() && entry.name === name));
+        let found = index !== undefined;
+
+        for (const entry of entries) {
+            const absolute = path.join(directory, entry.name);
+            const key = path.relative(folder, absolute).split(path.sep).join('/');
+            if (entry.isFile() && /\.md$/i.test(entry.name) && entry.name !== index) {
+                sources.push(await readSource(absolute, key, entry.name.replace(/\.md$/i, ''), parentKey));
+                found = true;
+            } else if (entry.isDirectory()) {
+                // The directory page goes before its children, once we know it has any Markdown
+                const position = sources.length;
+                const directoryPage = await walk(absolute, key);
+                if (directoryPage.found) {
+                    const page = directoryPage.index
+                        ? await readSource(path.join(absolute, directoryPage.index), key, entry.name, parentKey)
+                        : { key, parentKey, title: entry.name };
+                    sources.splice(position, 0, page);
+                    found = true;
+                }
+            }
+        }
+        return { found, index };
+    };
+
+    await walk(folder);
+    return sources;
+}
+
+async function readSource(file: string, key: string, fallbackTitle: string, parentKey?: string): Promise<SourcePage> {
+    const text = (await fs.readFile(file, 'utf8')).replace(/\r\n?/g, '\n');
+    const { title, body } = splitTitle(text);
+    return { key, parentKey, file, title: title || fallbackTitle, markdown: body };
+}
+
+/**
+ * Take the first level-one heading outside code blocks as the title, removing it from the body
+ */
+function splitTitle(markdown: string): { title?: string; body: string } {
+    const lines = markdown.split('\n');
+    let fence: string | undefined;
+    for (let i = 0; i < lines.length; i++) {
+        const marker = lines[i].match(/^\s*(`{3,}|~{3,})/)?.[1];
+        if (marker && (!fence || marker.startsWith(fence))) {
+            fence = fence ? undefined : marker;
+            continue;
+        }
+        const heading = !fence && lines[i].match(/^#\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            lines.splice(i, 1);
+            return { title: heading[1], body: lines.join('\n').trim() + '\n' };
+        }
+    }
+    return { body: markdown };
+}
+
+/**
+ * Mapping left by the last publish of the folder, if any
+ */
+export async function readPublishMapping(folder: string): Promise<PublishMapping | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(path.join(folder, MAPPING_FILE_NAME), 'utf8'));
+    } catch {
+        return undefined;
+    }
+}
+
+function sha256(data: string | Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
@@ -1,7 +1,14 @@
-import * as https from 'https';
-import * as http from 'http';
-import { URL } from 'url';
-import { AtlassianConfig } from '../utils/configLoader';
+import { AtlassianConfig, isDataCenter } from '../utils/configLoader';
+import { AtlassianClient, CancellationTokenLike } from './atlassianClient';
+import { adfToPlainText, markdownToAdf } from './adfMarkdown';
+import { adfToWikiMarkup, isAdfDocument } from './jiraWikiMarkup';
+import { Page, collect, mapConcurrent, nextJiraOffset, paginate, paginatePages, takeItems } from './pagination';
+
+/** Largest page the search endpoints return when all fields are requested */
+const SEARCH_PAGE_SIZE = 100;
+
+/** Epics whose child issues are searched at the same time */
+const EPIC_CONCURRENCY = 4;
 
 export interface JiraIssue {
     id: string;
@@ -10,7 +17,7 @@ export interface JiraIssue {
         summary: string;
         status: { name: string };
         assignee?: { displayName: string; emailAddress: string; accountId?: string };
-        reporter?: { displayName: string; emailAddress: string };
+        reporter?: { displayName: string; emailAddress: string; accountId?: string };
         created: string;
         updated: string;
         description?: any;
@@ -33,77 +40,93 @@ export interface JiraSearchResult {
 
 export class JiraHelper {
     private config: AtlassianConfig;
+    private client: AtlassianClient;
+    private cancellationToken?: CancellationTokenLike;
+    /** REST API root: v3 (ADF) on Cloud, v2 (wiki markup) on Server/Data Center */
+    private apiPath: string;
 
     constructor(config: AtlassianConfig) {
         this.config = config;
+        this.client = new AtlassianClient(config, { serviceName: 'JIRA' });
+        this.apiPath = isDataCenter(config) ? '/rest/api/2' : '/rest/api/3';
+    }
+
+    /**
+     * Return a view of this helper whose requests are aborted when the token is cancelled
+     */
+    withCancellation(token?: CancellationTokenLike): JiraHelper {
+        const scoped = Object.create(this) as JiraHelper;
+        scoped.cancellationToken = token;
+        return scoped;
     }
 
     /**
      * Make an authenticated request to JIRA REST API
      */
     private async request<T>(endpoint: string, method: string = 'GET', body?: any): Promise<T> {
-        const url = new URL(endpoint, this.config.baseUrl);
-        const auth = Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString('base64');
-
-        return new Promise((resolve, reject) => {
-            const protocol = url.protocol === 'https:' ? https : http;
-            
-            const options = {
-                hostname: url.hostname,
-                port: url.port,
-                path: url.pathname + url.search,
-                method: method,
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
-                }
-            };
+        return this.client.request<T>(endpoint, method, body, { token: this.cancellationToken });
+    }
 
-            const req = protocol.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-                        try {
-                            const parsed = data ? JSON.parse(data) : {};
-                            resolve(parsed);
-                        } catch (e) {
-                            resolve(data as any);
-                        }
-                    } else {
-                        reject(new Error(`JIRA API error: ${res.statusCode} - ${data}`));
-                    }
-                });
-            });
+    /**
+     * Build a rich text field value from Markdown: an ADF document on Cloud, wiki markup on Data Center
+     */
+    private toRichText(markdown: string): any {
+        return this.fromADF(markdownToAdf(markdown));
+    }
 
-            req.on('error', (error) => {
-                reject(error);
-            });
+    /**
+     * Convert an ADF document to wiki markup when talking to Data Center; other values pass through
+     */
+    private fromADF(value: any): any {
+        return isDataCenter(this.config) && isAdfDocument(value) ? adfToWikiMarkup(value) : value;
+    }
 
-            if (body) {
-                req.write(JSON.stringify(body));
-            }
+    /**
+     * Search for issues using JQL, following pagination until maxResults issues are collected
+     */
+    async searchIssues(jql: string, maxResults: number = 50, startAt: number = 0): Promise<JiraSearchResult> {
+        // Cloud's token-based search cannot start at an offset, so the leading issues are skipped there
+        const skip = isDataCenter(this.config) ? 0 : startAt;
+        const pageSize = Math.min(skip + maxResults, SEARCH_PAGE_SIZE);
+        const { items, hasMore, total } = await takeItems(this.searchPages(jql, pageSize, startAt - skip), skip + maxResults);
+        return {
+            issues: items.slice(skip),
+            startAt,
+            maxResults,
+            isLast: !hasMore,
+            ...(total !== undefined && { total })
+        };
+    }
 
-            req.end();
-        });
+    /**
+     * Iterate over every issue matching a JQL query, fetching further pages as needed
+     */
+    iterateIssues(jql: string, fields: string = '*all'): AsyncGenerator<JiraIssue> {
+        return paginate(this.searchPages(jql, SEARCH_PAGE_SIZE, 0, fields));
     }
 
     /**
-     * Search for issues using JQL
+     * Pages of a JQL search: startAt offsets on Data Center, nextPageToken on Cloud's /search/jql
      */
-    async searchIssues(jql: string, maxResults: number = 50, startAt: number = 0): Promise<JiraSearchResult> {
-        const params = new URLSearchParams({
-            jql,
-            maxResults: maxResults.toString(),
-            startAt: startAt.toString(),
-            fields: '*all' // Request all fields (new API defaults to 'id' only)
+    private searchPages(jql: string, pageSize: number, startAt: number, fields: string = '*all'): AsyncGenerator<Page<JiraIssue, unknown>> {
+        // Request the fields explicitly (the Cloud endpoint defaults to 'id' only)
+        const params = new URLSearchParams({ jql, maxResults: pageSize.toString(), fields });
+
+        if (isDataCenter(this.config)) {
+            return paginatePages<JiraIssue, number>(async (offset = startAt) => {
+                params.set('startAt', offset.toString());
+                const result = await this.request<JiraSearchResult>(`${this.apiPath}/search?${params.toString()}`);
+                return { items: result.issues, next: nextJiraOffset(offset, result.issues.length, result), total: result.total };
+            });
+        }
+
+        return paginatePages<JiraIssue, string>(async (token) => {
+            if (token) {
+                params.set('nextPageToken', token);
+            }
+            const result = await this.request<JiraSearchResult>(`${this.apiPath}/search/jql?${params.toString()}`);
+            return { items: result.issues, next: result.isLast ? undefined : result.nextPageToken };
         });
-        return this.request<JiraSearchResult>(`/rest/api/3/search/jql?${params.toString()}`);
     }
 
     /**
@@ -123,7 +146,7 @@ export class JiraHelper {
             fields: '*all',
             expand: 'renderedFields'
         });
-        return this.request<JiraIssue>(`/rest/api/3/issue/${issueKey}?${params.toString()}`);
+        return this.request<JiraIssue>(`${this.apiPath}/issue/${issueKey}?${params.toString()}`);
     }
 
     /**
@@ -135,10 +158,10 @@ export class JiraHelper {
                 project: { key: projectKey },
                 summary,
                 issuetype: { name: issueType },
-                ...(description && { description: { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text: description }] }] } })
+                ...(description && { description: this.toRichText(description) })
             }
         };
-        const createResponse = await this.request<{ id: string; key: string; self: string }>('/rest/api/3/issue', 'POST', body);
+        const createResponse = await this.request<{ id: string; key: string; self: string }>(`${this.apiPath}/issue`, 'POST', body);
         return this.getIssue(createResponse.key);
     }
 
@@ -146,47 +169,59 @@ export class JiraHelper {
      * Update an issue
      */
     async updateIssue(issueKey: string, fields: any): Promise<void> {
-        await this.request(`/rest/api/3/issue/${issueKey}`, 'PUT', { fields });
+        const converted: any = {};
+        for (const [name, value] of Object.entries(fields || {})) {
+            converted[name] = this.fromADF(value);
+        }
+        await this.request(`${this.apiPath}/issue/${issueKey}`, 'PUT', { fields: converted });
     }
 
     /**
      * Add a comment to an issue
      */
     async addComment(issueKey: string, comment: string): Promise<any> {
-        const body = {
-            body: {
-                type: 'doc',
-                version: 1,
-                content: [{
-                    type: 'paragraph',
-                    content: [{ type: 'text', text: comment }]
-                }]
-            }
-        };
-        return this.request(`/rest/api/3/issue/${issueKey}/comment`, 'POST', body);
+        const body = { body: this.toRichText(comment) };
+        return this.request(`${this.apiPath}/issue/${issueKey}/comment`, 'POST', body);
     }
 
     /**
      * Add a comment to an issue using ADF format
      */
     async addCommentADF(issueKey: string, adfContent: any): Promise<any> {
-        const body = { body: adfContent };
-        return this.request(`/rest/api/3/issue/${issueKey}/comment`, 'POST', body);
+        const body = { body: this.fromADF(adfContent) };
+        return this.request(`${this.apiPath}/issue/${issueKey}/comment`, 'POST', body);
     }
 
     /**
-     * Transition an issue (change status)
+     * Transition an issue (change status), with values for the fields of the transition screen
      */
-    async transitionIssue(issueKey: string, transitionId: string): Promise<void> {
-        const body = { transition: { id: transitionId } };
-        await this.request(`/rest/api/3/issue/${issueKey}/transitions`, 'POST', body);
+    async transitionIssue(issueKey: string, transitionId: string, fields?: Record<string, any>, update?: Record<string, any[]>): Promise<void> {
+        const body: any = { transition: { id: transitionId } };
+        if (fields && Object.keys(fields).length > 0) {
+            body.fields = {};
+            for (const [name, value] of Object.entries(fields)) {
+                body.fields[name] = this.fromADF(value);
+            }
+        }
+        if (update && Object.keys(update).length > 0) {
+            // Comments added on the transition screen carry rich text bodies
+            body.update = {
+                ...update,
+                ...(update.comment && {
+                    comment: update.comment.map(operation => operation.add ? { add: { ...operation.add, body: this.fromADF(operation.add.body) } } : operation)
+                })
+            };
+        }
+        await this.request(`${this.apiPath}/issue/${issueKey}/transitions`, 'POST', body);
     }
 
     /**
      * Get available transitions for an issue
+     * @param expandFields Include the fields of each transition's screen (required ones, allowed values)
      */
-    async getTransitions(issueKey: string): Promise<any> {
-        return this.request(`/rest/api/3/issue/${issueKey}/transitions`);
+    async getTransitions(issueKey: string, expandFields: boolean = true): Promise<any> {
+        const params = expandFields ? '?expand=transitions.fields' : '';
+        return this.request(`${this.apiPath}/issue/${issueKey}/transitions${params}`);
     }
 
     /**
@@ -194,7 +229,7 @@ export class JiraHelper {
      */
     async checkConnection(): Promise<boolean> {
         try {
-            await this.request('/rest/api/3/myself');
+            await this.request(`${this.apiPath}/myself`);
             return true;
         } catch (error) {
             return false;
@@ -205,7 +240,7 @@ export class JiraHelper {
      * Get current user info
      */
     async getCurrentUser(): Promise<any> {
-        return this.request('/rest/api/3/myself');
+        return this.request(`${this.apiPath}/myself`);
     }
 
     /**
@@ -213,8 +248,7 @@ export class JiraHelper {
      */
     async getSubTasks(issueKey: string): Promise<JiraIssue[]> {
         const jql = `parent = ${issueKey} ORDER BY created ASC`;
-        const result = await this.searchIssues(jql, 100);
-        return result.issues;
+        return collect(this.iterateIssues(jql));
     }
 
     /**
@@ -314,7 +348,7 @@ export class JiraHelper {
 
         // Handle Atlassian Document Format (ADF)
         if (description.type === 'doc' && description.content) {
-            const text = this.extractTextFromADF(description);
+            const text = adfToPlainText(description);
             
             // Look for common patterns
             const patterns = [
@@ -335,38 +369,11 @@ export class JiraHelper {
         return scenarios;
     }
 
-    /**
-     * Extract plain text from Atlassian Document Format (ADF)
-     */
-    private extractTextFromADF(adf: any): string {
-        if (!adf || !adf.content) {
-            return '';
-        }
-
-        let text = '';
-        
-        const traverse = (node: any) => {
-            if (node.type === 'text') {
-                text += node.text + ' ';
-            }
-            
-            if (node.content && Array.isArray(node.content)) {
-                for (const child of node.content) {
-                    traverse(child);
-                }
-                text += '\n';
-            }
-        };
-
-        traverse(adf);
-        return text;
-    }
-
     /**
      * Get all JIRA projects
      */
     async getAllProjects(): Promise<Array<{ key: string; name: string; id: string }>> {
-        const endpoint = '/rest/api/3/project';
+        const endpoint = `${this.apiPath}/project`;
         return this.request<Array<{ key: string; name: string; id: string }>>(endpoint);
     }
 
@@ -394,16 +401,9 @@ export class JiraHelper {
             started: started || formatDate(new Date())
         };
         if (comment) {
-            body.comment = {
-                type: 'doc',
-                version: 1,
-                content: [{
-                    type: 'paragraph',
-                    content: [{ type: 'text', text: comment }]
-                }]
-            };
+            body.comment = this.toRichText(comment);
         }
-        return this.request(`/rest/api/3/issue/${issueKey}/worklog`, 'POST', body);
+        return this.request(`${this.apiPath}/issue/${issueKey}/worklog`, 'POST', body);
     }
 
     /**
@@ -414,7 +414,17 @@ export class JiraHelper {
             startAt: startAt.toString(),
             maxResults: maxResults.toString()
         });
-        return this.request(`/rest/api/3/issue/${issueKey}/worklog?${params.toString()}`);
+        return this.request(`${this.apiPath}/issue/${issueKey}/worklog?${params.toString()}`);
+    }
+
+    /**
+     * Iterate over every worklog on an issue
+     */
+    iterateWorklogs(issueKey: string): AsyncGenerator<any> {
+        return paginate(paginatePages<any, number>(async (startAt = 0) => {
+            const result = await this.getWorklogs(issueKey, startAt);
+            return { items: result.worklogs, next: nextJiraOffset(startAt, result.worklogs.length, result), total: result.total };
+        }));
     }
 
     /**
@@ -426,23 +436,16 @@ export class JiraHelper {
             started: started || new Date().toISOString()
         };
         if (comment) {
-            body.comment = {
-                type: 'doc',
-                version: 1,
-                content: [{
-                    type: 'paragraph',
-                    content: [{ type: 'text', text: comment }]
-                }]
-            };
+            body.comment = this.toRichText(comment);
         }
-        return this.request(`/rest/api/3/issue/${issueKey}/worklog/${worklogId}`, 'PUT', body);
+        return this.request(`${this.apiPath}/issue/${issueKey}/worklog/${worklogId}`, 'PUT', body);
     }
 
     /**
      * Delete a worklog entry
      */
     async deleteWorklog(issueKey: string, worklogId: string): Promise<void> {
-        await this.request(`/rest/api/3/issue/${issueKey}/worklog/${worklogId}`, 'DELETE');
+        await this.request(`${this.apiPath}/issue/${issueKey}/worklog/${worklogId}`, 'DELETE');
     }
 
     // ===== CHANGELOG & HISTORY =====
@@ -455,7 +458,28 @@ export class JiraHelper {
             startAt: startAt.toString(),
             maxResults: maxResults.toString()
         });
-        return this.request(`/rest/api/3/issue/${issueKey}/changelog?${params.toString()}`);
+        if (isDataCenter(this.config)) {
+            // Data Center has no changelog endpoint; the history comes with the issue instead
+            const issue = await this.request<any>(`${this.apiPath}/issue/${issueKey}?fields=summary&expand=changelog`);
+            const histories: any[] = issue.changelog?.histories || [];
+            return {
+                startAt,
+                maxResults,
+                total: histories.length,
+                values: histories.slice(startAt, startAt + maxResults)
+            };
+        }
+        return this.request(`${this.apiPath}/issue/${issueKey}/changelog?${params.toString()}`);
+    }
+
+    /**
+     * Iterate over the full change history of an issue
+     */
+    iterateChangelog(issueKey: string): AsyncGenerator<any> {
+        return paginate(paginatePages<any, number>(async (startAt = 0) => {
+            const result = await this.getChangelog(issueKey, startAt);
+            return { items: result.values, next: nextJiraOffset(startAt, result.values.length, result), total: result.total };
+        }));
     }
 
     // ===== BULK OPERATIONS =====
@@ -464,6 +488,11 @@ export class JiraHelper {
      * Bulk fetch multiple issues by key or ID
      */
     async bulkFetchIssues(issueKeys: string[], fields?: string[], expand?: string[]): Promise<any> {
+        if (isDataCenter(this.config)) {
+            // Bulk fetch is Cloud-only; a key search returns the same issues
+            const result = await this.searchIssues(`key in (${issueKeys.join(',')})`, issueKeys.length);
+            return { issues: result.issues, issueErrors: [] };
+        }
         const body: any = {
             issueIdsOrKeys: issueKeys
         };
@@ -473,7 +502,7 @@ export class JiraHelper {
         if (expand) {
             body.expand = expand.join(',');
         }
-        return this.request('/rest/api/3/issue/bulkfetch', 'POST', body);
+        return this.request(`${this.apiPath}/issue/bulkfetch`, 'POST', body);
     }
 
     // ===== METADATA =====
@@ -490,14 +519,14 @@ export class JiraHelper {
             params.append('issuetypeNames', issueTypeNames.join(','));
         }
         params.append('expand', 'projects.issuetypes.fields');
-        return this.request(`/rest/api/3/issue/createmeta?${params.toString()}`);
+        return this.request(`${this.apiPath}/issue/createmeta?${params.toString()}`);
     }
 
     /**
      * Get edit metadata for an issue
      */
     async getEditMetadata(issueKey: string): Promise<any> {
-        return this.request(`/rest/api/3/issue/${issueKey}/editmeta`);
+        return this.request(`${this.apiPath}/issue/${issueKey}/editmeta`);
     }
 
     // ===== USER SEARCH =====
@@ -507,7 +536,7 @@ export class JiraHelper {
      */
     async findAssignableUsers(query: string, project?: string, issueKey?: string, maxResults: number = 50): Promise<any[]> {
         const params = new URLSearchParams({
-            query,
+            [this.userQueryParam]: query,
             maxResults: maxResults.toString()
         });
         if (project) {
@@ -516,7 +545,7 @@ export class JiraHelper {
         if (issueKey) {
             params.append('issueKey', issueKey);
         }
-        return this.request(`/rest/api/3/user/assignable/search?${params.toString()}`);
+        return this.request(`${this.apiPath}/user/assignable/search?${params.toString()}`);
     }
 
     /**
@@ -524,10 +553,24 @@ export class JiraHelper {
      */
     async searchUsers(query: string, maxResults: number = 50): Promise<any[]> {
         const params = new URLSearchParams({
-            query,
+            [this.userQueryParam]: query,
             maxResults: maxResults.toString()
         });
-        return this.request(`/rest/api/3/user/search?${params.toString()}`);
+        return this.request(`${this.apiPath}/user/search?${params.toString()}`);
+    }
+
+    /**
+     * Reference to a user in issue fields: by accountId on Cloud, by username on Data Center
+     */
+    userReference(user: { accountId?: string; name?: string }): { accountId: string } | { name: string } {
+        return isDataCenter(this.config) ? { name: user.name || user.accountId || '' } : { accountId: user.accountId || user.name || '' };
+    }
+
+    /**
+     * Query parameter for user searches: Data Center matches on `username`, Cloud on `query`
+     */
+    private get userQueryParam(): string {
+        return isDataCenter(this.config) ? 'username' : 'query';
     }
 
     // ===== COMMENTS MANAGEMENT =====
@@ -543,39 +586,40 @@ export class JiraHelper {
         if (orderBy) {
             params.append('orderBy', orderBy);
         }
-        return this.request(`/rest/api/3/issue/${issueKey}/comment?${params.toString()}`);
+        return this.request(`${this.apiPath}/issue/${issueKey}/comment?${params.toString()}`);
+    }
+
+    /**
+     * Iterate over every comment on an issue
+     */
+    iterateComments(issueKey: string, orderBy?: string): AsyncGenerator<any> {
+        return paginate(paginatePages<any, number>(async (startAt = 0) => {
+            const result = await this.getComments(issueKey, startAt, 100, orderBy);
+            return { items: result.comments, next: nextJiraOffset(startAt, result.comments.length, result), total: result.total };
+        }));
     }
 
     /**
      * Update a comment
      */
     async updateComment(issueKey: string, commentId: string, comment: string): Promise<any> {
-        const body = {
-            body: {
-                type: 'doc',
-                version: 1,
-                content: [{
-                    type: 'paragraph',
-                    content: [{ type: 'text', text: comment }]
-                }]
-            }
-        };
-        return this.request(`/rest/api/3/issue/${issueKey}/comment/${commentId}`, 'PUT', body);
+        const body = { body: this.toRichText(comment) };
+        return this.request(`${this.apiPath}/issue/${issueKey}/comment/${commentId}`, 'PUT', body);
     }
 
     /**
      * Update a comment using ADF format
      */
     async updateCommentADF(issueKey: string, commentId: string, adfContent: any): Promise<any> {
-        const body = { body: adfContent };
-        return this.request(`/rest/api/3/issue/${issueKey}/comment/${commentId}`, 'PUT', body);
+        const body = { body: this.fromADF(adfContent) };
+        return this.request(`${this.apiPath}/issue/${issueKey}/comment/${commentId}`, 'PUT', body);
     }
 
     /**
      * Delete a comment
      */
     async deleteComment(issueKey: string, commentId: string): Promise<void> {
-        await this.request(`/rest/api/3/issue/${issueKey}/comment/${commentId}`, 'DELETE');
+        await this.request(`${this.apiPath}/issue/${issueKey}/comment/${commentId}`, 'DELETE');
     }
 
     // ===== ATTACHMENTS =====
@@ -584,14 +628,14 @@ export class JiraHelper {
      * Get attachment metadata
      */
     async getAttachment(attachmentId: string): Promise<any> {
-        return this.request(`/rest/api/3/attachment/${attachmentId}`);
+        return this.request(`${this.apiPath}/attachment/${attachmentId}`);
     }
 
     /**
      * Delete an attachment
      */
     async deleteAttachment(attachmentId: string): Promise<void> {
-        await this.request(`/rest/api/3/attachment/${attachmentId}`, 'DELETE');
+        await this.request(`${this.apiPath}/attachment/${attachmentId}`, 'DELETE');
     }
 
     // ===== ISSUE LINKS =====
@@ -606,32 +650,23 @@ export class JiraHelper {
             outwardIssue: { key: outwardIssue }
         };
         if (comment) {
-            body.comment = {
-                body: {
-                    type: 'doc',
-                    version: 1,
-                    content: [{
-                        type: 'paragraph',
-                        content: [{ type: 'text', text: comment }]
-                    }]
-                }
-            };
+            body.comment = { body: this.toRichText(comment) };
         }
-        return this.request('/rest/api/3/issueLink', 'POST', body);
+        return this.request(`${this.apiPath}/issueLink`, 'POST', body);
     }
 
     /**
      * Delete an issue link
      */
     async deleteIssueLink(linkId: string): Promise<void> {
-        await this.request(`/rest/api/3/issueLink/${linkId}`, 'DELETE');
+        await this.request(`${this.apiPath}/issueLink/${linkId}`, 'DELETE');
     }
 
     /**
      * Get available issue link types
      */
     async getIssueLinkTypes(): Promise<any> {
-        return this.request('/rest/api/3/issueLinkType');
+        return this.request(`${this.apiPath}/issueLinkType`);
     }
 
     // ===== WATCHERS =====
@@ -640,22 +675,23 @@ export class JiraHelper {
      * Get watchers of an issue
      */
     async getWatchers(issueKey: string): Promise<any> {
-        return this.request(`/rest/api/3/issue/${issueKey}/watchers`);
+        return this.request(`${this.apiPath}/issue/${issueKey}/watchers`);
     }
 
     /**
      * Add watcher to an issue
      */
     async addWatcher(issueKey: string, accountId: string): Promise<void> {
-        // Jira API expects the accountId as a plain JSON string value
-        await this.request(`/rest/api/3/issue/${issueKey}/watchers`, 'POST', accountId);
+        // Jira API expects the accountId (username on Data Center) as a plain JSON string value
+        await this.request(`${this.apiPath}/issue/${issueKey}/watchers`, 'POST', accountId);
     }
 
     /**
      * Remove watcher from an issue
      */
     async removeWatcher(issueKey: string, accountId: string): Promise<void> {
-        await this.request(`/rest/api/3/issue/${issueKey}/watchers?accountId=${accountId}`, 'DELETE');
+        const param = isDataCenter(this.config) ? 'username' : 'accountId';
+        await this.request(`${this.apiPath}/issue/${issueKey}/watchers?${param}=${encodeURIComponent(accountId)}`, 'DELETE');
     }
 
     // ===== PRIORITIES & STATUSES =====
@@ -664,14 +700,14 @@ export class JiraHelper {
      * Get all priorities
      */
     async getPriorities(): Promise<any[]> {
-        return this.request('/rest/api/3/priority');
+        return this.request(`${this.apiPath}/priority`);
     }
 
     /**
      * Get all statuses
      */
     async getStatuses(): Promise<any[]> {
-        return this.request('/rest/api/3/status');
+        return this.request(`${this.apiPath}/status`);
     }
 
     /**
@@ -679,7 +715,7 @@ export class JiraHelper {
      */
     async getProject(projectKey: string, expand?: string[]): Promise<any> {
         const params = expand ? new URLSearchParams({ expand: expand.join(',') }) : null;
-        return this.request(`/rest/api/3/project/${projectKey}${params ? '?' + params.toString() : ''}`);
+        return this.request(`${this.apiPath}/project/${projectKey}${params ? '?' + params.toString() : ''}`);
     }
 
     // ===== ISSUE MANAGEMENT =====
@@ -688,8 +724,9 @@ export class JiraHelper {
      * Assign issue to a user
      */
     async assignIssue(issueKey: string, accountId: string | null): Promise<void> {
-        const body = accountId ? { accountId } : { accountId: null };
-        await this.request(`/rest/api/3/issue/${issueKey}/assignee`, 'PUT', body);
+        // Data Center identifies users by username rather than accountId
+        const body = isDataCenter(this.config) ? { name: accountId } : { accountId };
+        await this.request(`${this.apiPath}/issue/${issueKey}/assignee`, 'PUT', body);
     }
 
     /**
@@ -697,7 +734,7 @@ export class JiraHelper {
      */
     async deleteIssue(issueKey: string, deleteSubtasks: boolean = false): Promise<void> {
         const params = deleteSubtasks ? '?deleteSubtasks=true' : '';
-        await this.request(`/rest/api/3/issue/${issueKey}${params}`, 'DELETE');
+        await this.request(`${this.apiPath}/issue/${issueKey}${params}`, 'DELETE');
     }
 
     /**
@@ -712,49 +749,49 @@ export class JiraHelper {
      * Get votes for an issue
      */
     async getVotes(issueKey: string): Promise<any> {
-        return this.request(`/rest/api/3/issue/${issueKey}/votes`);
+        return this.request(`${this.apiPath}/issue/${issueKey}/votes`);
     }
 
     /**
      * Add vote to an issue
      */
     async addVote(issueKey: string): Promise<void> {
-        await this.request(`/rest/api/3/issue/${issueKey}/votes`, 'POST');
+        await this.request(`${this.apiPath}/issue/${issueKey}/votes`, 'POST');
     }
 
     /**
      * Remove vote from an issue
      */
     async removeVote(issueKey: string): Promise<void> {
-        await this.request(`/rest/api/3/issue/${issueKey}/votes`, 'DELETE');
+        await this.request(`${this.apiPath}/issue/${issueKey}/votes`, 'DELETE');
     }
 
     /**
      * Get project versions (releases)
      */
     async getProjectVersions(projectKey: string): Promise<any[]> {
-        return this.request<any[]>(`/rest/api/3/project/${projectKey}/versions`);
+        return this.request<any[]>(`${this.apiPath}/project/${projectKey}/versions`);
     }
 
     /**
      * Get a specific version details
      */
     async getVersion(versionId: string): Promise<any> {
-        return this.request<any>(`/rest/api/3/version/${versionId}`);
+        return this.request<any>(`${this.apiPath}/version/${versionId}`);
     }
 
     /**
      * Get version's related issues counts (done, to-do, in-progress)
      */
     async getVersionRelatedIssues(versionId: string): Promise<any> {
-        return this.request<any>(`/rest/api/3/version/${versionId}/relatedIssueCounts`);
+        return this.request<any>(`${this.apiPath}/version/${versionId}/relatedIssueCounts`);
     }
 
     /**
      * Get unresolved issue count for a version
      */
     async getVersionUnresolvedIssues(versionId: string): Promise<any> {
-        return this.request<any>(`/rest/api/3/version/${versionId}/unresolvedIssueCount`);
+        return this.request<any>(`${this.apiPath}/version/${versionId}/unresolvedIssueCount`);
     }
 
     /**
@@ -783,14 +820,14 @@ export class JiraHelper {
         
         // Get all issues in this epic
         const jql = `"Epic Link" = ${epicKey} OR parent = ${epicKey}`;
-        const childResult = await this.searchIssues(jql, 1000);
+        const childIssues = await collect(this.iterateIssues(jql));
         
         // Calculate progress
         let done = 0;
         let inProgress = 0;
         let toDo = 0;
         
-        childResult.issues.forEach(issue => {
+        childIssues.forEach(issue => {
             const status = issue.fields.status.name.toLowerCase();
             if (status.includes('done') || status.includes('closed') || status.includes('resolved')) {
                 done++;
@@ -803,9 +840,9 @@ export class JiraHelper {
         
         return {
             epic,
-            childIssues: childResult.issues,
+            childIssues,
             progress: {
-                total: childResult.issues.length,
+                total: childIssues.length,
                 done,
                 inProgress,
                 toDo
@@ -830,17 +867,16 @@ export class JiraHelper {
     }> {
         const project = await this.getProject(projectKey, ['description', 'lead', 'issueTypes']);
         
-        // Get all issues in project
-        const allIssuesResult = await this.searchIssues(`project = "${projectKey}"`, 1000);
-        
-        // Count by status category
+        // Count by status category, streaming every issue in the project with only the fields needed
+        let total = 0;
         let done = 0;
         let inProgress = 0;
         let toDo = 0;
         const byType: Record<string, number> = {};
         const byPriority: Record<string, number> = {};
         
-        allIssuesResult.issues.forEach(issue => {
+        for await (const issue of this.iterateIssues(`project = "${projectKey}"`, 'status,issuetype,priority')) {
+            total++;
             const status = issue.fields.status.name.toLowerCase();
             if (status.includes('done') || status.includes('closed') || status.includes('resolved')) {
                 done++;
@@ -857,7 +893,7 @@ export class JiraHelper {
             // Count by priority
             const priority = issue.fields.priority?.name || 'None';
             byPriority[priority] = (byPriority[priority] || 0) + 1;
-        });
+        }
         
         // Get recent activity (last 10 updated issues)
         const recentResult = await this.searchIssues(
@@ -868,7 +904,7 @@ export class JiraHelper {
         return {
             project,
             issueCount: {
-                total: allIssuesResult.issues.length,
+                total,
                 done,
                 inProgress,
                 toDo,
@@ -892,24 +928,23 @@ export class JiraHelper {
             percentComplete: number;
         };
     }>> {
-        const epics = await this.getEpics(projectKey, 100);
+        const epics = await this.getEpics(projectKey, Infinity);
         
-        const epicsWithProgress = await Promise.all(
-            epics.map(async (epic) => {
-                const details = await this.getEpicDetails(epic.key);
-                const percentComplete = details.progress.total > 0
-                    ? Math.round((details.progress.done / details.progress.total) * 100)
-                    : 0;
-                
-                return {
-                    epic,
-                    progress: {
-                        ...details.progress,
-                        percentComplete
-                    }
-                };
-            })
-        );
+        // A few epics at a time: one paginated search each would otherwise all start at once
+        const epicsWithProgress = await mapConcurrent(epics, EPIC_CONCURRENCY, async (epic) => {
+            const details = await this.getEpicDetails(epic.key);
+            const percentComplete = details.progress.total > 0
+                ? Math.round((details.progress.done / details.progress.total) * 100)
+                : 0;
+            
+            return {
+                epic,
+                progress: {
+                    ...details.progress,
+                    percentComplete
+                }
+            };
+        });
         
         return epicsWithProgress;
     }
@@ -918,7 +953,7 @@ export class JiraHelper {
      * Get component details for a project
      */
     async getProjectComponents(projectKey: string): Promise<any[]> {
-        return this.request<any[]>(`/rest/api/3/project/${projectKey}/components`);
+        return this.request<any[]>(`${this.apiPath}/project/${projectKey}/components`);
     }
 
     /**
@@ -934,14 +969,14 @@ export class JiraHelper {
      * Get project roles
      */
     async getProjectRoles(projectKey: string): Promise<any> {
-        return this.request<any>(`/rest/api/3/project/${projectKey}/role`);
+        return this.request<any>(`${this.apiPath}/project/${projectKey}/role`);
     }
 
     /**
      * Get statuses for a project
      */
     async getProjectStatuses(projectKey: string): Promise<any[]> {
-        return this.request<any[]>(`/rest/api/3/project/${projectKey}/statuses`);
+        return this.request<any[]>(`${this.apiPath}/project/${projectKey}/statuses`);
     }
 
     // ===== VERSION MANAGEMENT =====
@@ -963,7 +998,7 @@ export class JiraHelper {
             name,
             ...options
         };
-        return this.request('/rest/api/3/version', 'POST', body);
+        return this.request(`${this.apiPath}/version`, 'POST', body);
     }
 
     /**
@@ -977,7 +1012,7 @@ export class JiraHelper {
         released?: boolean;
         archived?: boolean;
     }): Promise<any> {
-        return this.request(`/rest/api/3/version/${versionId}`, 'PUT', fields);
+        return this.request(`${this.apiPath}/version/${versionId}`, 'PUT', fields);
     }
 
     /**
@@ -992,7 +1027,7 @@ export class JiraHelper {
             params.append('moveAffectedIssuesTo', moveAffectedIssuesTo);
         }
         const queryString = params.toString();
-        await this.request(`/rest/api/3/version/${versionId}${queryString ? '?' + queryString : ''}`, 'DELETE');
+        await this.request(`${this.apiPath}/version/${versionId}${queryString ? '?' + queryString : ''}`, 'DELETE');
     }
 
     /**
@@ -1024,7 +1059,7 @@ export class JiraHelper {
             name,
             ...options
         };
-        return this.request('/rest/api/3/component', 'POST', body);
+        return this.request(`${this.apiPath}/component`, 'POST', body);
     }
 
     /**
@@ -1036,7 +1071,7 @@ export class JiraHelper {
         leadAccountId?: string;
         assigneeType?: 'PROJECT_DEFAULT' | 'COMPONENT_LEAD' | 'PROJECT_LEAD' | 'UNASSIGNED';
     }): Promise<any> {
-        return this.request(`/rest/api/3/component/${componentId}`, 'PUT', fields);
+        return this.request(`${this.apiPath}/component/${componentId}`, 'PUT', fields);
     }
 
     /**
@@ -1044,21 +1079,21 @@ export class JiraHelper {
      */
     async deleteComponent(componentId: string, moveIssuesTo?: string): Promise<void> {
         const params = moveIssuesTo ? `?moveIssuesTo=${moveIssuesTo}` : '';
-        await this.request(`/rest/api/3/component/${componentId}${params}`, 'DELETE');
+        await this.request(`${this.apiPath}/component/${componentId}${params}`, 'DELETE');
     }
 
     /**
      * Get a single component by ID
      */
     async getComponent(componentId: string): Promise<any> {
-        return this.request(`/rest/api/3/component/${componentId}`);
+        return this.request(`${this.apiPath}/component/${componentId}`);
     }
 
     /**
      * Get count of issues for a component
      */
     async getComponentIssueCount(componentId: string): Promise<any> {
-        return this.request(`/rest/api/3/component/${componentId}/relatedIssueCounts`);
+        return this.request(`${this.apiPath}/component/${componentId}/relatedIssueCounts`);
     }
 
     // ===== EPIC MANAGEMENT (via issue type) =====
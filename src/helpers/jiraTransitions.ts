@@ -0,0 +1,187 @@
+/**
+ * Moving a Jira issue to a status by name through its workflow transitions.
+ *
+ * - A transition straight to the status is taken when there is one
+ * - Otherwise transitions are chained: the one step that brings the issue closer to the target's status
+ *   category is taken, or the caller is asked to choose
+ * - Fields the transition screen requires (a resolution, say) are asked for before the transition runs
+ */
+
+import { markdownToAdf } from './adfMarkdown';
+import { JiraHelper } from './jiraHelper';
+import { toFieldValue } from '../utils/jiraYamlConverters';
+
+// Longest chain of transitions tried before giving up
+const MAX_TRANSITION_STEPS = 5;
+
+// Order of the status categories along a workflow
+const CATEGORY_ORDER: Record<string, number> = { new: 0, indeterminate: 1, done: 2 };
+
+/**
+ * A field on a transition screen, from `getTransitions`
+ */
+export interface TransitionField {
+    id: string;
+    name: string;
+    required: boolean;
+    schema?: any;
+    allowedValues?: any[];
+}
+
+/**
+ * Values sent with a transition: field values and update operations (e.g. a comment to add)
+ */
+export interface TransitionInput {
+    fields?: Record<string, any>;
+    update?: Record<string, any[]>;
+}
+
+/**
+ * Questions asked while moving an issue; returning undefined cancels the status change
+ */
+export interface TransitionPrompts {
+    /** Pick the next step when no transition leads to the target status and none is clearly closer; without it that fails */
+    chooseStep?(transitions: any[], fromStatus: string, toStatus: string): Promise<any | undefined>;
+    /** Values for the screen of a transition; `required` lists the fields that must be given */
+    screenFields(transition: any, required: TransitionField[]): Promise<TransitionInput | undefined>;
+}
+
+/**
+ * Raised when a transition screen requires fields that were not given
+ */
+export class MissingTransitionFieldsError extends Error {
+    constructor(public readonly issueKey: string, public readonly transition: string, public readonly fields: TransitionField[]) {
+        super(`Transition "${transition}" of ${issueKey} requires: ${fields.map(field => field.name).join(', ')}`);
+        this.name = 'MissingTransitionFieldsError';
+    }
+}
+
+export interface StatusChangeResult {
+    /** Status the issue ended in */
+    status: string;
+    /** Names of the transitions taken, in order */
+    transitions: string[];
+    cancelled: boolean;
+}
+
+/**
+ * Move an issue to the status named `targetStatus`. Without prompts, a step that needs a choice or screen
+ * fields fails instead of asking.
+ */
+export async function transitionToStatus(helper: JiraHelper, issueKey: string, targetStatus: string, prompts?: TransitionPrompts): Promise<StatusChangeResult> {
+    const [issue, statuses] = await Promise.all([helper.getIssue(issueKey), helper.getStatuses()]);
+    const target = statuses.find(status => sameName(status.name, targetStatus));
+    if (!target) {
+        throw new Error(`Unknown status "${targetStatus}"`);
+    }
+
+    let current: any = issue.fields.status;
+    const visited = new Set([String(current.name).toLowerCase()]);
+    const result: StatusChangeResult = { status: current.name, transitions: [], cancelled: false };
+
+    for (let step = 0; step < MAX_TRANSITION_STEPS && !sameName(current.name, target.name); step++) {
+        const { transitions = [] } = await helper.getTransitions(issueKey);
+        let transition = transitions.find((candidate: any) => sameName(candidate.to?.name, target.name));
+
+        if (!transition) {
+            const candidates = transitions.filter((candidate: any) => !visited.has(String(candidate.to?.name).toLowerCase()));
+            if (candidates.length === 0) {
+                throw new Error(`No transition leads from ${current.name} towards ${target.name}`);
+            }
+            transition = closerStep(candidates, current, target);
+            if (!transition) {
+                if (!prompts?.chooseStep) {
+                    throw new Error(`No transition leads from ${current.name} to ${target.name} directly; choose one of: ${candidates.map((candidate: any) => candidate.name).join(', ')}`);
+                }
+                transition = await prompts.chooseStep(candidates, current.name, target.name);
+                if (!transition) {
+                    return { ...result, cancelled: true };
+                }
+            }
+        }
+
+        const required = screenFields(transition).filter(field => field.required);
+        let input: TransitionInput = {};
+        if (prompts && Object.keys(transition.fields || {}).length > 0) {
+            const answered = await prompts.screenFields(transition, required);
+            if (!answered) {
+                return { ...result, cancelled: true };
+            }
+            input = answered;
+        } else if (required.length > 0) {
+            throw new MissingTransitionFieldsError(issueKey, transition.name, required);
+        }
+
+        await helper.transitionIssue(issueKey, transition.id, input.fields, input.update);
+        result.transitions.push(transition.name);
+        current = transition.to;
+        result.status = current.name;
+        visited.add(String(current.name).toLowerCase());
+    }
+
+    if (!sameName(current.name, target.name)) {
+        throw new Error(`${target.name} was not reached within ${MAX_TRANSITION_STEPS} transitions (stopped at ${current.name})`);
+    }
+    return result;
+}
+
+/**
+ * Fields on the screen of a transition, the comment field excluded (it is added through `update`)
+ */
+export function screenFields(transition: any): TransitionField[] {
+    return Object.entries<any>(transition.fields || {})
+        .filter(([id]) => id !== 'comment')
+        .map(([id, field]) => ({
+            id,
+            name: field.name || id,
+            required: Boolean(field.required) && !field.hasDefaultValue,
+            schema: field.schema,
+            allowedValues: field.allowedValues
+        }));
+}
+
+/**
+ * Answers for transition screens given up front, for callers that cannot ask: `values` are keyed by field ID or name
+ * and converted with the field's metadata, and the Markdown `comment` goes on the first screen with a comment field
+ * (`commentAdded` tells whether one had). Missing required fields raise a MissingTransitionFieldsError.
+ */
+export function presetAnswers(helper: JiraHelper, issueKey: string, values: Record<string, any> = {}, comment?: string): TransitionPrompts & { commentAdded: boolean } {
+    return {
+        commentAdded: false,
+
+        async screenFields(transition, required) {
+            const fields: Record<string, any> = {};
+            for (const field of screenFields(transition)) {
+                const key = Object.keys(values).find(candidate => sameName(candidate, field.id) || sameName(candidate, field.name));
+                if (key !== undefined) {
+                    fields[field.id] = toFieldValue(values[key], field, user => helper.userReference(user));
+                }
+            }
+            const missing = required.filter(field => fields[field.id] === undefined || fields[field.id] === null);
+            if (missing.length > 0) {
+                throw new MissingTransitionFieldsError(issueKey, transition.name, missing);
+            }
+
+            let update: Record<string, any[]> | undefined;
+            if (comment?.trim() && transition.fields?.comment && !this.commentAdded) {
+                update = { comment: [{ add: { body: markdownToAdf(comment) } }] };
+                this.commentAdded = true;
+            }
+            return { fields, update };
+        }
+    };
+}
+
+/**
+ * The single candidate whose status category is closer to the target's than the current one is
+ */
+function closerStep(candidates: any[], current: any, target: any): any | undefined {
+    const rank = (status: any) => CATEGORY_ORDER[status?.statusCategory?.key] ?? CATEGORY_ORDER.indeterminate;
+    const distance = (status: any) => Math.abs(rank(status) - rank(target));
+    const closer = candidates.filter(candidate => distance(candidate.to) < distance(current));
+    return closer.length === 1 ? closer[0] : undefined;
+}
+
+function sameName(a: string | undefined, b: string | undefined): boolean {
+    return String(a ?? '').toLowerCase() === String(b ?? '').toLowerCase();
+}
@@ -0,0 +1,119 @@
+/**
+ * Convert Atlassian Document Format (ADF) to Jira wiki markup.
+ * Jira Server/Data Center (REST API v2) stores rich text fields as wiki markup rather than ADF,
+ * so ADF built by the tools and webviews is flattened before it is sent there.
+ */
+export function adfToWikiMarkup(adf: any): string {
+    if (!adf || !Array.isArray(adf.content)) {
+        return '';
+    }
+    return blocksToWiki(adf.content).trim();
+}
+
+/**
+ * Whether a value looks like an ADF document
+ */
+export function isAdfDocument(value: any): boolean {
+    return !!value && typeof value === 'object' && value.type === 'doc' && Array.isArray(value.content);
+}
+
+function blocksToWiki(nodes: any[], listPrefix: string = ''): string {
+    return nodes.map(node => blockToWiki(node, listPrefix)).filter(Boolean).join('\n\n');
+}
+
+function blockToWiki(node: any, listPrefix: string): string {
+    const content: any[] = node.content || [];
+
+    switch (node.type) {
+        case 'paragraph':
+            return inlineToWiki(content);
+        case 'heading':
+            return `h${node.attrs?.level || 1}. ${inlineToWiki(content)}`;
+        case 'bulletList':
+            return listToWiki(content, `${listPrefix}*`);
+        case 'orderedList':
+            return listToWiki(content, `${listPrefix}#`);
+        case 'codeBlock': {
+            const language = node.attrs?.language ? `:${node.attrs.language}` : '';
+            return `{code${language}}\n${content.map(child => child.text || '').join('')}\n{code}`;
+        }
+        case 'blockquote':
+            return `{quote}\n${blocksToWiki(content)}\n{quote}`;
+        case 'panel':
+            return `{panel}\n${blocksToWiki(content)}\n{panel}`;
+        case 'rule':
+            return '----';
+        case 'table':
+            return content.map(row => tableRowToWiki(row)).join('\n');
+        case 'mediaSingle':
+        case 'mediaGroup':
+            return content.map(media => `!${media.attrs?.alt || media.attrs?.id || 'attachment'}!`).join(' ');
+        default:
+            return content.length > 0 ? blocksToWiki(content, listPrefix) : inlineToWiki([node]);
+    }
+}
+
+function listToWiki(items: any[], prefix: string): string {
+    const lines: string[] = [];
+    for (const item of items) {
+        for (const child of item.content || []) {
+            if (child.type === 'bulletList' || child.type === 'orderedList') {
+                lines.push(blockToWiki(child, prefix));
+            } else {
+                lines.push(`${prefix} ${blockToWiki(child, prefix)}`);
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+function tableRowToWiki(row: any): string {
+    const cells: any[] = row.content || [];
+    const isHeader = cells.some(cell => cell.type === 'tableHeader');
+    const separator = isHeader ? '||' : '|';
+    const values = cells.map(cell => blocksToWiki(cell.content || []).replace(/\n+/g, ' '));
+    return `${separator}${values.join(separator)}${separator}`;
+}
+
+function inlineToWiki(nodes: any[]): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return applyMarks(node.text || '', node.marks || []);
+            case 'hardBreak':
+                return '\n';
+            case 'mention':
+                return `[~${node.attrs?.id}]`;
+            case 'emoji':
+                return node.attrs?.text || node.attrs?.shortName || '';
+            case 'inlineCard':
+                return node.attrs?.url ? `[${node.attrs.url}]` : '';
+            default:
+                return node.text || '';
+        }
+    }).join('');
+}
+
+function applyMarks(text: string, marks: any[]): string {
+    let result = text;
+    for (const mark of marks) {
+        switch (mark.type) {
+            case 'strong':
+                result = `*${result}*`;
+                break;
+            case 'em':
+                result = `_${result}_`;
+                break;
+            case 'strike':
+                result = `-${result}-`;
+                break;
+            case 'code':
+                result = `{{${result}}}`;
+                break;
+            case 'link':
+                result = `[${result}|${mark.attrs?.href}]`;
+                break;
+        }
+    }
+    return result;
+}
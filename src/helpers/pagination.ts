@@ -0,0 +1,125 @@
+/**
+ * Pagination over the Atlassian REST APIs.
+ * Each API pages differently (Jira startAt/total or nextPageToken, Confluence v1 start + _links.next,
+ * Confluence v2 opaque cursors); a page fetcher hides that behind a cursor and these helpers do the rest.
+ */
+
+export interface Page<T, C> {
+    items: T[];
+    /** Cursor for the next page; undefined on the last page */
+    next?: C;
+    /** Total number of items, when the API reports it */
+    total?: number;
+}
+
+export type PageFetcher<T, C> = (cursor: C | undefined) => Promise<Page<T, C>>;
+
+/**
+ * Fetch pages lazily until the API reports no further page
+ */
+export async function* paginatePages<T, C>(fetchPage: PageFetcher<T, C>): AsyncGenerator<Page<T, C>> {
+    let cursor: C | undefined;
+    do {
+        const page = await fetchPage(cursor);
+        yield page;
+        // An empty page with a next link would loop forever
+        cursor = page.items.length > 0 ? page.next : undefined;
+    } while (cursor !== undefined);
+}
+
+/**
+ * Flatten pages into their items
+ */
+export async function* paginate<T, C>(pages: AsyncIterable<Page<T, C>>): AsyncGenerator<T> {
+    for await (const page of pages) {
+        yield* page.items;
+    }
+}
+
+/**
+ * Collect items from an async iterable, stopping after `limit` items
+ */
+export async function collect<T>(items: AsyncIterable<T>, limit: number = Infinity): Promise<T[]> {
+    const result: T[] = [];
+    if (limit <= 0) {
+        return result;
+    }
+    for await (const item of items) {
+        result.push(item);
+        if (result.length >= limit) {
+            break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Map items through an async function with at most `concurrency` calls in flight, keeping the input order.
+ * For fan-out requests (one search per epic, say) that would otherwise run into rate limits.
+ */
+export async function mapConcurrent<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Take up to `limit` items from a sequence of pages, reporting whether more exist
+ * without fetching a page beyond the one that filled the limit
+ */
+export async function takeItems<T, C>(pages: AsyncIterable<Page<T, C>>, limit: number): Promise<{
+    items: T[];
+    hasMore: boolean;
+    total?: number;
+}> {
+    const items: T[] = [];
+    let total: number | undefined;
+    for await (const page of pages) {
+        total ??= page.total;
+        const room = limit - items.length;
+        items.push(...page.items.slice(0, room));
+        if (items.length >= limit) {
+            return { items, hasMore: page.items.length > room || page.next !== undefined, total };
+        }
+    }
+    return { items, hasMore: false, total };
+}
+
+/**
+ * Next offset for Jira's startAt/maxResults/total style responses
+ */
+export function nextJiraOffset(startAt: number, received: number, response: { total?: number; isLast?: boolean }): number | undefined {
+    const next = startAt + received;
+    if (received === 0 || response.isLast === true) {
+        return undefined;
+    }
+    if (typeof response.total === 'number') {
+        return next < response.total ? next : undefined;
+    }
+    return response.isLast === false ? next : undefined;
+}
+
+/**
+ * Next start for Confluence v1 responses, which link the next page when there is one
+ */
+export function nextConfluenceStart(start: number, response: { results?: any[]; _links?: { next?: string } }): number | undefined {
+    return response._links?.next ? start + (response.results?.length || 0) : undefined;
+}
+
+/**
+ * Cursor from a Confluence v2 `_links.next` URL
+ */
+export function nextV2Cursor(response: { _links?: { next?: string } }): string | undefined {
+    const next = response._links?.next;
+    if (!next) {
+        return undefined;
+    }
+    return new URL(next, 'https://placeholder.invalid').searchParams.get('cursor') || undefined;
+}
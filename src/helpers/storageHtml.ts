@@ -0,0 +1,349 @@
+/**
+ * Rendering of Confluence storage format (XHTML) as HTML for the page preview.
+ *
+ * Only known elements and attributes are written out, so the result can be shown in a webview as is.
+ * Confluence specifics are rendered as follows:
+ * - code and noformat macros: <pre> blocks with keyword, string, number and comment highlighting
+ * - info/note/warning/tip/panel macros: coloured panels; expand macros: <details>
+ * - toc macros: links to the headings of the page
+ * - status macros: lozenges; Jira issue macros: the key with the issue's summary and live status when known
+ * - images: the URL the caller supplies for each attachment (downloaded data: URIs in the preview)
+ * - page, attachment and Jira links: data-* attributes for the preview script to open them in VS Code
+ * Other macros show as a labelled box around their body.
+ */
+
+import { XmlElement, XmlNode, childElements, parseXhtml, readMacro, textContent } from './storageMarkdown';
+
+export interface JiraIssueStatus {
+    summary?: string;
+    status: string;
+    /** Jira status category key: new, indeterminate or done */
+    statusCategory?: string;
+}
+
+export interface StorageHtmlOptions {
+    /** URL to show an image attachment of the page from; images without one show their file name */
+    imageUrl?: (filename: string) => string | undefined;
+    /** Live state of the issues of Jira macros, by issue key */
+    jiraIssues?: Record<string, JiraIssueStatus>;
+    /** Marker refs of unresolved inline comments, whose anchors are highlighted */
+    openCommentRefs?: Set<string>;
+}
+
+/**
+ * What a storage body refers to and the preview has to fetch
+ */
+export interface StorageReferences {
+    jiraKeys: string[];
+    /** File names of image attachments of the page itself */
+    imageAttachments: string[];
+}
+
+const ALLOWED_ELEMENTS = new Set([
+    'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'blockquote', 'pre', 'hr', 'br',
+    'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'div', 'section',
+    'strong', 'b', 'em', 'i', 'u', 's', 'del', 'strike', 'sub', 'sup', 'code', 'tt', 'span', 'small', 'big', 'a', 'img'
+]);
+const ALLOWED_ATTRIBUTES = new Set(['href', 'src', 'alt', 'title', 'colspan', 'rowspan', 'start', 'width', 'height']);
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'col']);
+/** Elements left out together with their content */
+const DROPPED_ELEMENTS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template']);
+
+const PANEL_MACROS = new Set(['info', 'note', 'warning', 'tip', 'panel']);
+
+const EMOTICONS: Record<string, string> = {
+    'smile': '🙂', 'sad': '🙁', 'cheeky': '😛', 'laugh': '😀', 'wink': '😉', 'thumbs-up': '👍', 'thumbs-down': '👎',
+    'information': 'ℹ️', 'tick': '✅', 'cross': '❌', 'warning': '⚠️', 'plus': '➕', 'minus': '➖', 'question': '❓',
+    'light-on': '💡', 'light-off': '💡', 'yellow-star': '⭐', 'red-star': '⭐', 'green-star': '⭐', 'blue-star': '⭐', 'heart': '❤️'
+};
+
+// Jira status category keys to lozenge colours, as Jira shows them
+const STATUS_CATEGORY_COLOURS: Record<string, string> = { new: 'grey', indeterminate: 'blue', done: 'green' };
+
+/** Languages whose line comments start with # or -- rather than // */
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'py', 'bash', 'sh', 'shell', 'yaml', 'yml', 'ruby', 'rb', 'perl', 'powershell', 'ps1', 'r', 'toml', 'dockerfile', 'makefile']);
+const DASH_COMMENT_LANGUAGES = new Set(['sql', 'plsql', 'tsql', 'lua', 'haskell']);
+
+const KEYWORDS = new Set([
+    'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+    'defer', 'del', 'do', 'elif', 'else', 'end', 'enum', 'except', 'export', 'extends', 'false', 'final', 'finally', 'fn',
+    'for', 'from', 'func', 'function', 'go', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'lambda',
+    'let', 'match', 'module', 'mut', 'new', 'nil', 'none', 'None', 'not', 'null', 'or', 'package', 'pass', 'private',
+    'protected', 'pub', 'public', 'raise', 'return', 'self', 'static', 'struct', 'super', 'switch', 'then', 'this', 'throw',
+    'throws', 'true', 'True', 'False', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with', 'yield',
+    'select', 'insert', 'update', 'delete', 'where', 'join', 'order', 'by', 'group', 'having', 'values', 'into', 'create', 'table'
+]);
+
+/**
+ * Render a storage body as HTML
+ */
+export function storageToHtml(storage: string, options: StorageHtmlOptions = {}): string {
+    const nodes = parseXhtml(storage);
+    return new StorageRenderer(nodes, options).render(nodes);
+}
+
+/**
+ * Jira issues and image attachments a storage body refers to
+ */
+export function storageReferences(storage: string): StorageReferences {
+    const jiraKeys = new Set<string>();
+    const imageAttachments = new Set<string>();
+    const visit = (node: XmlNode) => {
+        if (node.kind === 'text') {
+            return;
+        }
+        if (isMacro(node) && readMacro(node).name === 'jira') {
+            const key = readMacro(node).parameters.key;
+            if (key) {
+                jiraKeys.add(key.trim());
+            }
+        }
+        if (node.name === 'ac:image') {
+            const attachment = childElements(node, 'ri:attachment')[0];
+            // Attachments of other pages name the page inside the reference
+            if (attachment?.attrs['ri:filename'] && childElements(attachment, 'ri:page').length === 0) {
+                imageAttachments.add(attachment.attrs['ri:filename']);
+            }
+        }
+        node.children.forEach(visit);
+    };
+    parseXhtml(storage).forEach(visit);
+    return { jiraKeys: [...jiraKeys], imageAttachments: [...imageAttachments] };
+}
+
+class StorageRenderer {
+    /** Anchor IDs of the headings, in document order */
+    private headingIds = new Map<XmlElement, string>();
+
+    constructor(nodes: XmlNode[], private readonly options: StorageHtmlOptions) {
+        const used = new Set<string>();
+        const visit = (node: XmlNode) => {
+            if (node.kind === 'text') {
+                return;
+            }
+            if (/^h[1-6]$/.test(node.name)) {
+                const base = textContent(node).trim().replace(/\s+/g, '') || 'heading';
+                let id = base;
+                for (let suffix = 1; used.has(id); suffix++) {
+                    id = `${base}.${suffix}`;
+                }
+                used.add(id);
+                this.headingIds.set(node, id);
+            }
+            node.children.forEach(visit);
+        };
+        nodes.forEach(visit);
+    }
+
+    render(nodes: XmlNode[]): string {
+        return nodes.map(node => this.renderNode(node)).join('');
+    }
+
+    private renderNode(node: XmlNode): string {
+        if (node.kind === 'text') {
+            return escapeHtml(node.text);
+        }
+        if (isMacro(node)) {
+            return this.renderMacro(node);
+        }
+
+        switch (node.name) {
+            case 'ac:link':
+                return this.renderLink(node);
+            case 'ac:image':
+                return this.renderImage(node);
+            case 'ac:task-list':
+                return `<ul class="task-list">${childElements(node, 'ac:task').map(task => this.renderTask(task)).join('')}</ul>`;
+            case 'ac:emoticon':
+                return escapeHtml(node.attrs['ac:emoji-fallback'] || EMOTICONS[node.attrs['ac:name']] || `:${node.attrs['ac:name'] || ''}:`);
+            case 'ac:inline-comment-marker': {
+                const ref = node.attrs['ac:ref'] || '';
+                const open = this.options.openCommentRefs?.has(ref) ? ' open' : '';
+                return `<span class="inline-comment-marker${open}" data-ref="${escapeHtml(ref)}">${this.render(node.children)}</span>`;
+            }
+            case 'ac:layout':
+            case 'ac:layout-section':
+            case 'ac:layout-cell':
+                return `<div class="${node.name.slice(3)}">${this.render(node.children)}</div>`;
+            case 'ac:placeholder':
+            case 'ac:parameter':
+                return '';
+        }
+
+        if (DROPPED_ELEMENTS.has(node.name)) {
+            return '';
+        }
+        if (!ALLOWED_ELEMENTS.has(node.name)) {
+            // Unknown elements give way to their content
+            return this.render(node.children);
+        }
+
+        const attrs = Object.entries(node.attrs)
+            .filter(([name, value]) => ALLOWED_ATTRIBUTES.has(name) && (name !== 'href' && name !== 'src' || isSafeUrl(value)))
+            .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`);
+        const id = this.headingIds.get(node);
+        if (id) {
+            attrs.push(` id="${escapeHtml(id)}"`);
+        }
+        const open = `<${node.name}${attrs.join('')}>`;
+        return VOID_ELEMENTS.has(node.name) ? open : `${open}${this.render(node.children)}</${node.name}>`;
+    }
+
+    private renderMacro(element: XmlElement): string {
+        const macro = readMacro(element);
+        const body = macro.body?.name === 'ac:rich-text-body' ? this.render(macro.body.children) : '';
+        const plainBody = macro.body?.name === 'ac:plain-text-body' ? textContent(macro.body) : '';
+        const title = macro.parameters.title;
+
+        switch (macro.name) {
+            case 'code':
+            case 'noformat': {
+                const language = (macro.parameters.language || '').toLowerCase();
+                const caption = title ? `<div class="code-title">${escapeHtml(title)}</div>` : '';
+                const code = macro.name === 'code' ? highlightCode(plainBody, language) : escapeHtml(plainBody);
+                return `<div class="code-block">${caption}<pre><code${language ? ` class="language-${escapeHtml(language)}"` : ''}>${code}</code></pre></div>`;
+            }
+            case 'expand':
+                return `<details class="expand"><summary>${escapeHtml(title || 'Click here to expand...')}</summary>${body}</details>`;
+            case 'toc':
+                return this.renderToc(Number(macro.parameters.minLevel) || 1, Number(macro.parameters.maxLevel) || 6);
+            case 'status': {
+                const colour = (macro.parameters.colour || 'grey').toLowerCase();
+                return `<span class="status status-${escapeHtml(colour)}">${escapeHtml(title || '')}</span>`;
+            }
+            case 'jira':
+                return this.renderJiraIssue(macro.parameters);
+            case 'anchor':
+                return `<a id="${escapeHtml(macro.parameters[''] || '')}"></a>`;
+        }
+        if (PANEL_MACROS.has(macro.name)) {
+            const heading = title ? `<div class="panel-title">${escapeHtml(title)}</div>` : '';
+            return `<div class="panel panel-${macro.name}">${heading}<div class="panel-body">${body}</div></div>`;
+        }
+
+        const label = `<span class="macro-name">${escapeHtml(macro.name)}</span>`;
+        return body || plainBody
+            ? `<div class="macro">${label}${body || `<pre>${escapeHtml(plainBody)}</pre>`}</div>`
+            : `<span class="macro">${label}</span>`;
+    }
+
+    private renderJiraIssue(parameters: Record<string, string>): string {
+        const key = parameters.key?.trim();
+        if (!key) {
+            const query = parameters.jqlQuery ? `: ${parameters.jqlQuery}` : '';
+            return `<span class="macro"><span class="macro-name">Jira issues</span>${escapeHtml(query)}</span>`;
+        }
+        const issue = this.options.jiraIssues?.[key];
+        const summary = issue?.summary ? ` <span class="jira-summary">${escapeHtml(issue.summary)}</span>` : '';
+        const status = issue
+            ? ` <span class="status status-${STATUS_CATEGORY_COLOURS[issue.statusCategory || ''] || 'grey'}">${escapeHtml(issue.status)}</span>`
+            : '';
+        return `<span class="jira-issue"><a href="#" data-jira-key="${escapeHtml(key)}">${escapeHtml(key)}</a>${summary}${status}</span>`;
+    }
+
+    private renderToc(minLevel: number, maxLevel: number): string {
+        const items = [...this.headingIds].flatMap(([heading, id]) => {
+            const level = Number(heading.name.slice(1));
+            return level >= minLevel && level <= maxLevel
+                ? [`<li class="toc-level-${level - minLevel + 1}"><a href="#${escapeHtml(id)}">${escapeHtml(textContent(heading).trim())}</a></li>`]
+                : [];
+        });
+        return `<ul class="toc">${items.join('')}</ul>`;
+    }
+
+    private renderLink(link: XmlElement): string {
+        const resource = link.children.find((child): child is XmlElement => child.kind === 'element' && child.name.startsWith('ri:'));
+        const anchor = link.attrs['ac:anchor'];
+        const richBody = childElements(link, 'ac:link-body')[0];
+        const plainBody = childElements(link, 'ac:plain-text-link-body')[0];
+        const body = (fallback: string) => richBody ? this.render(richBody.children) : escapeHtml(plainBody ? textContent(plainBody) : fallback);
+
+        if (!resource) {
+            return anchor ? `<a href="#${escapeHtml(anchor)}">${body(anchor)}</a>` : body('');
+        }
+        switch (resource.name) {
+            case 'ri:page': {
+                const title = resource.attrs['ri:content-title'] || '';
+                const space = resource.attrs['ri:space-key'];
+                return `<a href="#" data-page-title="${escapeHtml(title)}"${space ? ` data-space-key="${escapeHtml(space)}"` : ''}` +
+                    `${anchor ? ` data-anchor="${escapeHtml(anchor)}"` : ''}>${body(title)}</a>`;
+            }
+            case 'ri:attachment': {
+                const filename = resource.attrs['ri:filename'] || '';
+                return `<a href="#" data-attachment="${escapeHtml(filename)}">${body(filename)}</a>`;
+            }
+            case 'ri:url': {
+                const url = resource.attrs['ri:value'] || '';
+                return isSafeUrl(url) ? `<a href="${escapeHtml(url)}">${body(url)}</a>` : body(url);
+            }
+            case 'ri:user': {
+                const id = resource.attrs['ri:account-id'] || resource.attrs['ri:userkey'] || resource.attrs['ri:username'] || '';
+                return `<span class="mention">@${richBody || plainBody ? body(id) : escapeHtml(id)}</span>`;
+            }
+        }
+        return body('');
+    }
+
+    private renderImage(image: XmlElement): string {
+        const resource = image.children.find((child): child is XmlElement => child.kind === 'element' && child.name.startsWith('ri:'));
+        const alt = image.attrs['ac:alt'] || image.attrs['ac:title'] || '';
+        const width = image.attrs['ac:width'] ? ` width="${escapeHtml(image.attrs['ac:width'])}"` : '';
+
+        let src: string | undefined;
+        if (resource?.name === 'ri:attachment') {
+            const filename = resource.attrs['ri:filename'] || '';
+            src = childElements(resource, 'ri:page').length === 0 ? this.options.imageUrl?.(filename) : undefined;
+            if (!src) {
+                return `<a href="#" class="missing-image" data-attachment="${escapeHtml(filename)}">🖼 ${escapeHtml(alt || filename)}</a>`;
+            }
+        } else if (resource?.name === 'ri:url' && isSafeUrl(resource.attrs['ri:value'] || '')) {
+            src = resource.attrs['ri:value'];
+        }
+        return src ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"${width}>` : escapeHtml(alt);
+    }
+
+    private renderTask(task: XmlElement): string {
+        const done = childElements(task, 'ac:task-status').map(textContent).join('').trim() === 'complete';
+        const body = childElements(task, 'ac:task-body')[0];
+        return `<li><input type="checkbox" disabled${done ? ' checked' : ''}> ${body ? this.render(body.children) : ''}</li>`;
+    }
+}
+
+function isMacro(element: XmlElement): boolean {
+    return element.name === 'ac:structured-macro' || element.name === 'ac:macro';
+}
+
+/**
+ * Links and images may point at web pages, mail addresses, anchors, data: images or paths on the site
+ */
+function isSafeUrl(url: string): boolean {
+    return /^(https?:|mailto:|#|\/(?!\/))/i.test(url.trim()) || /^data:image\/(png|jpeg|gif|webp);/i.test(url.trim());
+}
+
+/**
+ * Light highlighting that serves most languages: comments, strings, numbers and common keywords
+ */
+function highlightCode(code: string, language: string): string {
+    const lineComment = HASH_COMMENT_LANGUAGES.has(language) ? '#[^\\n]*' : DASH_COMMENT_LANGUAGES.has(language) ? '--[^\\n]*' : '\\/\\/[^\\n]*';
+    const token = new RegExp(`(${lineComment}|\\/\\*[\\s\\S]*?\\*\\/)|("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\`)|(\\b\\d[\\d_]*(?:\\.\\d+)?\\b)|([A-Za-z_]\\w*)`, 'g');
+
+    let html = '';
+    let last = 0;
+    for (const match of code.matchAll(token)) {
+        const [text, comment, string, number, word] = match;
+        const kind = comment ? 'comment' : string ? 'string' : number ? 'number' : word && KEYWORDS.has(word) ? 'keyword' : undefined;
+        html += escapeHtml(code.slice(last, match.index));
+        html += kind ? `<span class="tok-${kind}">${escapeHtml(text)}</span>` : escapeHtml(text);
+        last = match.index! + text.length;
+    }
+    return html + escapeHtml(code.slice(last));
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
@@ -0,0 +1,846 @@
+/**
+ * Conversion between Confluence storage format (XHTML) and Markdown.
+ *
+ * Storage is read into ADF and written as Markdown through adfMarkdown.ts, so pages are authored in the same
+ * dialect as Jira descriptions. Confluence specifics map onto it as follows:
+ * - code macros:        fenced code blocks, the language kept as the info string
+ * - info/note/warning/tip macros: > [!INFO] panels
+ * - task lists:         - [x] items
+ * - status macros:      :status[DONE]{color=green}
+ * - page links:         [text](page:Title) or [text](page:SPACE/Title), titles URI-encoded
+ * - attachments:        [file.pdf](attachment:file.pdf) and ![alt](attachment:image.png)
+ * - Jira issue macros:  [PROJ-1](jira:PROJ-1), further macro parameters as a query string
+ *
+ * Macros and elements without a Markdown form are kept verbatim in a ```confluence fenced block, or an
+ * <!--adf ...--> comment when inline. When the storage the Markdown was generated from is given, blocks whose
+ * Markdown is unchanged are written back exactly as they were read, so an unedited page round-trips unchanged.
+ */
+
+import { AdfDocument, AdfMark, AdfNode, adfToMarkdown, markdownToAdf } from './adfMarkdown';
+
+/** Info string of fenced blocks holding raw storage format */
+export const STORAGE_FENCE_LANGUAGE = 'confluence';
+
+/**
+ * Convert Confluence storage format to Markdown
+ */
+export function storageToMarkdown(storage: string): string {
+    return adfToMarkdown(storageToAdf(storage));
+}
+
+/**
+ * Convert Markdown to Confluence storage format.
+ * Blocks unchanged from `original`, the storage the Markdown was generated from, are copied from it verbatim.
+ */
+export function markdownToStorage(markdown: string, original?: string): string {
+    if (original !== undefined && storageToMarkdown(original) === markdown) {
+        return original;
+    }
+    const unused = new Map<string, string[]>();
+    for (const block of original ? storageBlocks(parseXhtml(original), original) : []) {
+        if (block.nodes.length === 1) {
+            const key = blockKey(block.nodes[0]);
+            unused.set(key, [...(unused.get(key) || []), block.source]);
+        }
+    }
+    return markdownToAdf(markdown).content
+        .map(block => unused.get(blockKey(block))?.shift() ?? blockToStorage(block))
+        .join('');
+}
+
+/**
+ * Convert Confluence storage format to an ADF document
+ */
+export function storageToAdf(storage: string): AdfDocument {
+    const blocks = storageBlocks(parseXhtml(storage || ''), storage || '');
+    return { type: 'doc', version: 1, content: blocks.flatMap(block => block.nodes) };
+}
+
+/**
+ * Convert an ADF document to Confluence storage format
+ */
+export function adfToStorage(adf: AdfDocument): string {
+    return blocksToStorage(adf.content || []);
+}
+
+function blockKey(node: AdfNode): string {
+    // Tabs do not survive the Markdown parser, so they cannot tell blocks apart
+    return adfToMarkdown({ type: 'doc', version: 1, content: [node] }).replace(/\t/g, '    ');
+}
+
+// =============================================================================
+// XHTML parsing (shared with the preview renderer in storageHtml.ts)
+// =============================================================================
+
+export interface XmlElement {
+    kind: 'element';
+    name: string;
+    attrs: Record<string, string>;
+    children: XmlNode[];
+    /** Offsets of the element in the source, end tag included */
+    start: number;
+    end: number;
+}
+
+export interface XmlText {
+    kind: 'text';
+    text: string;
+    /** CDATA sections keep whitespace as written */
+    cdata: boolean;
+    start: number;
+    end: number;
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'col', 'meta', 'link', 'input', 'area', 'base', 'wbr']);
+const START_TAG = /<([\w:.-]+)((?:\s+[\w:.-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>/=]+))?)*)\s*(\/?)>/y;
+const END_TAG = /<\/([\w:.-]+)\s*>/y;
+const ATTRIBUTE = /([\w:.-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/=]+)))?/g;
+
+const ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: '\u00a0',
+    ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    hellip: '…', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+    times: '×', laquo: '«', raquo: '»', euro: '€', deg: '°', plusmn: '±',
+    rarr: '→', larr: '←', harr: '↔', uarr: '↑', darr: '↓'
+};
+
+/**
+ * Lenient XHTML parser: unknown entities are kept as written and unclosed elements end with their parent
+ */
+export function parseXhtml(source: string): XmlNode[] {
+    const root: XmlElement = { kind: 'element', name: '#root', attrs: {}, children: [], start: 0, end: source.length };
+    const stack: XmlElement[] = [root];
+    let index = 0;
+
+    while (index < source.length) {
+        const parent = stack[stack.length - 1];
+
+        if (source.startsWith('<![CDATA[', index)) {
+            const close = source.indexOf(']]>', index + 9);
+            const textEnd = close === -1 ? source.length : close;
+            const end = Math.min(source.length, textEnd + 3);
+            parent.children.push({ kind: 'text', text: source.slice(index + 9, textEnd), cdata: true, start: index, end });
+            index = end;
+            continue;
+        }
+
+        if (source.startsWith('<!--', index)) {
+            const close = source.indexOf('-->', index + 4);
+            index = close === -1 ? source.length : close + 3;
+            continue;
+        }
+
+        if (source.startsWith('<!', index) || source.startsWith('<?', index)) {
+            const close = source.indexOf('>', index);
+            index = close === -1 ? source.length : close + 1;
+            continue;
+        }
+
+        END_TAG.lastIndex = index;
+        const endTag = END_TAG.exec(source);
+        if (endTag) {
+            const name = endTag[1].toLowerCase();
+            const depth = stack.map(element => element.name).lastIndexOf(name);
+            index += endTag[0].length;
+            if (depth > 0) {
+                stack.slice(depth).forEach(element => element.end = index);
+                stack.length = depth;
+            }
+            continue;
+        }
+
+        START_TAG.lastIndex = index;
+        const startTag = START_TAG.exec(source);
+        if (startTag) {
+            const element: XmlElement = {
+                kind: 'element',
+                name: startTag[1].toLowerCase(),
+                attrs: parseAttributes(startTag[2]),
+                children: [],
+                start: index,
+                end: index + startTag[0].length
+            };
+            parent.children.push(element);
+            index += startTag[0].length;
+            if (!startTag[3] && !VOID_ELEMENTS.has(element.name)) {
+                stack.push(element);
+            }
+            continue;
+        }
+
+        // Text runs to the next tag; a '<' that starts no tag is text
+        let next = source.indexOf('<', index + 1);
+        if (next === -1) {
+            next = source.length;
+        }
+        parent.children.push({ kind: 'text', text: decodeEntities(source.slice(index, next)), cdata: false, start: index, end: next });
+        index = next;
+    }
+
+    // Elements left open run to the end of the source
+    stack.slice(1).forEach(element => element.end = source.length);
+    return root.children;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of source.matchAll(ATTRIBUTE)) {
+        attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attrs;
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+export function textContent(node: XmlNode): string {
+    return node.kind === 'text' ? node.text : node.children.map(textContent).join('');
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter((child): child is XmlElement => child.kind === 'element' && child.name === name);
+}
+
+function childText(element: XmlElement, name: string): string {
+    return childElements(element, name).map(textContent).join('').trim();
+}
+
+// =============================================================================
+// Storage -> ADF
+// =============================================================================
+
+/** A top-level piece of storage and the ADF blocks read from it */
+interface StorageBlock {
+    nodes: AdfNode[];
+    source: string;
+}
+
+const BLOCK_ELEMENTS = new Set([
+    'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'pre', 'hr', 'table', 'div', 'section'
+]);
+
+/** Storage elements that sit inside paragraphs; any other ac: element is a block */
+const INLINE_STORAGE_ELEMENTS = new Set(['ac:link', 'ac:image', 'ac:emoticon', 'ac:placeholder', 'ac:inline-comment-marker']);
+
+/** Macros that are inline when they carry what the Markdown form needs */
+const INLINE_MACROS = new Set(['status', 'jira', 'anchor']);
+
+const PANEL_MACROS: Record<string, string> = { info: 'info', note: 'note', warning: 'warning', tip: 'tip' };
+
+const INLINE_MARKS: Record<string, AdfMark> = {
+    strong: { type: 'strong' },
+    b: { type: 'strong' },
+    em: { type: 'em' },
+    i: { type: 'em' },
+    u: { type: 'underline' },
+    s: { type: 'strike' },
+    del: { type: 'strike' },
+    strike: { type: 'strike' },
+    code: { type: 'code' },
+    tt: { type: 'code' },
+    sub: { type: 'subsup', attrs: { type: 'sub' } },
+    sup: { type: 'subsup', attrs: { type: 'sup' } }
+};
+
+/** Inline wrappers whose content is kept and the wrapper dropped */
+const TRANSPARENT_INLINE = new Set(['span', 'font', 'small', 'big', 'ac:inline-comment-marker']);
+
+function storageBlocks(nodes: XmlNode[], source: string): StorageBlock[] {
+    const blocks: StorageBlock[] = [];
+    let inline: XmlNode[] = [];
+    const flush = () => {
+        const content = inlineToAdf(inline, source);
+        if (content.length > 0) {
+            blocks.push({ nodes: [{ type: 'paragraph', content }], source: source.slice(inline[0].start, inline[inline.length - 1].end) });
+        }
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (isBlockNode(node)) {
+            flush();
+            blocks.push({ nodes: blockToAdf(node as XmlElement, source), source: source.slice(node.start, node.end) });
+        } else {
+            inline.push(node);
+        }
+    }
+    flush();
+    return blocks;
+}
+
+function blocksToAdf(nodes: XmlNode[], source: string): AdfNode[] {
+    return storageBlocks(nodes, source).flatMap(block => block.nodes);
+}
+
+function isBlockNode(node: XmlNode): boolean {
+    if (node.kind === 'text') {
+        return false;
+    }
+    if (node.name === 'ac:structured-macro') {
+        return !INLINE_MACROS.has(node.attrs['ac:name']);
+    }
+    return BLOCK_ELEMENTS.has(node.name) || (node.name.startsWith('ac:') && !INLINE_STORAGE_ELEMENTS.has(node.name));
+}
+
+function blockToAdf(element: XmlElement, source: string): AdfNode[] {
+    const children = element.children;
+
+    switch (element.name) {
+        case 'p':
+            return [{ type: 'paragraph', content: inlineToAdf(children, source) }];
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6':
+            return [{ type: 'heading', attrs: { level: Number(element.name[1]) }, content: inlineToAdf(children, source) }];
+        case 'ul':
+        case 'ol': {
+            const items = childElements(element, 'li').map(item => ({ type: 'listItem', content: listItemContent(item, source) }));
+            if (element.name === 'ul') {
+                return [{ type: 'bulletList', content: items }];
+            }
+            return [{ type: 'orderedList', attrs: { order: Number(element.attrs.start) || 1 }, content: items }];
+        }
+        case 'blockquote':
+            return [{ type: 'blockquote', content: nonEmptyBlocks(blocksToAdf(children, source)) }];
+        case 'pre':
+            return [codeBlock(textContent(element))];
+        case 'hr':
+            return [{ type: 'rule' }];
+        case 'table':
+            return [tableToAdf(element, source)];
+        case 'div':
+        case 'section':
+            return blocksToAdf(children, source);
+        case 'ac:task-list':
+            return [taskListToAdf(element, source)];
+        case 'ac:structured-macro':
+            return [blockMacroToAdf(element, source) ?? rawBlock(element, source)];
+        default:
+            return [rawBlock(element, source)];
+    }
+}
+
+function listItemContent(item: XmlElement, source: string): AdfNode[] {
+    const content = blocksToAdf(item.children, source);
+    // A list item starts with a paragraph
+    return content[0]?.type === 'paragraph' ? content : [{ type: 'paragraph', content: [] }, ...content];
+}
+
+function nonEmptyBlocks(blocks: AdfNode[]): AdfNode[] {
+    return blocks.length > 0 ? blocks : [{ type: 'paragraph', content: [] }];
+}
+
+function codeBlock(text: string, language?: string): AdfNode {
+    return {
+        type: 'codeBlock',
+        ...(language && { attrs: { language } }),
+        content: text ? [{ type: 'text', text }] : []
+    };
+}
+
+function rawBlock(element: XmlElement, source: string): AdfNode {
+    return codeBlock(source.slice(element.start, element.end), STORAGE_FENCE_LANGUAGE);
+}
+
+function tableToAdf(table: XmlElement, source: string): AdfNode {
+    const rows: XmlElement[] = [];
+    const collectRows = (element: XmlElement) => {
+        for (const child of element.children) {
+            if (child.kind === 'element' && child.name === 'tr') {
+                rows.push(child);
+            } else if (child.kind === 'element' && ['thead', 'tbody', 'tfoot'].includes(child.name)) {
+                collectRows(child);
+            }
+        }
+    };
+    collectRows(table);
+
+    return {
+        type: 'table',
+        content: rows.map(row => ({
+            type: 'tableRow',
+            content: row.children
+                .filter((cell): cell is XmlElement => cell.kind === 'element' && (cell.name === 'th' || cell.name === 'td'))
+                .map(cell => {
+                    const attrs: Record<string, any> = {};
+                    for (const span of ['colspan', 'rowspan']) {
+                        if (Number(cell.attrs[span]) > 1) {
+                            attrs[span] = Number(cell.attrs[span]);
+                        }
+                    }
+                    return {
+                        type: cell.name === 'th' ? 'tableHeader' : 'tableCell',
+                        ...(Object.keys(attrs).length > 0 && { attrs }),
+                        content: nonEmptyBlocks(blocksToAdf(cell.children, source))
+                    };
+                })
+        }))
+    };
+}
+
+function taskListToAdf(list: XmlElement, source: string): AdfNode {
+    return {
+        type: 'taskList',
+        attrs: { localId: '' },
+        content: childElements(list, 'ac:task').map(task => {
+            const body = childElements(task, 'ac:task-body')[0];
+            return {
+                type: 'taskItem',
+                attrs: { localId: childText(task, 'ac:task-id'), state: childText(task, 'ac:task-status') === 'complete' ? 'DONE' : 'TODO' },
+                content: body ? inlineToAdf(body.children, source) : []
+            };
+        })
+    };
+}
+
+export interface Macro {
+    name: string;
+    parameters: Record<string, string>;
+    body?: XmlElement;
+}
+
+export function readMacro(element: XmlElement): Macro {
+    const parameters: Record<string, string> = {};
+    for (const parameter of childElements(element, 'ac:parameter')) {
+        parameters[parameter.attrs['ac:name'] || ''] = textContent(parameter);
+    }
+    const body = childElements(element, 'ac:rich-text-body')[0] || childElements(element, 'ac:plain-text-body')[0];
+    return { name: element.attrs['ac:name'] || '', parameters, body };
+}
+
+function onlyParameters(macro: Macro, allowed: string[]): boolean {
+    return Object.keys(macro.parameters).every(name => allowed.includes(name));
+}
+
+/**
+ * Block macros with a Markdown form; undefined keeps the macro as raw storage
+ */
+function blockMacroToAdf(element: XmlElement, source: string): AdfNode | undefined {
+    const macro = readMacro(element);
+    if (macro.name === 'code' && onlyParameters(macro, ['language'])) {
+        return codeBlock(macro.body ? textContent(macro.body) : '', macro.parameters.language);
+    }
+    const panelType = PANEL_MACROS[macro.name];
+    if (panelType && onlyParameters(macro, []) && macro.body?.name === 'ac:rich-text-body') {
+        return { type: 'panel', attrs: { panelType }, content: nonEmptyBlocks(blocksToAdf(macro.body.children, source)) };
+    }
+    return undefined;
+}
+
+function inlineToAdf(nodes: XmlNode[], source: string): AdfNode[] {
+    const content: AdfNode[] = [];
+    for (const node of nodes) {
+        content.push(...inlineNodeToAdf(node, [], source));
+    }
+    return trimInline(mergeText(content));
+}
+
+function inlineNodeToAdf(node: XmlNode, marks: AdfMark[], source: string): AdfNode[] {
+    if (node.kind === 'text') {
+        // Outside CDATA, runs of whitespace render as a single space
+        const text = node.cdata ? node.text : node.text.replace(/[ \t\r\n]+/g, ' ');
+        return text ? [textNode(text, marks)] : [];
+    }
+
+    const inner = (extraMarks: AdfMark[] = []) =>
+        node.children.flatMap(child => inlineNodeToAdf(child, [...marks, ...extraMarks], source));
+
+    const mark = INLINE_MARKS[node.name];
+    if (mark) {
+        return inner([mark]);
+    }
+    if (TRANSPARENT_INLINE.has(node.name) || BLOCK_ELEMENTS.has(node.name)) {
+        return inner();
+    }
+
+    switch (node.name) {
+        case 'br':
+            return [{ type: 'hardBreak' }];
+        case 'a':
+            return node.attrs.href ? inner([{ type: 'link', attrs: { href: node.attrs.href } }]) : inner();
+        case 'time': {
+            const timestamp = Date.parse(`${node.attrs.datetime}T00:00:00Z`);
+            return Number.isNaN(timestamp) ? rawInline(node, source) : [{ type: 'date', attrs: { timestamp: String(timestamp) } }];
+        }
+        case 'ac:link':
+            return linkToAdf(node, marks, source) ?? rawInline(node, source);
+        case 'ac:image':
+            return imageToAdf(node) ?? rawInline(node, source);
+        case 'ac:emoticon': {
+            const shortName = node.attrs['ac:emoji-shortname'] || `:${node.attrs['ac:name'] || ''}:`;
+            return [{ type: 'emoji', attrs: { shortName } }];
+        }
+        case 'ac:placeholder':
+            // Editor hints, not content
+            return [];
+        case 'ac:structured-macro':
+            return inlineMacroToAdf(node, marks) ?? rawInline(node, source);
+        default:
+            return rawInline(node, source);
+    }
+}
+
+function linkToAdf(link: XmlElement, marks: AdfMark[], source: string): AdfNode[] | undefined {
+    const resource = link.children.find((child): child is XmlElement => child.kind === 'element' && child.name.startsWith('ri:'));
+    const anchor = link.attrs['ac:anchor'] ? `#${encodeURIComponent(link.attrs['ac:anchor'])}` : '';
+    let href: string;
+    let label: string;
+
+    if (!resource) {
+        if (!anchor) {
+            return undefined;
+        }
+        href = anchor;
+        label = link.attrs['ac:anchor'];
+    } else if (resource.name === 'ri:page') {
+        const title = resource.attrs['ri:content-title'] || '';
+        const space = resource.attrs['ri:space-key'];
+        href = `page:${space ? `${encodeURIComponent(space)}/` : ''}${encodeURIComponent(title)}${anchor}`;
+        label = title;
+    } else if (resource.name === 'ri:attachment') {
+        href = `attachment:${encodeURIComponent(resource.attrs['ri:filename'] || '')}`;
+        label = resource.attrs['ri:filename'] || '';
+    } else if (resource.name === 'ri:url') {
+        href = resource.attrs['ri:value'] || '';
+        label = href;
+    } else if (resource.name === 'ri:user') {
+        const id = resource.attrs['ri:account-id'] || resource.attrs['ri:userkey'] || resource.attrs['ri:username'] || '';
+        return [{ type: 'mention', attrs: { id, text: `@${id}` } }];
+    } else {
+        return undefined;
+    }
+
+    const linkMark: AdfMark = { type: 'link', attrs: { href } };
+    const richBody = childElements(link, 'ac:link-body')[0];
+    if (richBody) {
+        return richBody.children.flatMap(child => inlineNodeToAdf(child, [...marks, linkMark], source));
+    }
+    const plainBody = childElements(link, 'ac:plain-text-link-body')[0];
+    return [textNode(plainBody ? textContent(plainBody) : label, [...marks, linkMark])];
+}
+
+function imageToAdf(image: XmlElement): AdfNode[] | undefined {
+    const resource = image.children.find((child): child is XmlElement => child.kind === 'element' && child.name.startsWith('ri:'));
+    let url: string | undefined;
+    if (resource?.name === 'ri:attachment') {
+        url = `attachment:${encodeURIComponent(resource.attrs['ri:filename'] || '')}`;
+    } else if (resource?.name === 'ri:url') {
+        url = resource.attrs['ri:value'];
+    }
+    if (!url) {
+        return undefined;
+    }
+    const alt = image.attrs['ac:alt'];
+    return [{ type: 'mediaInline', attrs: { type: 'external', url, ...(alt && { alt }) } }];
+}
+
+function inlineMacroToAdf(element: XmlElement, marks: AdfMark[]): AdfNode[] | undefined {
+    const macro = readMacro(element);
+    if (macro.name === 'status' && onlyParameters(macro, ['colour', 'title'])) {
+        const colour = (macro.parameters.colour || 'grey').toLowerCase();
+        return [{ type: 'status', attrs: { text: macro.parameters.title || '', color: colour === 'grey' ? 'neutral' : colour } }];
+    }
+    if (macro.name === 'jira' && macro.parameters.key && !macro.body) {
+        const { key, ...rest } = macro.parameters;
+        const query = new URLSearchParams(rest).toString();
+        return [textNode(key, [...marks, { type: 'link', attrs: { href: `jira:${key}${query ? `?${query}` : ''}` } }])];
+    }
+    return undefined;
+}
+
+function rawInline(element: XmlElement, source: string): AdfNode[] {
+    return [{ type: 'inlineExtension', attrs: { extensionType: STORAGE_FENCE_LANGUAGE, storage: source.slice(element.start, element.end) } }];
+}
+
+function textNode(text: string, marks: AdfMark[]): AdfNode {
+    return marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text };
+}
+
+function mergeText(nodes: AdfNode[]): AdfNode[] {
+    const merged: AdfNode[] = [];
+    for (const node of nodes) {
+        const previous = merged[merged.length - 1];
+        if (previous?.type === 'text' && node.type === 'text' && JSON.stringify(previous.marks) === JSON.stringify(node.marks)) {
+            merged[merged.length - 1] = { ...previous, text: (previous.text || '') + (node.text || '') };
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Drop the whitespace that surrounds content and line breaks in the markup
+ */
+function trimInline(nodes: AdfNode[]): AdfNode[] {
+    const trimmed = nodes.map((node, index) => {
+        if (node.type !== 'text' || node.marks?.some(mark => mark.type === 'code')) {
+            return node;
+        }
+        let text = node.text || '';
+        if (index === 0 || nodes[index - 1].type === 'hardBreak') {
+            text = text.replace(/^ +/, '');
+        }
+        if (index === nodes.length - 1 || nodes[index + 1].type === 'hardBreak') {
+            text = text.replace(/ +$/, '');
+        }
+        return { ...node, text };
+    });
+    return trimmed.filter(node => node.type !== 'text' || node.text);
+}
+
+// =============================================================================
+// ADF -> Storage
+// =============================================================================
+
+const PANEL_TYPE_MACROS: Record<string, string> = {
+    info: 'info', note: 'note', warning: 'warning', tip: 'tip', success: 'tip', error: 'warning', custom: 'info'
+};
+
+function blocksToStorage(nodes: AdfNode[]): string {
+    return nodes.map(blockToStorage).join('');
+}
+
+function blockToStorage(node: AdfNode): string {
+    const content = node.content || [];
+
+    switch (node.type) {
+        case 'paragraph':
+            return `<p>${inlineToStorage(content)}</p>`;
+        case 'heading': {
+            const level = Math.min(Math.max(node.attrs?.level || 1, 1), 6);
+            return `<h${level}>${inlineToStorage(content)}</h${level}>`;
+        }
+        case 'bulletList':
+            return `<ul>${content.map(listItemToStorage).join('')}</ul>`;
+        case 'orderedList': {
+            const order = node.attrs?.order ?? 1;
+            return `<ol${order !== 1 ? ` start="${order}"` : ''}>${content.map(listItemToStorage).join('')}</ol>`;
+        }
+        case 'taskList':
+            return taskListToStorage(node);
+        case 'codeBlock': {
+            const text = content.map(child => child.text || '').join('');
+            if (node.attrs?.language === STORAGE_FENCE_LANGUAGE) {
+                return text;
+            }
+            const language = node.attrs?.language ? parameter('language', node.attrs.language) : '';
+            return `<ac:structured-macro ac:name="code">${language}<ac:plain-text-body>${cdata(text)}</ac:plain-text-body></ac:structured-macro>`;
+        }
+        case 'blockquote':
+            return `<blockquote>${blocksToStorage(content)}</blockquote>`;
+        case 'panel': {
+            const macro = PANEL_TYPE_MACROS[node.attrs?.panelType] || 'info';
+            return `<ac:structured-macro ac:name="${macro}"><ac:rich-text-body>${blocksToStorage(content)}</ac:rich-text-body></ac:structured-macro>`;
+        }
+        case 'expand':
+            return `<ac:structured-macro ac:name="expand">${node.attrs?.title ? parameter('title', node.attrs.title) : ''}`
+                + `<ac:rich-text-body>${blocksToStorage(content)}</ac:rich-text-body></ac:structured-macro>`;
+        case 'rule':
+            return '<hr/>';
+        case 'table':
+            return `<table><tbody>${content.map(tableRowToStorage).join('')}</tbody></table>`;
+        case 'mediaSingle':
+        case 'mediaGroup':
+            return `<p>${content.map(mediaToStorage).join('')}</p>`;
+        default:
+            return content.length > 0 ? blocksToStorage(content) : '';
+    }
+}
+
+function listItemToStorage(item: AdfNode): string {
+    return `<li>${blocksToStorage(item.content || [])}</li>`;
+}
+
+function taskListToStorage(list: AdfNode): string {
+    let nextId = 1;
+    const tasks = (list.content || []).map(item => {
+        if (item.type === 'taskList') {
+            return taskListToStorage(item);
+        }
+        const localId = String(item.attrs?.localId || '');
+        const id = /^\d+$/.test(localId) ? localId : String(nextId);
+        nextId = Math.max(nextId, Number(id)) + 1;
+        const status = item.attrs?.state === 'DONE' ? 'complete' : 'incomplete';
+        return `<ac:task><ac:task-id>${id}</ac:task-id><ac:task-status>${status}</ac:task-status>`
+            + `<ac:task-body>${inlineToStorage(item.content || [])}</ac:task-body></ac:task>`;
+    });
+    return `<ac:task-list>${tasks.join('')}</ac:task-list>`;
+}
+
+function tableRowToStorage(row: AdfNode): string {
+    const cells = (row.content || []).map(cell => {
+        const tag = cell.type === 'tableHeader' ? 'th' : 'td';
+        const spans = ['colspan', 'rowspan']
+            .filter(span => (cell.attrs?.[span] ?? 1) > 1)
+            .map(span => ` ${span}="${cell.attrs![span]}"`)
+            .join('');
+        return `<${tag}${spans}>${blocksToStorage(cell.content || [])}</${tag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+}
+
+function mediaToStorage(media: AdfNode): string {
+    const alt = media.attrs?.alt ? ` ac:alt="${escapeXml(media.attrs.alt)}"` : '';
+    const url: string = media.attrs?.url || '';
+    if (url.startsWith('attachment:')) {
+        return `<ac:image${alt}><ri:attachment ri:filename="${escapeXml(decodeURIComponent(url.slice('attachment:'.length)))}"/></ac:image>`;
+    }
+    if (url) {
+        return `<ac:image${alt}><ri:url ri:value="${escapeXml(url)}"/></ac:image>`;
+    }
+    // Jira media ids mean nothing to Confluence
+    return escapeXml(media.attrs?.alt || '');
+}
+
+function inlineToStorage(nodes: AdfNode[]): string {
+    let result = '';
+    let index = 0;
+    while (index < nodes.length) {
+        const link = linkMarkOf(nodes[index]);
+        if (!link) {
+            result += inlineNodeToStorage(nodes[index]);
+            index++;
+            continue;
+        }
+
+        // Consecutive nodes under the same link become one link
+        const run: AdfNode[] = [];
+        while (index < nodes.length && linkMarkOf(nodes[index])?.attrs?.href === link.attrs?.href) {
+            run.push({ ...nodes[index], marks: nodes[index].marks!.filter(mark => mark.type !== 'link') });
+            index++;
+        }
+        result += linkToStorage(String(link.attrs?.href || ''), run);
+    }
+    return result;
+}
+
+function linkMarkOf(node: AdfNode): AdfMark | undefined {
+    return node.marks?.find(mark => mark.type === 'link');
+}
+
+function linkToStorage(href: string, nodes: AdfNode[]): string {
+    const plain = nodes.every(node => node.type === 'text' && !node.marks?.length);
+    const text = nodes.map(node => node.text || '').join('');
+    const body = plain
+        ? `<ac:plain-text-link-body>${cdata(text)}</ac:plain-text-link-body>`
+        : `<ac:link-body>${inlineToStorage(nodes)}</ac:link-body>`;
+
+    const [target, anchor] = splitAnchor(href);
+    const anchorAttr = anchor ? ` ac:anchor="${escapeXml(anchor)}"` : '';
+
+    if (href.startsWith('jira:')) {
+        const [key, query] = href.slice('jira:'.length).split('?');
+        const parameters = [['key', key], ...new URLSearchParams(query || '').entries()]
+            .map(([name, value]) => parameter(name, value))
+            .join('');
+        return `<ac:structured-macro ac:name="jira">${parameters}</ac:structured-macro>`;
+    }
+    if (target.startsWith('page:')) {
+        const path = target.slice('page:'.length);
+        const slash = path.indexOf('/');
+        const space = slash === -1 ? '' : ` ri:space-key="${escapeXml(decodeURIComponent(path.slice(0, slash)))}"`;
+        const title = decodeURIComponent(slash === -1 ? path : path.slice(slash + 1));
+        return `<ac:link${anchorAttr}><ri:page${space} ri:content-title="${escapeXml(title)}"/>${body}</ac:link>`;
+    }
+    if (target.startsWith('attachment:')) {
+        const filename = decodeURIComponent(target.slice('attachment:'.length));
+        return `<ac:link${anchorAttr}><ri:attachment ri:filename="${escapeXml(filename)}"/>${body}</ac:link>`;
+    }
+    if (!target && anchor) {
+        return `<ac:link${anchorAttr}>${body}</ac:link>`;
+    }
+    return `<a href="${escapeXml(href)}">${inlineToStorage(nodes)}</a>`;
+}
+
+function splitAnchor(href: string): [string, string] {
+    if (!/^(page:|#)/.test(href)) {
+        return [href, ''];
+    }
+    const hash = href.indexOf('#');
+    return hash === -1 ? [href, ''] : [href.slice(0, hash), decodeURIComponent(href.slice(hash + 1))];
+}
+
+function inlineNodeToStorage(node: AdfNode): string {
+    switch (node.type) {
+        case 'text':
+            return (node.marks || []).reduce(wrapMark, escapeXml(node.text || ''));
+        case 'hardBreak':
+            return '<br/>';
+        case 'mention':
+            return `<ac:link><ri:user ri:account-id="${escapeXml(node.attrs?.id || '')}"/></ac:link>`;
+        case 'emoji': {
+            const shortName = String(node.attrs?.shortName || '');
+            return `<ac:emoticon ac:name="${escapeXml(shortName.replace(/^:|:$/g, ''))}"/>`;
+        }
+        case 'inlineCard':
+            return `<a href="${escapeXml(node.attrs?.url || '')}">${escapeXml(node.attrs?.url || '')}</a>`;
+        case 'status': {
+            const color = String(node.attrs?.color || 'neutral');
+            const colour = color === 'neutral' ? 'Grey' : color[0].toUpperCase() + color.slice(1);
+            return `<ac:structured-macro ac:name="status">${parameter('colour', colour)}${parameter('title', node.attrs?.text || '')}</ac:structured-macro>`;
+        }
+        case 'date': {
+            const timestamp = Number(node.attrs?.timestamp);
+            return Number.isFinite(timestamp) ? `<time datetime="${new Date(timestamp).toISOString().slice(0, 10)}"/>` : '';
+        }
+        case 'mediaInline':
+            return mediaToStorage(node);
+        case 'inlineExtension':
+            if (node.attrs?.extensionType === STORAGE_FENCE_LANGUAGE && typeof node.attrs.storage === 'string') {
+                return node.attrs.storage;
+            }
+            return '';
+        default:
+            return escapeXml(node.text || '');
+    }
+}
+
+function wrapMark(html: string, mark: AdfMark): string {
+    switch (mark.type) {
+        case 'strong':
+            return `<strong>${html}</strong>`;
+        case 'em':
+            return `<em>${html}</em>`;
+        case 'underline':
+            return `<u>${html}</u>`;
+        case 'strike':
+            return `<s>${html}</s>`;
+        case 'code':
+            return `<code>${html}</code>`;
+        case 'subsup':
+            return mark.attrs?.type === 'sup' ? `<sup>${html}</sup>` : `<sub>${html}</sub>`;
+        case 'textColor':
+            return `<span style="color: ${escapeXml(mark.attrs?.color || '')}">${html}</span>`;
+        default:
+            return html;
+    }
+}
+
+function parameter(name: string, value: string): string {
+    return `<ac:parameter ac:name="${escapeXml(name)}">${escapeXml(value)}</ac:parameter>`;
+}
+
+function cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function escapeXml(text: string): string {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,221 @@
+/**
+ * Mock Atlassian Server
+ *
+ * Serves an offline, stateful imitation of the Jira (v2/v3) and Confluence (v1/v2) REST APIs,
+ * seeded from src/scripts/fixtures/mockAtlassianData.json. Point ATLASSIAN_BASE_URL at it to
+ * run the integration scripts or the extension without network access.
+ *
+ * Paths served:
+ * - Jira Cloud:            /rest/api/3/...
+ * - Jira Data Center:      /rest/api/2/...
+ * - Confluence Cloud:      /wiki/rest/api/... and /wiki/api/v2/...
+ * - Confluence Data Center: /confluence/rest/api/... (set ATLASSIAN_CONFLUENCE_BASE_URL to <base>/confluence)
+ * - Attachment downloads:  /wiki/download/... and /confluence/download/...
+ *
+ * Any Authorization header is accepted; requests without one get 401.
+ *
+ * Run: npm run mock-server (MOCK_ATLASSIAN_PORT overrides the default port 8089)
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createConfluenceDownloadRouter, createConfluenceRouter, createConfluenceV2Router } from './mockServer/confluenceRoutes';
+import { createJiraRouter } from './mockServer/jiraRoutes';
+import { MockAtlassianStore } from './mockServer/mockStore';
+import { MockHttpError, MockResponse, MockRouter, formatError } from './mockServer/router';
+
+export interface MockAtlassianServerOptions {
+    /** Port to listen on; 0 picks a free port */
+    port?: number;
+    /** Fixture to seed the state from (defaults to the bundled fixture) */
+    fixturePath?: string;
+}
+
+export interface MockAtlassianServer {
+    baseUrl: string;
+    store: MockAtlassianStore;
+    close(): Promise<void>;
+}
+
+/**
+ * Start the mock server; resolves once it is listening
+ */
+export async function startMockAtlassianServer(options: MockAtlassianServerOptions = {}): Promise<MockAtlassianServer> {
+    const store = MockAtlassianStore.fromFile(options.fixturePath);
+
+    // Longest prefix first so /rest/api/2 is not mistaken for another router's path
+    const routers: MockRouter[] = [
+        createConfluenceV2Router(store),
+        createConfluenceRouter(store, '/wiki/rest/api'),
+        createConfluenceRouter(store, '/confluence/rest/api'),
+        createConfluenceDownloadRouter(store, '/wiki/download'),
+        createConfluenceDownloadRouter(store, '/confluence/download'),
+        createJiraRouter(store, 3),
+        createJiraRouter(store, 2)
+    ];
+
+    const server = http.createServer((req, res) => {
+        handleRequest(routers, req, res).catch((error) => {
+            console.error('Mock server error:', error);
+            sendJson(res, 500, { message: String(error) });
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = server.address() as AddressInfo;
+    store.baseUrl = `http://127.0.0.1:${port}`;
+
+    return {
+        baseUrl: store.baseUrl,
+        store,
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+    };
+}
+
+async function handleRequest(routers: MockRouter[], req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const router = routers.find(candidate => url.pathname === candidate.prefix || url.pathname.startsWith(candidate.prefix + '/'));
+
+    if (!router) {
+        sendJson(res, 404, { message: `No mock API serves ${url.pathname}` });
+        return;
+    }
+
+    if (!req.headers.authorization) {
+        sendJson(res, 401, formatError(router.errorStyle, 401, 'Client must be authenticated to access this resource.'));
+        return;
+    }
+
+    const path = url.pathname.slice(router.prefix.length) || '/';
+    const route = router.match(method, path);
+    if (!route) {
+        const status = router.hasPath(path) ? 405 : 404;
+        sendJson(res, status, formatError(router.errorStyle, status, `${method} ${url.pathname} is not supported by the mock server`));
+        return;
+    }
+
+    let body: any;
+    try {
+        body = await readBody(req);
+    } catch {
+        sendJson(res, 400, formatError(router.errorStyle, 400, 'Request body is not valid JSON or multipart form data'));
+        return;
+    }
+
+    try {
+        const result = route.handler({
+            method,
+            path,
+            params: route.params,
+            query: url.searchParams,
+            body,
+            headers: req.headers
+        });
+        if (result instanceof MockResponse) {
+            sendJson(res, result.status, result.body);
+        } else {
+            sendJson(res, 200, result);
+        }
+    } catch (error) {
+        if (error instanceof MockHttpError) {
+            sendJson(res, error.status, formatError(router.errorStyle, error.status, error.message, error.fieldErrors));
+            return;
+        }
+        throw error;
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('error', reject);
+        req.on('end', () => {
+            const data = Buffer.concat(chunks);
+            const boundary = /^multipart\/form-data;.*boundary=("?)([^";]+)\1/i.exec(req.headers['content-type'] || '')?.[2];
+            try {
+                if (boundary) {
+                    resolve(parseMultipart(data, boundary));
+                    return;
+                }
+                const text = data.toString('utf-8');
+                resolve(text ? JSON.parse(text) : undefined);
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+/**
+ * Parse multipart form data into its parts by field name
+ */
+function parseMultipart(data: Buffer, boundary: string): Record<string, { filename?: string; contentType?: string; data: Buffer }> {
+    const parts: Record<string, { filename?: string; contentType?: string; data: Buffer }> = {};
+    const delimiter = Buffer.from(`--${boundary}`);
+    let start = data.indexOf(delimiter);
+    if (start === -1) {
+        throw new Error('Multipart boundary not found');
+    }
+    for (;;) {
+        start += delimiter.length;
+        if (data.subarray(start, start + 2).toString() === '--') {
+            return parts;
+        }
+        const end = data.indexOf(delimiter, start);
+        const headerEnd = data.indexOf('\r\n\r\n', start);
+        if (end === -1 || headerEnd === -1 || headerEnd > end) {
+            throw new Error('Malformed multipart body');
+        }
+        const headers = data.subarray(start, headerEnd).toString('utf-8');
+        const name = /name="([^"]*)"/.exec(headers)?.[1];
+        if (name !== undefined) {
+            parts[name] = {
+                filename: /filename="([^"]*)"/.exec(headers)?.[1],
+                contentType: /content-type:\s*(\S+)/i.exec(headers)?.[1],
+                // The CRLF before the next delimiter belongs to it
+                data: data.subarray(headerEnd + 4, end - 2)
+            };
+        }
+        start = end;
+    }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: any): void {
+    if (status === 204 || body === undefined) {
+        res.writeHead(status);
+        res.end();
+        return;
+    }
+    // File downloads
+    if (Buffer.isBuffer(body)) {
+        res.writeHead(status, { 'Content-Type': 'application/octet-stream', 'Content-Length': body.length });
+        res.end(body);
+        return;
+    }
+    const payload = JSON.stringify(body);
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) });
+    res.end(payload);
+}
+
+// Run standalone: print the environment to point the extension or scripts at the mock
+if (require.main === module) {
+    const port = Number(process.env.MOCK_ATLASSIAN_PORT || 8089);
+    startMockAtlassianServer({ port }).then(server => {
+        console.log(`🧪 Mock Atlassian server listening on ${server.baseUrl}`);
+        console.log('\nUse it with:');
+        console.log(`  ATLASSIAN_BASE_URL=${server.baseUrl}`);
+        console.log('  ATLASSIAN_EMAIL=mock.user@example.com');
+        console.log('  ATLASSIAN_API_TOKEN=mock-token');
+        console.log(`\nData Center mode: ATLASSIAN_DEPLOYMENT_TYPE=dataCenter ATLASSIAN_CONFLUENCE_BASE_URL=${server.baseUrl}/confluence`);
+        console.log('\nPress Ctrl+C to stop.');
+    }).catch((error) => {
+        console.error('❌ Failed to start mock server:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,707 @@
+/**
+ * Confluence REST API routes for the mock Atlassian server: the v1 content API
+ * (served under Cloud's /wiki prefix and a Data Center style context path) and the Cloud-only v2 API.
+ */
+
+import { MockAtlassianStore, MockAttachment, MockPage, MockPageComment, MockSpace } from './mockStore';
+import { runQuery } from './queryLanguage';
+import { MockHttpError, MockRequest, MockRouter, created, noContent } from './router';
+
+type SearchItem = { kind: 'page'; page: MockPage } | { kind: 'space'; space: MockSpace };
+
+/**
+ * Build the v1 content API router under the given prefix
+ */
+export function createConfluenceRouter(store: MockAtlassianStore, prefix: string): MockRouter {
+    const router = new MockRouter(prefix, 'confluence');
+    const context = prefix.replace(/\/rest\/api$/, '');
+
+    const user = (idOrName: string) => {
+        const found = store.findUser(idOrName);
+        return found
+            ? { type: 'known', accountId: found.accountId, username: found.username, email: found.emailAddress, publicName: found.displayName, displayName: found.displayName }
+            : { type: 'anonymous', displayName: 'Anonymous' };
+    };
+
+    const renderVersion = (version: MockPage['versions'][number]) => ({
+        by: user(version.by),
+        when: version.when,
+        number: version.number,
+        message: version.message,
+        minorEdit: false
+    });
+
+    const renderSpace = (space: MockSpace) => ({
+        id: Number(space.id),
+        key: space.key,
+        name: space.name,
+        type: space.type,
+        status: 'current',
+        _links: { webui: `/spaces/${space.key}`, self: `${store.baseUrl}${prefix}/space/${space.key}` }
+    });
+
+    /**
+     * Render a page in v1 content shape; `version` selects a historical version
+     */
+    const renderPage = (page: MockPage, expandParam: string | null, version?: MockPage['versions'][number]) => {
+        const expand = (expandParam || '').split(',').map(value => value.trim());
+        const shown = version || store.currentVersion(page);
+        const space = store.requireSpace(page.spaceKey);
+        const historical = shown !== store.currentVersion(page);
+
+        return {
+            id: page.id,
+            type: 'page',
+            status: historical ? 'historical' : 'current',
+            title: shown.title,
+            space: renderSpace(space),
+            version: renderVersion(shown),
+            ...((expand.includes('body.storage') || expand.includes('body.view')) && {
+                body: {
+                    ...(expand.includes('body.storage') && { storage: { value: shown.body, representation: 'storage' } }),
+                    ...(expand.includes('body.view') && { view: { value: shown.body, representation: 'view' } })
+                }
+            }),
+            ...(expand.includes('ancestors') && {
+                ancestors: store.ancestorsOf(page).map(ancestor => ({
+                    id: ancestor.id,
+                    type: 'page',
+                    status: 'current',
+                    title: store.currentVersion(ancestor).title
+                }))
+            }),
+            ...(expand.includes('childTypes.page') && {
+                childTypes: { page: { value: childrenOf(page.id).length > 0 } }
+            }),
+            ...(expand.some(value => value.startsWith('history')) && { history: renderHistory(page) }),
+            ...(expand.includes('metadata.labels') && {
+                metadata: { labels: { results: page.labels.map(renderLabel), size: page.labels.length } }
+            }),
+            _links: {
+                webui: `/spaces/${space.key}/pages/${page.id}/${encodeURIComponent(shown.title.replace(/\s+/g, '+'))}`,
+                self: `${store.baseUrl}${prefix}/content/${page.id}`
+            }
+        };
+    };
+
+    const renderHistory = (page: MockPage) => {
+        const current = store.currentVersion(page);
+        const previous = page.versions[page.versions.length - 2];
+        return {
+            latest: true,
+            createdBy: user(page.createdBy),
+            createdDate: page.created,
+            lastUpdated: renderVersion(current),
+            ...(previous && { previousVersion: renderVersion(previous) })
+        };
+    };
+
+    const renderLabel = (name: string) => ({ prefix: 'global', name, id: name, label: name });
+
+    /**
+     * Offset pagination in the v1 style
+     */
+    const paginate = <T>(items: T[], req: MockRequest, render: (item: T) => any, defaultLimit: number = 25) => {
+        const start = Number(req.query.get('start') || 0);
+        const limit = Number(req.query.get('limit') || defaultLimit);
+        const results = items.slice(start, start + limit).map(render);
+        const links: Record<string, string> = { base: `${store.baseUrl}${context}`, context };
+        if (start + limit < items.length) {
+            const next = new URLSearchParams(req.query);
+            next.set('start', String(start + limit));
+            next.set('limit', String(limit));
+            links.next = `${prefix.slice(context.length)}${req.path}?${next.toString()}`;
+        }
+        return { results, start, limit, size: results.length, _links: links };
+    };
+
+    const plainText = (html: string) => html.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, ' $1 ').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+    const childrenOf = (pageId: string) => [...store.pages.values()].filter(page => page.parentId === pageId);
+
+    // ===== SEARCH =====
+
+    const search = (cql: string): SearchItem[] => {
+        const items: SearchItem[] = [
+            ...[...store.pages.values()].map(page => ({ kind: 'page' as const, page })),
+            ...store.spaces.map(space => ({ kind: 'space' as const, space }))
+        ];
+        const userIds = (id: string) => {
+            const found = store.findUser(id);
+            return found ? [found.accountId, found.username] : [id];
+        };
+
+        const matches = runQuery(items, cql, (item, field) => {
+            const name = field.toLowerCase();
+            if (item.kind === 'space') {
+                switch (name) {
+                    case 'type': return 'space';
+                    case 'space':
+                    case 'space.key': return item.space.key;
+                    case 'title': return item.space.name;
+                    case 'favourite':
+                    case 'favorite': return item.space.favourite ? store.currentUser : undefined;
+                    default: return undefined;
+                }
+            }
+
+            const page = item.page;
+            const current = store.currentVersion(page);
+            switch (name) {
+                case 'type': return 'page';
+                case 'id':
+                case 'content': return page.id;
+                case 'space':
+                case 'space.key': return page.spaceKey;
+                case 'title': return current.title;
+                case 'text': return [current.title, plainText(current.body)];
+                case 'label': return page.labels;
+                case 'parent': return page.parentId;
+                case 'ancestor': return store.ancestorsOf(page).map(ancestor => ancestor.id);
+                case 'creator': return userIds(page.createdBy);
+                case 'contributor': return page.versions.flatMap(version => userIds(version.by));
+                case 'favourite':
+                case 'favorite': return page.favourite ? store.currentUser : undefined;
+                case 'created': return page.created;
+                case 'lastmodified': return current.when;
+            }
+            throw new MockHttpError(400, `Could not parse cql : ${cql} (unsupported field '${field}')`);
+        }, { currentUser: store.currentUser });
+
+        return matches;
+    };
+
+    router.get('/content/search', (req) => {
+        const cql = req.query.get('cql');
+        if (!cql) {
+            throw new MockHttpError(400, 'cql parameter is required');
+        }
+        return paginate(search(cql), req, item => item.kind === 'page'
+            ? renderPage(item.page, req.query.get('expand'))
+            : renderSpace(item.space));
+    });
+
+    router.get('/search', (req) => {
+        const cql = req.query.get('cql') || '';
+        const users = runQuery(store.users, cql, (candidate, field) => {
+            switch (field.toLowerCase()) {
+                case 'user.fullname': return candidate.displayName;
+                case 'user.accountid': return candidate.accountId;
+                case 'user': return [candidate.accountId, candidate.username];
+                default: throw new MockHttpError(400, `Could not parse cql : ${cql}`);
+            }
+        }, { currentUser: store.currentUser });
+        return paginate(users, req, candidate => ({
+            user: user(candidate.accountId),
+            title: candidate.displayName,
+            entityType: 'user'
+        }));
+    });
+
+    // ===== CONTENT =====
+
+    router.get('/content', (req) => {
+        const spaceKey = req.query.get('spaceKey');
+        const title = req.query.get('title');
+        const type = req.query.get('type') || 'page';
+        const pages = type === 'page'
+            ? [...store.pages.values()].filter(page =>
+                (!spaceKey || page.spaceKey === spaceKey) && (!title || store.currentVersion(page).title === title))
+            : [];
+        return paginate(pages, req, page => renderPage(page, req.query.get('expand')));
+    });
+
+    router.get('/content/:id', (req) => {
+        const page = store.requirePage(req.params.id);
+        if (req.query.get('status') === 'historical' || req.query.get('version')) {
+            const number = Number(req.query.get('version'));
+            const version = page.versions.find(candidate => candidate.number === number);
+            if (!version) {
+                throw new MockHttpError(404, `No content found with id ${page.id} and version ${number}`);
+            }
+            return renderPage(page, req.query.get('expand'), version);
+        }
+        return renderPage(page, req.query.get('expand'));
+    });
+
+    router.post('/content', (req) => {
+        const body = req.body || {};
+        if (body.type !== 'page') {
+            throw new MockHttpError(400, `Unsupported content type '${body.type}'`);
+        }
+        const space = store.requireSpace(body.space?.key || '');
+        const title = String(body.title || '').trim();
+        if (!title) {
+            throw new MockHttpError(400, 'Title cannot be empty');
+        }
+        assertUniqueTitle(space.key, title);
+
+        const parentId = body.ancestors?.length ? String(body.ancestors[body.ancestors.length - 1].id) : undefined;
+        if (parentId) {
+            assertParentInSpace(parentId, space.key);
+        }
+
+        const timestamp = new Date().toISOString();
+        const page: MockPage = {
+            id: store.nextId(),
+            spaceKey: space.key,
+            parentId: parentId || space.homepageId,
+            versions: [{ number: 1, title, body: body.body?.storage?.value || '', by: store.currentUser, when: timestamp, message: '' }],
+            labels: [],
+            favourite: false,
+            createdBy: store.currentUser,
+            created: timestamp
+        };
+        store.pages.set(page.id, page);
+        return renderPage(page, 'body.storage,ancestors');
+    });
+
+    router.put('/content/:id', (req) => {
+        const page = store.requirePage(req.params.id);
+        const body = req.body || {};
+        const current = store.currentVersion(page);
+
+        if (body.version?.number !== current.number + 1) {
+            throw new MockHttpError(409, `Version must be incremented on update. Current version is: ${current.number}`);
+        }
+
+        const title = String(body.title || current.title).trim();
+        const spaceKey = body.space?.key ? store.requireSpace(body.space.key).key : page.spaceKey;
+        if (title !== current.title || spaceKey !== page.spaceKey) {
+            assertUniqueTitle(spaceKey, title, page.id);
+        }
+
+        if (body.ancestors?.length) {
+            const parentId = String(body.ancestors[body.ancestors.length - 1].id);
+            assertParentInSpace(parentId, spaceKey);
+            if (parentId === page.id || store.ancestorsOf(store.requirePage(parentId)).some(ancestor => ancestor.id === page.id)) {
+                throw new MockHttpError(400, 'A page cannot be moved below itself or one of its descendants');
+            }
+            page.parentId = parentId;
+        } else if (spaceKey !== page.spaceKey) {
+            page.parentId = store.requireSpace(spaceKey).homepageId;
+        }
+        moveSubtree(page, spaceKey);
+
+        page.versions.push({
+            number: current.number + 1,
+            title,
+            body: body.body?.storage?.value ?? current.body,
+            by: store.currentUser,
+            when: new Date().toISOString(),
+            message: body.version?.message || ''
+        });
+        return renderPage(page, 'body.storage,ancestors');
+    });
+
+    router.delete('/content/:id', (req) => {
+        const page = store.requirePage(req.params.id);
+        // Children move up to the deleted page's parent, as in Confluence
+        for (const child of childrenOf(page.id)) {
+            child.parentId = page.parentId;
+        }
+        for (const comment of [...store.pageComments.values()]) {
+            if (comment.pageId === page.id) {
+                store.pageComments.delete(comment.id);
+            }
+        }
+        store.pages.delete(page.id);
+        return noContent();
+    });
+
+    router.get('/content/:id/history', (req) => renderHistory(store.requirePage(req.params.id)));
+
+    router.get('/content/:id/version', (req) => {
+        const page = store.requirePage(req.params.id);
+        return paginate([...page.versions].reverse(), req, renderVersion, 200);
+    });
+
+    router.get('/content/:id/child/page', (req) => {
+        const page = store.requirePage(req.params.id);
+        return paginate(childrenOf(page.id), req, child => renderPage(child, req.query.get('expand')));
+    });
+
+    router.get('/content/:id/child/comment', (req) => {
+        const page = store.requirePage(req.params.id);
+        const location = req.query.get('location');
+        const comments = [...store.pageComments.values()].filter(comment =>
+            comment.pageId === page.id && (!location || comment.kind === location)
+        );
+        return paginate(comments, req, comment => {
+            const current = comment.versions[comment.versions.length - 1];
+            return {
+                id: comment.id,
+                type: 'comment',
+                status: 'current',
+                title: `Re: ${store.currentVersion(page).title}`,
+                body: { view: { value: current.body, representation: 'view' } },
+                version: { by: user(current.by), when: current.when, number: current.number },
+                extensions: { location: comment.kind, ...(comment.resolutionStatus && { resolution: { status: comment.resolutionStatus } }) }
+            };
+        });
+    });
+
+    const renderAttachment = (attachment: MockAttachment) => ({
+        id: attachment.id,
+        type: 'attachment',
+        status: 'current',
+        title: attachment.title,
+        metadata: { mediaType: attachment.mediaType },
+        extensions: { mediaType: attachment.mediaType, fileSize: attachment.data.length },
+        version: { number: attachment.version, when: attachment.when },
+        _links: { download: `/download/attachments/${attachment.pageId}/${encodeURIComponent(attachment.title)}?version=${attachment.version}` }
+    });
+
+    const attachmentsOf = (pageId: string) => [...store.attachments.values()].filter(attachment => attachment.pageId === pageId);
+
+    router.get('/content/:id/child/attachment', (req) => {
+        store.requirePage(req.params.id);
+        const filename = req.query.get('filename');
+        return paginate(attachmentsOf(req.params.id).filter(attachment => !filename || attachment.title === filename), req, renderAttachment);
+    });
+
+    // Create or update: an attachment with the same file name gets a new version
+    router.put('/content/:id/child/attachment', (req) => {
+        const page = store.requirePage(req.params.id);
+        if (req.headers['x-atlassian-token'] !== 'no-check') {
+            throw new MockHttpError(403, 'XSRF check failed');
+        }
+        const file = req.body?.file;
+        if (!file?.filename || !Buffer.isBuffer(file.data)) {
+            throw new MockHttpError(400, 'A file part is required');
+        }
+
+        const existing = attachmentsOf(page.id).find(attachment => attachment.title === file.filename);
+        const attachment: MockAttachment = {
+            id: existing?.id || `att${store.nextId()}`,
+            pageId: page.id,
+            title: file.filename,
+            mediaType: file.contentType || 'application/octet-stream',
+            data: file.data,
+            version: (existing?.version || 0) + 1,
+            when: new Date().toISOString()
+        };
+        store.attachments.set(attachment.id, attachment);
+        return { results: [renderAttachment(attachment)], size: 1 };
+    });
+
+    router.get('/content/:id/label', (req) => {
+        const page = store.requirePage(req.params.id);
+        return paginate(page.labels, req, renderLabel, 200);
+    });
+
+    router.post('/content/:id/label', (req) => {
+        const page = store.requirePage(req.params.id);
+        const labels: any[] = Array.isArray(req.body) ? req.body : [req.body];
+        for (const label of labels) {
+            const name = String(label?.name || '').trim().toLowerCase();
+            if (!name || /\s/.test(name)) {
+                throw new MockHttpError(400, `Invalid label name '${label?.name}'`);
+            }
+            if (!page.labels.includes(name)) {
+                page.labels.push(name);
+            }
+        }
+        return paginate(page.labels, req, renderLabel, 200);
+    });
+
+    router.delete('/content/:id/label/:label', (req) => {
+        const page = store.requirePage(req.params.id);
+        page.labels = page.labels.filter(label => label !== req.params.label.toLowerCase());
+        return noContent();
+    });
+
+    router.get('/content/:id/notification/child-created', (req) => {
+        const page = store.requirePage(req.params.id);
+        return paginate([page.createdBy], req, watcher => ({ type: 'watch', watcher: user(watcher), contentId: page.id }));
+    });
+
+    // ===== SPACES & USERS =====
+
+    router.get('/space', (req) => paginate(store.spaces, req, renderSpace, 25));
+
+    router.get('/space/:key', (req) => {
+        const space = store.requireSpace(req.params.key);
+        const homepage = space.homepageId ? store.pages.get(space.homepageId) : undefined;
+        return {
+            ...renderSpace(space),
+            description: { plain: { value: space.description, representation: 'plain' } },
+            ...(homepage && { homepage: { id: homepage.id, type: 'page', title: store.currentVersion(homepage).title } })
+        };
+    });
+
+    router.get('/space/:key/content/page', (req) => {
+        const space = store.requireSpace(req.params.key);
+        let pages = [...store.pages.values()].filter(page => page.spaceKey === space.key);
+        if (req.query.get('depth') === 'root') {
+            pages = pages.filter(page => !page.parentId);
+        }
+        return paginate(pages, req, page => renderPage(page, req.query.get('expand')));
+    });
+
+    router.get('/user/current', () => user(store.currentUser));
+
+    router.get('/user', (req) => {
+        const accountId = req.query.get('accountId') || '';
+        if (!store.findUser(accountId)) {
+            throw new MockHttpError(404, `No user with account ID ${accountId}`);
+        }
+        return user(accountId);
+    });
+
+    return router;
+
+    function assertUniqueTitle(spaceKey: string, title: string, exceptId?: string): void {
+        const clash = [...store.pages.values()].find(page =>
+            page.spaceKey === spaceKey && page.id !== exceptId && store.currentVersion(page).title.toLowerCase() === title.toLowerCase()
+        );
+        if (clash) {
+            throw new MockHttpError(400, `A page with this title already exists: A page already exists with the same TITLE in this space`);
+        }
+    }
+
+    function assertParentInSpace(parentId: string, spaceKey: string): void {
+        const parent = store.requirePage(parentId);
+        if (parent.spaceKey !== spaceKey) {
+            throw new MockHttpError(400, `Parent page ${parentId} is not in space ${spaceKey}`);
+        }
+    }
+
+    function moveSubtree(page: MockPage, spaceKey: string): void {
+        page.spaceKey = spaceKey;
+        for (const child of childrenOf(page.id)) {
+            moveSubtree(child, spaceKey);
+        }
+    }
+}
+
+/**
+ * Build the attachment download router under the given prefix (the Confluence context path + /download)
+ */
+export function createConfluenceDownloadRouter(store: MockAtlassianStore, prefix: string): MockRouter {
+    const router = new MockRouter(prefix, 'confluence');
+
+    router.get('/attachments/:pageId/:filename', (req) => {
+        const attachment = [...store.attachments.values()]
+            .find(candidate => candidate.pageId === req.params.pageId && candidate.title === req.params.filename);
+        if (!attachment) {
+            throw new MockHttpError(404, `Attachment ${req.params.filename} not found`);
+        }
+        return attachment.data;
+    });
+
+    return router;
+}
+
+/**
+ * Build the Cloud-only v2 API router (/wiki/api/v2)
+ */
+export function createConfluenceV2Router(store: MockAtlassianStore): MockRouter {
+    const prefix = '/wiki/api/v2';
+    const router = new MockRouter(prefix, 'confluenceV2');
+
+    const withBody = (req: MockRequest) => Boolean(req.query.get('body-format'));
+
+    const renderComment = (comment: MockPageComment, includeBody: boolean) => {
+        const current = comment.versions[comment.versions.length - 1];
+        const page = store.pages.get(comment.pageId);
+        return {
+            id: comment.id,
+            status: 'current',
+            title: `Re: ${page ? store.currentVersion(page).title : ''}`,
+            pageId: comment.pageId,
+            ...(comment.parentCommentId && { parentCommentId: comment.parentCommentId }),
+            version: { number: current.number, createdAt: current.when, message: current.message, authorId: current.by, minorEdit: false },
+            ...(includeBody && { body: { storage: { representation: 'storage', value: current.body } } }),
+            ...(comment.kind === 'inline' && {
+                resolutionStatus: comment.resolutionStatus,
+                properties: {
+                    inlineMarkerRef: `marker-${comment.id}`,
+                    inlineOriginalSelection: comment.inlineProperties?.textSelection
+                }
+            }),
+            _links: { webui: `/pages/viewpage.action?pageId=${comment.pageId}&focusedCommentId=${comment.id}` }
+        };
+    };
+
+    const renderPage = (page: MockPage, includeBody: boolean) => {
+        const current = store.currentVersion(page);
+        const space = store.requireSpace(page.spaceKey);
+        return {
+            id: page.id,
+            status: 'current',
+            title: current.title,
+            spaceId: space.id,
+            parentId: page.parentId || null,
+            parentType: page.parentId ? 'page' : null,
+            authorId: page.createdBy,
+            createdAt: page.created,
+            version: { number: current.number, createdAt: current.when, message: current.message, authorId: current.by, minorEdit: false },
+            ...(includeBody && { body: { storage: { representation: 'storage', value: current.body } } }),
+            _links: { webui: `/spaces/${space.key}/pages/${page.id}` }
+        };
+    };
+
+    /**
+     * Cursor pagination in the v2 style: the cursor is an opaque offset
+     */
+    const paginate = <T>(items: T[], req: MockRequest, render: (item: T) => any) => {
+        const cursor = req.query.get('cursor');
+        const start = cursor ? Number(Buffer.from(cursor, 'base64').toString('utf-8')) : 0;
+        const limit = Math.min(Number(req.query.get('limit') || 25), 250);
+        const links: Record<string, string> = { base: `${store.baseUrl}/wiki` };
+        if (start + limit < items.length) {
+            const next = new URLSearchParams(req.query);
+            next.set('cursor', Buffer.from(String(start + limit)).toString('base64'));
+            links.next = `${prefix}${req.path}?${next.toString()}`;
+        }
+        return { results: items.slice(start, start + limit).map(render), _links: links };
+    };
+
+    const sortComments = (comments: MockPageComment[], sort: string | null) => {
+        const sorted = [...comments].sort((a, b) => a.versions[0].when.localeCompare(b.versions[0].when));
+        return sort?.startsWith('-') ? sorted.reverse() : sorted;
+    };
+
+    // ===== PAGES & SPACES =====
+
+    router.get('/pages/:id', (req) => renderPage(store.requirePage(req.params.id), withBody(req)));
+
+    router.get('/pages/:id/children', (req) => {
+        const page = store.requirePage(req.params.id);
+        const children = [...store.pages.values()].filter(candidate => candidate.parentId === page.id);
+        return paginate(children, req, child => ({
+            id: child.id,
+            status: 'current',
+            title: store.currentVersion(child).title,
+            spaceId: store.requireSpace(child.spaceKey).id
+        }));
+    });
+
+    router.get('/spaces', (req) => {
+        const keys = (req.query.get('keys') || '').split(',').filter(Boolean);
+        const spaces = keys.length > 0 ? store.spaces.filter(space => keys.includes(space.key)) : store.spaces;
+        return paginate(spaces, req, space => ({
+            id: space.id,
+            key: space.key,
+            name: space.name,
+            type: space.type,
+            status: 'current',
+            homepageId: space.homepageId || null
+        }));
+    });
+
+    router.get('/spaces/:id/pages', (req) => {
+        const space = store.requireSpace(req.params.id);
+        let pages = [...store.pages.values()].filter(page => page.spaceKey === space.key);
+        if (req.query.get('depth') === 'root') {
+            pages = pages.filter(page => !page.parentId);
+        }
+        const sort = req.query.get('sort');
+        if (sort) {
+            const field = sort.replace(/^-/, '');
+            const value = (page: MockPage) => field === 'title'
+                ? store.currentVersion(page).title
+                : field === 'modified-date' ? store.currentVersion(page).when : page.created;
+            pages.sort((a, b) => value(a).localeCompare(value(b)));
+            if (sort.startsWith('-')) {
+                pages.reverse();
+            }
+        }
+        return paginate(pages, req, page => renderPage(page, withBody(req)));
+    });
+
+    // ===== COMMENTS =====
+
+    for (const kind of ['footer', 'inline'] as const) {
+        const collection = `${kind}-comments`;
+
+        router.get(`/pages/:id/${collection}`, (req) => {
+            const page = store.requirePage(req.params.id);
+            const comments = [...store.pageComments.values()].filter(comment =>
+                comment.kind === kind && comment.pageId === page.id && !comment.parentCommentId
+            );
+            return paginate(sortComments(comments, req.query.get('sort')), req, comment => renderComment(comment, withBody(req)));
+        });
+
+        router.post(`/${collection}`, (req) => {
+            const body = req.body || {};
+            const value = body.body?.value;
+            if (!value) {
+                throw new MockHttpError(400, 'Comment body is required');
+            }
+
+            const parent = body.parentCommentId ? store.requirePageComment(String(body.parentCommentId), kind) : undefined;
+            const pageId = parent ? parent.pageId : String(body.pageId || '');
+            const page = store.requirePage(pageId);
+
+            let inlineProperties: Record<string, any> | undefined;
+            if (kind === 'inline' && !parent) {
+                const selection = body.inlineCommentProperties?.textSelection;
+                const text = store.currentVersion(page).body.replace(/<[^>]*>/g, '');
+                if (!selection || !text.includes(selection)) {
+                    throw new MockHttpError(400, 'The text selection could not be found in the page');
+                }
+                inlineProperties = body.inlineCommentProperties;
+            }
+
+            const comment: MockPageComment = {
+                id: store.nextId(),
+                kind,
+                pageId: page.id,
+                ...(parent && { parentCommentId: parent.id }),
+                versions: [{ number: 1, body: value, by: store.currentUser, when: new Date().toISOString(), message: '' }],
+                ...(kind === 'inline' && { resolutionStatus: 'open', inlineProperties: inlineProperties || parent?.inlineProperties })
+            };
+            store.pageComments.set(comment.id, comment);
+            return created(renderComment(comment, true));
+        });
+
+        router.get(`/${collection}/:id`, (req) => renderComment(store.requirePageComment(req.params.id, kind), withBody(req)));
+
+        router.put(`/${collection}/:id`, (req) => {
+            const comment = store.requirePageComment(req.params.id, kind);
+            const current = comment.versions[comment.versions.length - 1];
+            const body = req.body || {};
+            if (body.version?.number !== current.number + 1) {
+                throw new MockHttpError(409, `Version number must be ${current.number + 1}`);
+            }
+            if (kind === 'inline' && body.resolutionStatus) {
+                if (!['open', 'reopened', 'resolved'].includes(body.resolutionStatus)) {
+                    throw new MockHttpError(400, `Invalid resolution status '${body.resolutionStatus}'`);
+                }
+                comment.resolutionStatus = body.resolutionStatus;
+            }
+            comment.versions.push({
+                number: current.number + 1,
+                body: body.body?.value ?? current.body,
+                by: store.currentUser,
+                when: new Date().toISOString(),
+                message: body.version?.message || ''
+            });
+            return renderComment(comment, true);
+        });
+
+        router.delete(`/${collection}/:id`, (req) => {
+            const comment = store.requirePageComment(req.params.id, kind);
+            const remove = (id: string) => {
+                store.pageComments.delete(id);
+                for (const reply of [...store.pageComments.values()]) {
+                    if (reply.parentCommentId === id) {
+                        remove(reply.id);
+                    }
+                }
+            };
+            remove(comment.id);
+            return noContent();
+        });
+
+        router.get(`/${collection}/:id/children`, (req) => {
+            const comment = store.requirePageComment(req.params.id, kind);
+            const replies = [...store.pageComments.values()].filter(reply => reply.parentCommentId === comment.id);
+            return paginate(sortComments(replies, req.query.get('sort')), req, reply => renderComment(reply, withBody(req)));
+        });
+    }
+
+    return router;
+}
@@ -0,0 +1,1159 @@
+/**
+ * Jira REST API routes for the mock Atlassian server.
+ *
+ * The same routes serve /rest/api/3 (Cloud, ADF rich text) and /rest/api/2
+ * (Server/Data Center, rich text rendered as plain strings).
+ */
+
+import { MockAtlassianStore, MockIssue, adfToPlainText, formatDuration, parseDuration, plainTextToAdf } from './mockStore';
+import { runQuery } from './queryLanguage';
+import { MockHttpError, MockRequest, MockRouter, created, noContent } from './router';
+
+const SYSTEM_FIELDS: Record<string, { name: string; schema: any }> = {
+    summary: { name: 'Summary', schema: { type: 'string', system: 'summary' } },
+    description: { name: 'Description', schema: { type: 'string', system: 'description' } },
+    issuetype: { name: 'Issue Type', schema: { type: 'issuetype', system: 'issuetype' } },
+    priority: { name: 'Priority', schema: { type: 'priority', system: 'priority' } },
+    assignee: { name: 'Assignee', schema: { type: 'user', system: 'assignee' } },
+    reporter: { name: 'Reporter', schema: { type: 'user', system: 'reporter' } },
+    labels: { name: 'Labels', schema: { type: 'array', items: 'string', system: 'labels' } },
+    components: { name: 'Components', schema: { type: 'array', items: 'component', system: 'components' } },
+    fixVersions: { name: 'Fix versions', schema: { type: 'array', items: 'version', system: 'fixVersions' } },
+    parent: { name: 'Parent', schema: { type: 'issuelink', system: 'parent' } },
+    duedate: { name: 'Due date', schema: { type: 'date', system: 'duedate' } }
+};
+
+/**
+ * Build the Jira router for one API version
+ */
+export function createJiraRouter(store: MockAtlassianStore, apiVersion: 2 | 3): MockRouter {
+    const prefix = `/rest/api/${apiVersion}`;
+    const router = new MockRouter(prefix, 'jira');
+    const dataCenter = apiVersion === 2;
+
+    const self = (path: string) => `${store.baseUrl}${prefix}${path}`;
+
+    /**
+     * Rich text is ADF on v3; v2 returns the plain string
+     */
+    const richText = (value: any) => dataCenter && value && typeof value === 'object' ? adfToPlainText(value) : value;
+
+    /**
+     * Accept either a string (v2) or ADF (v3) and store ADF
+     */
+    const toStoredRichText = (value: any) => typeof value === 'string' ? plainTextToAdf(value) : value;
+
+    const userRef = (value: any): string | null => {
+        if (value === null || value === undefined) {
+            return null;
+        }
+        const id = typeof value === 'string' ? value : value.accountId || value.name || value.id;
+        return store.requireUser(id).accountId;
+    };
+
+    // ===== ISSUE RENDERING =====
+
+    const issueSummary = (issue: MockIssue) => ({
+        id: issue.id,
+        key: issue.key,
+        self: self(`/issue/${issue.id}`),
+        fields: {
+            summary: issue.fields.summary,
+            status: issue.fields.status,
+            priority: issue.fields.priority,
+            issuetype: issue.fields.issuetype
+        }
+    });
+
+    const renderComment = (issue: MockIssue, comment: MockIssue['comments'][number]) => ({
+        self: self(`/issue/${issue.id}/comment/${comment.id}`),
+        id: comment.id,
+        author: store.jiraUser(comment.author),
+        updateAuthor: store.jiraUser(comment.author),
+        body: richText(comment.body),
+        created: comment.created,
+        updated: comment.updated
+    });
+
+    const renderWorklog = (issue: MockIssue, worklog: MockIssue['worklogs'][number]) => ({
+        self: self(`/issue/${issue.id}/worklog/${worklog.id}`),
+        id: worklog.id,
+        issueId: issue.id,
+        author: store.jiraUser(worklog.author),
+        updateAuthor: store.jiraUser(worklog.author),
+        ...(worklog.comment && { comment: richText(worklog.comment) }),
+        started: worklog.started,
+        timeSpent: formatDuration(worklog.timeSpentSeconds),
+        timeSpentSeconds: worklog.timeSpentSeconds,
+        created: worklog.created,
+        updated: worklog.updated
+    });
+
+    const renderIssueLinks = (issue: MockIssue) => store.issueLinks
+        .filter(link => link.inward === issue.key || link.outward === issue.key)
+        .filter(link => store.issues.has(link.inward) && store.issues.has(link.outward))
+        .map(link => {
+            const type = store.issueLinkTypes.find(candidate => candidate.name === link.type);
+            const linkType = { ...type, self: self(`/issueLinkType/${type.id}`) };
+            return link.inward === issue.key
+                ? { id: link.id, self: self(`/issueLink/${link.id}`), type: linkType, outwardIssue: issueSummary(store.issues.get(link.outward)!) }
+                : { id: link.id, self: self(`/issueLink/${link.id}`), type: linkType, inwardIssue: issueSummary(store.issues.get(link.inward)!) };
+        });
+
+    const renderIssue = (issue: MockIssue, fieldsParam: string | null, expand: string | null, defaultAll: boolean = true) => {
+        const project = store.requireProject(issue.projectKey);
+        const parent = issue.fields.parent ? store.issues.get(issue.fields.parent) : undefined;
+        const subtasks = [...store.issues.values()].filter(candidate =>
+            candidate.fields.parent === issue.key && candidate.fields.issuetype.subtask
+        );
+
+        const allFields: Record<string, any> = {
+            ...issue.fields,
+            description: richText(issue.fields.description),
+            project: { id: project.id, key: project.key, name: project.name, self: self(`/project/${project.id}`) },
+            parent: parent ? issueSummary(parent) : undefined,
+            subtasks: subtasks.map(issueSummary),
+            issuelinks: renderIssueLinks(issue),
+            attachment: [],
+            comment: {
+                comments: issue.comments.map(comment => renderComment(issue, comment)),
+                self: self(`/issue/${issue.id}/comment`),
+                maxResults: issue.comments.length,
+                total: issue.comments.length,
+                startAt: 0
+            },
+            worklog: {
+                startAt: 0,
+                maxResults: 20,
+                total: issue.worklogs.length,
+                worklogs: issue.worklogs.slice(0, 20).map(worklog => renderWorklog(issue, worklog))
+            },
+            timespent: issue.worklogs.reduce((total, worklog) => total + worklog.timeSpentSeconds, 0) || null,
+            watches: {
+                self: self(`/issue/${issue.key}/watchers`),
+                watchCount: issue.watchers.size,
+                isWatching: issue.watchers.has(store.currentUser)
+            },
+            votes: {
+                self: self(`/issue/${issue.key}/votes`),
+                votes: issue.voters.size,
+                hasVoted: issue.voters.has(store.currentUser)
+            }
+        };
+        if (allFields.parent === undefined) {
+            delete allFields.parent;
+        }
+
+        const requested = (fieldsParam || (defaultAll ? '*all' : 'id')).split(',').map(field => field.trim());
+        const fields: Record<string, any> = {};
+        for (const [name, value] of Object.entries(allFields)) {
+            const include = requested.includes('*all') || requested.includes('*navigable') || requested.includes(name);
+            if (include && !requested.includes(`-${name}`)) {
+                fields[name] = value;
+            }
+        }
+
+        const expands = (expand || '').split(',').map(value => value.trim());
+        return {
+            expand: 'renderedFields,names,schema,operations,editmeta,changelog,versionedRepresentations',
+            id: issue.id,
+            self: self(`/issue/${issue.id}`),
+            key: issue.key,
+            fields,
+            ...(expands.includes('renderedFields') && {
+                renderedFields: {
+                    description: issue.fields.description ? `<p>${escapeHtml(adfToPlainText(issue.fields.description))}</p>` : null
+                }
+            }),
+            ...(expands.includes('changelog') && {
+                changelog: { startAt: 0, maxResults: issue.histories.length, total: issue.histories.length, histories: issue.histories }
+            })
+        };
+    };
+
+    // ===== FIELD HANDLING =====
+
+    const fieldMetadata = (projectKey: string, forEdit: boolean): Record<string, any> => {
+        const project = store.requireProject(projectKey);
+        const meta: Record<string, any> = {};
+
+        for (const [key, definition] of Object.entries(SYSTEM_FIELDS)) {
+            const entry: any = {
+                required: key === 'summary' || (key === 'issuetype' && !forEdit),
+                schema: definition.schema,
+                name: definition.name,
+                key,
+                hasDefaultValue: false,
+                operations: definition.schema.type === 'array' ? ['add', 'set', 'remove'] : ['set']
+            };
+            switch (key) {
+                case 'issuetype':
+                    entry.allowedValues = project.issueTypes.map((name: string) => store.issueTypeField(store.findIssueType(name)));
+                    break;
+                case 'priority':
+                    entry.allowedValues = store.priorities.map(priority => store.priorityField(priority));
+                    break;
+                case 'components':
+                    entry.allowedValues = store.components.filter(component => component.project === project.key).map(component => store.componentField(component));
+                    break;
+                case 'fixVersions':
+                    entry.allowedValues = store.versions.filter(version => version.project === project.key && !version.archived).map(version => store.versionField(version));
+                    break;
+                case 'assignee':
+                case 'reporter':
+                    entry.autoCompleteUrl = self('/user/search?query=');
+                    break;
+            }
+            meta[key] = entry;
+        }
+
+        for (const field of store.customFields) {
+            if (forEdit && field.readOnly) {
+                continue;
+            }
+            meta[field.id] = {
+                required: false,
+                schema: field.schema,
+                name: field.name,
+                key: field.id,
+                hasDefaultValue: false,
+                operations: ['set']
+            };
+        }
+
+        return meta;
+    };
+
+    /**
+     * Validate and apply one field value from a create/update request, recording the change
+     */
+    const applyField = (issue: MockIssue, fieldId: string, value: any, editable: Record<string, any>): void => {
+        if (!editable[fieldId]) {
+            throw new MockHttpError(400, '', {
+                [fieldId]: `Field '${fieldId}' cannot be set. It is not on the appropriate screen, or unknown.`
+            });
+        }
+
+        const before = issue.fields[fieldId];
+        let after: any;
+
+        switch (fieldId) {
+            case 'summary':
+                if (!value || !String(value).trim()) {
+                    throw new MockHttpError(400, '', { summary: 'You must specify a summary of the issue.' });
+                }
+                after = String(value);
+                break;
+            case 'description':
+                after = value === null || value === '' ? null : toStoredRichText(value);
+                break;
+            case 'issuetype': {
+                const type = store.findIssueType(value?.id || value?.name);
+                if (!type) {
+                    throw new MockHttpError(400, '', { issuetype: 'Specify a valid issue type' });
+                }
+                after = store.issueTypeField(type);
+                break;
+            }
+            case 'priority': {
+                const priority = value && store.findPriority(value.id || value.name);
+                if (!priority) {
+                    throw new MockHttpError(400, '', { priority: 'Specify a valid priority' });
+                }
+                after = store.priorityField(priority);
+                break;
+            }
+            case 'assignee':
+            case 'reporter':
+                after = store.jiraUser(userRef(value));
+                break;
+            case 'labels':
+                if (!Array.isArray(value) || value.some(label => /\s/.test(String(label)))) {
+                    throw new MockHttpError(400, '', { labels: 'Labels must be an array of strings without spaces' });
+                }
+                after = value.map(String);
+                break;
+            case 'components':
+            case 'fixVersions': {
+                const allowed = editable[fieldId].allowedValues as any[];
+                after = (value || []).map((ref: any) => {
+                    const match = allowed.find(candidate => candidate.id === String(ref.id) || candidate.name === ref.name);
+                    if (!match) {
+                        throw new MockHttpError(400, '', { [fieldId]: `${fieldId === 'components' ? 'Component' : 'Version'} name '${ref.name || ref.id}' is not valid` });
+                    }
+                    return match;
+                });
+                break;
+            }
+            case 'parent':
+                if (value === null || (!value.key && !value.id)) {
+                    after = undefined;
+                } else {
+                    after = store.requireIssue(value.key || value.id).key;
+                    if (after === issue.key) {
+                        throw new MockHttpError(400, '', { parent: 'An issue cannot be its own parent' });
+                    }
+                }
+                break;
+            case 'duedate':
+                if (value !== null && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+                    throw new MockHttpError(400, '', { duedate: 'Error parsing date string: ' + value });
+                }
+                after = value;
+                break;
+            default: {
+                const schema = editable[fieldId].schema;
+                if (schema.type === 'number' && value !== null && typeof value !== 'number') {
+                    throw new MockHttpError(400, '', { [fieldId]: `Operation value must be a number` });
+                }
+                after = value;
+            }
+        }
+
+        issue.fields[fieldId] = after;
+        store.recordChange(issue, [{ field: fieldId, from: before, to: after }]);
+    };
+
+    /**
+     * Apply the `update` operations (set/add/remove/edit) of an edit request
+     */
+    const applyUpdate = (issue: MockIssue, update: Record<string, any[]>, editable: Record<string, any>): void => {
+        for (const [fieldId, operations] of Object.entries(update || {})) {
+            for (const operation of operations) {
+                const [verb, value] = Object.entries(operation)[0] as [string, any];
+                const current: any[] = fieldId === 'labels' ? [...(issue.fields.labels || [])] : [...(issue.fields[fieldId] || [])];
+                const sameItem = (a: any, b: any) => typeof a === 'string'
+                    ? a === b
+                    : (b.id !== undefined && String(a.id) === String(b.id)) || (b.name !== undefined && a.name === b.name);
+
+                switch (verb) {
+                    case 'set':
+                    case 'edit':
+                        applyField(issue, fieldId, value, editable);
+                        break;
+                    case 'add':
+                        applyField(issue, fieldId, [...current, value], editable);
+                        break;
+                    case 'remove':
+                        applyField(issue, fieldId, current.filter(item => !sameItem(item, value)), editable);
+                        break;
+                    default:
+                        throw new MockHttpError(400, `Unsupported update operation '${verb}' for field '${fieldId}'`);
+                }
+            }
+        }
+    };
+
+    const applyEdit = (issue: MockIssue, body: any): void => {
+        const editable = fieldMetadata(issue.projectKey, true);
+        for (const [fieldId, value] of Object.entries(body?.fields || {})) {
+            applyField(issue, fieldId, value, editable);
+        }
+        applyUpdate(issue, body?.update, editable);
+    };
+
+    // ===== SEARCH =====
+
+    const searchIssues = (jql: string) => runQuery([...store.issues.values()], jql, (issue, field) => {
+        const fields = issue.fields;
+        const user = (value: any) => value ? [value.accountId, value.name, value.displayName, value.emailAddress] : undefined;
+        const parent = fields.parent ? store.issues.get(fields.parent) : undefined;
+
+        switch (field.toLowerCase()) {
+            case 'project': {
+                const project = store.requireProject(issue.projectKey);
+                return [project.key, project.id, project.name];
+            }
+            case 'key':
+            case 'issuekey':
+            case 'id':
+                return [issue.key, issue.id];
+            case 'summary':
+                return fields.summary;
+            case 'description':
+                return adfToPlainText(fields.description);
+            case 'comment':
+                return issue.comments.map(comment => adfToPlainText(comment.body));
+            case 'text':
+                return [fields.summary, adfToPlainText(fields.description), ...issue.comments.map(comment => adfToPlainText(comment.body))];
+            case 'status':
+                return [fields.status.name, fields.status.id];
+            case 'statuscategory':
+                return [fields.status.statusCategory.key, fields.status.statusCategory.name];
+            case 'issuetype':
+            case 'type':
+                return [fields.issuetype.name, fields.issuetype.id];
+            case 'priority':
+                return [fields.priority.name, fields.priority.id];
+            case 'assignee':
+                return user(fields.assignee);
+            case 'reporter':
+                return user(fields.reporter);
+            case 'creator':
+                return user(fields.creator);
+            case 'watcher':
+                return [...issue.watchers];
+            case 'labels':
+                return fields.labels;
+            case 'component':
+                return fields.components.flatMap((component: any) => [component.id, component.name]);
+            case 'fixversion':
+                return fields.fixVersions.flatMap((version: any) => [version.id, version.name]);
+            case 'parent':
+                return parent ? [parent.key, parent.id] : undefined;
+            case 'epic link':
+                return parent && parent.fields.issuetype.name === 'Epic' ? [parent.key, parent.id] : undefined;
+            case 'resolution':
+                return fields.resolution ? fields.resolution.name : 'Unresolved';
+            case 'created':
+            case 'createddate':
+                return fields.created;
+            case 'updated':
+            case 'updateddate':
+                return fields.updated;
+            case 'duedate':
+            case 'due':
+                return fields.duedate;
+        }
+
+        const custom = /^(?:cf\[(\d+)\]|customfield_(\d+))$/i.exec(field);
+        const customField = store.customFields.find(candidate =>
+            candidate.name.toLowerCase() === field.toLowerCase() ||
+            (custom && candidate.id === `customfield_${custom[1] || custom[2]}`)
+        );
+        if (customField) {
+            const value = fields[customField.id];
+            return Array.isArray(value) ? value.map(item => item.name ?? String(item)) : value;
+        }
+
+        throw new MockHttpError(400, `Field '${field}' does not exist or you do not have permission to view it.`);
+    }, { currentUser: store.currentUser });
+
+    const maxResultsOf = (req: MockRequest, fallback: number) => Math.min(Number(req.query.get('maxResults') || fallback), 5000);
+
+    // Enhanced search (Cloud): token-based pagination, no total
+    router.get('/search/jql', (req) => {
+        const matches = searchIssues(req.query.get('jql') || '');
+        const token = req.query.get('nextPageToken');
+        const startAt = token ? Number(Buffer.from(token, 'base64').toString('utf-8')) : Number(req.query.get('startAt') || 0);
+        const maxResults = maxResultsOf(req, 50);
+        const page = matches.slice(startAt, startAt + maxResults);
+        const isLast = startAt + maxResults >= matches.length;
+
+        return {
+            issues: page.map(issue => renderIssue(issue, req.query.get('fields'), req.query.get('expand'), false)),
+            isLast,
+            ...(!isLast && { nextPageToken: Buffer.from(String(startAt + maxResults)).toString('base64') })
+        };
+    });
+
+    // Classic search: offset pagination with a total
+    router.get('/search', (req) => {
+        const matches = searchIssues(req.query.get('jql') || '');
+        const startAt = Number(req.query.get('startAt') || 0);
+        const maxResults = maxResultsOf(req, 50);
+
+        return {
+            expand: 'schema,names',
+            startAt,
+            maxResults,
+            total: matches.length,
+            issues: matches.slice(startAt, startAt + maxResults).map(issue => renderIssue(issue, req.query.get('fields'), req.query.get('expand'), false))
+        };
+    });
+
+    // ===== ISSUES =====
+
+    router.get('/myself', () => ({
+        ...store.jiraUser(store.currentUser),
+        timeZone: 'UTC',
+        locale: 'en_US'
+    }));
+
+    router.post('/issue', (req) => {
+        const fields = req.body?.fields || {};
+        const projectRef = fields.project || {};
+        const project = store.requireProject(projectRef.key || projectRef.id);
+        const type = store.findIssueType(fields.issuetype?.id || fields.issuetype?.name);
+        if (!type || !project.issueTypes.includes(type.name)) {
+            throw new MockHttpError(400, '', { issuetype: 'Specify a valid issue type' });
+        }
+        if (!fields.summary) {
+            throw new MockHttpError(400, '', { summary: 'You must specify a summary of the issue.' });
+        }
+
+        const key = store.nextIssueKey(project.key);
+        const timestamp = store.now();
+        const issue: MockIssue = {
+            id: store.nextId(),
+            key,
+            projectKey: project.key,
+            fields: {
+                summary: fields.summary,
+                issuetype: store.issueTypeField(type),
+                status: store.statusField(store.statuses[0]),
+                priority: store.priorityField(store.findPriority('Medium') || store.priorities[0]),
+                assignee: null,
+                reporter: store.jiraUser(store.currentUser),
+                creator: store.jiraUser(store.currentUser),
+                description: null,
+                labels: [],
+                components: [],
+                fixVersions: [],
+                resolution: null,
+                created: timestamp,
+                updated: timestamp
+            },
+            comments: [],
+            worklogs: [],
+            histories: [],
+            watchers: new Set([store.currentUser]),
+            voters: new Set()
+        };
+
+        const creatable = fieldMetadata(project.key, false);
+        for (const [fieldId, value] of Object.entries(fields)) {
+            if (fieldId !== 'project' && fieldId !== 'issuetype') {
+                applyField(issue, fieldId, value, creatable);
+            }
+        }
+        // Values set at creation are not changes
+        issue.histories = [];
+        store.issues.set(key, issue);
+
+        return created({ id: issue.id, key, self: self(`/issue/${issue.id}`) });
+    });
+
+    router.post('/issue/bulkfetch', (req) => {
+        const keys: string[] = req.body?.issueIdsOrKeys || [];
+        const fieldsParam = Array.isArray(req.body?.fields) ? req.body.fields.join(',') : null;
+        const issues: any[] = [];
+        const issueErrors: any[] = [];
+        for (const key of keys) {
+            try {
+                issues.push(renderIssue(store.requireIssue(key), fieldsParam, req.body?.expand || null, false));
+            } catch {
+                issueErrors.push({ issueIdsOrKeys: [key], status: 404, errorMessages: ['Issue does not exist or you do not have permission to see it.'] });
+            }
+        }
+        return { expand: '', issues, issueErrors };
+    });
+
+    router.get('/issue/createmeta', (req) => {
+        const projectKeys = (req.query.get('projectKeys') || '').split(',').filter(Boolean);
+        const typeNames = (req.query.get('issuetypeNames') || '').split(',').filter(Boolean);
+        const projects = projectKeys.length > 0 ? projectKeys.map(key => store.requireProject(key)) : store.projects;
+        const expandFields = (req.query.get('expand') || '').includes('projects.issuetypes.fields');
+
+        return {
+            projects: projects.map(project => ({
+                id: project.id,
+                key: project.key,
+                name: project.name,
+                issuetypes: project.issueTypes
+                    .filter((name: string) => typeNames.length === 0 || typeNames.includes(name))
+                    .map((name: string) => ({
+                        ...store.issueTypeField(store.findIssueType(name)),
+                        ...(expandFields && { fields: fieldMetadata(project.key, false) })
+                    }))
+            }))
+        };
+    });
+
+    router.get('/issue/:key', (req) => renderIssue(store.requireIssue(req.params.key), req.query.get('fields'), req.query.get('expand')));
+
+    router.put('/issue/:key', (req) => {
+        applyEdit(store.requireIssue(req.params.key), req.body);
+        return noContent();
+    });
+
+    router.delete('/issue/:key', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const subtasks = [...store.issues.values()].filter(candidate => candidate.fields.parent === issue.key && candidate.fields.issuetype.subtask);
+        if (subtasks.length > 0 && req.query.get('deleteSubtasks') !== 'true') {
+            throw new MockHttpError(400, 'The issue has subtasks. You must specify the \'deleteSubtasks\' parameter to delete this issue with subtasks.');
+        }
+        for (const target of [issue, ...subtasks]) {
+            store.issues.delete(target.key);
+            store.issueLinks = store.issueLinks.filter(link => link.inward !== target.key && link.outward !== target.key);
+        }
+        for (const child of store.issues.values()) {
+            if (child.fields.parent === issue.key) {
+                child.fields.parent = undefined;
+            }
+        }
+        return noContent();
+    });
+
+    router.get('/issue/:key/editmeta', (req) => ({ fields: fieldMetadata(store.requireIssue(req.params.key).projectKey, true) }));
+
+    router.get('/issue/:key/transitions', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const expandFields = (req.query.get('expand') || '').includes('transitions.fields');
+        return {
+            expand: 'transitions',
+            transitions: store.transitions
+                .filter(transition => transition.to !== issue.fields.status.id)
+                .map(transition => ({
+                    id: transition.id,
+                    name: transition.name,
+                    to: { ...store.statusField(store.findStatus(transition.to)), self: self(`/status/${transition.to}`) },
+                    hasScreen: Boolean(transition.fields),
+                    isGlobal: true,
+                    isInitial: false,
+                    isAvailable: true,
+                    isConditional: false,
+                    ...(expandFields && { fields: transition.fields || {} })
+                }))
+        };
+    });
+
+    router.post('/issue/:key/transitions', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const transitionId = String(req.body?.transition?.id || '');
+        const transition = store.transitions.find(candidate => candidate.id === transitionId && candidate.to !== issue.fields.status.id);
+        if (!transition) {
+            throw new MockHttpError(400, `Transition id '${transitionId}' is not valid for this issue.`);
+        }
+
+        // Screen fields: required ones must be given, the resolution and comment are taken here
+        const screen: Record<string, any> = transition.fields || {};
+        const { resolution, ...fields } = req.body?.fields || {};
+        const { comment: commentOps, ...update } = req.body?.update || {};
+        const values: Record<string, any> = { ...fields, ...(resolution && { resolution }), ...(commentOps && { comment: commentOps }) };
+        const missing = Object.entries(screen).filter(([id, field]) => field.required && !values[id]);
+        if (missing.length > 0) {
+            throw new MockHttpError(400, '', Object.fromEntries(missing.map(([id, field]) => [id, `${field.name} is required.`])));
+        }
+
+        const before = issue.fields.status;
+        const after = store.statusField(store.findStatus(transition.to));
+        issue.fields.status = after;
+        const allowed = screen.resolution?.allowedValues || [];
+        issue.fields.resolution = after.statusCategory.key !== 'done'
+            ? null
+            : allowed.find((value: any) => value.id === resolution?.id || value.name === resolution?.name) || { id: '10000', name: 'Done' };
+        store.recordChange(issue, [{ field: 'status', from: before, to: after }]);
+
+        if (Object.keys(fields).length > 0 || Object.keys(update).length > 0) {
+            applyEdit(issue, { fields, update });
+        }
+        for (const operation of commentOps || []) {
+            if (operation.add?.body) {
+                const timestamp = store.now();
+                issue.comments.push({ id: store.nextId(), author: store.currentUser, body: toStoredRichText(operation.add.body), created: timestamp, updated: timestamp });
+                issue.fields.updated = timestamp;
+            }
+        }
+        return noContent();
+    });
+
+    router.put('/issue/:key/assignee', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const ref = req.body?.accountId ?? req.body?.name ?? null;
+        const before = issue.fields.assignee;
+        issue.fields.assignee = ref === null || ref === '-1' ? null : store.jiraUser(store.requireUser(ref).accountId);
+        store.recordChange(issue, [{ field: 'assignee', from: before, to: issue.fields.assignee }]);
+        return noContent();
+    });
+
+    // ===== COMMENTS =====
+
+    router.get('/issue/:key/comment', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const startAt = Number(req.query.get('startAt') || 0);
+        const maxResults = maxResultsOf(req, 50);
+        const comments = [...issue.comments];
+        if (req.query.get('orderBy')?.startsWith('-')) {
+            comments.reverse();
+        }
+        return {
+            startAt,
+            maxResults,
+            total: comments.length,
+            comments: comments.slice(startAt, startAt + maxResults).map(comment => renderComment(issue, comment))
+        };
+    });
+
+    router.post('/issue/:key/comment', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        if (!req.body?.body) {
+            throw new MockHttpError(400, '', { comment: 'Comment body can not be empty!' });
+        }
+        const timestamp = store.now();
+        const comment = { id: store.nextId(), author: store.currentUser, body: toStoredRichText(req.body.body), created: timestamp, updated: timestamp };
+        issue.comments.push(comment);
+        issue.fields.updated = timestamp;
+        return created(renderComment(issue, comment));
+    });
+
+    router.get('/issue/:key/comment/:id', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        return renderComment(issue, findComment(issue, req.params.id));
+    });
+
+    router.put('/issue/:key/comment/:id', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const comment = findComment(issue, req.params.id);
+        comment.body = toStoredRichText(req.body?.body);
+        comment.updated = store.now();
+        return renderComment(issue, comment);
+    });
+
+    router.delete('/issue/:key/comment/:id', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const comment = findComment(issue, req.params.id);
+        issue.comments = issue.comments.filter(candidate => candidate !== comment);
+        return noContent();
+    });
+
+    // ===== WORKLOGS =====
+
+    router.get('/issue/:key/worklog', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const startAt = Number(req.query.get('startAt') || 0);
+        const maxResults = maxResultsOf(req, 1000);
+        return {
+            startAt,
+            maxResults,
+            total: issue.worklogs.length,
+            worklogs: issue.worklogs.slice(startAt, startAt + maxResults).map(worklog => renderWorklog(issue, worklog))
+        };
+    });
+
+    router.post('/issue/:key/worklog', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const timestamp = store.now();
+        const worklog = {
+            id: store.nextId(),
+            author: store.currentUser,
+            timeSpentSeconds: req.body?.timeSpentSeconds || parseDuration(req.body?.timeSpent || ''),
+            started: req.body?.started || timestamp,
+            comment: req.body?.comment ? toStoredRichText(req.body.comment) : undefined,
+            created: timestamp,
+            updated: timestamp
+        };
+        issue.worklogs.push(worklog);
+        return created(renderWorklog(issue, worklog));
+    });
+
+    router.put('/issue/:key/worklog/:id', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const worklog = findWorklog(issue, req.params.id);
+        if (req.body?.timeSpent) {
+            worklog.timeSpentSeconds = parseDuration(req.body.timeSpent);
+        }
+        if (req.body?.started) {
+            worklog.started = req.body.started;
+        }
+        if (req.body?.comment) {
+            worklog.comment = toStoredRichText(req.body.comment);
+        }
+        worklog.updated = store.now();
+        return renderWorklog(issue, worklog);
+    });
+
+    router.delete('/issue/:key/worklog/:id', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const worklog = findWorklog(issue, req.params.id);
+        issue.worklogs = issue.worklogs.filter(candidate => candidate !== worklog);
+        return noContent();
+    });
+
+    // ===== CHANGELOG, WATCHERS, VOTES =====
+
+    router.get('/issue/:key/changelog', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const startAt = Number(req.query.get('startAt') || 0);
+        const maxResults = maxResultsOf(req, 100);
+        return {
+            self: self(`/issue/${issue.key}/changelog`),
+            startAt,
+            maxResults,
+            total: issue.histories.length,
+            isLast: startAt + maxResults >= issue.histories.length,
+            values: issue.histories.slice(startAt, startAt + maxResults)
+        };
+    });
+
+    router.get('/issue/:key/watchers', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        return {
+            self: self(`/issue/${issue.key}/watchers`),
+            isWatching: issue.watchers.has(store.currentUser),
+            watchCount: issue.watchers.size,
+            watchers: [...issue.watchers].map(id => store.jiraUser(id))
+        };
+    });
+
+    router.post('/issue/:key/watchers', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const ref = typeof req.body === 'string' && req.body ? req.body : store.currentUser;
+        issue.watchers.add(store.requireUser(ref).accountId);
+        return noContent();
+    });
+
+    router.delete('/issue/:key/watchers', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        const ref = req.query.get('accountId') || req.query.get('username');
+        if (!ref) {
+            throw new MockHttpError(400, 'accountId or username is required');
+        }
+        issue.watchers.delete(store.requireUser(ref).accountId);
+        return noContent();
+    });
+
+    router.get('/issue/:key/votes', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        return {
+            self: self(`/issue/${issue.key}/votes`),
+            votes: issue.voters.size,
+            hasVoted: issue.voters.has(store.currentUser),
+            voters: [...issue.voters].map(id => store.jiraUser(id))
+        };
+    });
+
+    router.post('/issue/:key/votes', (req) => {
+        const issue = store.requireIssue(req.params.key);
+        if (issue.fields.reporter?.accountId === store.currentUser) {
+            throw new MockHttpError(404, 'You cannot vote for an issue you have reported.');
+        }
+        issue.voters.add(store.currentUser);
+        return noContent();
+    });
+
+    router.delete('/issue/:key/votes', (req) => {
+        store.requireIssue(req.params.key).voters.delete(store.currentUser);
+        return noContent();
+    });
+
+    // ===== LINKS =====
+
+    router.post('/issueLink', (req) => {
+        const type = store.issueLinkTypes.find(candidate =>
+            candidate.name === req.body?.type?.name || candidate.id === String(req.body?.type?.id)
+        );
+        if (!type) {
+            throw new MockHttpError(404, `No issue link type with name '${req.body?.type?.name}' found.`);
+        }
+        const inward = store.requireIssue(req.body?.inwardIssue?.key || req.body?.inwardIssue?.id);
+        const outward = store.requireIssue(req.body?.outwardIssue?.key || req.body?.outwardIssue?.id);
+        store.issueLinks.push({ id: store.nextId(), type: type.name, inward: inward.key, outward: outward.key });
+        if (req.body?.comment?.body) {
+            const timestamp = store.now();
+            inward.comments.push({ id: store.nextId(), author: store.currentUser, body: toStoredRichText(req.body.comment.body), created: timestamp, updated: timestamp });
+        }
+        return created(undefined);
+    });
+
+    router.get('/issueLink/:id', (req) => {
+        const link = store.issueLinks.find(candidate => candidate.id === req.params.id);
+        if (!link) {
+            throw new MockHttpError(404, 'No issue link with id ' + req.params.id);
+        }
+        const type = store.issueLinkTypes.find(candidate => candidate.name === link.type);
+        return {
+            id: link.id,
+            type,
+            inwardIssue: issueSummary(store.requireIssue(link.inward)),
+            outwardIssue: issueSummary(store.requireIssue(link.outward))
+        };
+    });
+
+    router.delete('/issueLink/:id', (req) => {
+        const before = store.issueLinks.length;
+        store.issueLinks = store.issueLinks.filter(link => link.id !== req.params.id);
+        if (store.issueLinks.length === before) {
+            throw new MockHttpError(404, 'No issue link with id ' + req.params.id);
+        }
+        return noContent();
+    });
+
+    router.get('/issueLinkType', () => ({
+        issueLinkTypes: store.issueLinkTypes.map(type => ({ ...type, self: self(`/issueLinkType/${type.id}`) }))
+    }));
+
+    // ===== PROJECTS =====
+
+    const renderVersion = (version: any) => {
+        const project = store.requireProject(version.project);
+        return {
+            self: self(`/version/${version.id}`),
+            id: version.id,
+            name: version.name,
+            description: version.description,
+            archived: version.archived,
+            released: version.released,
+            ...(version.startDate && { startDate: version.startDate }),
+            ...(version.releaseDate && { releaseDate: version.releaseDate }),
+            projectId: Number(project.id)
+        };
+    };
+
+    const renderComponent = (component: any) => {
+        const project = store.requireProject(component.project);
+        return {
+            self: self(`/component/${component.id}`),
+            id: component.id,
+            name: component.name,
+            description: component.description,
+            ...(component.lead && { lead: store.jiraUser(component.lead) }),
+            assigneeType: component.assigneeType || 'PROJECT_DEFAULT',
+            project: project.key,
+            projectId: Number(project.id)
+        };
+    };
+
+    const renderProject = (project: any) => ({
+        self: self(`/project/${project.id}`),
+        id: project.id,
+        key: project.key,
+        name: project.name,
+        projectTypeKey: 'software',
+        simplified: false,
+        style: 'classic'
+    });
+
+    router.get('/project', () => store.projects.map(renderProject));
+
+    router.get('/project/:key', (req) => {
+        const project = store.requireProject(req.params.key);
+        return {
+            ...renderProject(project),
+            description: project.description,
+            lead: store.jiraUser(project.lead),
+            issueTypes: project.issueTypes.map((name: string) => store.issueTypeField(store.findIssueType(name))),
+            components: store.components.filter(component => component.project === project.key).map(renderComponent),
+            versions: store.versions.filter(version => version.project === project.key).map(renderVersion)
+        };
+    });
+
+    router.get('/project/:key/versions', (req) => {
+        const project = store.requireProject(req.params.key);
+        return store.versions.filter(version => version.project === project.key).map(renderVersion);
+    });
+
+    router.get('/project/:key/components', (req) => {
+        const project = store.requireProject(req.params.key);
+        return store.components.filter(component => component.project === project.key).map(renderComponent);
+    });
+
+    router.get('/project/:key/statuses', (req) => {
+        const project = store.requireProject(req.params.key);
+        return project.issueTypes.map((name: string) => ({
+            ...store.issueTypeField(store.findIssueType(name)),
+            statuses: store.statuses.map(status => ({ ...store.statusField(status), self: self(`/status/${status.id}`) }))
+        }));
+    });
+
+    router.get('/project/:key/role', (req) => {
+        const project = store.requireProject(req.params.key);
+        return {
+            Administrators: self(`/project/${project.id}/role/10002`),
+            Developers: self(`/project/${project.id}/role/10001`)
+        };
+    });
+
+    // ===== VERSIONS =====
+
+    const requireVersion = (id: string) => {
+        const version = store.versions.find(candidate => candidate.id === id);
+        if (!version) {
+            throw new MockHttpError(404, `Could not find version for id '${id}'`);
+        }
+        return version;
+    };
+
+    const issuesWithVersion = (version: any) => [...store.issues.values()].filter(issue =>
+        issue.fields.fixVersions.some((candidate: any) => candidate.id === version.id)
+    );
+
+    router.post('/version', (req) => {
+        const project = store.requireProject(String(req.body?.projectId ?? req.body?.project ?? ''));
+        if (!req.body?.name) {
+            throw new MockHttpError(400, '', { name: 'You must specify a valid version name' });
+        }
+        if (store.versions.some(version => version.project === project.key && version.name === req.body.name)) {
+            throw new MockHttpError(400, '', { name: 'A version with this name already exists in this project.' });
+        }
+        const version = {
+            released: false,
+            archived: false,
+            ...pick(req.body, ['name', 'description', 'startDate', 'releaseDate', 'released', 'archived']),
+            id: store.nextId(),
+            project: project.key
+        };
+        store.versions.push(version);
+        return created(renderVersion(version));
+    });
+
+    router.get('/version/:id', (req) => renderVersion(requireVersion(req.params.id)));
+
+    router.put('/version/:id', (req) => {
+        const version = requireVersion(req.params.id);
+        Object.assign(version, pick(req.body || {}, ['name', 'description', 'startDate', 'releaseDate', 'released', 'archived']));
+        for (const issue of issuesWithVersion(version)) {
+            issue.fields.fixVersions = issue.fields.fixVersions.map((candidate: any) =>
+                candidate.id === version.id ? store.versionField(version) : candidate
+            );
+        }
+        return renderVersion(version);
+    });
+
+    router.delete('/version/:id', (req) => {
+        const version = requireVersion(req.params.id);
+        const replacement = req.query.get('moveFixIssuesTo');
+        for (const issue of issuesWithVersion(version)) {
+            issue.fields.fixVersions = issue.fields.fixVersions.filter((candidate: any) => candidate.id !== version.id);
+            if (replacement) {
+                issue.fields.fixVersions.push(store.versionField(requireVersion(replacement)));
+            }
+        }
+        store.versions = store.versions.filter(candidate => candidate !== version);
+        return noContent();
+    });
+
+    router.get('/version/:id/relatedIssueCounts', (req) => {
+        const version = requireVersion(req.params.id);
+        return {
+            self: self(`/version/${version.id}`),
+            issuesFixedCount: issuesWithVersion(version).length,
+            issuesAffectedCount: 0,
+            issueCountWithCustomFieldsShowingVersion: 0
+        };
+    });
+
+    router.get('/version/:id/unresolvedIssueCount', (req) => {
+        const version = requireVersion(req.params.id);
+        const issues = issuesWithVersion(version);
+        return {
+            self: self(`/version/${version.id}`),
+            issuesUnresolvedCount: issues.filter(issue => !issue.fields.resolution).length,
+            issuesCount: issues.length
+        };
+    });
+
+    // ===== COMPONENTS =====
+
+    const requireComponent = (id: string) => {
+        const component = store.components.find(candidate => candidate.id === id);
+        if (!component) {
+            throw new MockHttpError(404, `The component with id ${id} does not exist.`);
+        }
+        return component;
+    };
+
+    const issuesWithComponent = (component: any) => [...store.issues.values()].filter(issue =>
+        issue.fields.components.some((candidate: any) => candidate.id === component.id)
+    );
+
+    router.post('/component', (req) => {
+        const project = store.requireProject(req.body?.project || '');
+        if (!req.body?.name) {
+            throw new MockHttpError(400, '', { name: 'The component name specified is invalid - cannot be an empty string.' });
+        }
+        if (store.components.some(component => component.project === project.key && component.name === req.body.name)) {
+            throw new MockHttpError(400, '', { name: 'A component with the name ' + req.body.name + ' already exists in this project.' });
+        }
+        const component = {
+            id: store.nextId(),
+            project: project.key,
+            name: req.body.name,
+            description: req.body.description || '',
+            lead: req.body.leadAccountId || req.body.leadUserName,
+            assigneeType: req.body.assigneeType
+        };
+        store.components.push(component);
+        return created(renderComponent(component));
+    });
+
+    router.get('/component/:id', (req) => renderComponent(requireComponent(req.params.id)));
+
+    router.put('/component/:id', (req) => {
+        const component = requireComponent(req.params.id);
+        const { leadAccountId, leadUserName, name, description, assigneeType } = req.body || {};
+        Object.assign(component, {
+            ...(name !== undefined && { name }),
+            ...(description !== undefined && { description }),
+            ...(assigneeType !== undefined && { assigneeType }),
+            ...((leadAccountId || leadUserName) && { lead: leadAccountId || leadUserName })
+        });
+        return renderComponent(component);
+    });
+
+    router.delete('/component/:id', (req) => {
+        const component = requireComponent(req.params.id);
+        const replacement = req.query.get('moveIssuesTo');
+        for (const issue of issuesWithComponent(component)) {
+            issue.fields.components = issue.fields.components.filter((candidate: any) => candidate.id !== component.id);
+            if (replacement) {
+                issue.fields.components.push(store.componentField(requireComponent(replacement)));
+            }
+        }
+        store.components = store.components.filter(candidate => candidate !== component);
+        return noContent();
+    });
+
+    router.get('/component/:id/relatedIssueCounts', (req) => {
+        const component = requireComponent(req.params.id);
+        return { self: self(`/component/${component.id}`), issueCount: issuesWithComponent(component).length };
+    });
+
+    // ===== METADATA & USERS =====
+
+    router.get('/priority', () => store.priorities.map(priority => ({ ...store.priorityField(priority), self: self(`/priority/${priority.id}`) })));
+
+    router.get('/status', () => store.statuses.map(status => ({ ...store.statusField(status), self: self(`/status/${status.id}`) })));
+
+    router.get('/field', () => [
+        ...Object.entries(SYSTEM_FIELDS).map(([id, field]) => ({ id, key: id, name: field.name, custom: false, schema: field.schema })),
+        ...store.customFields.map(field => ({ id: field.id, key: field.id, name: field.name, custom: true, schema: field.schema }))
+    ]);
+
+    const matchUsers = (req: MockRequest) => {
+        const query = (req.query.get('query') || req.query.get('username') || '').toLowerCase();
+        const maxResults = maxResultsOf(req, 50);
+        return store.users
+            .filter(user => [user.displayName, user.username, user.emailAddress, user.accountId].some(value => value.toLowerCase().includes(query)))
+            .slice(0, maxResults)
+            .map(user => store.jiraUser(user.accountId));
+    };
+
+    router.get('/user/search', matchUsers);
+
+    router.get('/user/assignable/search', (req) => {
+        if (req.query.get('project')) {
+            store.requireProject(req.query.get('project')!);
+        }
+        if (req.query.get('issueKey')) {
+            store.requireIssue(req.query.get('issueKey')!);
+        }
+        return matchUsers(req);
+    });
+
+    return router;
+}
+
+function findComment(issue: MockIssue, id: string): MockIssue['comments'][number] {
+    const comment = issue.comments.find(candidate => candidate.id === id);
+    if (!comment) {
+        throw new MockHttpError(404, `Can not find a comment for the id: ${id}.`);
+    }
+    return comment;
+}
+
+function findWorklog(issue: MockIssue, id: string): MockIssue['worklogs'][number] {
+    const worklog = issue.worklogs.find(candidate => candidate.id === id);
+    if (!worklog) {
+        throw new MockHttpError(404, `Cannot find worklog with id: ${id}.`);
+    }
+    return worklog;
+}
+
+function pick(source: Record<string, any>, keys: string[]): Record<string, any> {
+    return Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]]));
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
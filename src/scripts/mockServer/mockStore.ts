@@ -0,0 +1,534 @@
+/**
+ * In-memory state for the mock Atlassian server, seeded from a JSON fixture.
+ *
+ * Jira issues keep their fields in REST API shape so routes can return them as-is;
+ * Confluence pages keep every version so history and historical reads work.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MockHttpError } from './router';
+
+// Resolved from the repository root so it works from both src/ (ts-node) and out/ (compiled)
+export const DEFAULT_FIXTURE_PATH = path.resolve(__dirname, '../../../src/scripts/fixtures/mockAtlassianData.json');
+
+export interface MockUser {
+    accountId: string;
+    username: string;
+    displayName: string;
+    emailAddress: string;
+}
+
+export interface MockIssue {
+    id: string;
+    key: string;
+    projectKey: string;
+    /** Fields in API shape, except parent which holds the parent key */
+    fields: Record<string, any>;
+    comments: MockIssueComment[];
+    worklogs: MockWorklog[];
+    histories: any[];
+    watchers: Set<string>;
+    voters: Set<string>;
+}
+
+export interface MockIssueComment {
+    id: string;
+    author: string;
+    body: any;
+    created: string;
+    updated: string;
+}
+
+export interface MockWorklog {
+    id: string;
+    author: string;
+    timeSpentSeconds: number;
+    started: string;
+    comment?: any;
+    created: string;
+    updated: string;
+}
+
+export interface MockIssueLink {
+    id: string;
+    type: string;
+    inward: string;
+    outward: string;
+}
+
+export interface MockPageVersion {
+    number: number;
+    title: string;
+    body: string;
+    by: string;
+    when: string;
+    message: string;
+}
+
+export interface MockPage {
+    id: string;
+    spaceKey: string;
+    parentId?: string;
+    versions: MockPageVersion[];
+    labels: string[];
+    favourite: boolean;
+    createdBy: string;
+    created: string;
+}
+
+export interface MockSpace {
+    id: string;
+    key: string;
+    name: string;
+    type: string;
+    description: string;
+    favourite: boolean;
+    homepageId?: string;
+}
+
+export interface MockPageComment {
+    id: string;
+    kind: 'footer' | 'inline';
+    pageId: string;
+    parentCommentId?: string;
+    versions: Array<{ number: number; body: string; by: string; when: string; message: string }>;
+    resolutionStatus?: string;
+    inlineProperties?: Record<string, any>;
+}
+
+export interface MockAttachment {
+    id: string;
+    pageId: string;
+    title: string;
+    mediaType: string;
+    data: Buffer;
+    version: number;
+    when: string;
+}
+
+export class MockAtlassianStore {
+    /** Set by the server once it listens; used for self links */
+    baseUrl = '';
+    currentUser: string;
+    users: MockUser[];
+
+    projects: any[];
+    issueTypes: any[];
+    statuses: any[];
+    transitions: any[];
+    priorities: any[];
+    issueLinkTypes: any[];
+    customFields: any[];
+    versions: any[];
+    components: any[];
+    issues = new Map<string, MockIssue>();
+    issueLinks: MockIssueLink[] = [];
+
+    spaces: MockSpace[];
+    pages = new Map<string, MockPage>();
+    pageComments = new Map<string, MockPageComment>();
+    attachments = new Map<string, MockAttachment>();
+
+    private idCounter = 500000;
+    private issueCounters = new Map<string, number>();
+
+    constructor(fixture: any) {
+        this.currentUser = fixture.currentUser;
+        this.users = fixture.users;
+
+        const jira = fixture.jira;
+        this.projects = jira.projects;
+        this.issueTypes = jira.issueTypes;
+        this.statuses = jira.statuses;
+        this.transitions = jira.transitions;
+        this.priorities = jira.priorities;
+        this.issueLinkTypes = jira.issueLinkTypes;
+        this.customFields = jira.customFields;
+        this.versions = jira.versions.map((version: any) => ({ ...version }));
+        this.components = jira.components.map((component: any) => ({ ...component }));
+
+        for (const seed of jira.issues) {
+            this.seedIssue(seed);
+        }
+        for (const link of jira.issueLinks) {
+            this.issueLinks.push({ id: this.nextId(), ...link });
+        }
+
+        const confluence = fixture.confluence;
+        this.spaces = confluence.spaces.map((space: any) => ({ favourite: false, ...space }));
+        for (const seed of confluence.pages) {
+            this.seedPage(seed);
+        }
+        for (const seed of confluence.footerComments) {
+            this.seedPageComment('footer', seed);
+        }
+        for (const seed of confluence.inlineComments) {
+            this.seedPageComment('inline', seed);
+        }
+    }
+
+    /**
+     * Load the fixture from disk (MOCK_ATLASSIAN_FIXTURE overrides the bundled one)
+     */
+    static fromFile(fixturePath: string = process.env.MOCK_ATLASSIAN_FIXTURE || DEFAULT_FIXTURE_PATH): MockAtlassianStore {
+        return new MockAtlassianStore(JSON.parse(fs.readFileSync(fixturePath, 'utf-8')));
+    }
+
+    nextId(): string {
+        return String(++this.idCounter);
+    }
+
+    now(): string {
+        return new Date().toISOString().replace('Z', '+0000');
+    }
+
+    // ===== USERS =====
+
+    findUser(idOrName: string | undefined | null): MockUser | undefined {
+        if (!idOrName) {
+            return undefined;
+        }
+        return this.users.find(user =>
+            user.accountId === idOrName || user.username === idOrName || user.emailAddress === idOrName
+        );
+    }
+
+    requireUser(idOrName: string): MockUser {
+        const user = this.findUser(idOrName);
+        if (!user) {
+            throw new MockHttpError(400, `User '${idOrName}' does not exist.`);
+        }
+        return user;
+    }
+
+    /**
+     * User object as Jira returns it
+     */
+    jiraUser(idOrName: string | undefined | null): any {
+        const user = this.findUser(idOrName);
+        if (!user) {
+            return null;
+        }
+        return {
+            self: `${this.baseUrl}/rest/api/3/user?accountId=${user.accountId}`,
+            accountId: user.accountId,
+            name: user.username,
+            key: user.username,
+            displayName: user.displayName,
+            emailAddress: user.emailAddress,
+            active: true,
+            accountType: 'atlassian'
+        };
+    }
+
+    // ===== JIRA =====
+
+    requireProject(keyOrId: string): any {
+        const project = this.projects.find(candidate => candidate.key === keyOrId || candidate.id === String(keyOrId));
+        if (!project) {
+            throw new MockHttpError(404, `No project could be found with key '${keyOrId}'.`);
+        }
+        return project;
+    }
+
+    requireIssue(keyOrId: string): MockIssue {
+        const issue = this.issues.get(keyOrId) || [...this.issues.values()].find(candidate => candidate.id === keyOrId);
+        if (!issue) {
+            throw new MockHttpError(404, 'Issue does not exist or you do not have permission to see it.');
+        }
+        return issue;
+    }
+
+    findIssueType(nameOrId: string): any {
+        return this.issueTypes.find(type => type.id === nameOrId || type.name.toLowerCase() === String(nameOrId).toLowerCase());
+    }
+
+    findStatus(nameOrId: string): any {
+        return this.statuses.find(status => status.id === nameOrId || status.name.toLowerCase() === String(nameOrId).toLowerCase());
+    }
+
+    findPriority(nameOrId: string): any {
+        return this.priorities.find(priority => priority.id === nameOrId || priority.name.toLowerCase() === String(nameOrId).toLowerCase());
+    }
+
+    issueTypeField(type: any): any {
+        return { id: type.id, name: type.name, subtask: type.subtask, hierarchyLevel: type.subtask ? -1 : type.name === 'Epic' ? 1 : 0 };
+    }
+
+    statusField(status: any): any {
+        const categories: Record<string, { id: number; name: string }> = {
+            new: { id: 2, name: 'To Do' },
+            indeterminate: { id: 4, name: 'In Progress' },
+            done: { id: 3, name: 'Done' }
+        };
+        return {
+            id: status.id,
+            name: status.name,
+            statusCategory: { id: categories[status.category].id, key: status.category, name: categories[status.category].name }
+        };
+    }
+
+    priorityField(priority: any): any {
+        return { id: priority.id, name: priority.name };
+    }
+
+    versionField(version: any): any {
+        return { id: version.id, name: version.name, released: version.released, archived: version.archived };
+    }
+
+    componentField(component: any): any {
+        return { id: component.id, name: component.name };
+    }
+
+    /**
+     * Allocate the next key in a project
+     */
+    nextIssueKey(projectKey: string): string {
+        const next = (this.issueCounters.get(projectKey) || 0) + 1;
+        this.issueCounters.set(projectKey, next);
+        return `${projectKey}-${next}`;
+    }
+
+    /**
+     * Record a changelog entry for field changes on an issue
+     */
+    recordChange(issue: MockIssue, items: Array<{ field: string; from: any; to: any }>): void {
+        const changed = items.filter(item => JSON.stringify(item.from) !== JSON.stringify(item.to));
+        if (changed.length === 0) {
+            return;
+        }
+        issue.histories.push({
+            id: this.nextId(),
+            author: this.jiraUser(this.currentUser),
+            created: this.now(),
+            items: changed.map(item => ({
+                field: item.field,
+                fieldtype: item.field.startsWith('customfield_') ? 'custom' : 'jira',
+                fromString: displayValue(item.from),
+                toString: displayValue(item.to)
+            }))
+        });
+        issue.fields.updated = this.now();
+    }
+
+    private seedIssue(seed: any): void {
+        const projectKey = seed.key.split('-')[0];
+        const number = Number(seed.key.split('-')[1]);
+        this.issueCounters.set(projectKey, Math.max(this.issueCounters.get(projectKey) || 0, number));
+
+        const fields: Record<string, any> = {
+            summary: seed.summary,
+            issuetype: this.issueTypeField(this.findIssueType(seed.issueType)),
+            status: this.statusField(this.findStatus(seed.status)),
+            priority: this.priorityField(this.findPriority(seed.priority)),
+            assignee: this.jiraUser(seed.assignee),
+            reporter: this.jiraUser(seed.reporter),
+            creator: this.jiraUser(seed.reporter),
+            description: seed.description ? plainTextToAdf(seed.description) : null,
+            labels: seed.labels || [],
+            components: (seed.components || []).map((name: string) =>
+                this.componentField(this.components.find(component => component.project === projectKey && component.name === name))
+            ),
+            fixVersions: (seed.fixVersions || []).map((name: string) =>
+                this.versionField(this.versions.find(version => version.project === projectKey && version.name === name))
+            ),
+            parent: seed.parent,
+            resolution: null,
+            created: seed.created,
+            updated: seed.updated,
+            ...(seed.customFields || {})
+        };
+        if (fields.status.statusCategory.key === 'done') {
+            fields.resolution = { id: '10000', name: 'Done' };
+        }
+
+        this.issues.set(seed.key, {
+            id: String(10000 + this.issues.size + 1),
+            key: seed.key,
+            projectKey,
+            fields,
+            comments: (seed.comments || []).map((comment: any) => ({
+                id: this.nextId(),
+                author: comment.author,
+                body: plainTextToAdf(comment.body),
+                created: comment.created,
+                updated: comment.created
+            })),
+            worklogs: (seed.worklogs || []).map((worklog: any) => ({
+                id: this.nextId(),
+                author: worklog.author,
+                timeSpentSeconds: parseDuration(worklog.timeSpent),
+                started: worklog.started,
+                comment: worklog.comment ? plainTextToAdf(worklog.comment) : undefined,
+                created: worklog.started,
+                updated: worklog.started
+            })),
+            histories: [],
+            watchers: new Set([seed.reporter]),
+            voters: new Set()
+        });
+    }
+
+    // ===== CONFLUENCE =====
+
+    requireSpace(keyOrId: string): MockSpace {
+        const space = this.spaces.find(candidate => candidate.key === keyOrId || candidate.id === keyOrId);
+        if (!space) {
+            throw new MockHttpError(404, `No space with key : ${keyOrId}`);
+        }
+        return space;
+    }
+
+    requirePage(id: string): MockPage {
+        const page = this.pages.get(id);
+        if (!page) {
+            throw new MockHttpError(404, `No content found with id : ContentId{id=${id}}`);
+        }
+        return page;
+    }
+
+    requirePageComment(id: string, kind: 'footer' | 'inline'): MockPageComment {
+        const comment = this.pageComments.get(id);
+        if (!comment || comment.kind !== kind) {
+            throw new MockHttpError(404, `Comment ${id} not found`);
+        }
+        return comment;
+    }
+
+    currentVersion(page: MockPage): MockPageVersion {
+        return page.versions[page.versions.length - 1];
+    }
+
+    /**
+     * Ancestors from the space root down to the page's parent
+     */
+    ancestorsOf(page: MockPage): MockPage[] {
+        const ancestors: MockPage[] = [];
+        let parentId = page.parentId;
+        while (parentId && this.pages.has(parentId)) {
+            const parent = this.pages.get(parentId)!;
+            ancestors.unshift(parent);
+            parentId = parent.parentId;
+        }
+        return ancestors;
+    }
+
+    private seedPage(seed: any): void {
+        const versions = seed.versions || [{ body: seed.body, author: seed.author, when: seed.created, message: '' }];
+        const page: MockPage = {
+            id: seed.id,
+            spaceKey: seed.space,
+            parentId: seed.parentId,
+            versions: versions.map((version: any, index: number) => ({
+                number: index + 1,
+                title: seed.title,
+                body: version.body,
+                by: version.author,
+                when: version.when,
+                message: version.message || ''
+            })),
+            labels: seed.labels || [],
+            favourite: seed.favourite === true,
+            createdBy: seed.author,
+            created: seed.created
+        };
+        this.pages.set(page.id, page);
+
+        const space = this.spaces.find(candidate => candidate.key === page.spaceKey);
+        if (space && !page.parentId && !space.homepageId) {
+            space.homepageId = page.id;
+        }
+    }
+
+    private seedPageComment(kind: 'footer' | 'inline', seed: any): void {
+        this.pageComments.set(seed.id, {
+            id: seed.id,
+            kind,
+            pageId: seed.pageId,
+            versions: [{ number: 1, body: seed.body, by: seed.author, when: seed.created, message: '' }],
+            ...(kind === 'inline' && {
+                resolutionStatus: 'open',
+                inlineProperties: { textSelection: seed.selection, textSelectionMatchCount: 1, textSelectionMatchIndex: 0 }
+            })
+        });
+    }
+}
+
+/**
+ * Wrap plain text in a single-paragraph ADF document
+ */
+export function plainTextToAdf(text: string): any {
+    return {
+        type: 'doc',
+        version: 1,
+        content: [{ type: 'paragraph', content: [{ type: 'text', text }] }]
+    };
+}
+
+/**
+ * Flatten ADF (or a plain string) to text, for JQL matching and changelog strings
+ */
+export function adfToPlainText(value: any): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (value.type === 'text') {
+        return value.text || '';
+    }
+    const separator = value.type === 'doc' ? '\n' : '';
+    return (value.content || []).map(adfToPlainText).join(separator);
+}
+
+/**
+ * Parse a Jira duration such as "1w 2d 3h 30m" into seconds
+ */
+export function parseDuration(duration: string): number {
+    const units: Record<string, number> = { w: 5 * 8 * 3600, d: 8 * 3600, h: 3600, m: 60 };
+    let seconds = 0;
+    const pattern = /(\d+(?:\.\d+)?)\s*([wdhm])/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(duration)) !== null) {
+        seconds += Number(match[1]) * units[match[2]];
+    }
+    if (seconds === 0) {
+        throw new MockHttpError(400, 'Worklog must not be null.', { timeLogged: 'Invalid time duration entered.' });
+    }
+    return seconds;
+}
+
+/**
+ * Format seconds back into a Jira duration string
+ */
+export function formatDuration(seconds: number): string {
+    const parts: string[] = [];
+    const units: Array<[string, number]> = [['w', 5 * 8 * 3600], ['d', 8 * 3600], ['h', 3600], ['m', 60]];
+    let remaining = seconds;
+    for (const [unit, size] of units) {
+        const count = Math.floor(remaining / size);
+        if (count > 0) {
+            parts.push(`${count}${unit}`);
+            remaining -= count * size;
+        }
+    }
+    return parts.join(' ') || '0m';
+}
+
+function displayValue(value: any): string | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => displayValue(item)).join(', ');
+    }
+    if (typeof value === 'object') {
+        if (value.type === 'doc') {
+            return adfToPlainText(value);
+        }
+        return value.displayName || value.name || value.key || value.value || JSON.stringify(value);
+    }
+    return String(value);
+}
@@ -0,0 +1,336 @@
+/**
+ * A small JQL/CQL interpreter for the mock Atlassian server.
+ *
+ * Supports clauses of the form `field op value` (=, !=, ~, !~, >, >=, <, <=),
+ * `field [NOT] IN (a, b)`, `field IS [NOT] EMPTY`, AND/OR/NOT with parentheses and a trailing ORDER BY.
+ * Field values come from an accessor supplied by the caller, so the same parser serves Jira and Confluence.
+ */
+
+import { MockHttpError } from './router';
+
+/**
+ * Resolve a field of an item to one or more comparable values.
+ * Return undefined for an empty field; throw for fields the mock does not know.
+ */
+export type FieldAccessor<T> = (item: T, field: string) => FieldValue;
+
+export type FieldValue = string | number | null | undefined | Array<string | number>;
+
+export interface QueryContext {
+    /** Value substituted for currentUser() */
+    currentUser: string;
+}
+
+interface Clause {
+    kind: 'clause';
+    field: string;
+    operator: string;
+    values: string[];
+}
+
+interface Logical {
+    kind: 'and' | 'or';
+    left: QueryNode;
+    right: QueryNode;
+}
+
+interface Not {
+    kind: 'not';
+    operand: QueryNode;
+}
+
+type QueryNode = Clause | Logical | Not;
+
+interface OrderBy {
+    field: string;
+    descending: boolean;
+}
+
+interface ParsedQuery {
+    where?: QueryNode;
+    orderBy: OrderBy[];
+}
+
+const OPERATORS = ['!=', '>=', '<=', '!~', '=', '~', '>', '<'];
+
+/**
+ * Filter and sort items with a JQL/CQL query
+ */
+export function runQuery<T>(items: T[], query: string, accessor: FieldAccessor<T>, context: QueryContext): T[] {
+    const parsed = parseQuery(query);
+    const matches = parsed.where
+        ? items.filter(item => evaluate(parsed.where!, item, accessor, context))
+        : [...items];
+
+    if (parsed.orderBy.length > 0) {
+        matches.sort((a, b) => {
+            for (const order of parsed.orderBy) {
+                const result = compareValues(first(accessor(a, order.field)), first(accessor(b, order.field)));
+                if (result !== 0) {
+                    return order.descending ? -result : result;
+                }
+            }
+            return 0;
+        });
+    }
+
+    return matches;
+}
+
+function parseQuery(query: string): ParsedQuery {
+    const tokens = tokenize(query);
+    let position = 0;
+
+    const peek = (): string | undefined => tokens[position];
+    const peekKeyword = (keyword: string): boolean => peek()?.toUpperCase() === keyword;
+    const next = (): string => {
+        const token = tokens[position++];
+        if (token === undefined) {
+            throw new MockHttpError(400, `Unexpected end of query: ${query}`);
+        }
+        return token;
+    };
+    const expect = (token: string): void => {
+        const actual = next();
+        if (actual.toUpperCase() !== token) {
+            throw new MockHttpError(400, `Expected '${token}' but found '${actual}' in query: ${query}`);
+        }
+    };
+
+    const parseValue = (): string => unquote(next());
+
+    const parseClause = (): QueryNode => {
+        if (peek() === '(') {
+            next();
+            const inner = parseOr();
+            expect(')');
+            return inner;
+        }
+        if (peekKeyword('NOT')) {
+            next();
+            return { kind: 'not', operand: parseClause() };
+        }
+
+        const field = unquote(next());
+        let operator = next().toUpperCase();
+        if (operator === 'NOT' && peekKeyword('IN')) {
+            next();
+            operator = 'NOT IN';
+        } else if (operator === 'IS') {
+            // "IS [NOT] EMPTY" behaves like = / != against EMPTY
+            operator = '=';
+            if (peekKeyword('NOT')) {
+                next();
+                operator = '!=';
+            }
+        }
+
+        if (operator === 'IN' || operator === 'NOT IN') {
+            expect('(');
+            const values: string[] = [];
+            while (peek() !== ')') {
+                values.push(parseValue());
+                if (peek() === ',') {
+                    next();
+                }
+            }
+            expect(')');
+            return { kind: 'clause', field, operator, values };
+        }
+
+        if (!OPERATORS.includes(operator)) {
+            throw new MockHttpError(400, `Unsupported operator '${operator}' in query: ${query}`);
+        }
+        return { kind: 'clause', field, operator, values: [parseValue()] };
+    };
+
+    const parseAnd = (): QueryNode => {
+        let node = parseClause();
+        while (peekKeyword('AND')) {
+            next();
+            node = { kind: 'and', left: node, right: parseClause() };
+        }
+        return node;
+    };
+
+    const parseOr = (): QueryNode => {
+        let node = parseAnd();
+        while (peekKeyword('OR')) {
+            next();
+            node = { kind: 'or', left: node, right: parseAnd() };
+        }
+        return node;
+    };
+
+    const where = peek() !== undefined && !peekKeyword('ORDER') ? parseOr() : undefined;
+
+    const orderBy: OrderBy[] = [];
+    if (peekKeyword('ORDER')) {
+        next();
+        expect('BY');
+        while (peek() !== undefined) {
+            const field = unquote(next());
+            let descending = false;
+            if (peekKeyword('DESC') || peekKeyword('ASC')) {
+                descending = next().toUpperCase() === 'DESC';
+            }
+            orderBy.push({ field, descending });
+            if (peek() === ',') {
+                next();
+            }
+        }
+    }
+
+    if (peek() !== undefined) {
+        throw new MockHttpError(400, `Unexpected '${peek()}' in query: ${query}`);
+    }
+
+    return { where, orderBy };
+}
+
+function tokenize(query: string): string[] {
+    const tokens: string[] = [];
+    let index = 0;
+
+    while (index < query.length) {
+        const char = query[index];
+
+        if (/\s/.test(char)) {
+            index++;
+        } else if (char === '"' || char === '\'') {
+            let end = index + 1;
+            while (end < query.length && query[end] !== char) {
+                end += query[end] === '\\' ? 2 : 1;
+            }
+            tokens.push(query.slice(index, end + 1));
+            index = end + 1;
+        } else if (char === '(' || char === ')' || char === ',') {
+            tokens.push(char);
+            index++;
+        } else {
+            const operator = OPERATORS.find(op => query.startsWith(op, index));
+            if (operator) {
+                tokens.push(operator);
+                index += operator.length;
+                continue;
+            }
+            let end = index;
+            while (end < query.length && !/[\s(),=!~<>"']/.test(query[end])) {
+                end++;
+            }
+            // Keep function calls such as currentUser() as one token
+            if (query.startsWith('()', end)) {
+                end += 2;
+            }
+            tokens.push(query.slice(index, end));
+            index = end;
+        }
+    }
+
+    return tokens;
+}
+
+function unquote(token: string): string {
+    if (token.length >= 2 && (token[0] === '"' || token[0] === '\'') && token[token.length - 1] === token[0]) {
+        return token.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    return token;
+}
+
+function evaluate<T>(node: QueryNode, item: T, accessor: FieldAccessor<T>, context: QueryContext): boolean {
+    switch (node.kind) {
+        case 'and':
+            return evaluate(node.left, item, accessor, context) && evaluate(node.right, item, accessor, context);
+        case 'or':
+            return evaluate(node.left, item, accessor, context) || evaluate(node.right, item, accessor, context);
+        case 'not':
+            return !evaluate(node.operand, item, accessor, context);
+        case 'clause':
+            return evaluateClause(node, item, accessor, context);
+    }
+}
+
+function evaluateClause<T>(clause: Clause, item: T, accessor: FieldAccessor<T>, context: QueryContext): boolean {
+    const raw = accessor(item, clause.field);
+    const actual = (Array.isArray(raw) ? raw : raw === undefined || raw === null ? [] : [raw]).map(String);
+    const expected = clause.values.map(value => resolveValue(value, context));
+
+    const isEmptyCheck = expected.some(value => value === null);
+    const equalsAny = () => expected.some(value =>
+        value === null ? actual.length === 0 : actual.some(candidate => candidate.toLowerCase() === value.toLowerCase())
+    );
+
+    switch (clause.operator) {
+        case '=':
+        case 'IN':
+            return equalsAny();
+        case '!=':
+        case 'NOT IN':
+            return !equalsAny();
+        case '~':
+        case '!~': {
+            const needle = (expected[0] || '').replace(/\*/g, '').toLowerCase();
+            const contains = actual.some(candidate => candidate.toLowerCase().includes(needle));
+            return clause.operator === '~' ? contains : !contains;
+        }
+        default: {
+            if (isEmptyCheck || actual.length === 0) {
+                return false;
+            }
+            const result = compareValues(toComparable(actual[0]), toComparable(expected[0]!));
+            switch (clause.operator) {
+                case '>': return result > 0;
+                case '>=': return result >= 0;
+                case '<': return result < 0;
+                default: return result <= 0;
+            }
+        }
+    }
+}
+
+/**
+ * Expand functions and keywords; null stands for EMPTY
+ */
+function resolveValue(value: string, context: QueryContext): string | null {
+    const lowered = value.toLowerCase();
+    if (lowered === 'currentuser()') {
+        return context.currentUser;
+    }
+    if (lowered === 'empty' || lowered === 'null') {
+        return null;
+    }
+    const relative = /^([-+]?\d+)([mhdw])$/.exec(value);
+    if (relative) {
+        const units: Record<string, number> = { m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+        return new Date(Date.now() + Number(relative[1]) * units[relative[2]]).toISOString();
+    }
+    return value;
+}
+
+function toComparable(value: string): string | number {
+    const date = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2')) : NaN;
+    if (!isNaN(date)) {
+        return date;
+    }
+    const numeric = Number(value);
+    return value.trim() !== '' && !isNaN(numeric) ? numeric : value.toLowerCase();
+}
+
+function compareValues(a: FieldValue, b: FieldValue): number {
+    if (a === undefined || a === null) {
+        return b === undefined || b === null ? 0 : -1;
+    }
+    if (b === undefined || b === null) {
+        return 1;
+    }
+    const left = typeof a === 'number' ? a : toComparable(String(a));
+    const right = typeof b === 'number' ? b : toComparable(String(b));
+    if (typeof left === 'number' && typeof right === 'number') {
+        return left - right;
+    }
+    return String(left).localeCompare(String(right));
+}
+
+function first(value: FieldValue): FieldValue {
+    return Array.isArray(value) ? value[0] : value;
+}
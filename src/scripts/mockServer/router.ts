@@ -0,0 +1,129 @@
+/**
+ * Minimal request router for the mock Atlassian server
+ */
+
+export interface MockRequest {
+    method: string;
+    path: string;
+    params: Record<string, string>;
+    query: URLSearchParams;
+    body: any;
+    headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Explicit response; handlers may also return a plain value, which is sent as 200 JSON
+ */
+export class MockResponse {
+    constructor(public readonly status: number, public readonly body?: any) {}
+}
+
+export type RouteHandler = (req: MockRequest) => any;
+
+/**
+ * Error payload flavour: Jira ({ errorMessages }), Confluence v1 ({ message }) or v2 ({ errors: [] })
+ */
+export type ErrorStyle = 'jira' | 'confluence' | 'confluenceV2';
+
+/**
+ * Thrown by handlers to produce a non-2xx response in the API's error format
+ */
+export class MockHttpError extends Error {
+    constructor(public readonly status: number, message: string, public readonly fieldErrors: Record<string, string> = {}) {
+        super(message);
+        this.name = 'MockHttpError';
+    }
+}
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    paramNames: string[];
+    handler: RouteHandler;
+}
+
+export class MockRouter {
+    private routes: Route[] = [];
+
+    constructor(public readonly prefix: string, public readonly errorStyle: ErrorStyle) {}
+
+    get(path: string, handler: RouteHandler): void {
+        this.add('GET', path, handler);
+    }
+
+    post(path: string, handler: RouteHandler): void {
+        this.add('POST', path, handler);
+    }
+
+    put(path: string, handler: RouteHandler): void {
+        this.add('PUT', path, handler);
+    }
+
+    delete(path: string, handler: RouteHandler): void {
+        this.add('DELETE', path, handler);
+    }
+
+    /**
+     * Find the handler for a path below this router's prefix
+     */
+    match(method: string, path: string): { handler: RouteHandler; params: Record<string, string> } | undefined {
+        for (const route of this.routes) {
+            if (route.method !== method) {
+                continue;
+            }
+            const match = route.pattern.exec(path);
+            if (match) {
+                const params: Record<string, string> = {};
+                route.paramNames.forEach((name, index) => {
+                    params[name] = decodeURIComponent(match[index + 1]);
+                });
+                return { handler: route.handler, params };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Whether any route exists for the path, regardless of method (to tell 405 from 404)
+     */
+    hasPath(path: string): boolean {
+        return this.routes.some(route => route.pattern.test(path));
+    }
+
+    private add(method: string, path: string, handler: RouteHandler): void {
+        const paramNames: string[] = [];
+        const source = path.replace(/:(\w+)/g, (_, name) => {
+            paramNames.push(name);
+            return '([^/]+)';
+        });
+        this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), paramNames, handler });
+    }
+}
+
+/**
+ * Render an error in the style the real API uses
+ */
+export function formatError(style: ErrorStyle, status: number, message: string, fieldErrors: Record<string, string> = {}): any {
+    switch (style) {
+        case 'jira':
+            return { errorMessages: message ? [message] : [], errors: fieldErrors };
+        case 'confluence':
+            return { statusCode: status, message };
+        case 'confluenceV2':
+            return { errors: [{ status, code: String(status), title: message, detail: message }] };
+    }
+}
+
+/**
+ * Shorthand for a 204 No Content response
+ */
+export function noContent(): MockResponse {
+    return new MockResponse(204);
+}
+
+/**
+ * Shorthand for a 201 Created response
+ */
+export function created(body: any): MockResponse {
+    return new MockResponse(201, body);
+}
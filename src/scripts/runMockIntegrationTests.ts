@@ -0,0 +1,69 @@
+/**
+ * Offline Integration Test Runner
+ *
+ * Starts the mock Atlassian server on a free port and runs the Jira and Confluence
+ * integration scripts against it, so they pass without network access or credentials.
+ *
+ * Run: npm run test-integration-mock
+ */
+
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { startMockAtlassianServer } from './mockAtlassianServer';
+
+const SCRIPTS = [
+    'testJiraToolsIntegration.ts',
+    'testConfluenceToolsIntegration.ts'
+];
+
+function runScript(script: string, env: NodeJS.ProcessEnv): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(process.execPath, [require.resolve('ts-node/dist/bin.js'), path.join(__dirname, script)], {
+            env,
+            stdio: 'inherit'
+        });
+        child.on('error', reject);
+        child.on('exit', code => resolve(code ?? 1));
+    });
+}
+
+async function main(): Promise<void> {
+    const server = await startMockAtlassianServer();
+    console.log(`🧪 Mock Atlassian server listening on ${server.baseUrl}\n`);
+
+    // Explicit values win over any .env file, which dotenv never overrides
+    const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        ATLASSIAN_BASE_URL: server.baseUrl,
+        ATLASSIAN_EMAIL: 'mock.user@example.com',
+        ATLASSIAN_API_TOKEN: 'mock-token',
+        ATLASSIAN_DEPLOYMENT_TYPE: 'cloud',
+        TEST_PROJECT_KEY: 'SCRUM',
+        // Lets the scripts run cases that need the mock's data or create too much for a real site
+        ATLASSIAN_MOCK_SERVER: 'true',
+        TS_NODE_TRANSPILE_ONLY: 'true'
+    };
+
+    const failures: string[] = [];
+    try {
+        for (const script of SCRIPTS) {
+            const exitCode = await runScript(script, env);
+            if (exitCode !== 0) {
+                failures.push(script);
+            }
+        }
+    } finally {
+        await server.close();
+    }
+
+    if (failures.length > 0) {
+        console.error(`\n❌ Failed against the mock server: ${failures.join(', ')}`);
+        process.exit(1);
+    }
+    console.log('\n✅ All integration scripts passed against the mock server');
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
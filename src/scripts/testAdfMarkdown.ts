@@ -0,0 +1,481 @@
+/**
+ * ADF <-> Markdown Conversion Tests
+ *
+ * Validates the converters in src/helpers/adfMarkdown.ts, src/helpers/storageMarkdown.ts and src/helpers/storageHtml.ts
+ * without any network access:
+ *
+ * Group 1: ADF -> Markdown
+ * Group 2: Markdown -> ADF
+ * Group 3: Round Trips (ADF -> Markdown -> ADF and Markdown -> ADF -> Markdown)
+ * Group 4: Plain Text and HTML
+ * Group 5: Confluence Storage Format
+ *
+ * Run: npm run test-adf
+ */
+
+import { AdfNode, adfToHtml, adfToMarkdown, adfToPlainText, markdownToAdf } from '../helpers/adfMarkdown';
+import { storageReferences, storageToHtml } from '../helpers/storageHtml';
+import { markdownToStorage, storageToMarkdown } from '../helpers/storageMarkdown';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    error?: string;
+}
+
+interface TestGroup {
+    name: string;
+    tests: TestResult[];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function runTest(testName: string, testFn: () => void): TestResult {
+    try {
+        testFn();
+        return { name: testName, passed: true };
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { name: testName, passed: false, error: errorMessage };
+    }
+}
+
+function printTestResults(groups: TestGroup[]): void {
+    console.log('\n' + '='.repeat(80));
+    console.log('ADF <-> MARKDOWN TEST RESULTS');
+    console.log('='.repeat(80));
+
+    let totalPassed = 0;
+    let totalFailed = 0;
+
+    for (const group of groups) {
+        console.log(`\n📁 ${group.name}`);
+        console.log('-'.repeat(60));
+
+        for (const result of group.tests) {
+            if (result.passed) {
+                console.log(`  ✅ ${result.name}`);
+                totalPassed++;
+            } else {
+                console.log(`  ❌ ${result.name}`);
+                console.log(`      Error: ${result.error}`);
+                totalFailed++;
+            }
+        }
+    }
+
+    console.log('\n' + '='.repeat(80));
+    console.log(`SUMMARY: ${totalPassed} passed, ${totalFailed} failed, 0 skipped`);
+    console.log('='.repeat(80));
+
+    if (totalFailed > 0) {
+        process.exit(1);
+    }
+}
+
+function doc(...content: AdfNode[]): any {
+    return { type: 'doc', version: 1, content };
+}
+
+function paragraph(...content: AdfNode[]): AdfNode {
+    return { type: 'paragraph', content };
+}
+
+function text(value: string, ...marks: string[]): AdfNode {
+    return marks.length > 0 ? { type: 'text', text: value, marks: marks.map(type => ({ type })) } : { type: 'text', text: value };
+}
+
+/**
+ * Task lists get fresh local ids on every conversion; blank them before comparing
+ */
+function normalize(value: any): any {
+    return JSON.parse(JSON.stringify(value), (key, item) => (key === 'localId' ? '' : item));
+}
+
+function assertEqual(actual: any, expected: any, label: string = 'value'): void {
+    const actualJson = JSON.stringify(normalize(actual), null, 2);
+    const expectedJson = JSON.stringify(normalize(expected), null, 2);
+    if (actualJson !== expectedJson) {
+        throw new Error(`Unexpected ${label}.\nExpected: ${expectedJson}\nActual:   ${actualJson}`);
+    }
+}
+
+function assertAdfRoundTrip(adf: any): void {
+    const markdown = adfToMarkdown(adf);
+    assertEqual(markdownToAdf(markdown), adf, `ADF after round trip through:\n${markdown}\n`);
+}
+
+function assertMarkdownRoundTrip(markdown: string): void {
+    assertEqual(adfToMarkdown(markdownToAdf(markdown)), markdown, 'Markdown after round trip');
+}
+
+/** A document using every node type the converter has a Markdown form for */
+const KITCHEN_SINK = doc(
+    { type: 'heading', attrs: { level: 2 }, content: [text('Overview')] },
+    paragraph(
+        text('Plain, '), text('bold', 'strong'), text(', '), text('italic', 'em'), text(', '),
+        text('struck', 'strike'), text(', '), text('code', 'code'), text(' and '),
+        { type: 'text', text: 'a link', marks: [{ type: 'link', attrs: { href: 'https://example.com/a?b=c' } }] },
+        text('.')
+    ),
+    paragraph(
+        { type: 'mention', attrs: { id: '557058:abc', text: '@Jane Doe' } },
+        text(' '), { type: 'emoji', attrs: { shortName: ':smile:' } },
+        text(' '), { type: 'inlineCard', attrs: { url: 'https://example.atlassian.net/browse/SCRUM-1' } },
+        text(' '), { type: 'status', attrs: { text: 'IN REVIEW', color: 'blue' } },
+        text(' '), { type: 'date', attrs: { timestamp: String(Date.UTC(2024, 4, 1)) } },
+        { type: 'hardBreak' },
+        text('second line')
+    ),
+    {
+        type: 'bulletList', content: [
+            { type: 'listItem', content: [paragraph(text('one'))] },
+            {
+                type: 'listItem', content: [
+                    paragraph(text('two')),
+                    { type: 'orderedList', attrs: { order: 3 }, content: [{ type: 'listItem', content: [paragraph(text('nested'))] }] }
+                ]
+            }
+        ]
+    },
+    {
+        type: 'taskList', attrs: { localId: 'a' }, content: [
+            { type: 'taskItem', attrs: { localId: 'b', state: 'DONE' }, content: [text('done')] },
+            { type: 'taskItem', attrs: { localId: 'c', state: 'TODO' }, content: [text('todo')] }
+        ]
+    },
+    { type: 'codeBlock', attrs: { language: 'typescript' }, content: [{ type: 'text', text: 'const x = `tick`;\n```\nnot a fence' }] },
+    { type: 'blockquote', content: [paragraph(text('quoted'))] },
+    { type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('careful'))] },
+    { type: 'rule' },
+    {
+        type: 'table', content: [
+            { type: 'tableRow', content: [{ type: 'tableHeader', content: [paragraph(text('Key'))] }, { type: 'tableHeader', content: [paragraph(text('Value'))] }] },
+            { type: 'tableRow', content: [{ type: 'tableCell', content: [paragraph(text('a|b'))] }, { type: 'tableCell', content: [paragraph(text('x', 'strong'))] }] }
+        ]
+    },
+    { type: 'mediaSingle', attrs: { layout: 'center' }, content: [{ type: 'media', attrs: { type: 'file', id: 'abc-123', collection: '', alt: 'diagram.png' } }] },
+    { type: 'mediaGroup', content: [{ type: 'media', attrs: { type: 'file', id: 'def-456', collection: 'jira', alt: 'spec.pdf' } }] }
+);
+
+// =============================================================================
+// Test Groups
+// =============================================================================
+
+// GROUP 1: ADF -> Markdown
+function testAdfToMarkdown(): TestResult[] {
+    const results: TestResult[] = [];
+
+    results.push(runTest('headings and marks', () => {
+        const markdown = adfToMarkdown(doc(
+            { type: 'heading', attrs: { level: 3 }, content: [text('Title')] },
+            paragraph(text('a '), text('b', 'strong'), text(' '), text('c', 'em'), text(' '), text('d', 'code'))
+        ));
+        assertEqual(markdown, '### Title\n\na **b** *c* `d`', 'Markdown');
+    }));
+
+    results.push(runTest('shared marks open once across nodes', () => {
+        const markdown = adfToMarkdown(doc(paragraph(text('bold ', 'strong'), { type: 'text', text: 'both', marks: [{ type: 'strong' }, { type: 'em' }] })));
+        assertEqual(markdown, '**bold *both***', 'Markdown');
+    }));
+
+    results.push(runTest('mentions, emoji, cards, status and dates', () => {
+        const markdown = adfToMarkdown(doc(KITCHEN_SINK.content[2]));
+        assertEqual(markdown, '@[Jane Doe](557058:abc) :smile: <https://example.atlassian.net/browse/SCRUM-1> :status[IN REVIEW]{color=blue} :date[2024-05-01]\\\nsecond line', 'Markdown');
+    }));
+
+    results.push(runTest('special characters are escaped', () => {
+        const markdown = adfToMarkdown(doc(paragraph(text('# not a heading *or* [link] <tag> snake_case 2 * 3 :no: 10:30'))));
+        assertEqual(markdown, '\\# not a heading \\*or\\* \\[link\\] \\<tag> snake_case 2 * 3 \\:no: 10:30', 'Markdown');
+    }));
+
+    results.push(runTest('panels and media', () => {
+        const markdown = adfToMarkdown(doc(KITCHEN_SINK.content[7], KITCHEN_SINK.content[10], KITCHEN_SINK.content[11]));
+        assertEqual(markdown, '> [!WARNING]\n> careful\n\n![diagram.png](media:abc-123)\n\n[spec.pdf](media:def-456?collection=jira)', 'Markdown');
+    }));
+
+    results.push(runTest('nodes without a Markdown form are kept as ADF', () => {
+        const expand: AdfNode = { type: 'expand', attrs: { title: 'Details' }, content: [paragraph(text('hidden'))] };
+        const markdown = adfToMarkdown(doc(expand));
+        if (!markdown.startsWith('```adf\n') || !markdown.includes('"expand"')) {
+            throw new Error(`Expected an adf fence, got:\n${markdown}`);
+        }
+    }));
+
+    results.push(runTest('text colours are dropped, text kept', () => {
+        const markdown = adfToMarkdown(doc(paragraph({ type: 'text', text: 'red', marks: [{ type: 'textColor', attrs: { color: '#ff0000' } }] })));
+        assertEqual(markdown, 'red', 'Markdown');
+    }));
+
+    return results;
+}
+
+// GROUP 2: Markdown -> ADF
+function testMarkdownToAdf(): TestResult[] {
+    const results: TestResult[] = [];
+
+    results.push(runTest('paragraph with mention (webview comment syntax)', () => {
+        assertEqual(markdownToAdf('Hi @[Jane Doe](557058:abc), please review'), doc(paragraph(
+            text('Hi '),
+            { type: 'mention', attrs: { id: '557058:abc', text: '@Jane Doe' } },
+            text(', please review')
+        )), 'ADF');
+    }));
+
+    results.push(runTest('line breaks inside a paragraph are hard breaks', () => {
+        assertEqual(markdownToAdf('first\nsecond'), doc(paragraph(text('first'), { type: 'hardBreak' }, text('second'))), 'ADF');
+    }));
+
+    results.push(runTest('common Markdown: setext heading, * lists, _em_, __strong__', () => {
+        assertEqual(markdownToAdf('Title\n=====\n\n* a\n* b\n\n_em_ and __strong__'), doc(
+            { type: 'heading', attrs: { level: 1 }, content: [text('Title')] },
+            { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('a'))] }, { type: 'listItem', content: [paragraph(text('b'))] }] },
+            paragraph(text('em', 'em'), text(' and '), text('strong', 'strong'))
+        ), 'ADF');
+    }));
+
+    results.push(runTest('underscores inside words stay literal', () => {
+        assertEqual(markdownToAdf('call do_the_thing now'), doc(paragraph(text('call do_the_thing now'))), 'ADF');
+    }));
+
+    results.push(runTest('task list', () => {
+        const adf = markdownToAdf('- [x] shipped\n- [ ] docs');
+        assertEqual(adf, doc({
+            type: 'taskList', attrs: { localId: '' }, content: [
+                { type: 'taskItem', attrs: { localId: '', state: 'DONE' }, content: [text('shipped')] },
+                { type: 'taskItem', attrs: { localId: '', state: 'TODO' }, content: [text('docs')] }
+            ]
+        }), 'ADF');
+    }));
+
+    results.push(runTest('table with header row', () => {
+        const adf = markdownToAdf('| A | B |\n|---|:-:|\n| `x\\|y` | 2 |');
+        assertEqual(adf.content[0].content![1].content![0], { type: 'tableCell', content: [paragraph(text('x|y', 'code'))] }, 'table cell');
+    }));
+
+    results.push(runTest('unterminated delimiters stay literal', () => {
+        assertEqual(markdownToAdf('a * b and **c'), doc(paragraph(text('a * b and **c'))), 'ADF');
+    }));
+
+    return results;
+}
+
+// GROUP 3: Round Trips
+function testRoundTrips(): TestResult[] {
+    const results: TestResult[] = [];
+
+    results.push(runTest('kitchen sink ADF survives a round trip', () => {
+        assertAdfRoundTrip(KITCHEN_SINK);
+    }));
+
+    results.push(runTest('unsupported block nodes survive a round trip', () => {
+        assertAdfRoundTrip(doc(
+            { type: 'expand', attrs: { title: 'Details' }, content: [paragraph(text('hidden'))] },
+            { type: 'table', attrs: { layout: 'wide' }, content: [{ type: 'tableRow', content: [{ type: 'tableCell', attrs: { colspan: 2 }, content: [paragraph(text('merged'))] }] }] }
+        ));
+    }));
+
+    results.push(runTest('editing one block keeps what Markdown dropped from the others', () => {
+        const coloured = paragraph({ type: 'text', text: 'red', marks: [{ type: 'textColor', attrs: { color: '#ff0000' } }] });
+        const original = doc(coloured, paragraph(text('plain')));
+        const markdown = adfToMarkdown(original).replace('plain', 'edited');
+        assertEqual(markdownToAdf(markdown, original), doc(coloured, paragraph(text('edited'))), 'ADF');
+    }));
+
+    results.push(runTest('unsupported inline nodes survive a round trip', () => {
+        assertAdfRoundTrip(doc(paragraph(text('before '), { type: 'placeholder', attrs: { text: 'Type <here>' } }, text(' after'))));
+    }));
+
+    results.push(runTest('escaped text survives a round trip', () => {
+        assertAdfRoundTrip(doc(
+            paragraph(text('1. not a list, - nor this, > nor a quote')),
+            paragraph(text('*stars*, _under_, `ticks`, [brackets], <angles>, ~~tildes~~, a\\b, :colon:')),
+            paragraph(text('- leading dash'), { type: 'hardBreak' }, text('# leading hash'))
+        ));
+    }));
+
+    results.push(runTest('nested marks survive a round trip', () => {
+        assertAdfRoundTrip(doc(paragraph(
+            { type: 'text', text: 'all', marks: [{ type: 'link', attrs: { href: 'https://x.test' } }, { type: 'strong' }, { type: 'em' }] },
+            { type: 'text', text: ' bold link', marks: [{ type: 'link', attrs: { href: 'https://x.test' } }, { type: 'strong' }] },
+            text(' '),
+            { type: 'text', text: 'under', marks: [{ type: 'underline' }] },
+            text(' H'),
+            { type: 'text', text: '2', marks: [{ type: 'subsup', attrs: { type: 'sub' } }] },
+            text('O')
+        )));
+    }));
+
+    results.push(runTest('nested task lists survive a round trip', () => {
+        assertAdfRoundTrip(doc({
+            type: 'taskList', attrs: { localId: '' }, content: [
+                { type: 'taskItem', attrs: { localId: '', state: 'TODO' }, content: [text('parent')] },
+                { type: 'taskList', attrs: { localId: '' }, content: [{ type: 'taskItem', attrs: { localId: '', state: 'DONE' }, content: [text('child')] }] }
+            ]
+        }));
+    }));
+
+    results.push(runTest('Markdown survives a round trip', () => {
+        assertMarkdownRoundTrip([
+            '# Release notes',
+            '',
+            'Shipped by @[Jane Doe](557058:abc) :tada: see <https://example.com/x>.\\',
+            'Status :status[DONE]{color=green}',
+            '',
+            '1. first',
+            '2. second',
+            '   - nested',
+            '',
+            '> [!NOTE]',
+            '> Remember **this**',
+            '',
+            '| Col | Other |',
+            '| --- | --- |',
+            '| *a* | b |',
+            '',
+            '```json',
+            '{ "a": 1 }',
+            '```'
+        ].join('\n'));
+    }));
+
+    return results;
+}
+
+// GROUP 4: Plain Text and HTML
+function testPlainTextAndHtml(): TestResult[] {
+    const results: TestResult[] = [];
+
+    results.push(runTest('plain text keeps one line per block', () => {
+        const plain = adfToPlainText(doc(
+            { type: 'heading', attrs: { level: 1 }, content: [text('Acceptance criteria')] },
+            { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('Given a user'))] }] },
+            paragraph({ type: 'mention', attrs: { id: '1', text: '@Jane' } }, text(' checks'))
+        ));
+        assertEqual(plain, 'Acceptance criteria\nGiven a user\n@Jane checks', 'plain text');
+    }));
+
+    results.push(runTest('HTML escapes text and renders structure', () => {
+        const html = adfToHtml(doc(
+            paragraph(text('<script>', 'strong')),
+            { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('item'))] }] }
+        ));
+        assertEqual(html, '<p><strong>&lt;script&gt;</strong></p><ul><li><p>item</p></li></ul>', 'HTML');
+    }));
+
+    results.push(runTest('HTML renders mentions and status lozenges', () => {
+        const html = adfToHtml(doc(KITCHEN_SINK.content[2]));
+        if (!html.includes('<span class="mention">@Jane Doe</span>') || !html.includes('adf-status-blue')) {
+            throw new Error(`Unexpected HTML: ${html}`);
+        }
+    }));
+
+    return results;
+}
+
+// GROUP 5: Confluence Storage Format
+function testStorageFormat(): TestResult[] {
+    const results: TestResult[] = [];
+
+    const page = [
+        '<h2>Setup</h2>',
+        '<p>See <ac:link><ri:page ri:space-key="DOC" ri:content-title="Getting Started" /><ac:plain-text-link-body><![CDATA[the guide]]></ac:plain-text-link-body></ac:link>'
+            + ' and <ac:structured-macro ac:name="jira"><ac:parameter ac:name="key">PROJ-12</ac:parameter></ac:structured-macro>.</p>',
+        '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">sh</ac:parameter><ac:plain-text-body><![CDATA[npm install]]></ac:plain-text-body></ac:structured-macro>',
+        '<ac:structured-macro ac:name="warning"><ac:rich-text-body><p>Back up first</p></ac:rich-text-body></ac:structured-macro>',
+        '<ac:task-list><ac:task><ac:task-id>1</ac:task-id><ac:task-status>complete</ac:task-status><ac:task-body>install</ac:task-body></ac:task></ac:task-list>',
+        '<ac:structured-macro ac:name="toc"><ac:parameter ac:name="maxLevel">2</ac:parameter></ac:structured-macro>'
+    ].join('\n');
+
+    results.push(runTest('storage macros become Markdown, unknown macros a confluence fence', () => {
+        assertEqual(storageToMarkdown(page), [
+            '## Setup',
+            'See [the guide](page:DOC/Getting%20Started) and [PROJ-12](jira:PROJ-12).',
+            '```sh\nnpm install\n```',
+            '> [!WARNING]\n> Back up first',
+            '- [x] install',
+            '```confluence\n<ac:structured-macro ac:name="toc"><ac:parameter ac:name="maxLevel">2</ac:parameter></ac:structured-macro>\n```'
+        ].join('\n\n'), 'Markdown');
+    }));
+
+    results.push(runTest('unedited Markdown gives back the original storage', () => {
+        assertEqual(markdownToStorage(storageToMarkdown(page), page), page, 'storage');
+    }));
+
+    results.push(runTest('editing one block keeps the others verbatim', () => {
+        const storage = markdownToStorage(storageToMarkdown(page).replace('Back up first', 'Back up *first*'), page);
+        assertEqual(storage, page.replace('<p>Back up first</p>', '<p>Back up <em>first</em></p>').replace(/\n/g, ''), 'storage');
+    }));
+
+    results.push(runTest('Markdown without an original becomes storage', () => {
+        assertEqual(
+            markdownToStorage('# Title\n\n- [ ] task\n\n[Home](page:Home) :status[DONE]{color=green}'),
+            '<h1>Title</h1>'
+            + '<ac:task-list><ac:task><ac:task-id>1</ac:task-id><ac:task-status>incomplete</ac:task-status><ac:task-body>task</ac:task-body></ac:task></ac:task-list>'
+            + '<p><ac:link><ri:page ri:content-title="Home"/><ac:plain-text-link-body><![CDATA[Home]]></ac:plain-text-link-body></ac:link> '
+            + '<ac:structured-macro ac:name="status"><ac:parameter ac:name="colour">Green</ac:parameter><ac:parameter ac:name="title">DONE</ac:parameter></ac:structured-macro></p>',
+            'storage'
+        );
+    }));
+
+    results.push(runTest('preview renders macros, links and live Jira status', () => {
+        const html = storageToHtml(page, { jiraIssues: { 'PROJ-12': { summary: 'Fix login', status: 'In Progress', statusCategory: 'indeterminate' } } });
+        const expected = [
+            '<h2 id="Setup">Setup</h2>',
+            '<a href="#" data-page-title="Getting Started" data-space-key="DOC">the guide</a>',
+            '<a href="#" data-jira-key="PROJ-12">PROJ-12</a> <span class="jira-summary">Fix login</span> <span class="status status-blue">In Progress</span>',
+            '<code class="language-sh">npm install</code>',
+            '<div class="panel panel-warning"><div class="panel-body"><p>Back up first</p></div></div>',
+            '<input type="checkbox" disabled checked> install',
+            '<ul class="toc"><li class="toc-level-2"><a href="#Setup">Setup</a></li></ul>'
+        ];
+        for (const fragment of expected) {
+            if (!html.includes(fragment)) {
+                throw new Error(`Missing ${fragment} in ${html}`);
+            }
+        }
+    }));
+
+    results.push(runTest('preview drops scripts and unsafe links, highlights code', () => {
+        const html = storageToHtml(
+            '<p onclick="x()">a<script>alert(1)</script><a href="javascript:alert(1)">b</a></p>'
+            + '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">js</ac:parameter><ac:plain-text-body><![CDATA[const a = "<b>"; // note]]></ac:plain-text-body></ac:structured-macro>'
+        );
+        assertEqual(html.split('<div')[0], '<p>a<a>b</a></p>', 'sanitized paragraph');
+        if (!html.includes('<span class="tok-keyword">const</span> a = <span class="tok-string">&quot;&lt;b&gt;&quot;</span>; <span class="tok-comment">// note</span>')) {
+            throw new Error(`Code was not highlighted: ${html}`);
+        }
+    }));
+
+    results.push(runTest('preview references list Jira keys and own image attachments', () => {
+        const refs = storageReferences(page + '<ac:image><ri:attachment ri:filename="a.png" /></ac:image><ac:image><ri:attachment ri:filename="b.png"><ri:page ri:content-title="Other" /></ri:attachment></ac:image>');
+        assertEqual(refs, { jiraKeys: ['PROJ-12'], imageAttachments: ['a.png'] }, 'references');
+    }));
+
+    results.push(runTest('preview highlights the anchors of open inline comments only', () => {
+        const html = storageToHtml('<p><ac:inline-comment-marker ac:ref="m1">one</ac:inline-comment-marker> <ac:inline-comment-marker ac:ref="m2">two</ac:inline-comment-marker></p>', { openCommentRefs: new Set(['m1']) });
+        assertEqual(html, '<p><span class="inline-comment-marker open" data-ref="m1">one</span> <span class="inline-comment-marker" data-ref="m2">two</span></p>', 'markers');
+    }));
+
+    return results;
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+function main(): void {
+    console.log('🧪 ADF <-> Markdown Conversion Tests\n');
+
+    printTestResults([
+        { name: 'Group 1: ADF -> Markdown', tests: testAdfToMarkdown() },
+        { name: 'Group 2: Markdown -> ADF', tests: testMarkdownToAdf() },
+        { name: 'Group 3: Round Trips', tests: testRoundTrips() },
+        { name: 'Group 4: Plain Text and HTML', tests: testPlainTextAndHtml() },
+        { name: 'Group 5: Confluence Storage Format', tests: testStorageFormat() }
+    ]);
+}
+
+main();
@@ -15,18 +15,29 @@
  * - A valid Confluence space (default: will use first available space)
  * 
  * Run: npm run test-confluence-integration
+ * Offline: npm run test-integration-mock (runs against the mock Atlassian server)
  */
 
 import * as dotenv from 'dotenv';
+import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 import { ConfluenceHelper } from '../helpers/confluenceHelper';
+import { exportPages, readExportManifest } from '../helpers/confluenceExporter';
+import { copyPageTree } from '../helpers/confluencePageCopier';
+import { savePageWithVersionCheck } from '../helpers/confluencePageSaver';
+import { publishFolder } from '../helpers/confluencePublisher';
+import { collect } from '../helpers/pagination';
 import { AtlassianConfig } from '../utils/configLoader';
+import { extractPageContent, pageToYaml } from '../utils/confluenceYamlConverters';
+import { buildPageFrontmatterSchema, validateYaml } from '../utils/yamlSchema';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
 // Test configuration
 const TEST_TIMEOUT = 30000;
+const USING_MOCK_SERVER = process.env.ATLASSIAN_MOCK_SERVER === 'true';
 
 interface TestResult {
     name: string;
@@ -212,6 +223,52 @@ async function testPageOperations(): Promise<TestResult[]> {
         testPageVersion = updatedPage.version?.number || testPageVersion + 1;
     }));
 
+    // Test: Saving page YAML checks the version it is based on: a newer live version is merged first, a 409
+    // is retried, and the saved version is written back to the frontmatter
+    results.push(await runTest('savePageWithVersionCheck', async () => {
+        const created = await confluenceHelper.createPage(testSpaceKey, `Version Check ${Date.now()}`, '<p>First</p>');
+        createdResources.pages.push(created.id);
+        let document = pageToYaml(await confluenceHelper.getPage(created.id, 'body.storage,space,version')).replace('<p>First</p>', '<p>Local</p>');
+        const merges: number[] = [];
+        const callbacks = {
+            getYaml: () => document,
+            mergeRemoteChanges: async (live: any, baseVersion: number) => {
+                merges.push(baseVersion);
+                return merges.length > 1;
+            }
+        };
+
+        const plain = await savePageWithVersionCheck(confluenceHelper, created.id, callbacks);
+        if (!plain || plain.page.version?.number !== 2 || extractPageContent(plain.yaml).version !== 2 || merges.length > 0) {
+            throw new Error(`Save without conflict did not record version 2: ${plain && extractPageContent(plain.yaml).version}`);
+        }
+        document = plain.yaml.replace('<p>Local</p>', '<p>Local again</p>');
+
+        // Edited on Confluence meanwhile: the first merge is declined, the second accepted
+        await confluenceHelper.updatePage(created.id, created.title, '<p>Remote</p>', 2);
+        const declined = await savePageWithVersionCheck(confluenceHelper, created.id, callbacks);
+        const merged = await savePageWithVersionCheck(confluenceHelper, created.id, callbacks);
+        if (declined || merges.join() !== '2,2' || merged?.page.version?.number !== 4 || extractPageContent(merged.yaml).version !== 4) {
+            throw new Error(`Remote change not merged before saving: ${JSON.stringify({ merges, version: merged?.page.version?.number })}`);
+        }
+        document = merged.yaml;
+
+        // Someone saves between the version check and the update: the 409 leads to a merge and a retry
+        let interfered = false;
+        const racing = Object.create(confluenceHelper) as ConfluenceHelper;
+        racing.updatePage = async (...args: Parameters<ConfluenceHelper['updatePage']>) => {
+            if (!interfered) {
+                interfered = true;
+                await confluenceHelper.updatePage(created.id, created.title, '<p>Racing</p>', 4);
+            }
+            return confluenceHelper.updatePage(...args);
+        };
+        const retried = await savePageWithVersionCheck(racing, created.id, callbacks);
+        if (retried?.page.version?.number !== 6 || merges.join() !== '2,2,4') {
+            throw new Error(`409 not retried after a merge: ${JSON.stringify({ merges, version: retried?.page.version?.number })}`);
+        }
+    }));
+
     // Test: Get Page History
     results.push(await runTest('getPageHistory', async () => {
         const history = await confluenceHelper.getPageHistory(testPageId);
@@ -228,6 +285,28 @@ async function testPageOperations(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: List versions, newest first
+    results.push(await runTest('getPageVersions', async () => {
+        const versions = await confluenceHelper.getPageVersions(testPageId);
+        if (versions.results?.[0]?.number !== testPageVersion || !versions.results[0].when) {
+            throw new Error(`Expected version ${testPageVersion} first, got ${versions.results?.[0]?.number}`);
+        }
+    }));
+
+    // Test: Restore an old version as a new one
+    results.push(await runTest('restorePageVersion', async () => {
+        const title = `Restore Test Page ${Date.now()}`;
+        const page = await confluenceHelper.createPage(testSpaceKey, title, '<p>Original</p>');
+        createdResources.pages.push(page.id);
+        await confluenceHelper.updatePage(page.id, title, '<p>Changed</p>', page.version?.number || 1);
+
+        const restored = await confluenceHelper.restorePageVersion(page.id, 1);
+        const current = await confluenceHelper.getPage(page.id);
+        if (restored.version?.number !== 3 || current.body?.storage?.value !== '<p>Original</p>') {
+            throw new Error(`Expected the original body as version 3, got version ${restored.version?.number}`);
+        }
+    }));
+
     // Test: Get Child Pages (may be empty)
     results.push(await runTest('getChildPages', async () => {
         const children = await confluenceHelper.getChildPages(testPageId);
@@ -259,6 +338,197 @@ async function testPageOperations(): Promise<TestResult[]> {
         createdResources.pages.push(copiedPage.id);
     }));
 
+    // Test: Move a page below another, as dropping it in the tree does
+    results.push(await runTest('movePage', async () => {
+        const suffix = Date.now();
+        const parent = await confluenceHelper.createPage(testSpaceKey, `Move Target ${suffix}`, '<p>Target</p>');
+        const page = await confluenceHelper.createPage(testSpaceKey, `Moved Test Page ${suffix}`, '<p>Moved</p>');
+        createdResources.pages.push(page.id, parent.id);
+        await confluenceHelper.movePage(page.id, testSpaceKey, parent.id);
+        const ancestors = (await confluenceHelper.getPageAncestors(page.id)).ancestors || [];
+        if (ancestors[ancestors.length - 1]?.id !== parent.id) {
+            throw new Error('Page was not moved below the target page');
+        }
+    }));
+
+    // Test: Deep copy of a page tree with its attachments, labels and internal links
+    results.push(await runTest('copyPageTree', async () => {
+        const suffix = Date.now();
+        const root = await confluenceHelper.createPage(testSpaceKey, `Tree Root ${suffix}`, '<p>Root</p>');
+        createdResources.pages.push(root.id);
+        const child = await confluenceHelper.createPage(
+            testSpaceKey,
+            `Tree Child ${suffix}`,
+            `<p><ac:link><ri:page ri:content-title="Tree Root ${suffix}" /></ac:link> <a href="/wiki/pages/viewpage.action?pageId=${root.id}">by id</a></p>`,
+            root.id
+        );
+        createdResources.pages.push(child.id);
+        await confluenceHelper.addPageLabel(root.id, 'tree-copy');
+        await confluenceHelper.uploadAttachment(child.id, 'notes.txt', Buffer.from('notes'), 'text/plain');
+
+        const result = await copyPageTree(confluenceHelper, { pageId: root.id, targetSpaceKey: testSpaceKey, titlePrefix: 'Copy of ' });
+        createdResources.pages.push(...Object.values(result.pages).map(page => page.pageId));
+        if (Object.keys(result.pages).length !== 2 || result.attachments !== 1 || result.labels !== 1) {
+            throw new Error(`Expected 2 pages, 1 attachment and 1 label, got ${JSON.stringify(result)}`);
+        }
+
+        const copiedChild = await confluenceHelper.getPage(result.pages[child.id].pageId, 'body.storage,ancestors');
+        const storage = copiedChild.body?.storage?.value || '';
+        if (copiedChild.ancestors?.[copiedChild.ancestors.length - 1]?.id !== result.rootPageId) {
+            throw new Error('Copied child is not below the copied root');
+        }
+        if (!storage.includes(`ri:content-title="Copy of Tree Root ${suffix}"`) || !storage.includes(`pageId=${result.rootPageId}`)) {
+            throw new Error('Links were not rewritten to the copies');
+        }
+        const attachments = await confluenceHelper.getPageAttachments(copiedChild.id);
+        if (attachments.results?.[0]?.title !== 'notes.txt') {
+            throw new Error('Attachment was not copied');
+        }
+        const labels = await confluenceHelper.getPageLabels(result.rootPageId);
+        if (!labels.results?.some((label: any) => label.name === 'tree-copy')) {
+            throw new Error('Label was not copied');
+        }
+    }));
+
+    // Test: Publish a Markdown folder below the test page
+    results.push(await runTest('publishFolder', async () => {
+        const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'confluence-publish-'));
+        const suffix = Date.now();
+        try {
+            await fs.mkdir(path.join(folder, 'setup'));
+            await fs.writeFile(path.join(folder, 'guide.md'), `# Guide ${suffix}\n\nSee [setup](setup/index.md).\n\n![Diagram](diagram.png)\n`);
+            await fs.writeFile(path.join(folder, 'diagram.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+            await fs.writeFile(path.join(folder, 'setup', 'index.md'), `# Setup ${suffix}\n\nSteps follow.\n`);
+            await fs.writeFile(path.join(folder, 'setup', 'install.md'), `# Install ${suffix}\n\nBack to [the guide](../guide.md).\n`);
+
+            const first = await publishFolder(confluenceHelper, { folder, spaceKey: testSpaceKey, parentId: testPageId });
+            createdResources.pages.push(...Object.values(first.pages).map(page => page.pageId));
+            if (first.created.length !== 3 || first.attachments.length !== 1) {
+                throw new Error(`Expected 3 pages and 1 attachment, got ${first.created.length} and ${first.attachments.length}`);
+            }
+
+            const guide = await confluenceHelper.getPage(first.pages['guide.md'].pageId, 'body.storage');
+            const storage = guide.body?.storage?.value || '';
+            if (!storage.includes(`ri:content-title="Setup ${suffix}"`) || !storage.includes('ri:filename="diagram.png"')) {
+                throw new Error('Links were not rewritten to the page and attachment');
+            }
+            const ancestors = (await confluenceHelper.getPageAncestors(first.pages['setup/install.md'].pageId)).ancestors || [];
+            if (ancestors[ancestors.length - 1]?.id !== first.pages.setup.pageId) {
+                throw new Error('Nested file was not published below its directory page');
+            }
+
+            await fs.writeFile(path.join(folder, 'setup', 'install.md'), `# Install ${suffix}\n\nRun the installer.\n`);
+            const second = await publishFolder(confluenceHelper, { folder, spaceKey: testSpaceKey, parentId: testPageId });
+            if (second.updated.join() !== 'setup/install.md' || second.unchanged.length !== 2 || second.attachments.length !== 0) {
+                throw new Error(`Republish should update only the changed file, updated: ${second.updated.join(', ')}`);
+            }
+        } finally {
+            await fs.rm(folder, { recursive: true, force: true });
+        }
+    }));
+
+    // Test: Same-named files get distinct attachments; links to missing files and directories are reported
+    results.push(await runTest('publishFolderLinks', async () => {
+        const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'confluence-publish-'));
+        const suffix = Date.now();
+        try {
+            for (const directory of ['a', 'b', 'guides']) {
+                await fs.mkdir(path.join(folder, directory));
+            }
+            await fs.writeFile(path.join(folder, 'a', 'diagram.png'), Buffer.from([1]));
+            await fs.writeFile(path.join(folder, 'b', 'diagram.png'), Buffer.from([2, 2]));
+            await fs.writeFile(path.join(folder, 'guides', 'notes.txt'), 'notes');
+            await fs.writeFile(path.join(folder, 'links.md'), `# Links ${suffix}\n\n![A](a/diagram.png) ![B](b/diagram.png)\n\n`
+                + 'See [the guides](./guides/) and [gone](missing.png).\n');
+
+            const result = await publishFolder(confluenceHelper, { folder, spaceKey: testSpaceKey, parentId: testPageId });
+            createdResources.pages.push(...Object.values(result.pages).map(page => page.pageId));
+            if (result.warnings.join() !== 'links.md: ./guides/,links.md: missing.png') {
+                throw new Error(`Unexpected warnings: ${result.warnings.join(', ')}`);
+            }
+            if (result.attachments.sort().join() !== 'links.md: diagram-2.png,links.md: diagram.png') {
+                throw new Error(`Same-named files were not uploaded separately: ${result.attachments.join(', ')}`);
+            }
+            const page = await confluenceHelper.getPage(result.pages['links.md'].pageId, 'body.storage');
+            const storage = page.body?.storage?.value || '';
+            if (!storage.includes('ri:filename="diagram.png"') || !storage.includes('ri:filename="diagram-2.png"') || !storage.includes('missing.png')) {
+                throw new Error('Links were not rewritten as expected');
+            }
+        } finally {
+            await fs.rm(folder, { recursive: true, force: true });
+        }
+    }));
+
+    // Test: Export the test page and its descendants (including the published folder) to Markdown
+    results.push(await runTest('exportPages', async () => {
+        const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'confluence-export-'));
+        try {
+            const first = await exportPages(confluenceHelper, { folder, pageId: testPageId });
+            const root = (await readExportManifest(folder))?.pages[testPageId]?.path;
+            if (!root || !(await fs.readFile(path.join(folder, root), 'utf8')).includes(`id: '${testPageId}'`)) {
+                throw new Error(`Root page not exported with its frontmatter: ${first.written.join(', ')}`);
+            }
+            const diagram = first.attachments.find(file => file.endsWith('.attachments/diagram.png'));
+            if (!diagram || (await fs.readFile(path.join(folder, diagram))).length !== 4) {
+                throw new Error(`Attachment not downloaded: ${first.attachments.join(', ')}`);
+            }
+            const guide = diagram.replace(/\.attachments\/diagram\.png$/, '.md');
+            if (!(await fs.readFile(path.join(folder, guide), 'utf8')).includes('.attachments/diagram.png)')) {
+                throw new Error('Image link does not point at the downloaded attachment');
+            }
+
+            const second = await exportPages(confluenceHelper, { folder, pageId: testPageId });
+            if (second.written.length !== 0 || second.unchanged.length !== first.written.length) {
+                throw new Error(`Re-export rewrote unchanged pages: ${second.written.join(', ')}`);
+            }
+
+            const page = await confluenceHelper.getPage(testPageId, 'version');
+            await confluenceHelper.updatePage(testPageId, page.title, '<p>Changed for the export test</p>', page.version?.number || 1);
+            testPageVersion = (page.version?.number || 1) + 1;
+            const third = await exportPages(confluenceHelper, { folder, pageId: testPageId });
+            if (third.written.join() !== root) {
+                throw new Error(`Only the changed page should be rewritten, got: ${third.written.join(', ')}`);
+            }
+        } finally {
+            await fs.rm(folder, { recursive: true, force: true });
+        }
+    }));
+
+    // Test: A child titled "index" does not overwrite its parent's index.md
+    results.push(await runTest('exportIndexTitle', async () => {
+        const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'confluence-export-'));
+        try {
+            const parent = await confluenceHelper.createPage(testSpaceKey, `Export Index ${Date.now()}`, '<p>Parent</p>');
+            createdResources.pages.push(parent.id);
+            const child = await confluenceHelper.createPage(testSpaceKey, 'index', '<p>Child</p>', parent.id);
+            createdResources.pages.push(child.id);
+
+            const result = await exportPages(confluenceHelper, { folder, pageId: parent.id });
+            const expected = [`${parent.title}/index.md`, `${parent.title}/index (${child.id}).md`];
+            if (result.written.slice().sort().join() !== expected.sort().join()) {
+                throw new Error(`Unexpected files: ${result.written.join(', ')}`);
+            }
+            if (!(await fs.readFile(path.join(folder, parent.title, 'index.md'), 'utf8')).includes('Parent')) {
+                throw new Error('The parent page was overwritten by its child');
+            }
+        } finally {
+            await fs.rm(folder, { recursive: true, force: true });
+        }
+    }));
+
+    // Test: Get Child Pages in batches (the published folder left two children below the test page)
+    results.push(await runTest('getChildPagesBatches', async () => {
+        const first = await confluenceHelper.getChildPages(testPageId, 1);
+        const second = await confluenceHelper.getChildPages(testPageId, 1, 1);
+        if (!first.hasMore || second.results.length !== 1 || second.results[0].id === first.results[0].id) {
+            throw new Error('Child pages were not paged one by one');
+        }
+        const withChildren = [...first.results, ...second.results].filter((page: any) => page.childTypes?.page?.value);
+        if (withChildren.length !== 1) {
+            throw new Error(`Expected one child with children of its own, got ${withChildren.length}`);
+        }
+    }));
+
     return results;
 }
 
@@ -291,6 +561,39 @@ async function testPageContext(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Inline comment thread as the page preview shows it (created on text of the page, replied to, resolved, reopened)
+    results.push(await runTest('inlineCommentThread', async () => {
+        const comment = await confluenceHelper.createInlineComment(testPageId, '<p>Is this right?</p>', {
+            textSelection: 'export test',
+            textSelectionMatchCount: 1,
+            textSelectionMatchIndex: 0
+        });
+        await confluenceHelper.createInlineComment(testPageId, '<p>Yes</p>', undefined, comment.id);
+
+        const threads = [];
+        for await (const thread of confluenceHelper.iteratePageInlineComments(testPageId, 'created-date', 'storage')) {
+            threads.push(thread);
+        }
+        const thread = threads.find(found => found.id === comment.id);
+        if (!thread?.body?.storage?.value.includes('Is this right?') || thread.properties?.inlineOriginalSelection !== 'export test') {
+            throw new Error('Inline comment not listed with its body and selection');
+        }
+        const replies = await confluenceHelper.getInlineCommentChildren(comment.id, 'created-date', 25, 'storage');
+        if (replies.results.length !== 1 || !replies.results[0].body?.storage?.value.includes('Yes')) {
+            throw new Error('Reply not listed with its body');
+        }
+
+        const resolved = await confluenceHelper.resolveInlineComment(comment.id, thread.version.number);
+        const reopened = await confluenceHelper.reopenInlineComment(comment.id, resolved.version.number);
+        if (resolved.resolutionStatus !== 'resolved' || reopened.resolutionStatus !== 'reopened') {
+            throw new Error(`Unexpected resolution status: ${resolved.resolutionStatus}, ${reopened.resolutionStatus}`);
+        }
+        const author = await confluenceHelper.getUser(thread.version.authorId);
+        if (!author.displayName) {
+            throw new Error('Comment author not found');
+        }
+    }));
+
     // Test: Create Footer Comment
     results.push(await runTest('createFooterComment', async () => {
         const comment = await confluenceHelper.createFooterComment(
@@ -403,6 +706,16 @@ async function testPageContext(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Upload Attachment
+    results.push(await runTest('uploadAttachment', async () => {
+        const filename = `integration-${Date.now()}.txt`;
+        await confluenceHelper.uploadAttachment(testPageId, filename, Buffer.from('attached by integration tests'), 'text/plain');
+        const attachments = await confluenceHelper.getPageAttachments(testPageId, 50);
+        if (!attachments.results?.some((attachment: any) => attachment.title === filename)) {
+            throw new Error('Uploaded attachment not listed on the page');
+        }
+    }));
+
     return results;
 }
 
@@ -418,6 +731,21 @@ async function testSpaceOperations(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Space keys restrict the frontmatter only when every space was listed
+    results.push(await runTest('pageFrontmatterSchema', async () => {
+        const spaces = await confluenceHelper.getAllSpaces();
+        const keys = spaces.map(space => space.key);
+        const frontmatter = { title: 'Page', spaceKey: 'NOSUCHSPACE' };
+        const complete = validateYaml(frontmatter, buildPageFrontmatterSchema(keys));
+        const partial = buildPageFrontmatterSchema(keys.slice(0, 1), false);
+        if (complete.map(problem => problem.path.join('.')).join() !== 'spaceKey' || validateYaml(frontmatter, partial).length > 0) {
+            throw new Error(`Unexpected problems: ${JSON.stringify(complete)}`);
+        }
+        if (partial.properties?.spaceKey.examples?.join() !== keys[0] || validateYaml({ ...frontmatter, spaceKey: testSpaceKey }, buildPageFrontmatterSchema(keys)).length > 0) {
+            throw new Error('Listed space keys not offered or not accepted');
+        }
+    }));
+
     // Test: Get Space
     results.push(await runTest('getSpace', async () => {
         const space = await confluenceHelper.getSpace(testSpaceKey);
@@ -434,6 +762,53 @@ async function testSpaceOperations(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Get Root Pages, one per batch
+    results.push(await runTest('getRootPages', async () => {
+        const first = await confluenceHelper.getRootPages(testSpaceKey, 1);
+        if (first.results.length !== 1) {
+            throw new Error('Space has no root pages');
+        }
+        if (first.hasMore) {
+            const second = await confluenceHelper.getRootPages(testSpaceKey, 1, 1);
+            if (second.results[0]?.id === first.results[0].id) {
+                throw new Error('Second batch repeated the first');
+            }
+        }
+    }));
+
+    // Test: v1 lists (50 per page) and v2 cursor lists (250 per page) cross page boundaries and stop at the limit
+    if (USING_MOCK_SERVER) {
+        results.push(await runTest('pagination', async () => {
+            const container = await confluenceHelper.createPage(testSpaceKey, `Pagination ${Date.now()}`, '<p>Children follow.</p>', testPageId);
+            createdResources.pages.push(container.id);
+            const children = new Set<string>();
+            for (let i = 0; i < 260; i++) {
+                const child = await confluenceHelper.createPage(testSpaceKey, `${container.title} ${i}`, '<p>Child</p>', container.id);
+                createdResources.pages.push(child.id);
+                children.add(child.id);
+            }
+
+            const listed = await collect(confluenceHelper.iterateChildPages(container.id));
+            if (listed.length !== 260 || new Set(listed.map(page => page.id)).size !== 260) {
+                throw new Error(`Expected 260 child pages across v1 pages, got ${listed.length}`);
+            }
+
+            const space = await confluenceHelper.getSpace(testSpaceKey);
+            const inSpace = (await collect(confluenceHelper.iterateSpacePages(space.id))).filter(page => children.has(page.id));
+            if (inSpace.length !== 260) {
+                throw new Error(`Expected 260 child pages across v2 cursors, got ${inSpace.length}`);
+            }
+
+            const limited = await confluenceHelper.getChildPages(container.id, 60);
+            const rest = await confluenceHelper.getChildPages(container.id, 250, 250);
+            if (limited.results.length !== 60 || !limited.hasMore || rest.results.length !== 10 || rest.hasMore) {
+                throw new Error(`Limit not applied across pages: ${limited.results.length} (more: ${limited.hasMore}), then ${rest.results.length}`);
+            }
+        }));
+    } else {
+        results.push(skipTest('pagination', 'creates 260 pages; runs against the mock server only'));
+    }
+
     // Test: Get User Accessible Spaces
     results.push(await runTest('getUserAccessibleSpaces', async () => {
         const spaces = await confluenceHelper.getUserAccessibleSpaces(10);
@@ -465,6 +840,17 @@ async function testSearchOperations(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Exact title lookup, as page links in the preview resolve
+    results.push(await runTest('findPageByTitle', async () => {
+        const page = await confluenceHelper.findPageByTitle(testSpaceKey, testPageTitle);
+        if (page?.id !== testPageId) {
+            throw new Error(`Expected page ${testPageId}, got ${page?.id}`);
+        }
+        if (await confluenceHelper.findPageByTitle(testSpaceKey, `${testPageTitle} (missing)`)) {
+            throw new Error('Found a page for a title that does not exist');
+        }
+    }));
+
     // Test: Full Text Search
     results.push(await runTest('fullTextSearch', async () => {
         const result = await confluenceHelper.fullTextSearch('test', 5);
@@ -16,12 +16,18 @@
  * - A valid Jira project (default: SCRUM)
  * 
  * Run: npm run test-jira-integration
+ * Offline: npm run test-integration-mock (runs against the mock Atlassian server)
  */
 
 import * as dotenv from 'dotenv';
 import * as path from 'path';
+import * as yaml from 'js-yaml';
 import { JiraHelper } from '../helpers/jiraHelper';
+import { MissingTransitionFieldsError, presetAnswers, screenFields, transitionToStatus } from '../helpers/jiraTransitions';
 import { AtlassianConfig } from '../utils/configLoader';
+import { dumpIssueYaml, issueFieldChanges, issueToYaml, toFieldValue } from '../utils/jiraYamlConverters';
+import { isStale, mergeIssueFields } from '../utils/jiraYamlMerge';
+import { buildIssueYamlSchema, findYamlLine, schemaAt, validateYaml, yamlContextAt } from '../utils/yamlSchema';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
@@ -29,6 +35,7 @@ dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 // Test configuration
 const TEST_PROJECT_KEY = process.env.TEST_PROJECT_KEY || 'SCRUM';
 const TEST_TIMEOUT = 30000;
+const USING_MOCK_SERVER = process.env.ATLASSIAN_MOCK_SERVER === 'true';
 
 interface TestResult {
     name: string;
@@ -85,6 +92,38 @@ function skipTest(testName: string, reason: string): TestResult {
     return { name: testName, passed: true, skipped: true, skipReason: reason };
 }
 
+/**
+ * A transition of the test issue whose screen requires fields that all have allowed values, if the workflow has one
+ */
+async function screenedTransition(): Promise<any | undefined> {
+    const { transitions } = await jiraHelper.getTransitions(testIssueKey);
+    return transitions.find((transition: any) => {
+        const required = requiredScreenFields(transition);
+        return required.length > 0 && required.every(field => field.allowedValues && field.allowedValues.length > 0);
+    });
+}
+
+function requiredScreenFields(transition: any) {
+    return screenFields(transition).filter(field => field.required);
+}
+
+/**
+ * Values for the required fields of a transition screen: the last allowed value of each (a resolution other
+ * than the default, where there is one)
+ */
+function screenAnswers(transition: any): { fields: Record<string, any>; resolution?: string } {
+    const fields: Record<string, any> = {};
+    for (const field of requiredScreenFields(transition)) {
+        fields[field.id] = { id: String(field.allowedValues![field.allowedValues!.length - 1].id) };
+    }
+    const resolution = fields.resolution && allowedName(transition.fields.resolution.allowedValues.find((value: any) => String(value.id) === fields.resolution.id));
+    return { fields, resolution };
+}
+
+function allowedName(value: any): string {
+    return String(value?.name ?? value?.value ?? value?.id);
+}
+
 function printTestResults(groups: TestGroup[]): void {
     console.log('\n' + '='.repeat(80));
     console.log('JIRA TOOLS INTEGRATION TEST RESULTS');
@@ -211,6 +250,85 @@ async function testIssueOperations(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Save YAML edits through the edit metadata (labels, due date and custom fields; read-only ones skipped)
+    results.push(await runTest('issueFieldChanges', async () => {
+        const issue = await jiraHelper.getIssue(testIssueKey);
+        const data = yaml.load(issueToYaml(issue)) as any;
+        data.fields.labels = ['yaml-edit'];
+        data.fields.duedate = '2030-01-31';
+
+        // Custom field IDs differ per site: an editable number field, if the issue has one, and a field editmeta
+        // does not offer (one the issue has, such as the sprint on many sites, or else one that does not exist)
+        const editMeta = await jiraHelper.getEditMetadata(testIssueKey);
+        const numberField = Object.keys(editMeta.fields).find(id => id.startsWith('customfield_') && editMeta.fields[id].schema?.type === 'number');
+        const readOnlyField = Object.keys(issue.fields).find(id => id.startsWith('customfield_') && !editMeta.fields[id]) || 'customfield_99999';
+        if (numberField) {
+            data.fields[numberField] = '5';
+        }
+        data.fields[readOnlyField] = ['Edited in YAML'];
+
+        const { fields, skipped } = issueFieldChanges(dumpIssueYaml(data), issue, editMeta.fields);
+        if (skipped.map(field => field.field).join() !== readOnlyField || 'summary' in fields) {
+            throw new Error(`Unexpected changes: ${JSON.stringify({ fields, skipped })}`);
+        }
+        await jiraHelper.updateIssue(testIssueKey, fields);
+
+        const updated = await jiraHelper.getIssue(testIssueKey);
+        if (updated.fields.labels?.join() !== 'yaml-edit' || updated.fields.duedate !== '2030-01-31' || (numberField && updated.fields[numberField] !== 5)) {
+            throw new Error('Fields were not saved in the shapes Jira expects');
+        }
+        if (USING_MOCK_SERVER && numberField !== 'customfield_10016') {
+            throw new Error(`Story points not found by their metadata: ${numberField}`);
+        }
+
+        // User pickers take the site's reference: the username on Data Center
+        const pickers = toFieldValue(['jdoe'], { schema: { type: 'array', items: 'user' } }, user => ({ name: user.name || '' }));
+        if (JSON.stringify(pickers) !== '[{"name":"jdoe"}]' || JSON.stringify(toFieldValue('abc-123', { schema: { type: 'user' } })) !== '{"accountId":"abc-123"}') {
+            throw new Error(`User fields not referenced per deployment: ${JSON.stringify(pickers)}`);
+        }
+    }));
+
+    // Test: Edits made on Jira and in the YAML since it was loaded are merged field by field
+    results.push(await runTest('mergeIssueFields', async () => {
+        const issue = await jiraHelper.getIssue(testIssueKey);
+        const baseYaml = issueToYaml(issue);
+        const base = yaml.load(baseYaml) as any;
+        const edit = (fields: Record<string, any>) => dumpIssueYaml({ ...base, fields: { ...base.fields, ...fields } });
+        if (isStale(baseYaml, issue) || !isStale(edit({ updated: '2001-01-01T00:00:00.000+0000' }), issue)) {
+            throw new Error('Staleness not judged by the recorded updated timestamp');
+        }
+
+        const later = '2031-01-01T00:00:00.000+0000';
+        const serverYaml = edit({ summary: 'Changed on Jira', labels: ['server'], updated: later });
+        const oneSided = mergeIssueFields(baseYaml, serverYaml, edit({ duedate: '2031-02-01' }));
+        if (oneSided.conflicts.length > 0 || oneSided.fields.summary !== 'Changed on Jira' || oneSided.fields.labels.join() !== 'server'
+            || oneSided.fields.duedate !== '2031-02-01' || oneSided.fields.updated !== later) {
+            throw new Error(`Server-only and local-only changes not both kept: ${JSON.stringify(oneSided)}`);
+        }
+
+        const conflicting = mergeIssueFields(baseYaml, serverYaml, edit({ summary: 'Changed in YAML', duedate: '2031-02-01' }));
+        if (conflicting.conflicts.map(conflict => conflict.field).join() !== 'summary' || conflicting.fields.summary !== 'Changed in YAML'
+            || conflicting.conflicts[0].server !== 'Changed on Jira' || conflicting.conflicts[0].base !== base.fields.summary) {
+            throw new Error(`Conflict not reported with both sides: ${JSON.stringify(conflicting.conflicts)}`);
+        }
+
+        // Without a usable base every difference is a conflict: no snapshot, or one of another version than the YAML
+        const localYaml = edit({ duedate: '2031-02-01' });
+        const otherBase = edit({ updated: '2001-01-01T00:00:00.000+0000' });
+        for (const [name, snapshot] of [['no snapshot', undefined], ['another version', otherBase]] as const) {
+            const merged = mergeIssueFields(snapshot, serverYaml, localYaml);
+            if (merged.conflicts.map(conflict => conflict.field).sort().join() !== 'duedate,labels,summary' || merged.fields.updated !== later) {
+                throw new Error(`Differences with ${name} not all conflicts: ${JSON.stringify(merged.conflicts)}`);
+            }
+        }
+
+        // Jira's timestamps are never taken from the YAML
+        const timestamps = mergeIssueFields(baseYaml, baseYaml, edit({ created: '2001-01-01T00:00:00.000+0000', updated: later }));
+        if (timestamps.fields.created !== base.fields.created || timestamps.fields.updated !== base.fields.updated || timestamps.conflicts.length > 0) {
+            throw new Error(`Timestamps not taken from Jira: ${JSON.stringify(timestamps.fields)}`);
+        }
+    }));
+
     // Test: Get Issue Transitions
     results.push(await runTest('getTransitions', async () => {
         const transitions = await jiraHelper.getTransitions(testIssueKey);
@@ -230,6 +348,93 @@ async function testIssueOperations(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: A status edited in the YAML is reached through transitions, with the screen fields asked for
+    results.push(await runTest('transitionToStatus', async () => {
+        const issue = await jiraHelper.getIssue(testIssueKey);
+        const original = issue.fields.status.name;
+        const data = yaml.load(issueToYaml(issue)) as any;
+        const { status, fields } = issueFieldChanges(dumpIssueYaml({ ...data, fields: { ...data.fields, status: 'Another Status' } }), issue, {});
+        if (status !== 'Another Status' || 'status' in fields) {
+            throw new Error(`Status change not detected: ${JSON.stringify({ status, fields })}`);
+        }
+
+        // A transition without required screen fields runs without asking
+        const plain = (await jiraHelper.getTransitions(testIssueKey)).transitions.find((transition: any) => requiredScreenFields(transition).length === 0);
+        if (!plain) {
+            throw new Error('No transition without required fields');
+        }
+        const moved = await transitionToStatus(jiraHelper, testIssueKey, plain.to.name);
+        if (moved.status !== plain.to.name || moved.cancelled) {
+            throw new Error(`Issue not moved to ${plain.to.name}: ${JSON.stringify(moved)}`);
+        }
+
+        // The workflow of the site decides whether a transition screen requires fields (the mock's Done needs a resolution)
+        const screened = await screenedTransition();
+        if (screened) {
+            const unanswered = await transitionToStatus(jiraHelper, testIssueKey, screened.to.name).then(() => undefined, (error: Error) => error);
+            if (!(unanswered instanceof MissingTransitionFieldsError)) {
+                throw new Error(`Required screen fields were not reported: ${unanswered?.message}`);
+            }
+
+            let asked: string[] = [];
+            const answers = screenAnswers(screened);
+            const result = await transitionToStatus(jiraHelper, testIssueKey, screened.to.name, {
+                screenFields: async (_transition, required) => {
+                    asked = required.map(field => field.id);
+                    return {
+                        fields: answers.fields,
+                        update: screened.fields.comment ? { comment: [{ add: { body: 'Moved from the status in the YAML.' } }] } : undefined
+                    };
+                }
+            });
+            const after = await jiraHelper.getIssue(testIssueKey);
+            if (result.status !== screened.to.name || asked.join() !== requiredScreenFields(screened).map(field => field.id).join()) {
+                throw new Error(`Issue not moved with the screen fields: ${JSON.stringify({ result, asked })}`);
+            }
+            if (answers.resolution && after.fields.resolution?.name !== answers.resolution) {
+                throw new Error(`Resolution ${answers.resolution} not set: ${JSON.stringify(after.fields.resolution)}`);
+            }
+            const comments = await jiraHelper.getComments(testIssueKey);
+            if (screened.fields.comment && !JSON.stringify(comments.comments).includes('Moved from the status in the YAML.')) {
+                throw new Error('The transition comment was not added');
+            }
+        } else if (USING_MOCK_SERVER) {
+            throw new Error('The mock workflow has no transition with required screen fields');
+        }
+
+        await transitionToStatus(jiraHelper, testIssueKey, original);
+    }));
+
+    // Test: Screen fields given up front (as the transition tool does), with the missing required ones listed
+    results.push(await runTest('transitionScreenFields', async () => {
+        const original = (await jiraHelper.getIssue(testIssueKey)).fields.status.name;
+        const screened = await screenedTransition();
+        if (!screened) {
+            if (USING_MOCK_SERVER) {
+                throw new Error('Transition screen fields were not expanded');
+            }
+            return;
+        }
+        const required = requiredScreenFields(screened);
+
+        const missing = await transitionToStatus(jiraHelper, testIssueKey, screened.to.name, presetAnswers(jiraHelper, testIssueKey)).then(() => undefined, (error: Error) => error);
+        if (!(missing instanceof MissingTransitionFieldsError) || missing.fields.map(field => field.id).join() !== required.map(field => field.id).join()) {
+            throw new Error(`Missing fields were not listed: ${missing?.message}`);
+        }
+
+        // Given by field name, as a language model would
+        const { fields, resolution } = screenAnswers(screened);
+        const byName = Object.fromEntries(required.map(field => [field.name, allowedName(field.allowedValues!.find(value => value.id === fields[field.id].id))]));
+        const answers = presetAnswers(jiraHelper, testIssueKey, byName, 'Moved by the transition tool.');
+        const result = await transitionToStatus(jiraHelper, testIssueKey, screened.to.name, answers);
+        const after = await jiraHelper.getIssue(testIssueKey);
+        if (result.status !== screened.to.name || (resolution && after.fields.resolution?.name !== resolution) || answers.commentAdded !== Boolean(screened.fields.comment)) {
+            throw new Error(`Issue not moved with the given fields: ${JSON.stringify({ result, resolution: after.fields.resolution })}`);
+        }
+
+        await transitionToStatus(jiraHelper, testIssueKey, original);
+    }));
+
     // Test: Assign Issue
     results.push(await runTest('assignIssue', async () => {
         await jiraHelper.assignIssue(testIssueKey, currentUserId);
@@ -239,6 +444,33 @@ async function testIssueOperations(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: People edited in the YAML are found by the edited key and saved as user references
+    results.push(await runTest('personChanges', async () => {
+        const issue = await jiraHelper.getIssue(testIssueKey);
+        const data = yaml.load(issueToYaml(issue)) as any;
+        if (data.fields.assigneeId !== currentUserId) {
+            throw new Error(`Assignee account ID not in the YAML: ${data.fields.assigneeId}`);
+        }
+
+        const cleared = issueFieldChanges(dumpIssueYaml({ ...data, fields: { ...data.fields, assignee: '', assigneeEmail: '', assigneeId: '' } }), issue, {});
+        const renamed = issueFieldChanges(dumpIssueYaml({ ...data, fields: { ...data.fields, reporter: 'Someone Else' } }), issue, {});
+        if (JSON.stringify(cleared.people) !== JSON.stringify([{ field: 'assignee', by: 'id', value: '' }])
+            || JSON.stringify(renamed.people) !== JSON.stringify([{ field: 'reporter', by: 'name', value: 'Someone Else' }])) {
+            throw new Error(`Unexpected people: ${JSON.stringify([cleared.people, renamed.people])}`);
+        }
+
+        const matches = await jiraHelper.searchUsers(data.fields.assignee);
+        const match = matches.find(user => user.displayName === data.fields.assignee);
+        if (!match) {
+            throw new Error(`No user found by name ${data.fields.assignee}`);
+        }
+        await jiraHelper.updateIssue(testIssueKey, { reporter: jiraHelper.userReference(match) });
+        const updated = await jiraHelper.getIssue(testIssueKey);
+        if (updated.fields.reporter?.accountId !== currentUserId) {
+            throw new Error('Reporter was not saved from the looked-up user');
+        }
+    }));
+
     return results;
 }
 
@@ -521,6 +753,15 @@ async function testEpicManagement(): Promise<TestResult[]> {
         await jiraHelper.addIssueToEpic(testEpicKey, testIssueKey);
     }));
 
+    // Test: Epic progress counts the children of every epic (searched a few epics at a time)
+    results.push(await runTest('getEpicsProgress', async () => {
+        const epics = await jiraHelper.getEpicsProgress(TEST_PROJECT_KEY);
+        const entry = epics.find(candidate => candidate.epic.key === testEpicKey);
+        if (!entry || entry.progress.total < 1) {
+            throw new Error(`Progress of ${testEpicKey} missing or without its child: ${JSON.stringify(entry?.progress)}`);
+        }
+    }));
+
     // Test: Remove Issue from Epic
     results.push(await runTest('removeIssueFromEpic', async () => {
         await jiraHelper.removeIssueFromEpic(testIssueKey);
@@ -541,6 +782,34 @@ async function testSearchMetadata(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Searches cross page boundaries (100 issues per page) and stop at the requested limit
+    if (USING_MOCK_SERVER) {
+        results.push(await runTest('searchPagination', async () => {
+            const marker = `pagination-${Date.now()}`;
+            for (let i = 0; i < 105; i++) {
+                const issue = await jiraHelper.createIssue(TEST_PROJECT_KEY, `${marker} ${i}`);
+                createdResources.issues.push(issue.key);
+            }
+            const jql = `project = ${TEST_PROJECT_KEY} AND summary ~ "${marker}"`;
+
+            const keys = new Set<string>();
+            for await (const issue of jiraHelper.iterateIssues(jql, 'summary')) {
+                keys.add(issue.key);
+            }
+            const all = await jiraHelper.searchIssues(jql, 200);
+            if (keys.size !== 105 || all.issues.length !== 105 || !all.isLast) {
+                throw new Error(`Expected 105 issues across pages, got ${keys.size} iterated and ${all.issues.length} searched`);
+            }
+
+            const limited = await jiraHelper.searchIssues(jql, 101);
+            if (limited.issues.length !== 101 || limited.isLast) {
+                throw new Error(`Limit not applied across pages: ${limited.issues.length} issues, isLast ${limited.isLast}`);
+            }
+        }));
+    } else {
+        results.push(skipTest('searchPagination', 'creates 105 issues; runs against the mock server only'));
+    }
+
     // Test: Get Create Metadata
     results.push(await runTest('getCreateMetadata', async () => {
         const metadata = await jiraHelper.getCreateMetadata([TEST_PROJECT_KEY]);
@@ -573,6 +842,28 @@ async function testSearchMetadata(): Promise<TestResult[]> {
         }
     }));
 
+    // Test: Issue YAML schema from the project metadata flags typos on the right line and completes their values
+    results.push(await runTest('issueYamlSchema', async () => {
+        const [createMeta, priorities, statuses] = await Promise.all([
+            jiraHelper.getCreateMetadata([TEST_PROJECT_KEY]),
+            jiraHelper.getPriorities(),
+            jiraHelper.getProjectStatuses(TEST_PROJECT_KEY)
+        ]);
+        const schema = buildIssueYamlSchema(createMeta, priorities, statuses);
+        const text = `key: ${TEST_PROJECT_KEY}-1\nfields:\n  summary: Typos\n  priority: Hihg\n  labels:\n    - ok\n    - two words\n  duedate: 31/01/2030\n`;
+        const lines = text.split('\n');
+
+        const problems = validateYaml(yaml.load(text), schema).map(problem => `${findYamlLine(lines, problem.path)}: ${problem.path.join('.')}`);
+        if (problems.join() !== '3: fields.priority,6: fields.labels.1,7: fields.duedate') {
+            throw new Error(`Unexpected problems: ${problems.join(', ')}`);
+        }
+        const context = yamlContextAt(lines, 3, lines[3].length);
+        const values = schemaAt(schema, context.path)?.enum || [];
+        if (context.path.join('.') !== 'fields.priority' || context.valueStart !== 12 || !values.includes(priorities[0].name)) {
+            throw new Error(`Unexpected completion context: ${JSON.stringify(context)}`);
+        }
+    }));
+
     // Test: Search Users
     results.push(await runTest('searchUsers', async () => {
         const users = await jiraHelper.searchUsers('');
@@ -6,8 +6,8 @@
  * 
  * Group 1: Page Operations (CRUD)
  *   - searchConfluencePages, getConfluencePage, createConfluencePage, updateConfluencePage, deleteConfluencePage
- *   - getConfluencePageHistory, getConfluencePageVersion, getConfluenceChildPages, getConfluencePageAncestors
- *   - copyConfluencePage, moveConfluencePage
+ *   - getConfluencePageHistory, getConfluencePageVersion, restoreConfluencePageVersion, getConfluenceChildPages, getConfluencePageAncestors
+ *   - copyConfluencePage, moveConfluencePage, publishConfluenceFolder, copyConfluencePageTree
  * 
  * Group 2: Page Context (Comments, Labels, Attachments)
  *   - getConfluencePageComments, getConfluencePageFooterComments, getConfluencePageInlineComments
@@ -28,11 +28,15 @@
  */
 
 import * as vscode from 'vscode';
-import { ConfluenceHelper } from '../helpers/confluenceHelper';
+import * as path from 'path';
+import { HelperRegistry, SiteInput } from '../utils/helperRegistry';
+import { AtlassianApiError } from '../helpers/atlassianClient';
+import { publishFolder } from '../helpers/confluencePublisher';
+import { copyPageTree } from '../helpers/confluencePageCopier';
 import { handleToolError, createSuccessResult } from '../utils/errorHandler';
 import { formatConfluencePage, formatConfluencePageSummary } from '../utils/formatters';
 
-export function registerConfluenceTools(context: vscode.ExtensionContext, helper: ConfluenceHelper | null): void {
+export function registerConfluenceTools(context: vscode.ExtensionContext, helpers: HelperRegistry): void {
 
     // =============================================================================
     // GROUP 1: PAGE OPERATIONS (CRUD)
@@ -40,9 +44,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Search Confluence Pages Tool
     const searchConfluencePagesTool = vscode.lm.registerTool('searchConfluencePages', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ cql: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { cql: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { cql, limit = 25 } = options.input;
@@ -58,9 +63,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Confluence Page Tool
     const getConfluencePageTool = vscode.lm.registerTool('getConfluencePage', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId } = options.input;
@@ -77,9 +83,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Create Confluence Page Tool
     const createConfluencePageTool = vscode.lm.registerTool('createConfluencePage', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ spaceKey: string; title: string; content: string; parentId?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { spaceKey: string; title: string; content: string; parentId?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { spaceKey, title, content, parentId } = options.input;
@@ -96,9 +103,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Update Confluence Page Tool
     const updateConfluencePageTool = vscode.lm.registerTool('updateConfluencePage', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; title: string; content: string; version?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; title: string; content: string; version?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, title, content, version: providedVersion } = options.input;
@@ -119,7 +127,7 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
                 return createSuccessResult({ message: `Page updated: ${title}`, page, formatted });
             } catch (error) {
                 // If version conflict, retry with fresh version
-                if (error instanceof Error && error.message.includes('Version must be incremented')) {
+                if (error instanceof AtlassianApiError && (error.statusCode === 409 || error.message.includes('Version must be incremented'))) {
                     try {
                         const currentPage = await helper.getPage(pageId);
                         const currentVersion = currentPage.version?.number;
@@ -140,9 +148,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Delete Confluence Page Tool
     const deleteConfluencePageTool = vscode.lm.registerTool('deleteConfluencePage', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId } = options.input;
@@ -157,9 +166,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page History Tool
     const getPageHistoryTool = vscode.lm.registerTool('getConfluencePageHistory', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, limit = 25 } = options.input;
@@ -174,9 +184,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page Version Tool
     const getPageVersionTool = vscode.lm.registerTool('getConfluencePageVersion', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; version: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; version: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, version } = options.input;
@@ -190,11 +201,31 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
         }
     });
 
+    // Restore Page Version Tool
+    const restorePageVersionTool = vscode.lm.registerTool('restoreConfluencePageVersion', {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; version: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
+            if (!helper) {
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
+            }
+
+            const { pageId, version } = options.input;
+            try {
+                const page = await helper.restorePageVersion(pageId, version);
+                const formatted = formatConfluencePage(page);
+                return createSuccessResult({ message: `Restored version ${version} as version ${page.version?.number}`, page, formatted });
+            } catch (error) {
+                return handleToolError(error, `Failed to restore version ${version} of page ${pageId}`);
+            }
+        }
+    });
+
     // Get Child Pages Tool
     const getChildPagesTool = vscode.lm.registerTool('getConfluenceChildPages', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, limit = 25 } = options.input;
@@ -210,9 +241,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page Ancestors Tool
     const getPageAncestorsTool = vscode.lm.registerTool('getConfluencePageAncestors', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId } = options.input;
@@ -227,9 +259,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Copy Page Tool
     const copyPageTool = vscode.lm.registerTool('copyConfluencePage', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; targetSpaceKey: string; newTitle: string; targetParentId?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; targetSpaceKey: string; newTitle: string; targetParentId?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, targetSpaceKey, newTitle, targetParentId } = options.input;
@@ -245,9 +278,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Move Page Tool
     const movePageTool = vscode.lm.registerTool('moveConfluencePage', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; targetSpaceKey: string; targetParentId?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; targetSpaceKey: string; targetParentId?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, targetSpaceKey, targetParentId } = options.input;
@@ -261,15 +295,56 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
         }
     });
 
+    // Publish Markdown Folder Tool
+    const publishFolderTool = vscode.lm.registerTool('publishConfluenceFolder', {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { folder: string; spaceKey: string; parentId: string; force?: boolean }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
+            if (!helper) {
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
+            }
+
+            const { spaceKey, parentId, force = false } = options.input;
+            // Relative folders are taken from the first workspace folder
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+            const folder = path.resolve(workspaceRoot, options.input.folder);
+            try {
+                const result = await publishFolder(helper, { folder, spaceKey, parentId, force });
+                return createSuccessResult({ ...result, message: `Published ${folder} below page ${parentId}` });
+            } catch (error) {
+                return handleToolError(error, `Failed to publish folder ${folder}`);
+            }
+        }
+    });
+
+    // Copy Page Tree Tool
+    const copyPageTreeTool = vscode.lm.registerTool('copyConfluencePageTree', {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; targetSpaceKey: string; targetParentId?: string; titlePrefix?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
+            if (!helper) {
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
+            }
+
+            const { pageId, targetSpaceKey, targetParentId, titlePrefix } = options.input;
+            try {
+                const result = await copyPageTree(helper, { pageId, targetSpaceKey, targetParentId, titlePrefix });
+                const count = Object.keys(result.pages).length;
+                return createSuccessResult({ ...result, message: `Copied ${count} page(s) to space ${targetSpaceKey}` });
+            } catch (error) {
+                return handleToolError(error, `Failed to copy page tree ${pageId}`);
+            }
+        }
+    });
+
     // =============================================================================
     // GROUP 2: PAGE CONTEXT (Comments, Labels, Attachments)
     // =============================================================================
 
     // Get Page Comments Tool (v1 API - legacy)
     const getConfluencePageCommentsTool = vscode.lm.registerTool('getConfluencePageComments', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; depth?: string; location?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; depth?: string; location?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, depth, location } = options.input;
@@ -284,9 +359,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page Footer Comments (v2 API)
     const getPageFooterCommentsTool = vscode.lm.registerTool('getConfluencePageFooterComments', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; sort?: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; sort?: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, sort, limit = 25 } = options.input;
@@ -301,9 +377,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page Inline Comments (v2 API)
     const getPageInlineCommentsTool = vscode.lm.registerTool('getConfluencePageInlineComments', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; sort?: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; sort?: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, sort, limit = 25 } = options.input;
@@ -318,9 +395,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Create Footer Comment Tool (v2 API)
     const createFooterCommentTool = vscode.lm.registerTool('createConfluenceFooterComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; body: string; parentCommentId?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; body: string; parentCommentId?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, body, parentCommentId } = options.input;
@@ -336,9 +414,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Update Footer Comment Tool (v2 API)
     const updateFooterCommentTool = vscode.lm.registerTool('updateConfluenceFooterComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ commentId: string; body: string; version: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { commentId: string; body: string; version: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { commentId, body, version } = options.input;
@@ -353,9 +432,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Delete Footer Comment Tool (v2 API)
     const deleteFooterCommentTool = vscode.lm.registerTool('deleteConfluenceFooterComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ commentId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { commentId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { commentId } = options.input;
@@ -370,9 +450,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Footer Comment Tool (v2 API)
     const getFooterCommentTool = vscode.lm.registerTool('getConfluenceFooterComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ commentId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { commentId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { commentId } = options.input;
@@ -387,9 +468,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Resolve Inline Comment Tool (v2 API)
     const resolveInlineCommentTool = vscode.lm.registerTool('resolveConfluenceInlineComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ commentId: string; version: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { commentId: string; version: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { commentId, version } = options.input;
@@ -404,9 +486,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Reopen Inline Comment Tool (v2 API)
     const reopenInlineCommentTool = vscode.lm.registerTool('reopenConfluenceInlineComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ commentId: string; version: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { commentId: string; version: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { commentId, version } = options.input;
@@ -421,9 +504,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Inline Comment Tool (v2 API)
     const getInlineCommentTool = vscode.lm.registerTool('getConfluenceInlineComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ commentId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { commentId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { commentId } = options.input;
@@ -438,9 +522,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page Labels Tool
     const getPageLabelsTool = vscode.lm.registerTool('getConfluencePageLabels', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId } = options.input;
@@ -455,9 +540,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Add Page Label Tool
     const addPageLabelTool = vscode.lm.registerTool('addConfluencePageLabel', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; label: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; label: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, label } = options.input;
@@ -472,9 +558,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Remove Page Label Tool
     const removePageLabelTool = vscode.lm.registerTool('removeConfluencePageLabel', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; label: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; label: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, label } = options.input;
@@ -489,9 +576,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page Attachments Tool
     const getPageAttachmentsTool = vscode.lm.registerTool('getConfluencePageAttachments', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId, limit = 25 } = options.input;
@@ -510,9 +598,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Spaces Tool
     const getSpacesTool = vscode.lm.registerTool('getConfluenceSpaces', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { limit = 100 } = options.input;
@@ -527,9 +616,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Space Tool
     const getSpaceTool = vscode.lm.registerTool('getConfluenceSpace', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ spaceKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { spaceKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { spaceKey } = options.input;
@@ -544,9 +634,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Space Pages Tool
     const getSpacePagesTool = vscode.lm.registerTool('getConfluenceSpacePages', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ spaceKey: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { spaceKey: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { spaceKey, limit = 25 } = options.input;
@@ -566,9 +657,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Search Confluence by Jira Key Tool
     const searchConfluenceByJiraKeyTool = vscode.lm.registerTool('searchConfluenceByJiraKey', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ jiraKey: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { jiraKey: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { jiraKey, limit = 20 } = options.input;
@@ -584,9 +676,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Search Confluence by Title Tool
     const searchByTitleTool = vscode.lm.registerTool('searchConfluenceByTitle', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ title: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { title: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { title, limit = 25 } = options.input;
@@ -602,9 +695,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Full Text Search Tool
     const fullTextSearchTool = vscode.lm.registerTool('fullTextSearchConfluence', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ query: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { query: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { query, limit = 25 } = options.input;
@@ -620,9 +714,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Recently Updated Pages Tool
     const getRecentlyUpdatedTool = vscode.lm.registerTool('getConfluenceRecentlyUpdated', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { limit = 25 } = options.input;
@@ -638,9 +733,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get My Created Pages Tool
     const getMyCreatedPagesTool = vscode.lm.registerTool('getConfluenceMyCreatedPages', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { limit = 25 } = options.input;
@@ -656,9 +752,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get My Contributed Pages Tool
     const getMyContributedPagesTool = vscode.lm.registerTool('getConfluenceMyContributedPages', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { limit = 25 } = options.input;
@@ -678,9 +775,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Current User Tool
     const getCurrentUserTool = vscode.lm.registerTool('getConfluenceCurrentUser', {
-        async invoke(_options: vscode.LanguageModelToolInvocationOptions<Record<string, never>>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             try {
@@ -694,9 +792,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Search Users Tool
     const searchUsersTool = vscode.lm.registerTool('searchConfluenceUsers', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ query: string; limit?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { query: string; limit?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { query, limit = 25 } = options.input;
@@ -711,9 +810,10 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
 
     // Get Page Watchers Tool
     const getPageWatchersTool = vscode.lm.registerTool('getConfluencePageWatchers', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ pageId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { pageId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getConfluenceHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Confluence is not configured'));
+                return handleToolError(helpers.missingHelperError('Confluence', options.input.site));
             }
 
             const { pageId } = options.input;
@@ -739,10 +839,13 @@ export function registerConfluenceTools(context: vscode.ExtensionContext, helper
         deleteConfluencePageTool,
         getPageHistoryTool,
         getPageVersionTool,
+        restorePageVersionTool,
         getChildPagesTool,
         getPageAncestorsTool,
         copyPageTool,
         movePageTool,
+        publishFolderTool,
+        copyPageTreeTool,
 
         // Group 2: Page Context
         getConfluencePageCommentsTool,
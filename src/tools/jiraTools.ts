@@ -12,11 +12,13 @@
  */
 
 import * as vscode from 'vscode';
-import { JiraHelper } from '../helpers/jiraHelper';
-import { handleToolError, createSuccessResult } from '../utils/errorHandler';
+import { markdownToAdf, richTextToMarkdown } from '../helpers/adfMarkdown';
+import { MissingTransitionFieldsError, presetAnswers, transitionToStatus } from '../helpers/jiraTransitions';
+import { HelperRegistry, SiteInput } from '../utils/helperRegistry';
+import { handleToolError, createErrorResult, createSuccessResult } from '../utils/errorHandler';
 import { formatJiraIssue, formatJiraIssueSummary } from '../utils/formatters';
 
-export function registerJiraTools(context: vscode.ExtensionContext, helper: JiraHelper | null): void {
+export function registerJiraTools(context: vscode.ExtensionContext, helpers: HelperRegistry): void {
     const tools: vscode.Disposable[] = [];
 
     // =========================================================================
@@ -25,9 +27,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Issue Tool
     tools.push(vscode.lm.registerTool('getJiraIssue', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -42,9 +45,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Create Jira Issue Tool
     tools.push(vscode.lm.registerTool('createJiraIssue', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string; summary: string; issueType?: string; description?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string; summary: string; issueType?: string; description?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey, summary, issueType = 'Task', description } = options.input;
             try {
@@ -59,13 +63,18 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Update Jira Issue Tool
     tools.push(vscode.lm.registerTool('updateJiraIssue', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; fields: any }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; fields: any }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, fields } = options.input;
             try {
-                await helper.updateIssue(issueKey, fields);
+                // A Markdown description is converted to ADF; ADF documents pass through
+                const converted = typeof fields?.description === 'string'
+                    ? { ...fields, description: markdownToAdf(fields.description) }
+                    : fields;
+                await helper.updateIssue(issueKey, converted);
                 return createSuccessResult({ message: `Updated issue ${issueKey}` });
             } catch (error) {
                 return handleToolError(error, `Failed to update Jira issue ${issueKey}`);
@@ -75,9 +84,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Delete Jira Issue Tool
     tools.push(vscode.lm.registerTool('deleteJiraIssue', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; deleteSubtasks?: boolean }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; deleteSubtasks?: boolean }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, deleteSubtasks = false } = options.input;
             try {
@@ -91,9 +101,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Assign Jira Issue Tool
     tools.push(vscode.lm.registerTool('assignJiraIssue', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; accountId: string | null }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; accountId: string | null }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, accountId } = options.input;
             try {
@@ -108,9 +119,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Transitions Tool
     tools.push(vscode.lm.registerTool('getJiraTransitions', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -124,15 +136,36 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Transition Jira Issue Tool
     tools.push(vscode.lm.registerTool('transitionJiraIssue', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; transitionId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; status: string; fields?: Record<string, any>; comment?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
-            const { issueKey, transitionId } = options.input;
+            const { issueKey, status, fields, comment } = options.input;
             try {
-                await helper.transitionIssue(issueKey, transitionId);
-                return createSuccessResult({ message: `Transitioned issue ${issueKey}` });
+                const answers = presetAnswers(helper, issueKey, fields, comment);
+                const result = await transitionToStatus(helper, issueKey, status, answers);
+                // A comment no transition screen took is added on its own
+                if (comment?.trim() && !answers.commentAdded) {
+                    await helper.addCommentADF(issueKey, markdownToAdf(comment));
+                }
+                return createSuccessResult({
+                    message: result.transitions.length > 0 ? `Transitioned issue ${issueKey} to ${result.status}` : `${issueKey} is already in ${result.status}`,
+                    status: result.status,
+                    transitions: result.transitions
+                });
             } catch (error) {
+                if (error instanceof MissingTransitionFieldsError) {
+                    return createErrorResult(`Failed to transition issue ${issueKey}: ${error.message}`, {
+                        transition: error.transition,
+                        missingFields: error.fields.map(field => ({
+                            id: field.id,
+                            name: field.name,
+                            type: field.schema?.type,
+                            ...(field.allowedValues && { allowedValues: field.allowedValues.map(value => value.name ?? value.value ?? value.id) })
+                        }))
+                    });
+                }
                 return handleToolError(error, `Failed to transition issue ${issueKey}`);
             }
         }
@@ -144,9 +177,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Issue Links Tool
     tools.push(vscode.lm.registerTool('getJiraIssueLinks', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -165,9 +199,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Create Jira Issue Link Tool
     tools.push(vscode.lm.registerTool('createJiraIssueLink', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ inwardIssue: string; outwardIssue: string; linkType: string; comment?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { inwardIssue: string; outwardIssue: string; linkType: string; comment?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { inwardIssue, outwardIssue, linkType, comment } = options.input;
             try {
@@ -181,9 +216,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Gather Jira Issue Context Tool
     tools.push(vscode.lm.registerTool('gatherJiraIssueContext', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -203,14 +239,16 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Comments Tool
     tools.push(vscode.lm.registerTool('getJiraComments', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; maxResults?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; maxResults?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, maxResults = 50 } = options.input;
             try {
                 const result = await helper.getComments(issueKey, 0, maxResults);
-                return createSuccessResult({ comments: result.comments, total: result.total });
+                const comments = result.comments.map((comment: any) => ({ ...comment, body: richTextToMarkdown(comment.body) }));
+                return createSuccessResult({ comments, total: result.total });
             } catch (error) {
                 return handleToolError(error, `Failed to get comments for ${issueKey}`);
             }
@@ -219,9 +257,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Create Jira Comment Tool
     tools.push(vscode.lm.registerTool('createJiraComment', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; comment: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; comment: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, comment } = options.input;
             try {
@@ -235,9 +274,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Worklogs Tool
     tools.push(vscode.lm.registerTool('getJiraWorklogs', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; maxResults?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; maxResults?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, maxResults = 1000 } = options.input;
             try {
@@ -251,9 +291,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Add Worklog Tool
     tools.push(vscode.lm.registerTool('addJiraWorklog', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; timeSpent: string; started?: string; comment?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; timeSpent: string; started?: string; comment?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, timeSpent, started, comment } = options.input;
             try {
@@ -267,9 +308,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Changelog Tool
     tools.push(vscode.lm.registerTool('getJiraChangelog', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; maxResults?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; maxResults?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, maxResults = 100 } = options.input;
             try {
@@ -283,9 +325,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Attachments Tool
     tools.push(vscode.lm.registerTool('getJiraAttachments', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -299,9 +342,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Watchers Tool
     tools.push(vscode.lm.registerTool('getJiraWatchers', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -315,9 +359,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Add Watcher Tool
     tools.push(vscode.lm.registerTool('addJiraWatcher', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string; accountId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string; accountId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey, accountId } = options.input;
             try {
@@ -331,9 +376,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Votes Tool
     tools.push(vscode.lm.registerTool('getJiraVotes', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -351,9 +397,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Jira Project Tool
     tools.push(vscode.lm.registerTool('getJiraProject', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string; expand?: string[] }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string; expand?: string[] }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey, expand } = options.input;
             try {
@@ -367,9 +414,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Project Summary Tool
     tools.push(vscode.lm.registerTool('getProjectSummary', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey } = options.input;
             try {
@@ -391,9 +439,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Project Components Tool
     tools.push(vscode.lm.registerTool('getProjectComponents', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey } = options.input;
             try {
@@ -407,9 +456,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Create Project Component Tool
     tools.push(vscode.lm.registerTool('createProjectComponent', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string; name: string; description?: string; leadAccountId?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string; name: string; description?: string; leadAccountId?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey, name, description, leadAccountId } = options.input;
             try {
@@ -423,9 +473,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Update Project Component Tool
     tools.push(vscode.lm.registerTool('updateProjectComponent', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ componentId: string; name?: string; description?: string; leadAccountId?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { componentId: string; name?: string; description?: string; leadAccountId?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { componentId, name, description, leadAccountId } = options.input;
             try {
@@ -439,9 +490,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Delete Project Component Tool
     tools.push(vscode.lm.registerTool('deleteProjectComponent', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ componentId: string; moveIssuesTo?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { componentId: string; moveIssuesTo?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { componentId, moveIssuesTo } = options.input;
             try {
@@ -455,9 +507,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Project Statuses Tool
     tools.push(vscode.lm.registerTool('getProjectStatuses', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey } = options.input;
             try {
@@ -475,9 +528,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Project Versions Tool
     tools.push(vscode.lm.registerTool('getProjectVersions', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey } = options.input;
             try {
@@ -491,9 +545,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Create Version Tool
     tools.push(vscode.lm.registerTool('createVersion', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string; name: string; description?: string; startDate?: string; releaseDate?: string; released?: boolean }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string; name: string; description?: string; startDate?: string; releaseDate?: string; released?: boolean }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey, name, description, startDate, releaseDate, released } = options.input;
             try {
@@ -507,9 +562,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Update Version Tool
     tools.push(vscode.lm.registerTool('updateVersion', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ versionId: string; name?: string; description?: string; startDate?: string; releaseDate?: string; released?: boolean; archived?: boolean }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { versionId: string; name?: string; description?: string; startDate?: string; releaseDate?: string; released?: boolean; archived?: boolean }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { versionId, name, description, startDate, releaseDate, released, archived } = options.input;
             try {
@@ -523,9 +579,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Delete Version Tool
     tools.push(vscode.lm.registerTool('deleteVersion', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ versionId: string; moveFixIssuesTo?: string; moveAffectedIssuesTo?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { versionId: string; moveFixIssuesTo?: string; moveAffectedIssuesTo?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { versionId, moveFixIssuesTo, moveAffectedIssuesTo } = options.input;
             try {
@@ -539,9 +596,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Release Version Tool
     tools.push(vscode.lm.registerTool('releaseVersion', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ versionId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { versionId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { versionId } = options.input;
             try {
@@ -555,9 +613,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Version Progress Tool
     tools.push(vscode.lm.registerTool('getVersionProgress', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ versionId: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { versionId: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { versionId } = options.input;
             try {
@@ -579,9 +638,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Project Epics Tool
     tools.push(vscode.lm.registerTool('getProjectEpics', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string; maxResults?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string; maxResults?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey, maxResults = 50 } = options.input;
             try {
@@ -596,9 +656,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Create Epic Tool
     tools.push(vscode.lm.registerTool('createEpic', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string; summary: string; description?: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string; summary: string; description?: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey, summary, description } = options.input;
             try {
@@ -613,9 +674,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Epic Progress Tool
     tools.push(vscode.lm.registerTool('getEpicProgress', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ epicKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { epicKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { epicKey } = options.input;
             try {
@@ -639,9 +701,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get All Epics Progress Tool
     tools.push(vscode.lm.registerTool('getEpicsProgress', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKey } = options.input;
             try {
@@ -665,9 +728,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Epic Issues Tool
     tools.push(vscode.lm.registerTool('getEpicIssues', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ epicKey: string; maxResults?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { epicKey: string; maxResults?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { epicKey, maxResults = 100 } = options.input;
             try {
@@ -682,9 +746,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Add Issue to Epic Tool
     tools.push(vscode.lm.registerTool('addIssueToEpic', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ epicKey: string; issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { epicKey: string; issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { epicKey, issueKey } = options.input;
             try {
@@ -698,9 +763,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Remove Issue from Epic Tool
     tools.push(vscode.lm.registerTool('removeIssueFromEpic', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKey: string }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKey: string }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKey } = options.input;
             try {
@@ -718,9 +784,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Search Jira Issues Tool
     tools.push(vscode.lm.registerTool('searchJiraIssues', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ jql: string; maxResults?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { jql: string; maxResults?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { jql, maxResults = 50 } = options.input;
             try {
@@ -735,9 +802,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Bulk Fetch Issues Tool
     tools.push(vscode.lm.registerTool('bulkFetchJiraIssues', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ issueKeys: string[]; fields?: string[] }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { issueKeys: string[]; fields?: string[] }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { issueKeys, fields } = options.input;
             try {
@@ -751,9 +819,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Get Create Metadata Tool
     tools.push(vscode.lm.registerTool('getJiraCreateMetadata', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ projectKeys?: string[]; issueTypeNames?: string[] }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { projectKeys?: string[]; issueTypeNames?: string[] }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { projectKeys, issueTypeNames } = options.input;
             try {
@@ -767,9 +836,10 @@ export function registerJiraTools(context: vscode.ExtensionContext, helper: Jira
 
     // Find Assignable Users Tool
     tools.push(vscode.lm.registerTool('findJiraAssignableUsers', {
-        async invoke(options: vscode.LanguageModelToolInvocationOptions<{ query: string; project?: string; issueKey?: string; maxResults?: number }>, _token: vscode.CancellationToken) {
+        async invoke(options: vscode.LanguageModelToolInvocationOptions<SiteInput & { query: string; project?: string; issueKey?: string; maxResults?: number }>, token: vscode.CancellationToken) {
+            const helper = helpers.getJiraHelper(options.input.site)?.withCancellation(token);
             if (!helper) {
-                return handleToolError(new Error('Jira is not configured'));
+                return handleToolError(helpers.missingHelperError('Jira', options.input.site));
             }
             const { query, project, issueKey, maxResults = 50 } = options.input;
             try {
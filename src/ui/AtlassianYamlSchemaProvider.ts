@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import { HelperRegistry } from '../utils/helperRegistry';
+import {
+    YamlSchema,
+    buildIssueYamlSchema,
+    buildPageFrontmatterSchema,
+    findYamlLine,
+    schemaAt,
+    validateYaml,
+    yamlContextAt
+} from '../utils/yamlSchema';
+
+// Re-checked this long after the last keystroke
+const VALIDATION_DELAY_MS = 500;
+
+// Users and pages offered per completion request
+const MAX_LOOKUP_RESULTS = 20;
+
+// Spaces listed for the `spaceKey` check; on larger sites the keys are only suggested
+const MAX_SPACES = 2000;
+
+const DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+    { scheme: 'file', pattern: '**/*.jira.yaml' },
+    { scheme: 'file', pattern: '**/*.confluence.yaml' }
+];
+
+/**
+ * The YAML part of an issue or page document; for pages only the frontmatter between the `---` lines
+ */
+interface YamlRegion {
+    kind: 'issue' | 'page';
+    lines: string[];
+    /** Document line of the first region line */
+    firstLine: number;
+}
+
+/**
+ * Validates `.jira.yaml` issues and `.confluence.yaml` frontmatter against schemas built from the site's metadata,
+ * reporting problems as diagnostics and completing allowed values, people and parent pages.
+ */
+export class AtlassianYamlSchemaProvider implements vscode.CompletionItemProvider, vscode.Disposable {
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('atlassian-yaml');
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly timers = new Map<string, NodeJS.Timeout>();
+
+    // Schemas are fetched once per project (or once for the spaces) until the helpers change
+    private issueSchemas = new Map<string, Promise<YamlSchema | undefined>>();
+    private pageSchema: Promise<YamlSchema | undefined> | undefined;
+
+    constructor(private readonly helpers: HelperRegistry) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.languages.registerCompletionItemProvider(DOCUMENT_SELECTOR, this, ':', ' ', '-'),
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+            helpers.onDidChangeHelpers(() => {
+                this.issueSchemas = new Map();
+                this.pageSchema = undefined;
+                vscode.workspace.textDocuments.forEach(document => this.validate(document));
+            })
+        );
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    dispose(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private scheduleValidation(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.timers.get(key));
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.validate(document);
+        }, VALIDATION_DELAY_MS));
+    }
+
+    private async validate(document: vscode.TextDocument): Promise<void> {
+        const region = yamlRegion(document);
+        if (!region) {
+            return;
+        }
+        const version = document.version;
+
+        let data: any;
+        try {
+            data = yaml.load(region.lines.join('\n'));
+        } catch (error) {
+            const line = error instanceof yaml.YAMLException ? error.mark?.line ?? 0 : 0;
+            const message = error instanceof yaml.YAMLException ? error.reason : String(error);
+            this.diagnostics.set(document.uri, [this.diagnostic(document, region.firstLine + line, `Invalid YAML: ${message}`)]);
+            return;
+        }
+
+        const schema = await this.schemaFor(region, document.getText());
+        if (document.isClosed || document.version !== version) {
+            return;
+        }
+        if (!schema) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        const problems = validateYaml(data, schema);
+        this.diagnostics.set(document.uri, problems.map(problem =>
+            this.diagnostic(document, region.firstLine + (findYamlLine(region.lines, problem.path) ?? 0), problem.message)
+        ));
+    }
+
+    private diagnostic(document: vscode.TextDocument, line: number, message: string): vscode.Diagnostic {
+        const text = document.lineAt(Math.min(line, document.lineCount - 1));
+        const range = new vscode.Range(text.lineNumber, text.firstNonWhitespaceCharacterIndex, text.lineNumber, text.text.length);
+        const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'Atlassian Tools';
+        return diagnostic;
+    }
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+        const region = yamlRegion(document);
+        const line = position.line - (region?.firstLine ?? 0);
+        if (!region || line < 0 || line >= region.lines.length) {
+            return [];
+        }
+        const schema = await this.schemaFor(region, document.getText());
+        if (!schema) {
+            return [];
+        }
+
+        const context = yamlContextAt(region.lines, line, position.character);
+        const range = new vscode.Range(position.line, context.valueStart, position.line, position.character);
+
+        if (context.isKey) {
+            const parent = schemaAt(schema, context.path);
+            return Object.entries(parent?.properties || {})
+                .filter(([, property]) => !property.readOnly)
+                .map(([key, property]) => {
+                    const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+                    item.detail = property.title;
+                    item.insertText = `${key}: `;
+                    item.range = range;
+                    return item;
+                });
+        }
+
+        const target = schemaAt(schema, context.path);
+        const field = target?.type === 'array' ? target.items : target;
+        if (!field) {
+            return [];
+        }
+        const typed = document.lineAt(position.line).text.slice(context.valueStart, position.character).replace(/^["']/, '');
+
+        const values = field.enum ?? field.examples;
+        if (values) {
+            return values.map(value => this.valueItem(value, value, field.title, range));
+        }
+        switch (field['x-completion']) {
+            case 'userName':
+            case 'userEmail':
+            case 'accountId':
+                return this.userItems(region, document.getText(), typed, field['x-completion'], range);
+            case 'page':
+                return this.pageItems(document.getText(), typed, range);
+        }
+        return [];
+    }
+
+    private valueItem(label: string, insert: string, detail: string | undefined, range: vscode.Range): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
+        item.insertText = /^[\w .-]*$/.test(insert) && !/^\d+$/.test(insert) ? insert : `'${insert.replace(/'/g, "''")}'`;
+        item.detail = detail;
+        item.range = range;
+        return item;
+    }
+
+    private async userItems(region: YamlRegion, text: string, query: string, source: 'userName' | 'userEmail' | 'accountId', range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        const helper = this.helpers.getJiraHelper();
+        if (!helper || region.kind !== 'issue') {
+            return [];
+        }
+        try {
+            const users = await helper.findAssignableUsers(query, issueProjectKey(text), undefined, MAX_LOOKUP_RESULTS);
+            return users
+                .map(user => {
+                    const value = source === 'userName' ? user.displayName : source === 'userEmail' ? user.emailAddress : user.accountId || user.name;
+                    return value ? this.valueItem(user.displayName || value, value, user.emailAddress, range) : undefined;
+                })
+                .filter((item): item is vscode.CompletionItem => Boolean(item));
+        } catch (error) {
+            console.warn('Atlassian Tools: Failed to look up users for completion:', error);
+            return [];
+        }
+    }
+
+    private async pageItems(text: string, query: string, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        const helper = this.helpers.getConfluenceHelper();
+        const spaceKey = /^spaceKey:\s*["']?([^"'\s]+)/m.exec(text)?.[1];
+        if (!helper || !spaceKey) {
+            return [];
+        }
+        try {
+            const escaped = query.replace(/["\\]/g, '\\$&');
+            const cql = `type = page AND space = "${spaceKey}"${query.trim() ? ` AND title ~ "${escaped}*"` : ''} ORDER BY lastmodified DESC`;
+            const result = await helper.searchContent(cql, MAX_LOOKUP_RESULTS);
+            return result.results.map(page => {
+                const item = this.valueItem(page.title, page.id, `Page ${page.id}`, range);
+                item.filterText = `${page.title} ${page.id}`;
+                return item;
+            });
+        } catch (error) {
+            console.warn('Atlassian Tools: Failed to look up pages for completion:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Schema for the document, or undefined when the site is not configured or its metadata could not be read
+     */
+    private schemaFor(region: YamlRegion, text: string): Promise<YamlSchema | undefined> {
+        if (region.kind === 'page') {
+            this.pageSchema ??= this.loadPageSchema();
+            return this.pageSchema;
+        }
+        const projectKey = issueProjectKey(text);
+        if (!projectKey) {
+            return Promise.resolve(undefined);
+        }
+        let schema = this.issueSchemas.get(projectKey);
+        if (!schema) {
+            schema = this.loadIssueSchema(projectKey);
+            this.issueSchemas.set(projectKey, schema);
+        }
+        return schema;
+    }
+
+    private async loadIssueSchema(projectKey: string): Promise<YamlSchema | undefined> {
+        const helper = this.helpers.getJiraHelper();
+        if (!helper) {
+            return undefined;
+        }
+        try {
+            const [createMeta, priorities, statuses, versions] = await Promise.all([
+                helper.getCreateMetadata([projectKey]),
+                helper.getPriorities(),
+                helper.getProjectStatuses(projectKey),
+                helper.getProjectVersions(projectKey)
+            ]);
+            return buildIssueYamlSchema(createMeta, priorities, statuses, versions);
+        } catch (error) {
+            console.warn(`Atlassian Tools: Failed to load the issue schema for ${projectKey}:`, error);
+            // Tried again on the next check
+            this.issueSchemas.delete(projectKey);
+            return undefined;
+        }
+    }
+
+    private async loadPageSchema(): Promise<YamlSchema | undefined> {
+        const helper = this.helpers.getConfluenceHelper();
+        if (!helper) {
+            return undefined;
+        }
+        try {
+            // One more than the cap tells whether the list is complete
+            const spaces = await helper.getAllSpaces(MAX_SPACES + 1);
+            return buildPageFrontmatterSchema(spaces.slice(0, MAX_SPACES).map(space => space.key), spaces.length <= MAX_SPACES);
+        } catch (error) {
+            console.warn('Atlassian Tools: Failed to load Confluence spaces for validation:', error);
+            this.pageSchema = undefined;
+            return undefined;
+        }
+    }
+}
+
+function yamlRegion(document: vscode.TextDocument): YamlRegion | undefined {
+    const lines = document.getText().split(/\r?\n/);
+    if (document.fileName.endsWith('.jira.yaml')) {
+        return { kind: 'issue', lines, firstLine: 0 };
+    }
+    if (document.fileName.endsWith('.confluence.yaml') && lines[0]?.trim() === '---') {
+        const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        return { kind: 'page', lines: lines.slice(1, end === -1 ? lines.length : end), firstLine: 1 };
+    }
+    return undefined;
+}
+
+/**
+ * Project of an issue document: `projectKey` for new issues, otherwise the prefix of its key
+ */
+function issueProjectKey(text: string): string | undefined {
+    return /^projectKey:\s*["']?([A-Z][A-Z0-9_]*)/m.exec(text)?.[1] || /^key:\s*["']?([A-Z][A-Z0-9_]*)-\d+/m.exec(text)?.[1];
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { ConfluenceHelper } from '../helpers/confluenceHelper';
+
+// Versions listed for a page; older ones are rarely worth restoring from the view
+const VERSION_LIMIT = 100;
+
+export interface PageVersion {
+    number: number;
+    when?: string;
+    message?: string;
+    by?: { displayName?: string };
+}
+
+export class PageVersionItem extends vscode.TreeItem {
+    constructor(
+        public readonly pageId: string,
+        public readonly pageTitle: string,
+        public readonly version: PageVersion,
+        current: boolean
+    ) {
+        super(version.message ? `v${version.number}: ${version.message}` : `v${version.number}`, vscode.TreeItemCollapsibleState.None);
+        const date = version.when ? new Date(version.when).toLocaleString() : '';
+        const author = version.by?.displayName || 'Unknown';
+
+        this.id = `${pageId}/${version.number}`;
+        this.contextValue = current ? 'currentVersion' : 'version';
+        this.description = `${author}, ${date}${current ? ' (current)' : ''}`;
+        this.tooltip = `Version ${version.number} of ${pageTitle}\nBy: ${author}\nDate: ${date}${version.message ? `\nMessage: ${version.message}` : ''}`;
+        this.iconPath = new vscode.ThemeIcon(current ? 'circle-filled' : 'git-commit');
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Version',
+            arguments: [ConfluencePageHistoryProvider.versionUri(pageId, version.number, pageTitle)]
+        };
+    }
+}
+
+/**
+ * Versions of the Confluence page open in the editor, and the read-only storage bodies of those versions
+ */
+export class ConfluencePageHistoryProvider implements vscode.TreeDataProvider<PageVersionItem>, vscode.TextDocumentContentProvider {
+    static readonly scheme = 'confluence-version';
+
+    private _onDidChangeTreeData: vscode.EventEmitter<PageVersionItem | undefined | null | void> = new vscode.EventEmitter<PageVersionItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<PageVersionItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private pageId: string | undefined;
+
+    constructor(private helper: ConfluenceHelper | null) {}
+
+    /**
+     * URI of the storage body of a page version, for opening or diffing with this provider
+     */
+    static versionUri(pageId: string, version: number, title: string): vscode.Uri {
+        return vscode.Uri.from({ scheme: ConfluencePageHistoryProvider.scheme, path: `/${pageId}/v${version}/${title.replace(/[\\/]/g, '-')}.html` });
+    }
+
+    setHelper(helper: ConfluenceHelper | null): void {
+        this.helper = helper;
+        this.refresh();
+    }
+
+    /**
+     * Show the versions of another page; undefined empties the view
+     */
+    setPage(pageId: string | undefined): void {
+        if (pageId !== this.pageId) {
+            this.pageId = pageId;
+            this.refresh();
+        }
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: PageVersionItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: PageVersionItem): Promise<PageVersionItem[]> {
+        if (element || !this.helper || !this.pageId) {
+            return [];
+        }
+        const pageId = this.pageId;
+
+        try {
+            const [page, versions] = await Promise.all([
+                this.helper.getPage(pageId, 'version'),
+                this.helper.getPageVersions(pageId, VERSION_LIMIT)
+            ]);
+            const current = page.version?.number;
+            return (versions.results as PageVersion[]).map(version => new PageVersionItem(pageId, page.title, version, version.number === current));
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to load page history: ${error}`);
+            return [];
+        }
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const [, pageId, version] = uri.path.split('/');
+        if (!this.helper) {
+            throw new Error('Confluence is not configured');
+        }
+        const page = await this.helper.getPageVersion(pageId, Number(version.replace(/^v/, '')));
+        return formatStorage(page.body?.storage?.value || '');
+    }
+}
+
+/**
+ * Put each block element of a storage body on its own line, so diffs line up block by block
+ */
+function formatStorage(storage: string): string {
+    return storage.replace(/(<\/(?:p|h[1-6]|li|ul|ol|tr|table|tbody|blockquote|pre|ac:structured-macro|ac:task-list)>)(?!\n)/g, '$1\n');
+}
@@ -1,17 +1,82 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 import { ConfluenceHelper, ConfluencePage } from '../helpers/confluenceHelper';
+import { UnsupportedDeploymentError } from '../helpers/atlassianClient';
+import { JiraHelper } from '../helpers/jiraHelper';
+import { JiraIssueStatus, storageReferences, storageToHtml } from '../helpers/storageHtml';
+
+// Larger images are left as links rather than inlined into the preview
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Error messages for webview requests other than opening links
+const MESSAGE_FAILURES: Record<string, string> = {
+    addInlineComment: 'Failed to add comment',
+    replyInlineComment: 'Failed to reply to comment',
+    resolveInlineComment: 'Failed to resolve comment',
+    reopenInlineComment: 'Failed to reopen comment'
+};
+
+// Replies fetched per inline comment thread (the v2 API maximum page size)
+const MAX_THREAD_REPLIES = 250;
+
+interface ThreadComment {
+    author: string;
+    created?: string;
+    html: string;
+}
+
+/**
+ * An inline comment with its replies, as listed in the preview's side panel
+ */
+interface CommentThread {
+    id: string;
+    version: number;
+    /** 'open', 'reopened', 'resolved' or 'dangling' (the anchored text was removed) */
+    status: string;
+    markerRef?: string;
+    selection?: string;
+    comments: ThreadComment[];
+}
 
 export class ConfluencePageWebviewProvider {
     private static currentPanel: vscode.WebviewPanel | undefined;
 
-    constructor(private helper: ConfluenceHelper) {}
+    private currentHelper: ConfluenceHelper | null;
+    private jiraHelper: JiraHelper | null;
+    /** Page shown in the panel; links in it are resolved against its space */
+    private currentPage: ConfluencePage | undefined;
+
+    constructor(helper: ConfluenceHelper | null, jiraHelper: JiraHelper | null = null) {
+        this.currentHelper = helper;
+        this.jiraHelper = jiraHelper;
+    }
+
+    /**
+     * Swap in rebuilt helpers (e.g. after signing in)
+     */
+    setHelper(helper: ConfluenceHelper | null, jiraHelper: JiraHelper | null = null): void {
+        this.currentHelper = helper;
+        this.jiraHelper = jiraHelper;
+    }
+
+    private get helper(): ConfluenceHelper {
+        if (!this.currentHelper) {
+            throw new Error('Confluence is not configured');
+        }
+        return this.currentHelper;
+    }
 
     public async showPage(pageId: string): Promise<void> {
-        const page = await this.helper.getPage(pageId, 'body.storage,body.view,space,version');
+        const page = await this.helper.getPage(pageId, 'body.storage,space,version');
+        const html = await this.renderPage(page);
+        this.currentPage = page;
 
         if (ConfluencePageWebviewProvider.currentPanel) {
+            ConfluencePageWebviewProvider.currentPanel.title = page.title;
             ConfluencePageWebviewProvider.currentPanel.reveal(vscode.ViewColumn.Beside);
-            ConfluencePageWebviewProvider.currentPanel.webview.html = this.getWebviewContent(page);
+            ConfluencePageWebviewProvider.currentPanel.webview.html = html;
         } else {
             const panel = vscode.window.createWebviewPanel(
                 'confluencePagePreview',
@@ -23,19 +88,237 @@ export class ConfluencePageWebviewProvider {
                 }
             );
 
-            panel.webview.html = this.getWebviewContent(page);
+            panel.webview.html = html;
+
+            // Links in the page open in VS Code rather than inside the webview; comment actions go to Confluence
+            panel.webview.onDidReceiveMessage(async message => {
+                try {
+                    await this.handleMessage(message);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`${MESSAGE_FAILURES[message.command] || 'Failed to open link'}: ${error}`);
+                }
+            });
 
             panel.onDidDispose(() => {
                 ConfluencePageWebviewProvider.currentPanel = undefined;
+                this.currentPage = undefined;
             });
 
             ConfluencePageWebviewProvider.currentPanel = panel;
         }
     }
 
-    private getWebviewContent(page: ConfluencePage): string {
-        const content = page.body?.view?.value || page.body?.storage?.value || '<p>No content</p>';
-        
+    private async handleMessage(message: any): Promise<void> {
+        const page = this.currentPage;
+        if (!page) {
+            return;
+        }
+        switch (message.command) {
+            case 'openPage': {
+                const spaceKey = message.spaceKey || page.space?.key;
+                const target = spaceKey ? await this.helper.findPageByTitle(spaceKey, message.title) : undefined;
+                if (!target) {
+                    vscode.window.showWarningMessage(`Page "${message.title}" not found${spaceKey ? ` in space ${spaceKey}` : ''}`);
+                    return;
+                }
+                await vscode.commands.executeCommand('confluence.openPage', target.id);
+                break;
+            }
+            case 'openAttachment': {
+                const attachment = await this.findAttachment(page.id, message.filename);
+                if (!attachment) {
+                    vscode.window.showWarningMessage(`Attachment "${message.filename}" not found on this page`);
+                    return;
+                }
+                // Downloaded with the site credentials, then opened like any local file
+                const file = path.join(os.tmpdir(), 'atlassian-tools', page.id, path.basename(attachment.title));
+                await fs.mkdir(path.dirname(file), { recursive: true });
+                await fs.writeFile(file, await this.helper.downloadAttachment(attachment));
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file));
+                break;
+            }
+            case 'openJiraIssue':
+                await vscode.commands.executeCommand('jira.openIssueYaml', message.key);
+                break;
+            case 'openLink': {
+                const href: string = message.href;
+                const pageId = /\/pages\/(\d+)|[?&]pageId=(\d+)/.exec(href);
+                if (pageId) {
+                    await vscode.commands.executeCommand('confluence.openPage', pageId[1] || pageId[2]);
+                } else {
+                    await vscode.env.openExternal(vscode.Uri.parse(href.startsWith('/') ? this.helper.siteUrl(href) : href));
+                }
+                break;
+            }
+            case 'addInlineComment':
+                await this.helper.createInlineComment(page.id, commentStorage(message.body), {
+                    textSelection: message.selection,
+                    textSelectionMatchCount: message.matchCount,
+                    textSelectionMatchIndex: message.matchIndex
+                });
+                await this.showPage(page.id);
+                break;
+            case 'replyInlineComment':
+                await this.helper.createInlineComment(page.id, commentStorage(message.body), undefined, message.commentId);
+                await this.showPage(page.id);
+                break;
+            case 'resolveInlineComment':
+                await this.helper.resolveInlineComment(message.commentId, message.version);
+                await this.showPage(page.id);
+                break;
+            case 'reopenInlineComment':
+                await this.helper.reopenInlineComment(message.commentId, message.version);
+                await this.showPage(page.id);
+                break;
+        }
+    }
+
+    /**
+     * Storage rendered as HTML, with the page's images downloaded and Jira issue states looked up
+     */
+    private async renderPage(page: ConfluencePage): Promise<string> {
+        const storage = page.body?.storage?.value || '';
+        const references = storageReferences(storage);
+
+        const images = new Map<string, string>();
+        if (references.imageAttachments.length > 0) {
+            const wanted = new Set(references.imageAttachments);
+            try {
+                for await (const attachment of this.helper.iterateAttachments(page.id)) {
+                    const size = attachment.extensions?.fileSize || 0;
+                    if (wanted.has(attachment.title) && size <= MAX_INLINE_IMAGE_BYTES) {
+                        const data = await this.helper.downloadAttachment(attachment);
+                        const mediaType = attachment.extensions?.mediaType || attachment.metadata?.mediaType || 'image/png';
+                        images.set(attachment.title, `data:${mediaType};base64,${data.toString('base64')}`);
+                    }
+                }
+            } catch (error) {
+                // Images that could not be downloaded show as links
+                console.warn('Atlassian Tools: Failed to download page images:', error);
+            }
+        }
+
+        const jiraIssues: Record<string, JiraIssueStatus> = {};
+        if (this.jiraHelper && references.jiraKeys.length > 0) {
+            try {
+                const result = await this.jiraHelper.bulkFetchIssues(references.jiraKeys, ['summary', 'status']);
+                for (const issue of result.issues || []) {
+                    jiraIssues[issue.key] = {
+                        summary: issue.fields?.summary,
+                        status: issue.fields?.status?.name || 'Unknown',
+                        statusCategory: issue.fields?.status?.statusCategory?.key
+                    };
+                }
+            } catch (error) {
+                // Issues whose state is unknown show their key only
+                console.warn('Atlassian Tools: Failed to look up Jira issues:', error);
+            }
+        }
+
+        const threads = await this.loadCommentThreads(page.id);
+        const openCommentRefs = new Set((threads || [])
+            .filter(thread => thread.status !== 'resolved' && thread.markerRef)
+            .map(thread => thread.markerRef as string));
+
+        return this.getWebviewContent(page, storageToHtml(storage, { imageUrl: name => images.get(name), jiraIssues, openCommentRefs }), threads);
+    }
+
+    /**
+     * Inline comment threads of the page, or undefined where the site has no v2 comments API (Data Center)
+     */
+    private async loadCommentThreads(pageId: string): Promise<CommentThread[] | undefined> {
+        const authors = new Map<string, Promise<string>>();
+        const authorName = (accountId: string | undefined): Promise<string> => {
+            if (!accountId) {
+                return Promise.resolve('Unknown');
+            }
+            if (!authors.has(accountId)) {
+                authors.set(accountId, this.helper.getUser(accountId).then(user => user.displayName || accountId, () => accountId));
+            }
+            return authors.get(accountId) as Promise<string>;
+        };
+        const toComment = async (comment: any): Promise<ThreadComment> => ({
+            author: await authorName(comment.version?.authorId),
+            created: comment.version?.createdAt,
+            html: storageToHtml(comment.body?.storage?.value || '')
+        });
+
+        try {
+            const threads: CommentThread[] = [];
+            for await (const comment of this.helper.iteratePageInlineComments(pageId, 'created-date', 'storage')) {
+                const replies = await this.helper.getInlineCommentChildren(comment.id, 'created-date', MAX_THREAD_REPLIES, 'storage');
+                threads.push({
+                    id: comment.id,
+                    version: comment.version?.number || 1,
+                    status: comment.resolutionStatus || 'open',
+                    markerRef: comment.properties?.inlineMarkerRef,
+                    selection: comment.properties?.inlineOriginalSelection,
+                    comments: [await toComment(comment), ...await Promise.all((replies.results || []).map(toComment))]
+                });
+            }
+            return threads;
+        } catch (error) {
+            // The page still renders, without the comment panel
+            if (!(error instanceof UnsupportedDeploymentError)) {
+                console.warn('Atlassian Tools: Failed to load inline comments:', error);
+            }
+            return undefined;
+        }
+    }
+
+    private async findAttachment(pageId: string, filename: string): Promise<any> {
+        for await (const attachment of this.helper.iterateAttachments(pageId)) {
+            if (attachment.title === filename) {
+                return attachment;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Side panel listing the open threads, with the resolved ones collapsed below
+     */
+    private renderCommentPanel(threads: CommentThread[]): string {
+        const open = threads.filter(thread => thread.status !== 'resolved');
+        const resolved = threads.filter(thread => thread.status === 'resolved');
+        return `<aside class="comments">
+        <h2>Comments</h2>
+        <form id="new-comment" class="thread" hidden>
+            <blockquote class="thread-selection"></blockquote>
+            <textarea placeholder="Comment on the selected text"></textarea>
+            <div class="thread-actions">
+                <button type="submit">Comment</button>
+                <button type="button" class="secondary" data-action="cancel">Cancel</button>
+            </div>
+        </form>
+        ${open.map(thread => this.renderThread(thread)).join('\n') || '<p class="no-comments">Select text in the page to comment on it.</p>'}
+        ${resolved.length > 0 ? `<details class="resolved-threads">
+            <summary>Resolved (${resolved.length})</summary>
+            ${resolved.map(thread => this.renderThread(thread)).join('\n')}
+        </details>` : ''}
+    </aside>`;
+    }
+
+    private renderThread(thread: CommentThread): string {
+        const resolved = thread.status === 'resolved';
+        const comments = thread.comments.map(comment => `<div class="comment">
+                <div class="comment-meta"><strong>${this.escapeHtml(comment.author)}</strong> ${comment.created ? this.escapeHtml(new Date(comment.created).toLocaleString()) : ''}</div>
+                <div class="comment-body">${comment.html}</div>
+            </div>`).join('\n');
+        return `<div class="thread${resolved ? ' resolved' : ''}" data-id="${this.escapeHtml(thread.id)}" data-ref="${this.escapeHtml(thread.markerRef || '')}" data-version="${thread.version}">
+            <blockquote class="thread-selection">${this.escapeHtml(thread.selection || '')}</blockquote>
+            ${thread.status === 'dangling' ? '<div class="thread-note">The commented text was removed from the page</div>' : ''}
+            ${comments}
+            ${resolved ? '' : '<textarea placeholder="Reply"></textarea>'}
+            <div class="thread-actions">
+                ${resolved
+                    ? '<button type="button" class="secondary" data-action="reopen">Reopen</button>'
+                    : '<button type="button" data-action="reply">Reply</button> <button type="button" class="secondary" data-action="resolve">Resolve</button>'}
+            </div>
+        </div>`;
+    }
+
+    private getWebviewContent(page: ConfluencePage, content: string, threads: CommentThread[] | undefined): string {
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -106,9 +389,193 @@ export class ConfluencePageWebviewProvider {
         .content code {
             font-family: var(--vscode-editor-font-family);
         }
+        .content a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+        .code-title {
+            font-weight: bold;
+            font-size: 12px;
+            padding: 4px 10px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+        .code-block pre {
+            margin-top: 0;
+            background-color: var(--vscode-editor-background);
+        }
+        .tok-keyword { color: var(--vscode-symbolIcon-keywordForeground, #569cd6); }
+        .tok-string { color: var(--vscode-debugTokenExpression-string, #ce9178); }
+        .tok-number { color: var(--vscode-debugTokenExpression-number, #b5cea8); }
+        .tok-comment { color: var(--vscode-descriptionForeground); font-style: italic; }
+        .panel {
+            margin: 10px 0;
+            padding: 10px 15px;
+            border-left: 4px solid var(--vscode-panel-border);
+            border-radius: 3px;
+            background-color: var(--vscode-editor-background);
+        }
+        .panel-title {
+            font-weight: bold;
+            margin-bottom: 5px;
+        }
+        .panel-info { border-left-color: var(--vscode-charts-blue); }
+        .panel-note { border-left-color: var(--vscode-charts-purple); }
+        .panel-warning { border-left-color: var(--vscode-charts-red); }
+        .panel-tip { border-left-color: var(--vscode-charts-green); }
+        .expand summary {
+            cursor: pointer;
+            color: var(--vscode-textLink-foreground);
+        }
+        .toc {
+            list-style: none;
+            padding-left: 0;
+        }
+        .toc-level-2 { padding-left: 1em; }
+        .toc-level-3 { padding-left: 2em; }
+        .toc-level-4 { padding-left: 3em; }
+        .toc-level-5 { padding-left: 4em; }
+        .toc-level-6 { padding-left: 5em; }
+        .status {
+            display: inline-block;
+            padding: 0 6px;
+            border-radius: 3px;
+            font-size: 11px;
+            font-weight: bold;
+            text-transform: uppercase;
+            color: #fff;
+            background-color: #6b778c;
+        }
+        .status-blue { background-color: #0052cc; }
+        .status-green { background-color: #00875a; }
+        .status-yellow { background-color: #ff991f; color: #172b4d; }
+        .status-red { background-color: #de350b; }
+        .status-purple { background-color: #5243aa; }
+        .jira-issue {
+            padding: 1px 4px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+        }
+        .jira-summary {
+            color: var(--vscode-descriptionForeground);
+        }
+        .task-list {
+            list-style: none;
+            padding-left: 0;
+        }
+        .macro {
+            display: inline-block;
+            margin: 2px 0;
+            padding: 2px 6px;
+            border: 1px dashed var(--vscode-panel-border);
+            border-radius: 3px;
+        }
+        div.macro {
+            display: block;
+        }
+        .macro-name {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-right: 6px;
+        }
+        .layout-section {
+            display: flex;
+            gap: 20px;
+        }
+        .layout-cell {
+            flex: 1;
+        }
+        .page {
+            display: flex;
+            gap: 20px;
+            align-items: flex-start;
+        }
+        .page main {
+            flex: 1;
+            min-width: 0;
+        }
+        .inline-comment-marker.open {
+            background-color: var(--vscode-editor-findMatchHighlightBackground);
+            border-bottom: 2px solid var(--vscode-editorWarning-foreground);
+            cursor: pointer;
+        }
+        .inline-comment-marker.focused {
+            background-color: var(--vscode-editor-findMatchBackground);
+        }
+        .comments {
+            width: 300px;
+            flex-shrink: 0;
+            position: sticky;
+            top: 0;
+            max-height: 100vh;
+            overflow-y: auto;
+            font-size: 13px;
+        }
+        .comments h2 {
+            font-size: 14px;
+            margin-top: 0;
+        }
+        .thread {
+            margin-bottom: 12px;
+            padding: 10px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 5px;
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+        .thread.focused {
+            border-color: var(--vscode-focusBorder);
+        }
+        .thread.resolved {
+            opacity: 0.8;
+        }
+        .thread-selection {
+            margin: 0 0 8px;
+            padding-left: 8px;
+            border-left: 3px solid var(--vscode-editorWarning-foreground);
+            color: var(--vscode-descriptionForeground);
+            cursor: pointer;
+        }
+        .thread-note, .no-comments, .comment-meta {
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+        .comment {
+            margin-bottom: 8px;
+        }
+        .comment-body p {
+            margin: 2px 0;
+        }
+        .thread textarea {
+            width: 100%;
+            box-sizing: border-box;
+            min-height: 50px;
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            font-family: inherit;
+        }
+        .thread-actions {
+            margin-top: 6px;
+        }
+        .thread button {
+            padding: 3px 10px;
+            border: none;
+            cursor: pointer;
+            color: var(--vscode-button-foreground);
+            background-color: var(--vscode-button-background);
+        }
+        .thread button.secondary {
+            color: var(--vscode-button-secondaryForeground);
+            background-color: var(--vscode-button-secondaryBackground);
+        }
+        .resolved-threads summary {
+            cursor: pointer;
+            margin-bottom: 8px;
+        }
     </style>
 </head>
 <body>
+    <div class="page">
+    <main>
     <h1>${this.escapeHtml(page.title)}</h1>
     
     <div class="metadata">
@@ -123,8 +590,124 @@ export class ConfluencePageWebviewProvider {
     </div>
     
     <div class="content">
-        ${content}
+        ${content || '<p>No content</p>'}
     </div>
+    </main>
+    ${threads ? this.renderCommentPanel(threads) : ''}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const content = document.querySelector('.content');
+        const newComment = document.getElementById('new-comment');
+        let anchor;
+
+        // Where the selected text occurs in the page text, which Confluence uses to place the comment marker
+        function selectionAnchor() {
+            const selection = window.getSelection();
+            if (!selection || selection.rangeCount === 0) {
+                return undefined;
+            }
+            const range = selection.getRangeAt(0);
+            const text = range.toString();
+            if (!text.trim() || !content.contains(range.commonAncestorContainer)) {
+                return undefined;
+            }
+            const before = document.createRange();
+            before.setStart(content, 0);
+            before.setEnd(range.startContainer, range.startOffset);
+            const offset = before.toString().length;
+            const pageText = content.textContent;
+            let matchCount = 0;
+            let matchIndex = 0;
+            for (let at = pageText.indexOf(text); at !== -1; at = pageText.indexOf(text, at + 1)) {
+                if (at < offset) {
+                    matchIndex++;
+                }
+                matchCount++;
+            }
+            return { selection: text, matchCount: Math.max(matchCount, 1), matchIndex: Math.min(matchIndex, Math.max(matchCount - 1, 0)) };
+        }
+
+        if (newComment) {
+            content.addEventListener('mouseup', () => {
+                const selected = selectionAnchor();
+                if (selected) {
+                    anchor = selected;
+                    newComment.querySelector('.thread-selection').textContent = selected.selection;
+                    newComment.hidden = false;
+                    newComment.scrollIntoView({ block: 'nearest' });
+                }
+            });
+            newComment.addEventListener('submit', event => {
+                event.preventDefault();
+                const body = newComment.querySelector('textarea').value.trim();
+                if (anchor && body) {
+                    vscode.postMessage({ command: 'addInlineComment', body, ...anchor });
+                }
+            });
+        }
+
+        function focusThread(ref) {
+            document.querySelectorAll('.focused').forEach(element => element.classList.remove('focused'));
+            const thread = document.querySelector('.thread[data-ref="' + CSS.escape(ref) + '"]');
+            const marker = document.querySelector('.inline-comment-marker[data-ref="' + CSS.escape(ref) + '"]');
+            thread?.classList.add('focused');
+            marker?.classList.add('focused');
+            return { thread, marker };
+        }
+
+        // Comment markers and threads point at each other; thread buttons act on the thread in Confluence
+        document.addEventListener('click', event => {
+            const marker = event.target.closest('.inline-comment-marker.open');
+            if (marker) {
+                focusThread(marker.dataset.ref).thread?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+                return;
+            }
+            const quote = event.target.closest('.thread[data-ref] .thread-selection');
+            if (quote) {
+                focusThread(quote.closest('.thread').dataset.ref).marker?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+                return;
+            }
+            const button = event.target.closest('.thread button[data-action]');
+            if (button) {
+                const thread = button.closest('.thread');
+                const action = button.dataset.action;
+                if (action === 'cancel') {
+                    newComment.hidden = true;
+                    anchor = undefined;
+                } else if (action === 'reply') {
+                    const body = thread.querySelector('textarea').value.trim();
+                    if (body) {
+                        vscode.postMessage({ command: 'replyInlineComment', commentId: thread.dataset.id, body });
+                    }
+                } else {
+                    vscode.postMessage({ command: action + 'InlineComment', commentId: thread.dataset.id, version: Number(thread.dataset.version) });
+                }
+            }
+        });
+
+        // Links to pages, attachments and issues are opened by the extension
+        document.addEventListener('click', event => {
+            const link = event.target.closest('a');
+            if (!link) {
+                return;
+            }
+            const href = link.getAttribute('href') || '';
+            if (link.dataset.pageTitle) {
+                vscode.postMessage({ command: 'openPage', title: link.dataset.pageTitle, spaceKey: link.dataset.spaceKey });
+            } else if (link.dataset.attachment) {
+                vscode.postMessage({ command: 'openAttachment', filename: link.dataset.attachment });
+            } else if (link.dataset.jiraKey) {
+                vscode.postMessage({ command: 'openJiraIssue', key: link.dataset.jiraKey });
+            } else if (href.startsWith('#')) {
+                return;
+            } else if (href) {
+                vscode.postMessage({ command: 'openLink', href });
+            }
+            event.preventDefault();
+        });
+    </script>
 </body>
 </html>`;
     }
@@ -138,3 +721,11 @@ export class ConfluencePageWebviewProvider {
             .replace(/'/g, '&#039;');
     }
 }
+
+/**
+ * Plain comment text as storage, one paragraph per blank-line separated block
+ */
+function commentStorage(text: string): string {
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return text.trim().split(/\n\s*\n/).map(paragraph => `<p>${escape(paragraph).replace(/\n/g, '<br />')}</p>`).join('');
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { HelperRegistry } from '../utils/helperRegistry';
+import { ConfluenceTreeItem, ConfluenceTreeProvider } from './ConfluenceTreeProvider';
+
+const PAGE_MIME_TYPE = 'application/vnd.code.tree.confluencetreeview';
+
+/**
+ * Moves (or copies) pages dropped onto another page or a space in the Confluence view.
+ * VS Code does not tell extensions which modifier keys were held during a drop, so the
+ * confirmation offers both Move and Copy.
+ */
+export class ConfluenceTreeDragAndDropController implements vscode.TreeDragAndDropController<ConfluenceTreeItem> {
+    readonly dragMimeTypes = [PAGE_MIME_TYPE];
+    readonly dropMimeTypes = [PAGE_MIME_TYPE];
+
+    constructor(private readonly helpers: HelperRegistry, private readonly treeProvider: ConfluenceTreeProvider) {}
+
+    handleDrag(source: readonly ConfluenceTreeItem[], dataTransfer: vscode.DataTransfer): void {
+        const pages = source.filter(item => item.contextValue === 'page' && item.itemId);
+        if (pages.length > 0) {
+            dataTransfer.set(PAGE_MIME_TYPE, new vscode.DataTransferItem(pages));
+        }
+    }
+
+    async handleDrop(target: ConfluenceTreeItem | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+        const dropped: ConfluenceTreeItem[] = dataTransfer.get(PAGE_MIME_TYPE)?.value || [];
+        if (!target || (target.contextValue !== 'page' && target.contextValue !== 'space') || dropped.length === 0) {
+            return;
+        }
+        const helper = this.helpers.getConfluenceHelper()?.withCancellation(token);
+        if (!helper) {
+            vscode.window.showErrorMessage('Confluence is not configured');
+            return;
+        }
+
+        // A page cannot go below itself or its descendants, and dropping onto its own parent changes nothing
+        const targetPath = new Set<string>();
+        for (let node: ConfluenceTreeItem | undefined = target; node; node = node.parent) {
+            if (node.contextValue === 'page' && node.itemId) {
+                targetPath.add(node.itemId);
+            }
+        }
+        const pages = dropped.filter(item => !targetPath.has(item.itemId!) && item.parent?.id !== target.id);
+        if (pages.length === 0) {
+            return;
+        }
+
+        const targetName = target.contextValue === 'space' ? `space "${target.label}"` : `"${target.label}"`;
+        const subject = pages.length === 1 ? `"${pages[0].label}"` : `${pages.length} pages`;
+        const choice = await vscode.window.showWarningMessage(
+            `Move ${subject} to ${targetName}?`,
+            { modal: true, detail: 'Choose Copy to leave the original pages where they are.' },
+            'Move',
+            'Copy'
+        );
+        if (!choice) {
+            return;
+        }
+
+        try {
+            const spaceKey = target.spaceKey;
+            let parentId = target.contextValue === 'page' ? target.itemId : undefined;
+            if (!spaceKey) {
+                throw new Error(`Cannot tell which space ${targetName} belongs to`);
+            }
+            if (!parentId) {
+                // Pages dropped onto a space go below its home page
+                parentId = (await helper.getSpace(spaceKey)).homepage?.id;
+            }
+
+            const failures: string[] = [];
+            await vscode.window.withProgress({ location: vscode.ProgressLocation.Window, title: `${choice === 'Move' ? 'Moving' : 'Copying'} ${subject}` }, async () => {
+                for (const page of pages) {
+                    try {
+                        if (choice === 'Move') {
+                            if (!parentId && page.spaceKey === spaceKey) {
+                                throw new Error('the space has no home page to move it below');
+                            }
+                            await helper.movePage(page.itemId!, spaceKey, parentId);
+                        } else {
+                            // Titles are unique within a space
+                            const title = page.spaceKey === spaceKey ? `Copy of ${page.label}` : page.label;
+                            await helper.copyPage(page.itemId!, spaceKey, title, parentId);
+                        }
+                    } catch (error) {
+                        failures.push(`"${page.label}": ${error}`);
+                    }
+                }
+            });
+
+            // Reload where the pages left and where they arrived; a leaf target is reloaded by its parent so it can expand
+            const affected = choice === 'Move' ? pages.map(page => page.parent) : [];
+            affected.push(target.collapsibleState === vscode.TreeItemCollapsibleState.None ? target.parent : target);
+            this.treeProvider.refreshChildren(affected.filter((item): item is ConfluenceTreeItem => !!item));
+
+            if (failures.length > 0) {
+                vscode.window.showErrorMessage(`Failed to ${choice.toLowerCase()} ${failures.join('; ')}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${choice.toLowerCase()} pages: ${error}`);
+        }
+    }
+}
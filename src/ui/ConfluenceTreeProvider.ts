@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
 import { ConfluenceHelper, ConfluencePage } from '../helpers/confluenceHelper';
 
+// Pages fetched per space or parent page before a "Load more…" node
+const PAGE_BATCH_SIZE = 50;
+
 export class ConfluenceTreeItem extends vscode.TreeItem {
+    /** Parent in the space page hierarchy; set for spaces, hierarchy pages and "Load more…" nodes */
+    parent?: ConfluenceTreeItem;
+
     constructor(
         public readonly label: string,
-        public readonly contextValue: 'category' | 'subcategory' | 'space' | 'page',
+        public readonly contextValue: 'category' | 'subcategory' | 'space' | 'page' | 'loadMore',
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly itemId?: string,
         public readonly spaceKey?: string,
@@ -12,7 +18,14 @@ export class ConfluenceTreeItem extends vscode.TreeItem {
     ) {
         super(label, collapsibleState);
         
-        if (contextValue === 'page' && page) {
+        if (contextValue === 'loadMore') {
+            this.iconPath = new vscode.ThemeIcon('ellipsis');
+            this.command = {
+                command: 'confluence.loadMore',
+                title: 'Load More Pages',
+                arguments: [this]
+            };
+        } else if (contextValue === 'page' && page) {
             this.description = page.status;
             this.tooltip = `${page.title}\nStatus: ${page.status}\nSpace: ${page.space?.key || 'N/A'}`;
             this.command = {
@@ -34,7 +47,10 @@ export class ConfluenceTreeProvider implements vscode.TreeDataProvider<Confluenc
     readonly onDidChangeTreeData: vscode.Event<ConfluenceTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private spacesCache: Array<{ key: string; name: string; id: string }> | null = null;
-    private pagesCache: Map<string, ConfluencePage[]> = new Map();
+    /** Loaded pages below each space (keyed `space:<key>`) or page (keyed by page ID) */
+    private childPagesCache: Map<string, { pages: ConfluencePage[]; hasMore: boolean }> = new Map();
+    /** Space hierarchy items by tree ID, reused so reveal and "Load more…" refer to the items the view holds */
+    private hierarchyItems: Map<string, ConfluenceTreeItem> = new Map();
     private recentPagesCache: ConfluencePage[] | null = null;
     private starredPagesCache: ConfluencePage[] | null = null;
     private starredSpacesCache: Array<{ key: string; name: string; id: string }> | null = null;
@@ -43,9 +59,18 @@ export class ConfluenceTreeProvider implements vscode.TreeDataProvider<Confluenc
 
     constructor(private helper: ConfluenceHelper | null) {}
 
+    /**
+     * Swap in a rebuilt helper (e.g. after signing in) and reload the tree
+     */
+    setHelper(helper: ConfluenceHelper | null): void {
+        this.helper = helper;
+        this.refresh();
+    }
+
     refresh(): void {
         this.spacesCache = null;
-        this.pagesCache.clear();
+        this.childPagesCache.clear();
+        this.hierarchyItems.clear();
         this.recentPagesCache = null;
         this.starredPagesCache = null;
         this.starredSpacesCache = null;
@@ -58,6 +83,73 @@ export class ConfluenceTreeProvider implements vscode.TreeDataProvider<Confluenc
         return element;
     }
 
+    getParent(element: ConfluenceTreeItem): ConfluenceTreeItem | undefined {
+        return element.parent;
+    }
+
+    /**
+     * Fetch the next batch of pages for the parent of a "Load more…" node
+     */
+    async loadMore(item: ConfluenceTreeItem): Promise<void> {
+        if (!item.parent || !this.helper) {
+            return;
+        }
+        try {
+            await this.loadNextBatch(item.parent);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to load more pages: ${error}`);
+        }
+    }
+
+    /**
+     * Reload the child pages of the given spaces and pages only, so the rest of the view keeps its expansion
+     */
+    refreshChildren(items: ConfluenceTreeItem[]): void {
+        for (const item of new Set(items)) {
+            this.childPagesCache.delete(this.childCacheKey(item));
+            // Items below are rebuilt from the reloaded pages; their IDs stay the same
+            for (const id of [...this.hierarchyItems.keys()]) {
+                if (id.startsWith(`${item.id}/`)) {
+                    this.hierarchyItems.delete(id);
+                }
+            }
+            this._onDidChangeTreeData.fire(item);
+        }
+    }
+
+    /**
+     * Item for a page in its space hierarchy, loading its ancestors' children as needed; undefined when
+     * the page's space is not listed at the top level of the view
+     */
+    async findPageItem(pageId: string): Promise<ConfluenceTreeItem | undefined> {
+        if (!this.helper) {
+            return undefined;
+        }
+        const page = await this.helper.getPage(pageId, 'ancestors,space');
+        if (!this.spacesCache) {
+            this.spacesCache = await this.helper.getUserAccessibleSpaces(100);
+        }
+        const space = this.spacesCache.find(candidate => candidate.key === page.space?.key);
+        if (!space) {
+            return undefined;
+        }
+
+        let parent = this.spaceItem(space, 'space');
+        for (const { id } of [...(page.ancestors || []), page]) {
+            const loaded = await this.loadChildPages(parent);
+            let found = loaded.pages.find(candidate => candidate.id === id);
+            while (!found && loaded.hasMore) {
+                await this.loadNextBatch(parent);
+                found = loaded.pages.find(candidate => candidate.id === id);
+            }
+            if (!found) {
+                return undefined;
+            }
+            parent = this.pageItem(found, parent);
+        }
+        return parent;
+    }
+
     async getChildren(element?: ConfluenceTreeItem): Promise<ConfluenceTreeItem[]> {
         if (!this.helper) {
             return [];
@@ -78,15 +170,7 @@ export class ConfluenceTreeProvider implements vscode.TreeDataProvider<Confluenc
                     this.spacesCache = await this.helper.getUserAccessibleSpaces(100);
                 }
 
-                const spaceItems = this.spacesCache.map(space =>
-                    new ConfluenceTreeItem(
-                        space.name,
-                        'space',
-                        vscode.TreeItemCollapsibleState.Collapsed,
-                        space.id,
-                        space.key
-                    )
-                );
+                const spaceItems = this.spacesCache.map(space => this.spaceItem(space, 'space'));
 
                 return [...categories, ...spaceItems];
             }
@@ -177,36 +261,14 @@ export class ConfluenceTreeProvider implements vscode.TreeDataProvider<Confluenc
                     this.starredSpacesCache = await this.helper.getStarredSpaces();
                 }
 
-                return this.starredSpacesCache.map(space =>
-                    new ConfluenceTreeItem(
-                        space.name,
-                        'space',
-                        vscode.TreeItemCollapsibleState.Collapsed,
-                        space.id,
-                        space.key
-                    )
-                );
+                return this.starredSpacesCache.map(space => this.spaceItem(space, 'starred-space'));
             }
 
-            // Space level - show pages
-            if (element.contextValue === 'space' && element.spaceKey) {
-                const cacheKey = element.spaceKey;
-                if (!this.pagesCache.has(cacheKey)) {
-                    const pages = await this.helper.getPagesInSpace(element.spaceKey, 50);
-                    this.pagesCache.set(cacheKey, pages);
-                }
-
-                const pages = this.pagesCache.get(cacheKey) || [];
-                return pages.map(page =>
-                    new ConfluenceTreeItem(
-                        page.title,
-                        'page',
-                        vscode.TreeItemCollapsibleState.None,
-                        page.id,
-                        element.spaceKey,
-                        page
-                    )
-                );
+            // Space and page levels - show the page hierarchy
+            if ((element.contextValue === 'space' && element.spaceKey) || (element.contextValue === 'page' && element.parent)) {
+                const loaded = await this.loadChildPages(element);
+                const items = loaded.pages.map(page => this.pageItem(page, element));
+                return loaded.hasMore ? [...items, this.loadMoreItem(element)] : items;
             }
 
             return [];
@@ -215,4 +277,70 @@ export class ConfluenceTreeProvider implements vscode.TreeDataProvider<Confluenc
             return [];
         }
     }
+
+    private async loadChildPages(parent: ConfluenceTreeItem): Promise<{ pages: ConfluencePage[]; hasMore: boolean }> {
+        const key = this.childCacheKey(parent);
+        let loaded = this.childPagesCache.get(key);
+        if (!loaded) {
+            const batch = await this.fetchChildPages(parent, 0);
+            loaded = { pages: batch.results, hasMore: batch.hasMore };
+            this.childPagesCache.set(key, loaded);
+        }
+        return loaded;
+    }
+
+    private async loadNextBatch(parent: ConfluenceTreeItem): Promise<void> {
+        const loaded = await this.loadChildPages(parent);
+        const batch = await this.fetchChildPages(parent, loaded.pages.length);
+        loaded.pages.push(...batch.results);
+        loaded.hasMore = batch.hasMore;
+        this._onDidChangeTreeData.fire(parent);
+    }
+
+    private fetchChildPages(parent: ConfluenceTreeItem, start: number): Promise<{ results: ConfluencePage[]; hasMore: boolean }> {
+        return parent.contextValue === 'space'
+            ? this.helper!.getRootPages(parent.spaceKey!, PAGE_BATCH_SIZE, start)
+            : this.helper!.getChildPages(parent.itemId!, PAGE_BATCH_SIZE, start);
+    }
+
+    private childCacheKey(parent: ConfluenceTreeItem): string {
+        return parent.contextValue === 'space' ? `space:${parent.spaceKey}` : parent.itemId!;
+    }
+
+    /**
+     * Space item; spaces appear both at the top level and under "Starred Spaces", so the scope keeps their IDs apart
+     */
+    private spaceItem(space: { key: string; name: string; id: string }, scope: 'space' | 'starred-space'): ConfluenceTreeItem {
+        return this.hierarchyItem(`${scope}:${space.key}`, () =>
+            new ConfluenceTreeItem(space.name, 'space', vscode.TreeItemCollapsibleState.Collapsed, space.id, space.key));
+    }
+
+    private pageItem(page: ConfluencePage, parent: ConfluenceTreeItem): ConfluenceTreeItem {
+        return this.hierarchyItem(`${parent.id}/${page.id}`, () => {
+            const collapsible = page.childTypes?.page?.value === false
+                ? vscode.TreeItemCollapsibleState.None
+                : vscode.TreeItemCollapsibleState.Collapsed;
+            const item = new ConfluenceTreeItem(page.title, 'page', collapsible, page.id, parent.spaceKey, page);
+            item.parent = parent;
+            return item;
+        });
+    }
+
+    private loadMoreItem(parent: ConfluenceTreeItem): ConfluenceTreeItem {
+        return this.hierarchyItem(`${parent.id}/more`, () => {
+            const item = new ConfluenceTreeItem('Load more…', 'loadMore', vscode.TreeItemCollapsibleState.None);
+            item.parent = parent;
+            return item;
+        });
+    }
+
+    private hierarchyItem(id: string, create: () => ConfluenceTreeItem): ConfluenceTreeItem {
+        let item = this.hierarchyItems.get(id);
+        if (!item) {
+            item = create();
+            item.id = id;
+            this.hierarchyItems.set(id, item);
+        }
+        return item;
+    }
 }
@@ -1,13 +1,35 @@
 import * as vscode from 'vscode';
+import { adfToHtml, adfToMarkdown, markdownToAdf } from '../helpers/adfMarkdown';
 import { JiraHelper, JiraIssue } from '../helpers/jiraHelper';
+import { transitionToStatus } from '../helpers/jiraTransitions';
+import { collect } from '../helpers/pagination';
 import * as yamlConverters from '../utils/jiraYamlConverters';
+import { transitionPrompts } from './jiraTransitionPrompts';
 
 export class JiraIssueWebviewProvider {
     private static currentPanel: vscode.WebviewPanel | undefined;
     private static currentIssueKey: string | undefined;
     private static currentYamlUri: vscode.Uri | undefined;
 
-    constructor(private helper: JiraHelper) {}
+    private currentHelper: JiraHelper | null;
+
+    constructor(helper: JiraHelper | null) {
+        this.currentHelper = helper;
+    }
+
+    /**
+     * Swap in a rebuilt helper (e.g. after signing in)
+     */
+    setHelper(helper: JiraHelper | null): void {
+        this.currentHelper = helper;
+    }
+
+    private get helper(): JiraHelper {
+        if (!this.currentHelper) {
+            throw new Error('Jira is not configured');
+        }
+        return this.currentHelper;
+    }
 
     public async showIssue(issueKey: string, yamlUri?: vscode.Uri): Promise<void> {
         JiraIssueWebviewProvider.currentIssueKey = issueKey;
@@ -15,8 +37,7 @@ export class JiraIssueWebviewProvider {
             JiraIssueWebviewProvider.currentYamlUri = yamlUri;
         }
         const issue = await this.helper.getIssue(issueKey);
-        const commentsData = await this.helper.getComments(issueKey, 0, 100, '-created');
-        const comments = commentsData.comments || [];
+        const comments = await collect(this.helper.iterateComments(issueKey, '-created'));
 
         if (JiraIssueWebviewProvider.currentPanel) {
             JiraIssueWebviewProvider.currentPanel.reveal(vscode.ViewColumn.Beside);
@@ -53,12 +74,10 @@ export class JiraIssueWebviewProvider {
                         }
                         case 'getTransitions': {
                             const transitions = await this.helper.getTransitions(issueKey);
+                            const statuses = [...new Set<string>(transitions.transitions.map((t: any) => t.to.name))];
                             panel.webview.postMessage({
                                 command: 'transitionsResult',
-                                transitions: transitions.transitions.map((t: any) => ({
-                                    id: t.id,
-                                    name: t.to.name
-                                }))
+                                statuses
                             });
                             break;
                         }
@@ -74,7 +93,11 @@ export class JiraIssueWebviewProvider {
                             break;
                         }
                         case 'transitionStatus': {
-                            await this.helper.transitionIssue(issueKey, message.transitionId);
+                            // Screen fields such as the resolution are asked for before the transition runs
+                            const result = await transitionToStatus(this.helper, issueKey, message.status, transitionPrompts(this.helper, issueKey));
+                            if (result.cancelled) {
+                                break;
+                            }
                             vscode.window.showInformationMessage('Status updated');
                             await this.refreshWebview(issueKey);
                             await this.syncToYaml(issueKey);
@@ -94,14 +117,14 @@ export class JiraIssueWebviewProvider {
                             break;
                         }
                         case 'addComment': {
-                            const commentADF = this.convertToADF(message.comment);
+                            const commentADF = markdownToAdf(message.comment);
                             await this.helper.addCommentADF(issueKey, commentADF);
                             vscode.window.showInformationMessage('Comment added');
                             await this.refreshWebview(issueKey);
                             break;
                         }
                         case 'updateComment': {
-                            const commentADF = this.convertToADF(message.comment);
+                            const commentADF = markdownToAdf(message.comment);
                             await this.helper.updateCommentADF(issueKey, message.commentId, commentADF);
                             vscode.window.showInformationMessage('Comment updated');
                             await this.refreshWebview(issueKey);
@@ -146,8 +169,8 @@ export class JiraIssueWebviewProvider {
     private async refreshWebview(issueKey: string): Promise<void> {
         if (JiraIssueWebviewProvider.currentPanel) {
             const issue = await this.helper.getIssue(issueKey);
-            const comments = await this.helper.getComments(issueKey, 0, 100, '-created');
-            JiraIssueWebviewProvider.currentPanel.webview.html = this.getWebviewContent(issue, comments.comments || []);
+            const comments = await collect(this.helper.iterateComments(issueKey, '-created'));
+            JiraIssueWebviewProvider.currentPanel.webview.html = this.getWebviewContent(issue, comments);
         }
     }
 
@@ -189,8 +212,7 @@ export class JiraIssueWebviewProvider {
                     fields.summary = value;
                     break;
                 case 'description':
-                    // Convert text with @mentions to ADF format
-                    fields.description = this.convertToADF(value);
+                    fields.description = markdownToAdf(value);
                     break;
                 case 'priority':
                     // Priority requires id, not name
@@ -207,54 +229,6 @@ export class JiraIssueWebviewProvider {
         }
     }
 
-    private convertToADF(text: string): any {
-        // Convert text with @mentions to Atlassian Document Format
-        // Format: @[displayName](accountId)
-        const mentionRegex = /@\[([^\]]+)\]\(([^)]+)\)/g;
-        const parts: any[] = [];
-        let lastIndex = 0;
-        let match;
-
-        while ((match = mentionRegex.exec(text)) !== null) {
-            // Add text before mention
-            if (match.index > lastIndex) {
-                const textBefore = text.substring(lastIndex, match.index);
-                if (textBefore) {
-                    parts.push({ type: 'text', text: textBefore });
-                }
-            }
-            
-            // Add mention
-            parts.push({
-                type: 'mention',
-                attrs: {
-                    id: match[2],
-                    text: `@${match[1]}`
-                }
-            });
-            
-            lastIndex = match.index + match[0].length;
-        }
-        
-        // Add remaining text
-        if (lastIndex < text.length) {
-            parts.push({ type: 'text', text: text.substring(lastIndex) });
-        }
-
-        if (parts.length === 0 && text) {
-            parts.push({ type: 'text', text });
-        }
-
-        return {
-            type: 'doc',
-            version: 1,
-            content: [{
-                type: 'paragraph',
-                content: parts.length > 0 ? parts : [{ type: 'text', text: '' }]
-            }]
-        };
-    }
-
     private getWebviewContent(issue: JiraIssue, comments: any[] = []): string {
         const description = this.formatDescription(issue.fields.description);
         const currentUser = this.helper['config'].email;
@@ -461,6 +435,45 @@ export class JiraIssueWebviewProvider {
             border-radius: 3px;
             font-weight: 500;
         }
+        .adf-panel {
+            border-left: 3px solid var(--vscode-textLink-foreground);
+            background: var(--vscode-textBlockQuote-background);
+            padding: 4px 12px;
+            margin: 8px 0;
+        }
+        .adf-panel-warning { border-left-color: #ff991f; }
+        .adf-panel-error { border-left-color: #de350b; }
+        .adf-panel-success { border-left-color: #00875a; }
+        .adf-panel-note { border-left-color: #6554c0; }
+        .adf-status {
+            display: inline-block;
+            padding: 0 4px;
+            border-radius: 3px;
+            font-size: 11px;
+            font-weight: bold;
+            text-transform: uppercase;
+            background-color: #dfe1e6;
+            color: #172b4d;
+        }
+        .adf-status-blue { background-color: #deebff; color: #0747a6; }
+        .adf-status-green { background-color: #e3fcef; color: #006644; }
+        .adf-status-yellow { background-color: #fff0b3; color: #172b4d; }
+        .adf-status-red { background-color: #ffebe6; color: #bf2600; }
+        .adf-status-purple { background-color: #eae6ff; color: #403294; }
+        .adf-table {
+            border-collapse: collapse;
+        }
+        .adf-table th, .adf-table td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 4px 8px;
+        }
+        .adf-task-list, .adf-decision-list {
+            list-style: none;
+            padding-left: 4px;
+        }
+        .adf-media {
+            color: var(--vscode-descriptionForeground);
+        }
         .status {
             display: inline-block;
             padding: 2px 10px;
@@ -589,9 +602,9 @@ export class JiraIssueWebviewProvider {
                     ${description}
                 </div>
                 <div id="descriptionEdit" class="edit-container">
-                    <textarea id="descriptionInput">${this.extractPlainText(issue.fields.description)}</textarea>
+                    <textarea id="descriptionInput">${this.escapeHtml(this.toEditableMarkdown(issue.fields.description))}</textarea>
                     <div style="font-size: 11px; color: var(--vscode-descriptionForeground); margin-top: 4px;">
-                        Tip: Type @ to mention users. Format: @[Display Name](accountId)
+                        Tip: Markdown is supported. Type @ to mention users. Format: @[Display Name](accountId)
                     </div>
                     <div class="edit-actions">
                         <button onclick="saveDescription()">Save</button>
@@ -633,8 +646,8 @@ export class JiraIssueWebviewProvider {
             switch (message.command) {
                 case 'transitionsResult':
                     const select = document.getElementById('statusSelect');
-                    select.innerHTML = message.transitions.map(t => 
-                        '<option value="' + t.id + '">' + t.name + '</option>'
+                    select.innerHTML = message.statuses.map(name => 
+                        '<option value="' + escapeHtml(name) + '">' + escapeHtml(name) + '</option>'
                     ).join('');
                     break;
                 case 'prioritiesResult':
@@ -668,11 +681,11 @@ export class JiraIssueWebviewProvider {
         
         function saveStatus() {
             const select = document.getElementById('statusSelect');
-            const transitionId = select.value;
-            if (transitionId) {
+            const status = select.value;
+            if (status) {
                 vscode.postMessage({
                     command: 'transitionStatus',
-                    transitionId: transitionId
+                    status: status
                 });
                 cancelEdit('statusEdit');
             }
@@ -978,92 +991,26 @@ export class JiraIssueWebviewProvider {
 
         // Handle Atlassian Document Format (ADF)
         if (description.type === 'doc' && description.content) {
-            return this.adfToHtml(description.content);
+            return adfToHtml(description);
         }
 
         return this.escapeHtml(JSON.stringify(description, null, 2));
     }
 
-    private adfToHtml(content: any[]): string {
-        return content.map((node: any) => {
-            if (node.type === 'paragraph') {
-                if (!node.content) {return '<p></p>';}
-                const html = node.content.map((c: any) => {
-                    if (c.type === 'text') {
-                        return this.escapeHtml(c.text);
-                    }
-                    if (c.type === 'mention') {
-                        const name = c.attrs?.text || c.attrs?.id || 'user';
-                        return `<span class="mention" style="background-color: var(--vscode-editor-inactiveSelectionBackground); padding: 2px 4px; border-radius: 3px;">${this.escapeHtml(name)}</span>`;
-                    }
-                    return '';
-                }).join('');
-                return `<p>${html}</p>`;
-            }
-            if (node.type === 'heading') {
-                if (!node.content) {return '<h1></h1>';}
-                const html = node.content.map((c: any) => {
-                    if (c.type === 'text') {
-                        return this.escapeHtml(c.text);
-                    }
-                    if (c.type === 'mention') {
-                        const name = c.attrs?.text || c.attrs?.id || 'user';
-                        return `<span class="mention" style="background-color: var(--vscode-editor-inactiveSelectionBackground); padding: 2px 4px; border-radius: 3px;">${this.escapeHtml(name)}</span>`;
-                    }
-                    return '';
-                }).join('');
-                const level = node.attrs?.level || 1;
-                return `<h${level}>${html}</h${level}>`;
-            }
-            if (node.type === 'bulletList') {
-                const items = node.content?.map((item: any) => {
-                    const text = item.content?.[0]?.content?.[0]?.text || '';
-                    return `<li>${this.escapeHtml(text)}</li>`;
-                }).join('') || '';
-                return `<ul>${items}</ul>`;
-            }
-            return '';
-        }).join('');
-    }
-
-    private extractPlainText(description: any): string {
+    private toEditableMarkdown(description: any): string {
         if (!description) {
             return '';
         }
         if (typeof description === 'string') {
             return description;
         }
-        // Extract text from ADF format
+        // Edit ADF as Markdown
         if (description.type === 'doc' && description.content) {
-            return this.adfToPlainText(description.content);
+            return adfToMarkdown(description);
         }
         return JSON.stringify(description);
     }
 
-    private adfToPlainText(content: any[]): string {
-        return content.map((node: any) => {
-            if (node.type === 'paragraph' || node.type === 'heading') {
-                if (!node.content) {return '';}
-                return node.content.map((c: any) => {
-                    if (c.type === 'text') {
-                        return c.text;
-                    }
-                    if (c.type === 'mention') {
-                        // Convert mention to plain text format @[Name](id)
-                        const name = c.attrs?.text || c.attrs?.id || 'user';
-                        const id = c.attrs?.id || '';
-                        return `@[${name}](${id})`;
-                    }
-                    return '';
-                }).join('');
-            }
-            if (node.content) {
-                return this.adfToPlainText(node.content);
-            }
-            return node.text || '';
-        }).join('\n');
-    }
-
     private renderComments(comments: any[], currentUser: string): string {
         if (!comments || comments.length === 0) {
             return '<p style="color: var(--vscode-descriptionForeground);">No comments yet</p>';
@@ -1074,7 +1021,7 @@ export class JiraIssueWebviewProvider {
             const authorEmail = comment.author?.emailAddress || '';
             const created = new Date(comment.created).toLocaleString();
             const body = this.formatCommentBody(comment.body);
-            const plainBody = this.extractPlainText(comment.body);
+            const plainBody = this.toEditableMarkdown(comment.body);
             const canEdit = authorEmail === currentUser;
 
             let html = `<div class="comment" data-comment-id="${comment.id}">`;
@@ -1110,31 +1057,11 @@ export class JiraIssueWebviewProvider {
         }
         // Handle ADF format with mentions
         if (body.type === 'doc' && body.content) {
-            return this.adfCommentToHtml(body.content);
+            return adfToHtml(body);
         }
         return this.escapeHtml(JSON.stringify(body));
     }
 
-    private adfCommentToHtml(content: any[]): string {
-        return content.map((node: any) => {
-            if (node.type === 'paragraph') {
-                if (!node.content) {return '<p></p>';}
-                const html = node.content.map((c: any) => {
-                    if (c.type === 'text') {
-                        return this.escapeHtml(c.text);
-                    }
-                    if (c.type === 'mention') {
-                        const name = c.attrs?.text || c.attrs?.id || 'user';
-                        return `<span class="mention" style="background-color: var(--vscode-editor-inactiveSelectionBackground); padding: 2px 4px; border-radius: 3px; font-weight: 500;">${this.escapeHtml(name)}</span>`;
-                    }
-                    return '';
-                }).join('');
-                return `<p>${html}</p>`;
-            }
-            return '';
-        }).join('');
-    }
-
     private escapeHtml(unsafe: string): string {
         return unsafe
             .replace(/&/g, '&amp;')
@@ -47,6 +47,14 @@ export class JiraTreeProvider implements vscode.TreeDataProvider<JiraTreeItem> {
 
     constructor(private helper: JiraHelper | null) {}
 
+    /**
+     * Swap in a rebuilt helper (e.g. after signing in) and reload the tree
+     */
+    setHelper(helper: JiraHelper | null): void {
+        this.helper = helper;
+        this.refresh();
+    }
+
     refresh(): void {
         this.assignedIssuesCache = null;
         this.reportedIssuesCache = null;
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { HelperRegistry } from '../utils/helperRegistry';
+
+/**
+ * Status bar entry showing the active Atlassian site; clicking it opens the site switcher
+ */
+export class SiteStatusBar implements vscode.Disposable {
+    private readonly item: vscode.StatusBarItem;
+    private readonly helperListener: vscode.Disposable;
+
+    constructor(private readonly helpers: HelperRegistry) {
+        this.item = vscode.window.createStatusBarItem('atlassianTools.site', vscode.StatusBarAlignment.Left, 10);
+        this.item.name = 'Atlassian Site';
+        this.item.command = 'atlassian.switchSite';
+        this.helperListener = helpers.onDidChangeHelpers(() => this.update());
+        this.update();
+    }
+
+    private update(): void {
+        const site = this.helpers.getActiveSite();
+        const config = this.helpers.getSiteConfig();
+
+        if (!site || !config) {
+            this.item.hide();
+            return;
+        }
+
+        this.item.text = `$(globe) ${site}`;
+        const account = config.email ? ` (${config.email})` : '';
+        const deployment = config.deploymentType === 'dataCenter' ? 'Data Center' : 'Cloud';
+        this.item.tooltip = `Atlassian ${deployment} site: ${config.baseUrl}${account}\nClick to switch site`;
+        this.item.show();
+    }
+
+    dispose(): void {
+        this.helperListener.dispose();
+        this.item.dispose();
+    }
+}
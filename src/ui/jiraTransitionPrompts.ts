@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { markdownToAdf } from '../helpers/adfMarkdown';
+import { JiraHelper } from '../helpers/jiraHelper';
+import { TransitionPrompts } from '../helpers/jiraTransitions';
+import { toFieldValue } from '../utils/jiraYamlConverters';
+
+/**
+ * Questions asked while moving an issue through its workflow: the next step when none leads to the status
+ * directly, and the fields of transition screens (allowed values in a quick pick, others typed in)
+ */
+export function transitionPrompts(helper: JiraHelper, issueKey: string): TransitionPrompts {
+    return {
+        async chooseStep(transitions, fromStatus, toStatus) {
+            const picked = await vscode.window.showQuickPick(
+                transitions.map(transition => ({ label: transition.name, description: `→ ${transition.to?.name || ''}`, transition })),
+                { title: `${issueKey}: no transition leads from ${fromStatus} to ${toStatus} directly`, placeHolder: 'Choose the next step', ignoreFocusOut: true }
+            );
+            return picked?.transition;
+        },
+
+        async screenFields(transition, required) {
+            const fields: Record<string, any> = {};
+            for (const field of required) {
+                const title = `${issueKey}: ${transition.name} needs ${field.name}`;
+                if (field.allowedValues && field.allowedValues.length > 0) {
+                    const picked = await vscode.window.showQuickPick(
+                        field.allowedValues.map(value => ({ label: String(value.name ?? value.value ?? value.id), value })),
+                        { title, ignoreFocusOut: true }
+                    );
+                    if (!picked) {
+                        return undefined;
+                    }
+                    fields[field.id] = toFieldValue(picked.label, field, user => helper.userReference(user));
+                } else {
+                    const value = await vscode.window.showInputBox({ title, prompt: field.name, ignoreFocusOut: true });
+                    if (value === undefined) {
+                        return undefined;
+                    }
+                    fields[field.id] = toFieldValue(value, field, user => helper.userReference(user));
+                }
+            }
+
+            // A comment is offered whenever the screen has one; leaving it empty adds none
+            let update: Record<string, any[]> | undefined;
+            if (transition.fields?.comment) {
+                const comment = await vscode.window.showInputBox({
+                    title: `${issueKey}: ${transition.name}`,
+                    prompt: 'Comment (optional, Markdown)',
+                    ignoreFocusOut: true
+                });
+                if (comment === undefined) {
+                    return undefined;
+                }
+                if (comment.trim()) {
+                    update = { comment: [{ add: { body: markdownToAdf(comment) } }] };
+                }
+            }
+            return { fields, update };
+        }
+    };
+}
@@ -1,16 +1,29 @@
+/**
+ * Atlassian Cloud uses email + API token with the latest REST APIs;
+ * Server/Data Center uses personal access tokens with Jira REST API v2
+ */
+export type DeploymentType = 'cloud' | 'dataCenter';
+
 export interface AtlassianConfig {
     baseUrl: string;
     email: string;
     apiToken: string;
+    /** Defaults to 'cloud' */
+    deploymentType?: DeploymentType;
+    /** Confluence base URL including any context path, when Confluence is not served from baseUrl (Data Center) */
+    confluenceBaseUrl?: string;
 }
 
 /**
- * Load Atlassian configuration from VS Code settings or environment variables
+ * Load Atlassian configuration from VS Code settings or environment variables.
+ * An API token from secret storage takes precedence over the legacy plaintext setting.
  */
-export function loadAtlassianConfig(): AtlassianConfig | null {
+export function loadAtlassianConfig(secretApiToken?: string): AtlassianConfig | null {
     let atlassianBaseUrl = '';
     let atlassianEmail = '';
-    let atlassianApiToken = '';
+    let atlassianApiToken = secretApiToken || '';
+    let deploymentType = '';
+    let confluenceBaseUrl = '';
 
     // Try to load from VS Code settings first (if running in VS Code)
     try {
@@ -20,7 +33,9 @@ export function loadAtlassianConfig(): AtlassianConfig | null {
         
         atlassianBaseUrl = config.get('atlassianBaseUrl') || '';
         atlassianEmail = config.get('atlassianEmail') || '';
-        atlassianApiToken = config.get('atlassianApiToken') || '';
+        atlassianApiToken = atlassianApiToken || config.get('atlassianApiToken') || '';
+        deploymentType = config.get('deploymentType') || '';
+        confluenceBaseUrl = config.get('confluenceBaseUrl') || '';
     } catch {
         // Not in VS Code context, ignore
     }
@@ -29,16 +44,25 @@ export function loadAtlassianConfig(): AtlassianConfig | null {
     atlassianBaseUrl = atlassianBaseUrl || process.env.ATLASSIAN_BASE_URL || '';
     atlassianEmail = atlassianEmail || process.env.ATLASSIAN_EMAIL || '';
     atlassianApiToken = atlassianApiToken || process.env.ATLASSIAN_API_TOKEN || '';
-    
-    if (!atlassianBaseUrl || !atlassianEmail || !atlassianApiToken) {
-        return null;
-    }
+    deploymentType = deploymentType || process.env.ATLASSIAN_DEPLOYMENT_TYPE || 'cloud';
+    confluenceBaseUrl = confluenceBaseUrl || process.env.ATLASSIAN_CONFLUENCE_BASE_URL || '';
 
-    return {
+    const config: AtlassianConfig = {
         baseUrl: atlassianBaseUrl,
         email: atlassianEmail,
-        apiToken: atlassianApiToken
+        apiToken: atlassianApiToken,
+        deploymentType: deploymentType === 'dataCenter' ? 'dataCenter' : 'cloud',
+        ...(confluenceBaseUrl && { confluenceBaseUrl })
     };
+
+    return validateAtlassianConfig(config) ? config : null;
+}
+
+/**
+ * Whether the configuration points at a Server/Data Center deployment
+ */
+export function isDataCenter(config: AtlassianConfig): boolean {
+    return config.deploymentType === 'dataCenter';
 }
 
 /**
@@ -49,7 +73,12 @@ export function validateAtlassianConfig(config: AtlassianConfig | null): boolean
         return false;
     }
 
-    if (!config.baseUrl || !config.email || !config.apiToken) {
+    if (!config.baseUrl || !config.apiToken) {
+        return false;
+    }
+
+    // Personal access tokens on Data Center are not tied to an email address
+    if (!config.email && !isDataCenter(config)) {
         return false;
     }
 
@@ -1,9 +1,17 @@
 import * as yaml from 'js-yaml';
 import { ConfluencePage } from '../helpers/confluenceHelper';
+import { markdownToStorage, storageToMarkdown } from '../helpers/storageMarkdown';
 
-export function pageToYaml(page: ConfluencePage): string {
+/** How the page body is written below the frontmatter */
+export type PageFormat = 'storage' | 'markdown';
+
+/**
+ * Page as a YAML frontmatter document; `body` replaces the converted page body, e.g. Markdown with rewritten links
+ */
+export function pageToYaml(page: ConfluencePage, format: PageFormat = 'storage', body?: string): string {
     // Extract HTML content from storage or view
-    const content = page.body?.storage?.value || page.body?.view?.value || '';
+    const html = page.body?.storage?.value || page.body?.view?.value || '';
+    const content = body ?? (format === 'markdown' ? storageToMarkdown(html) : html);
     
     // Create frontmatter
     const frontmatter = {
@@ -14,7 +22,8 @@ export function pageToYaml(page: ConfluencePage): string {
         status: page.status,
         spaceKey: page.space?.key || '',
         spaceName: page.space?.name || '',
-        version: page.version?.number || 1
+        version: page.version?.number || 1,
+        ...(format === 'markdown' && { format })
     };
 
     const yamlFrontmatter = yaml.dump(frontmatter, {
@@ -60,7 +69,7 @@ export function yamlToPage(yamlContent: string): Partial<ConfluencePage> {
     };
 }
 
-export function newPageToYaml(spaceKey: string, parentId?: string): string {
+export function newPageToYaml(spaceKey: string, parentId?: string, format: PageFormat = 'storage'): string {
     const frontmatter = {
         entityType: 'page',
         id: 'new',
@@ -69,7 +78,8 @@ export function newPageToYaml(spaceKey: string, parentId?: string): string {
         status: 'current',
         spaceKey: spaceKey,
         parentId: parentId || '',
-        version: 1
+        version: 1,
+        ...(format === 'markdown' && { format })
     };
 
     const yamlFrontmatter = yaml.dump(frontmatter, {
@@ -78,14 +88,24 @@ export function newPageToYaml(spaceKey: string, parentId?: string): string {
         noRefs: true
     });
 
-    const templateContent = `<h1>New Page</h1>
+    const templateContent = format === 'markdown'
+        ? `# New Page
+
+Start editing your Confluence page here...
+
+You can use Markdown; macros without a Markdown form go in a \`\`\`confluence block as storage format.`
+        : `<h1>New Page</h1>
 <p>Start editing your Confluence page here...</p>
 <p>You can use HTML or Confluence storage format.</p>`;
 
     return `---\n${yamlFrontmatter}---\n\n${templateContent}`;
 }
 
-export function extractPageContent(yamlContent: string): { title: string; content: string; version: number } {
+/**
+ * Title, storage format body and version from a page YAML document.
+ * A Markdown body is converted to storage format; given the page's current storage, unchanged blocks are kept as they are.
+ */
+export function extractPageContent(yamlContent: string, originalStorage?: string): { title: string; content: string; version: number } {
     const parts = yamlContent.split(/^---$/m);
     
     let frontmatter: any = {};
@@ -100,7 +120,35 @@ export function extractPageContent(yamlContent: string): { title: string; conten
 
     return {
         title: frontmatter.title || 'Untitled',
-        content: content,
+        content: frontmatter.format === 'markdown' ? markdownToStorage(content, originalStorage) : content,
         version: frontmatter.version || 1
     };
 }
+
+/**
+ * Format of the page body in a page YAML document
+ */
+export function pageFormatOf(yamlContent: string): PageFormat {
+    const parts = yamlContent.split(/^---$/m);
+    const frontmatter = parts.length >= 3 ? yaml.load(parts[1]) as any : undefined;
+    return frontmatter?.format === 'markdown' ? 'markdown' : 'storage';
+}
+
+/**
+ * The YAML with its frontmatter `version` set, leaving the page content untouched
+ */
+export function withVersion(yamlContent: string, version: number): string {
+    const parts = yamlContent.split(/^---$/m);
+    if (parts.length < 3) {
+        return yamlContent;
+    }
+
+    const frontmatter = { ...(yaml.load(parts[1]) as any), version };
+    const yamlFrontmatter = yaml.dump(frontmatter, {
+        indent: 2,
+        lineWidth: -1,
+        noRefs: true
+    });
+
+    return `${parts[0]}---\n${yamlFrontmatter}---${parts.slice(2).join('---')}`;
+}
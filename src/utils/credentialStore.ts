@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+
+/**
+ * Secret storage key for the Atlassian API token of the default site.
+ * Tokens for named site profiles are stored under `<key>.<site name>`.
+ */
+export const API_TOKEN_SECRET_KEY = 'atlassianTools.apiToken';
+
+/**
+ * Name of the site profile backed by the `atlassianBaseUrl`/`atlassianEmail` settings
+ */
+export const DEFAULT_SITE_NAME = 'default';
+
+/**
+ * Secret storage key holding the API token for a site profile
+ */
+export function getApiTokenSecretKey(site: string = DEFAULT_SITE_NAME): string {
+    return site === DEFAULT_SITE_NAME ? API_TOKEN_SECRET_KEY : `${API_TOKEN_SECRET_KEY}.${site}`;
+}
+
+/**
+ * Read the API token for a site profile from VS Code secret storage
+ */
+export async function getStoredApiToken(secrets: vscode.SecretStorage, site?: string): Promise<string | undefined> {
+    return secrets.get(getApiTokenSecretKey(site));
+}
+
+/**
+ * Save the API token for a site profile to VS Code secret storage
+ */
+export async function storeApiToken(secrets: vscode.SecretStorage, apiToken: string, site?: string): Promise<void> {
+    await secrets.store(getApiTokenSecretKey(site), apiToken);
+}
+
+/**
+ * Remove the API token for a site profile from secret storage.
+ * For the default site, any plaintext copy left in settings is removed too.
+ */
+export async function deleteStoredApiToken(secrets: vscode.SecretStorage, site: string = DEFAULT_SITE_NAME): Promise<void> {
+    await secrets.delete(getApiTokenSecretKey(site));
+    if (site === DEFAULT_SITE_NAME) {
+        await clearPlaintextApiToken();
+    }
+}
+
+/**
+ * Move a plaintext `atlassianTools.atlassianApiToken` setting into secret storage.
+ * Returns true when a token was migrated.
+ */
+export async function migratePlaintextApiToken(secrets: vscode.SecretStorage): Promise<boolean> {
+    const inspected = vscode.workspace.getConfiguration('atlassianTools').inspect<string>('atlassianApiToken');
+    const plaintextToken = inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue;
+
+    if (!plaintextToken) {
+        return false;
+    }
+
+    // Never overwrite a token the user already stored through sign-in
+    const existing = await getStoredApiToken(secrets);
+    if (!existing) {
+        await storeApiToken(secrets, plaintextToken);
+    }
+
+    await clearPlaintextApiToken();
+    return true;
+}
+
+async function clearPlaintextApiToken(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('atlassianTools');
+    const inspected = config.inspect<string>('atlassianApiToken');
+    const targets: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+        [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+        [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+        [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder]
+    ];
+
+    for (const [value, target] of targets) {
+        if (value) {
+            try {
+                await config.update('atlassianApiToken', undefined, target);
+            } catch (error) {
+                console.error('Atlassian Tools: Failed to clear plaintext API token setting:', error);
+            }
+        }
+    }
+}
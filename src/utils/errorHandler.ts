@@ -1,10 +1,13 @@
 import * as vscode from 'vscode';
+import { AtlassianApiError } from '../helpers/atlassianClient';
 
 /**
  * Handle errors and return formatted error result for language model tools
  */
 export function handleToolError(error: any, context?: string): vscode.LanguageModelToolResult {
-    const message = error?.message || String(error);
+    const message = error instanceof AtlassianApiError
+        ? formatApiError(error)
+        : error?.message || String(error);
     const fullMessage = context ? `${context}: ${message}` : message;
     
     console.error('Atlassian Tools Error:', fullMessage, error);
@@ -14,6 +17,17 @@ export function handleToolError(error: any, context?: string): vscode.LanguageMo
     ]);
 }
 
+/**
+ * Create an error result carrying structured details (e.g. the fields a request is missing) after the message
+ */
+export function createErrorResult(message: string, details: any): vscode.LanguageModelToolResult {
+    console.error('Atlassian Tools Error:', message, details);
+
+    return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Error: ${message}\n${JSON.stringify(details, null, 2)}`)
+    ]);
+}
+
 /**
  * Create a success result for language model tools
  */
@@ -31,3 +45,11 @@ export function createWarningResult(message: string): vscode.LanguageModelToolRe
         new vscode.LanguageModelTextPart(`Warning: ${message}`)
     ]);
 }
+
+/**
+ * Format an Atlassian API error as status, parsed messages and the failing endpoint
+ */
+export function formatApiError(error: AtlassianApiError): string {
+    const details = error.errorMessages.length > 0 ? error.errorMessages.join('; ') : error.responseBody;
+    return `${error.serviceName} returned ${error.statusCode} for ${error.method} ${error.endpoint}: ${details}`;
+}
@@ -1,3 +1,4 @@
+import { richTextToMarkdown } from '../helpers/adfMarkdown';
 import { JiraIssue } from '../helpers/jiraHelper';
 import { ConfluencePage } from '../helpers/confluenceHelper';
 
@@ -5,6 +6,7 @@ import { ConfluencePage } from '../helpers/confluenceHelper';
  * Format a Jira issue for display
  */
 export function formatJiraIssue(issue: JiraIssue): string {
+    const description = richTextToMarkdown(issue.fields.description);
     return `
 **${issue.key}**: ${issue.fields.summary}
 **Status**: ${issue.fields.status?.name || 'Unknown'}
@@ -14,6 +16,7 @@ export function formatJiraIssue(issue: JiraIssue): string {
 **Reporter**: ${issue.fields.reporter?.displayName || 'Unknown'}
 **Created**: ${issue.fields.created}
 **Updated**: ${issue.fields.updated}
+${description ? `**Description**:\n${description}` : ''}
 `.trim();
 }
 
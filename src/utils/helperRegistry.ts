@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { JiraHelper } from '../helpers/jiraHelper';
+import { ConfluenceHelper } from '../helpers/confluenceHelper';
+import { AtlassianConfig } from './configLoader';
+
+/**
+ * Input accepted by every language model tool in addition to its own parameters
+ */
+export interface SiteInput {
+    /** Name of a configured site profile; defaults to the active site */
+    site?: string;
+}
+
+interface SiteHelpers {
+    config: AtlassianConfig;
+    jiraHelper: JiraHelper;
+    confluenceHelper: ConfluenceHelper;
+}
+
+/**
+ * Holds the Jira and Confluence helpers for each configured site profile and tracks the active one.
+ * Listeners are notified when helpers are rebuilt or the active site changes,
+ * so commands, views and tools always talk to the right site with the latest credentials.
+ */
+export class HelperRegistry implements vscode.Disposable {
+    private sites = new Map<string, SiteHelpers>();
+    private activeSite: string | undefined;
+
+    private readonly _onDidChangeHelpers = new vscode.EventEmitter<void>();
+    readonly onDidChangeHelpers: vscode.Event<void> = this._onDidChangeHelpers.event;
+
+    /**
+     * Get the Jira helper for a site, or for the active site when none is given
+     */
+    getJiraHelper(site?: string): JiraHelper | null {
+        return this.getSite(site)?.jiraHelper ?? null;
+    }
+
+    /**
+     * Get the Confluence helper for a site, or for the active site when none is given
+     */
+    getConfluenceHelper(site?: string): ConfluenceHelper | null {
+        return this.getSite(site)?.confluenceHelper ?? null;
+    }
+
+    getSiteNames(): string[] {
+        return Array.from(this.sites.keys());
+    }
+
+    getActiveSite(): string | undefined {
+        return this.activeSite;
+    }
+
+    getSiteConfig(site?: string): AtlassianConfig | undefined {
+        return this.getSite(site)?.config;
+    }
+
+    /**
+     * Rebuild the helpers from the configured sites and pick the active one.
+     * Falls back to the first site when the preferred one is not configured.
+     */
+    update(configs: Map<string, AtlassianConfig>, preferredSite?: string): void {
+        this.sites = new Map();
+        for (const [name, config] of configs) {
+            this.sites.set(name, {
+                config,
+                jiraHelper: new JiraHelper(config),
+                confluenceHelper: new ConfluenceHelper(config)
+            });
+        }
+
+        this.activeSite = preferredSite && this.sites.has(preferredSite)
+            ? preferredSite
+            : this.sites.keys().next().value;
+        this._onDidChangeHelpers.fire();
+    }
+
+    /**
+     * Make another configured site the active one
+     */
+    setActiveSite(site: string): void {
+        if (!this.sites.has(site)) {
+            throw new Error(`Unknown Atlassian site: ${site}`);
+        }
+        if (site !== this.activeSite) {
+            this.activeSite = site;
+            this._onDidChangeHelpers.fire();
+        }
+    }
+
+    /**
+     * Build the error reported when no helper is available for a service and site
+     */
+    missingHelperError(serviceName: string, site?: string): Error {
+        if (site && !this.sites.has(site)) {
+            const known = this.getSiteNames();
+            return new Error(`Unknown Atlassian site "${site}". Configured sites: ${known.length > 0 ? known.join(', ') : 'none'}`);
+        }
+        return new Error(`${serviceName} is not configured`);
+    }
+
+    dispose(): void {
+        this._onDidChangeHelpers.dispose();
+    }
+
+    private getSite(site?: string): SiteHelpers | undefined {
+        const name = site || this.activeSite;
+        return name ? this.sites.get(name) : undefined;
+    }
+}
@@ -1,6 +1,45 @@
 import * as yaml from 'js-yaml';
+import { markdownToAdf, richTextToMarkdown } from '../helpers/adfMarkdown';
 import { JiraIssue } from '../helpers/jiraHelper';
 
+// js-yaml picks the scalar style itself; the description is always written as a literal block
+const DESCRIPTION_PLACEHOLDER = '__description__';
+
+// Not saved as plain field values: status moves through workflow transitions, people are looked up first
+const DISPLAY_ONLY_FIELDS = new Set(['status', 'created', 'updated', ...['assignee', 'reporter'].flatMap(field => [field, `${field}Email`, `${field}Id`])]);
+
+/**
+ * A field changed in the YAML that could not be saved
+ */
+export interface SkippedField {
+    field: string;
+    reason: string;
+}
+
+/**
+ * A person changed in the YAML, identified by whichever of its keys was edited
+ * (`assigneeId`, `assigneeEmail` or `assignee` for the display name; likewise for the reporter)
+ */
+export interface PersonChange {
+    field: 'assignee' | 'reporter';
+    by: 'id' | 'email' | 'name';
+    /** Account ID (username on Data Center), email address or display name; empty to clear the field */
+    value: string;
+}
+
+/**
+ * Changes in an issue YAML, ready for `updateIssue`
+ */
+export interface IssueFieldChanges {
+    /** Changed fields in the shapes Jira expects */
+    fields: Record<string, any>;
+    skipped: SkippedField[];
+    /** People to look up before saving; they are not in `fields` */
+    people: PersonChange[];
+    /** Status to move the issue to through workflow transitions, when it was changed */
+    status?: string;
+}
+
 export function issueToYaml(issue: JiraIssue): string {
     const data = {
         entityType: 'issue',
@@ -8,31 +47,87 @@ export function issueToYaml(issue: JiraIssue): string {
         id: issue.id,
         fields: {
             summary: issue.fields.summary,
-            description: issue.fields.description || '',
+            description: richTextToMarkdown(issue.fields.description),
             status: issue.fields.status?.name || '',
             assignee: issue.fields.assignee?.displayName || '',
             assigneeEmail: issue.fields.assignee?.emailAddress || '',
+            assigneeId: userId(issue.fields.assignee),
             reporter: issue.fields.reporter?.displayName || '',
             reporterEmail: issue.fields.reporter?.emailAddress || '',
+            reporterId: userId(issue.fields.reporter),
             priority: issue.fields.priority?.name || '',
             issuetype: issue.fields.issuetype?.name || '',
+            labels: issue.fields.labels || [],
+            components: (issue.fields.components || []).map((component: any) => component.name),
+            fixVersions: (issue.fields.fixVersions || []).map((version: any) => version.name),
+            duedate: issue.fields.duedate || '',
+            parent: issue.fields.parent?.key || '',
             created: issue.fields.created,
             updated: issue.fields.updated,
             // Include other custom fields
             ...Object.keys(issue.fields)
                 .filter(key => key.startsWith('customfield_'))
                 .reduce((acc, key) => {
-                    acc[key] = issue.fields[key];
+                    acc[key] = customFieldToYaml(issue.fields[key]);
                     return acc;
                 }, {} as Record<string, any>)
         }
     };
 
-    return yaml.dump(data, {
+    return dumpIssueYaml(data);
+}
+
+/**
+ * Account ID of a user, or the username on Data Center
+ */
+function userId(user: any): string {
+    return user?.accountId || user?.name || '';
+}
+
+/**
+ * A custom field value as edited in the YAML: options by value, users by account ID, other objects by name or key
+ */
+function customFieldToYaml(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(customFieldToYaml);
+    }
+    if (value && typeof value === 'object') {
+        const simple = value.value ?? value.accountId ?? value.name ?? value.key;
+        if (simple !== undefined && value.child === undefined) {
+            return simple;
+        }
+    }
+    return value;
+}
+
+/**
+ * Serialize issue YAML data, writing `fields.description` as a Markdown block
+ */
+export function dumpIssueYaml(data: any): string {
+    const description = data.fields?.description;
+    const hasDescription = typeof description === 'string';
+    const dumped = yaml.dump(hasDescription ? { ...data, fields: { ...data.fields, description: DESCRIPTION_PLACEHOLDER } } : data, {
         indent: 2,
         lineWidth: -1,
         noRefs: true
     });
+    if (!hasDescription) {
+        return dumped;
+    }
+    return dumped.replace(new RegExp(`^  description: ${DESCRIPTION_PLACEHOLDER}$`, 'm'), () => `  description: ${blockScalar(description, '    ')}`);
+}
+
+/**
+ * A YAML literal block scalar holding `text` verbatim
+ */
+function blockScalar(text: string, indent: string): string {
+    // Leading spaces on the first line would otherwise be taken as the block's indentation
+    const indicator = /^[ \n]/.test(text) ? String(indent.length - 2) : '';
+    const chomping = text.endsWith('\n') ? '+' : '-';
+    const body = text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n')
+        .map(line => line === '' ? '' : indent + line)
+        .join('\n');
+    return `|${indicator}${chomping}\n${body}`;
 }
 
 export function yamlToIssue(yamlContent: string): Partial<JiraIssue> {
@@ -77,34 +172,179 @@ export function newIssueToYaml(projectKey: string): string {
         }
     };
 
-    return yaml.dump(data, {
-        indent: 2,
-        lineWidth: -1,
-        noRefs: true
-    });
+    return dumpIssueYaml(data);
 }
 
-export function extractIssueFields(yamlContent: string): any {
+/**
+ * Fields to send to Jira for the issue in `yamlContent`.
+ * Given the issue as currently stored, an unchanged description is left out, and an edited one keeps
+ * the blocks that were not touched exactly as they were.
+ */
+export function extractIssueFields(yamlContent: string, original?: JiraIssue): any {
     const data = yaml.load(yamlContent) as any;
     
     const fields: any = {
         summary: data.fields?.summary
     };
 
-    if (data.fields?.description) {
-        fields.description = data.fields.description;
+    const description = data.fields?.description;
+    if (typeof description === 'string') {
+        if (!original || description !== richTextToMarkdown(original.fields.description)) {
+            const value = descriptionToField(description, original);
+            if (value !== undefined) {
+                fields.description = value;
+            }
+        }
+    } else if (description) {
+        fields.description = description;
     }
 
     if (data.fields?.priority) {
         fields.priority = { name: data.fields.priority };
     }
 
-    if (data.fields?.assigneeEmail) {
-        fields.assignee = { accountId: data.fields.assigneeEmail }; // This would need proper user lookup
+    // Without edit metadata the shape of other fields is unknown; issueFieldChanges sends them, and the people
+    // to look up, for existing issues
+
+    return fields;
+}
+
+/**
+ * Reference to a user in a field value, given the account ID or username from the YAML (`JiraHelper.userReference`)
+ */
+export type UserReference = (user: { accountId?: string; name?: string }) => { accountId: string } | { name: string };
+
+// Cloud's form, for callers without a helper
+const accountIdReference: UserReference = user => ({ accountId: user.accountId || user.name || '' });
+
+/**
+ * Fields changed in `yamlContent` relative to the issue as stored, converted by the field schemas of the issue's
+ * edit metadata (`getEditMetadata(...).fields`). Changed fields the metadata does not offer for editing, or whose
+ * value does not fit the schema, are skipped with the reason. User fields are referenced through `userReference`.
+ */
+export function issueFieldChanges(yamlContent: string, original: JiraIssue, editFields: Record<string, any>, userReference: UserReference = accountIdReference): IssueFieldChanges {
+    const local = (yaml.load(yamlContent) as any)?.fields || {};
+    const stored = (yaml.load(issueToYaml(original)) as any).fields;
+    const fields: Record<string, any> = {};
+    const skipped: SkippedField[] = [];
+
+    for (const [field, value] of Object.entries(local)) {
+        if (field === 'description' || DISPLAY_ONLY_FIELDS.has(field) || sameValue(value, stored[field])) {
+            continue;
+        }
+        const meta = editFields[field];
+        if (!meta) {
+            skipped.push({ field, reason: field in original.fields ? 'read-only' : 'not a field of this issue' });
+            continue;
+        }
+        try {
+            fields[field] = toFieldValue(value, meta, userReference);
+        } catch (error: any) {
+            skipped.push({ field, reason: error.message });
+        }
+    }
+
+    const description = local.description;
+    if (typeof description === 'string' && description !== richTextToMarkdown(original.fields.description)) {
+        const value = descriptionToField(description, original);
+        if (value !== undefined) {
+            fields.description = value;
+        }
     }
 
-    // Do NOT include custom fields when updating - they cause errors
-    // Custom fields are read-only for most Jira configurations
+    const people = (['assignee', 'reporter'] as const)
+        .map(field => personChange(field, local, stored))
+        .filter((change): change is PersonChange => change !== undefined);
 
-    return fields;
+    const status = typeof local.status === 'string' ? local.status.trim() : '';
+    return { fields, skipped, people, ...(status && status !== stored.status && { status }) };
+}
+
+/**
+ * How a person was changed: by the edited key that still has a value, or cleared when all its keys are empty
+ */
+function personChange(field: 'assignee' | 'reporter', local: any, stored: any): PersonChange | undefined {
+    const keys = { id: `${field}Id`, email: `${field}Email`, name: field };
+    const text = (value: any) => value === null || value === undefined ? '' : String(value).trim();
+    const changed = (['id', 'email', 'name'] as const).filter(by => text(local[keys[by]]) !== text(stored[keys[by]]));
+    if (changed.length === 0) {
+        return undefined;
+    }
+    const by = changed.find(candidate => text(local[keys[candidate]]) !== '');
+    if (by) {
+        return { field, by, value: text(local[keys[by]]) };
+    }
+    const cleared = Object.values(keys).every(key => text(local[key]) === '');
+    return cleared ? { field, by: changed[0], value: '' } : undefined;
+}
+
+/**
+ * A YAML value in the shape Jira expects for a field with this edit (or transition screen) metadata
+ */
+export function toFieldValue(value: any, meta: any, userReference: UserReference = accountIdReference): any {
+    const schema = meta.schema || {};
+    if (schema.type === 'array') {
+        const items = isEmptyValue(value) ? [] : Array.isArray(value) ? value : String(value).split(',').map(item => item.trim()).filter(Boolean);
+        return items.map((item: any) => toItemValue(item, schema.items, meta.allowedValues, userReference));
+    }
+    return isEmptyValue(value) ? null : toItemValue(value, schema.type, meta.allowedValues, userReference);
+}
+
+function toItemValue(value: any, type: string | undefined, allowedValues: any[] | undefined, userReference: UserReference): any {
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        // Already in API form
+        return value;
+    }
+    switch (type) {
+        case 'string':
+            return String(value);
+        case 'number': {
+            const number = typeof value === 'number' ? value : Number(String(value).trim());
+            if (typeof value === 'boolean' || String(value).trim() === '' || Number.isNaN(number)) {
+                throw new Error(`"${value}" is not a number`);
+            }
+            return number;
+        }
+        case 'date':
+            return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+        case 'datetime':
+            return value instanceof Date ? value.toISOString() : String(value);
+        case 'issuelink':
+            return { key: String(value) };
+        case 'user':
+            // The YAML holds the account ID on Cloud and the username on Data Center
+            return userReference({ accountId: String(value), name: String(value) });
+        case 'json':
+        case 'any':
+        case undefined:
+            return value;
+    }
+    // Named values (priority, issue type, component, version, option, ...): by ID where the metadata lists them
+    const match = allowedValues?.find(allowed => [allowed.name, allowed.value, allowed.id].some(candidate => candidate !== undefined && String(candidate) === String(value)));
+    if (match?.id !== undefined) {
+        return { id: String(match.id) };
+    }
+    return type === 'option' ? { value: String(value) } : { name: String(value) };
+}
+
+function isEmptyValue(value: any): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+function sameValue(a: any, b: any): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function descriptionToField(description: string, original?: JiraIssue): any {
+    if (!description.trim()) {
+        // Clearing an existing description; a new issue simply has none
+        return original ? null : undefined;
+    }
+    const originalDescription = original?.fields.description;
+    if (typeof originalDescription === 'string') {
+        // Data Center wiki markup is edited as is
+        return description;
+    }
+    // The YAML holds Markdown; Jira expects ADF (converted to wiki markup for Data Center by the helper)
+    return markdownToAdf(description, originalDescription);
 }
@@ -0,0 +1,86 @@
+import * as yaml from 'js-yaml';
+import { JiraIssue } from '../helpers/jiraHelper';
+
+const CONFLICT = Symbol('conflict');
+
+// Maintained by Jira; never edited locally
+const READ_ONLY_FIELDS = new Set(['created', 'updated']);
+
+/**
+ * A field changed both on Jira and in the local YAML since the YAML was loaded
+ */
+export interface FieldConflict {
+    field: string;
+    /** Value when the YAML was loaded; undefined when no snapshot was kept */
+    base: any;
+    server: any;
+    local: any;
+}
+
+export interface FieldMerge {
+    /** Merged `fields`, with each conflicting field holding the local value until resolved */
+    fields: Record<string, any>;
+    conflicts: FieldConflict[];
+}
+
+/**
+ * Whether Jira has changed the issue since the YAML was loaded, judged by the recorded `updated` timestamp
+ */
+export function isStale(yamlContent: string, current: JiraIssue): boolean {
+    const data = yaml.load(yamlContent) as any;
+    return String(data?.fields?.updated ?? '') !== String(current.fields.updated ?? '');
+}
+
+/**
+ * Three-way merge of the `fields` of issue YAML documents.
+ * A field changed on one side only takes that side's value; a field changed differently on both is a
+ * conflict. Without a base snapshot matching the version the YAML records, every field where Jira and
+ * the YAML differ is a conflict.
+ */
+export function mergeIssueFields(baseYaml: string | undefined, serverYaml: string, localYaml: string): FieldMerge {
+    const server = fieldsOf(serverYaml);
+    const local = fieldsOf(localYaml);
+    let base = baseYaml !== undefined ? fieldsOf(baseYaml) : undefined;
+    if (base && !same(base.updated, local.updated)) {
+        base = undefined;
+    }
+
+    const fields: Record<string, any> = {};
+    const conflicts: FieldConflict[] = [];
+    const names = [...new Set([...Object.keys(local), ...Object.keys(server)])];
+    for (const field of names) {
+        const merged = mergeField(field, base ? { value: base[field] } : undefined, server[field], local[field]);
+        if (merged === CONFLICT) {
+            conflicts.push({ field, base: base?.[field], server: server[field], local: local[field] });
+            fields[field] = local[field];
+        } else if (merged !== undefined) {
+            fields[field] = merged;
+        }
+    }
+    return { fields, conflicts };
+}
+
+function mergeField(field: string, base: { value: any } | undefined, server: any, local: any): any {
+    if (READ_ONLY_FIELDS.has(field) || same(server, local)) {
+        return server;
+    }
+    if (!base) {
+        return CONFLICT;
+    }
+    if (same(local, base.value)) {
+        return server;
+    }
+    if (same(server, base.value)) {
+        return local;
+    }
+    return CONFLICT;
+}
+
+function fieldsOf(yamlContent: string): Record<string, any> {
+    const data = yaml.load(yamlContent) as any;
+    return data?.fields || {};
+}
+
+function same(a: any, b: any): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
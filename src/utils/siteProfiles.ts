@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { AtlassianConfig, DeploymentType, loadAtlassianConfig, validateAtlassianConfig } from './configLoader';
+import { DEFAULT_SITE_NAME, getStoredApiToken } from './credentialStore';
+
+/**
+ * A named Atlassian site from the `atlassianTools.sites` setting.
+ * The API token lives in secret storage, keyed by the profile name.
+ */
+export interface SiteProfile {
+    name: string;
+    baseUrl: string;
+    /** Not needed for Data Center personal access tokens */
+    email: string;
+    deploymentType?: DeploymentType;
+    confluenceBaseUrl?: string;
+}
+
+/**
+ * Read the named site profiles from settings, skipping incomplete entries
+ */
+export function getSiteProfiles(): SiteProfile[] {
+    const profiles = vscode.workspace.getConfiguration('atlassianTools').get<SiteProfile[]>('sites') || [];
+    return profiles.filter(profile =>
+        profile && profile.name && profile.baseUrl && profile.name !== DEFAULT_SITE_NAME &&
+        (profile.email || profile.deploymentType === 'dataCenter')
+    );
+}
+
+/**
+ * Add or replace a site profile. The default site is kept in the single-site settings.
+ */
+export async function saveSiteProfile(profile: SiteProfile): Promise<void> {
+    const config = vscode.workspace.getConfiguration('atlassianTools');
+
+    if (profile.name === DEFAULT_SITE_NAME) {
+        await config.update('atlassianBaseUrl', profile.baseUrl, vscode.ConfigurationTarget.Global);
+        await config.update('atlassianEmail', profile.email, vscode.ConfigurationTarget.Global);
+        await config.update('deploymentType', profile.deploymentType || 'cloud', vscode.ConfigurationTarget.Global);
+        await config.update('confluenceBaseUrl', profile.confluenceBaseUrl || undefined, vscode.ConfigurationTarget.Global);
+        return;
+    }
+
+    const globalProfiles = config.inspect<SiteProfile[]>('sites')?.globalValue || [];
+    const profiles = globalProfiles.filter(existing => existing.name !== profile.name);
+    profiles.push(profile);
+    await config.update('sites', profiles, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Name of the site to use in this workspace, from `atlassianTools.defaultSite`
+ */
+export function getDefaultSiteName(): string | undefined {
+    return vscode.workspace.getConfiguration('atlassianTools').get<string>('defaultSite') || undefined;
+}
+
+/**
+ * Remember the selected site as this workspace's default (user settings when no folder is open)
+ */
+export async function setDefaultSiteName(site: string): Promise<void> {
+    const target = vscode.workspace.workspaceFolders?.length
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('atlassianTools').update('defaultSite', site, target);
+}
+
+/**
+ * Build a configuration for every site that has credentials.
+ * The default site keeps the legacy settings and environment variable fallbacks.
+ */
+export async function loadSiteConfigs(secrets: vscode.SecretStorage): Promise<Map<string, AtlassianConfig>> {
+    const configs = new Map<string, AtlassianConfig>();
+
+    const defaultConfig = loadAtlassianConfig(await getStoredApiToken(secrets));
+    if (defaultConfig && validateAtlassianConfig(defaultConfig)) {
+        configs.set(DEFAULT_SITE_NAME, defaultConfig);
+    }
+
+    for (const profile of getSiteProfiles()) {
+        const apiToken = await getStoredApiToken(secrets, profile.name);
+        if (apiToken) {
+            configs.set(profile.name, {
+                baseUrl: profile.baseUrl,
+                email: profile.email || '',
+                apiToken,
+                deploymentType: profile.deploymentType || 'cloud',
+                ...(profile.confluenceBaseUrl && { confluenceBaseUrl: profile.confluenceBaseUrl })
+            });
+        }
+    }
+
+    return configs;
+}
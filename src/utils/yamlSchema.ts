@@ -0,0 +1,347 @@
+/**
+ * Schemas for the YAML documents the extension opens (`.jira.yaml` issues and `.confluence.yaml` frontmatter),
+ * built from site metadata, with a validator and the line lookups the editor needs for diagnostics and completions.
+ * The schemas are a JSON Schema subset; `x-completion` names a completion source that cannot be listed up front.
+ */
+
+/** Values that are looked up as the user types rather than listed in `enum` */
+export type CompletionSource = 'userName' | 'userEmail' | 'accountId' | 'page';
+
+export interface YamlSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer';
+    /** Shown in completions and used to name the field in problems */
+    title?: string;
+    properties?: Record<string, YamlSchema>;
+    required?: string[];
+    items?: YamlSchema;
+    enum?: string[];
+    /** Suggested in completions without restricting the value, for lists known to be incomplete */
+    examples?: string[];
+    pattern?: string;
+    format?: 'date' | 'date-time';
+    readOnly?: boolean;
+    'x-completion'?: CompletionSource;
+}
+
+/**
+ * A value that does not match its schema, at a path of keys and array indexes from the document root
+ */
+export interface SchemaProblem {
+    path: Array<string | number>;
+    message: string;
+}
+
+// Maintained by Jira, or shown for reference only
+const ISSUE_READ_ONLY = ['id', 'key', 'entityType', 'created', 'updated'];
+
+// Largest number of allowed values quoted in a problem message
+const MAX_LISTED_VALUES = 10;
+
+/**
+ * Schema of issue YAML for one project, from its create metadata
+ * (`getCreateMetadata([project])`), the site's priorities and the project's statuses per issue type
+ */
+export function buildIssueYamlSchema(createMeta: any, priorities: any[], projectStatuses: any[], versions: any[] = []): YamlSchema {
+    const project = createMeta?.projects?.[0];
+    const issueTypes: any[] = project?.issuetypes || [];
+
+    // Fields of every issue type, with the allowed values of each type merged
+    const fieldMeta: Record<string, any> = {};
+    for (const issueType of issueTypes) {
+        for (const [id, meta] of Object.entries<any>(issueType.fields || {})) {
+            const known = fieldMeta[id];
+            fieldMeta[id] = known
+                ? { ...known, allowedValues: mergeAllowed(known.allowedValues, meta.allowedValues) }
+                : meta;
+        }
+    }
+
+    const properties: Record<string, YamlSchema> = {};
+    for (const [id, meta] of Object.entries<any>(fieldMeta)) {
+        if (id === 'project' || id === 'attachment' || id === 'issuelinks') {
+            continue;
+        }
+        properties[id] = fieldSchema(meta, versions);
+    }
+
+    const statuses = unique(projectStatuses.flatMap(issueType => (issueType.statuses || []).map((status: any) => status.name)));
+    Object.assign(properties, {
+        summary: { type: 'string', title: 'Summary' },
+        description: { type: 'string', title: 'Description' },
+        issuetype: { type: 'string', title: 'Issue Type', enum: issueTypes.map(issueType => issueType.name) },
+        priority: { type: 'string', title: 'Priority', enum: unique(priorities.map(priority => priority.name)) },
+        status: { type: 'string', title: 'Status', ...(statuses.length > 0 && { enum: statuses }) },
+        assignee: { type: 'string', title: 'Assignee', 'x-completion': 'userName' },
+        assigneeEmail: { type: 'string', title: 'Assignee email', 'x-completion': 'userEmail' },
+        reporter: { type: 'string', title: 'Reporter', 'x-completion': 'userName' },
+        reporterEmail: { type: 'string', title: 'Reporter email', 'x-completion': 'userEmail' },
+        assigneeId: { type: 'string', title: 'Assignee account ID', 'x-completion': 'accountId' },
+        reporterId: { type: 'string', title: 'Reporter account ID', 'x-completion': 'accountId' },
+        parent: { type: 'string', title: 'Parent', pattern: '^[A-Z][A-Z0-9_]*-\\d+$' },
+        created: { type: 'string', title: 'Created', readOnly: true },
+        updated: { type: 'string', title: 'Updated', readOnly: true }
+    } satisfies Record<string, YamlSchema>);
+
+    return {
+        type: 'object',
+        properties: {
+            ...Object.fromEntries(ISSUE_READ_ONLY.map(key => [key, { type: 'string', readOnly: true } as YamlSchema])),
+            projectKey: { type: 'string', title: 'Project' },
+            fields: { type: 'object', properties, required: ['summary'] }
+        },
+        required: ['fields']
+    };
+}
+
+/**
+ * Schema of a field from its create metadata entry
+ */
+function fieldSchema(meta: any, versions: any[]): YamlSchema {
+    const schema = meta.schema || {};
+    const title: string = meta.name;
+    const allowed = allowedNames(meta.allowedValues);
+    const item = (type: string | undefined): YamlSchema => {
+        switch (type) {
+            case 'number':
+                return { type: 'number', title };
+            case 'date':
+                return { type: 'string', title, format: 'date' };
+            case 'datetime':
+                return { type: 'string', title, format: 'date-time' };
+            case 'user':
+                return { type: 'string', title, 'x-completion': 'accountId' };
+            case 'version':
+                return { type: 'string', title, enum: allowed ?? versions.filter(version => !version.archived).map(version => version.name) };
+            case 'string':
+                return { type: 'string', title, ...(allowed && { enum: allowed }) };
+            case 'issuelink':
+                return { type: 'string', title, pattern: '^[A-Z][A-Z0-9_]*-\\d+$' };
+            default:
+                // Options, components, priorities and other named values; shapes without a name are not checked
+                return allowed ? { type: 'string', title, enum: allowed } : { title };
+        }
+    };
+
+    if (schema.type === 'array') {
+        const items = item(schema.items);
+        return { type: 'array', title, items: schema.items === 'string' && !items.enum ? { ...items, pattern: '^\\S+$' } : items };
+    }
+    return item(schema.type);
+}
+
+/**
+ * Schema of the frontmatter of a `.confluence.yaml` page. Space keys restrict `spaceKey` only when they are all
+ * the site's spaces (`complete`); otherwise they are just suggested.
+ */
+export function buildPageFrontmatterSchema(spaceKeys: string[], complete: boolean = true): YamlSchema {
+    return {
+        type: 'object',
+        properties: {
+            entityType: { type: 'string', enum: ['page'], readOnly: true },
+            id: { type: 'string', title: 'Page ID', pattern: '^(\\d+|new)$', readOnly: true },
+            title: { type: 'string', title: 'Title' },
+            type: { type: 'string', title: 'Content type', enum: ['page', 'blogpost'] },
+            status: { type: 'string', title: 'Status', enum: ['current', 'draft'] },
+            spaceKey: { type: 'string', title: 'Space', ...(spaceKeys.length > 0 && (complete ? { enum: spaceKeys } : { examples: spaceKeys })) },
+            spaceName: { type: 'string', title: 'Space name', readOnly: true },
+            parentId: { type: 'string', title: 'Parent page', pattern: '^\\d+$', 'x-completion': 'page' },
+            version: { type: 'integer', title: 'Version' },
+            format: { type: 'string', title: 'Body format', enum: ['storage', 'markdown'] }
+        },
+        required: ['title', 'spaceKey']
+    };
+}
+
+/**
+ * Problems in a parsed YAML document. Empty values (null or '') are accepted for every field that is not required.
+ */
+export function validateYaml(value: any, schema: YamlSchema, path: Array<string | number> = []): SchemaProblem[] {
+    const problems: SchemaProblem[] = [];
+    const name = schema.title || String(path[path.length - 1] ?? 'document');
+
+    if (isEmpty(value)) {
+        return problems;
+    }
+
+    switch (schema.type) {
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                return [{ path, message: `${name} must be a mapping` }];
+            }
+            for (const key of schema.required || []) {
+                if (isEmpty(value[key])) {
+                    problems.push({ path: [...path, key], message: `${schema.properties?.[key]?.title || key} is required` });
+                }
+            }
+            for (const [key, child] of Object.entries(value)) {
+                const childSchema = schema.properties?.[key];
+                if (childSchema) {
+                    problems.push(...validateYaml(child, childSchema, [...path, key]));
+                }
+            }
+            return problems;
+        }
+        case 'array': {
+            // A single value or a comma-separated list stands for a one-item list when saved
+            const items = Array.isArray(value) ? value : String(value).split(',').map(item => item.trim()).filter(Boolean);
+            items.forEach((item, index) => problems.push(...validateYaml(item, schema.items || {}, Array.isArray(value) ? [...path, index] : path)));
+            return problems;
+        }
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+                return [{ path, message: `${name} must be ${schema.type === 'integer' ? 'a whole number' : 'a number'}` }];
+            }
+            return problems;
+    }
+
+    if (typeof value === 'object' && !(value instanceof Date)) {
+        // Values in API form are passed through when saved
+        return problems;
+    }
+    const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    if (schema.enum && !schema.enum.some(allowed => allowed.toLowerCase() === text.toLowerCase())) {
+        const listed = schema.enum.slice(0, MAX_LISTED_VALUES).join(', ') + (schema.enum.length > MAX_LISTED_VALUES ? ', …' : '');
+        problems.push({ path, message: `'${text}' is not a valid ${name}. Expected one of: ${listed}` });
+    } else if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+        problems.push({ path, message: `'${text}' is not a valid ${name}` });
+    } else if (schema.format === 'date' && !(value instanceof Date) && !/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        problems.push({ path, message: `${name} must be a date (YYYY-MM-DD)` });
+    } else if (schema.format === 'date-time' && !(value instanceof Date) && Number.isNaN(Date.parse(text))) {
+        problems.push({ path, message: `${name} must be a date and time` });
+    }
+    return problems;
+}
+
+/**
+ * Schema at a path of keys; array indexes may be left out
+ */
+export function schemaAt(schema: YamlSchema, path: Array<string | number>): YamlSchema | undefined {
+    let current: YamlSchema | undefined = schema;
+    for (const segment of path) {
+        if (current?.type === 'array') {
+            current = current.items;
+            if (typeof segment === 'number') {
+                continue;
+            }
+        }
+        current = typeof segment === 'string' ? current?.properties?.[segment] : current;
+    }
+    return current;
+}
+
+// ===== LOCATING VALUES IN THE TEXT =====
+
+interface YamlLine {
+    indent: number;
+    /** Mapping key on the line, if any */
+    key?: string;
+    /** Whether the line is a sequence item (`- ...`) */
+    item: boolean;
+    /** Column where the value after `key:` or `- ` starts */
+    valueStart: number;
+}
+
+function parseLine(line: string): YamlLine | undefined {
+    if (line.trim() === '' || line.trim().startsWith('#')) {
+        return undefined;
+    }
+    const match = /^(\s*)(-(?:\s+|$))?(?:(["']?)([^\s#"':-][^:#]*?)\3:(?=\s|$))?\s*/.exec(line);
+    if (!match || (!match[2] && !match[4])) {
+        return undefined;
+    }
+    return { indent: match[1].length, key: match[4], item: Boolean(match[2]), valueStart: match[0].length };
+}
+
+/**
+ * Line of the value at `path` in block-style YAML, or of the nearest ancestor that could be found
+ */
+export function findYamlLine(lines: string[], path: Array<string | number>): number | undefined {
+    let found: number | undefined;
+    let start = 0;
+    let parentIndent = -1;
+
+    for (const segment of path) {
+        let match: number | undefined;
+        let childIndent: number | undefined;
+        let index = 0;
+        for (let i = start; i < lines.length; i++) {
+            const line = parseLine(lines[i]);
+            if (!line) {
+                continue;
+            }
+            // Items of a list may sit at the same indent as its key
+            const unindentedItem = typeof segment === 'number' && line.item && line.indent === parentIndent;
+            if (line.indent <= parentIndent && !unindentedItem) {
+                break;
+            }
+            childIndent ??= line.indent;
+            if (line.indent !== childIndent) {
+                continue;
+            }
+            if (typeof segment === 'string' ? line.key === segment && !line.item : line.item && index++ === segment) {
+                match = i;
+                break;
+            }
+        }
+        if (match === undefined) {
+            return found;
+        }
+        found = match;
+        parentIndent = parseLine(lines[match])?.indent ?? parentIndent;
+        start = match + 1;
+    }
+    return found;
+}
+
+/**
+ * Where the cursor is in block-style YAML: the keys leading to the value being typed (or to the mapping whose
+ * keys are being typed), and the column where the typed text starts
+ */
+export function yamlContextAt(lines: string[], lineNumber: number, character: number): { path: string[]; isKey: boolean; valueStart: number } {
+    const prefix = (lines[lineNumber] || '').slice(0, character);
+    const current = parseLine(prefix);
+    const indent = /^\s*/.exec(prefix)?.[0].length || 0;
+
+    // Ancestors are the nearest key lines above with a smaller indent; list items may share their key's indent
+    const path: string[] = [];
+    let limit = current?.item ? indent + 1 : indent;
+    for (let i = lineNumber - 1; i >= 0 && limit > 0; i--) {
+        const line = parseLine(lines[i]);
+        if (line?.key && !line.item && line.indent < limit) {
+            path.unshift(line.key);
+            limit = line.indent;
+        }
+    }
+    if (current?.key && !current.item) {
+        path.push(current.key);
+    }
+
+    return { path, isKey: !current, valueStart: current ? current.valueStart : indent };
+}
+
+// ===== HELPERS =====
+
+function allowedNames(allowedValues: any[] | undefined): string[] | undefined {
+    if (!allowedValues || allowedValues.length === 0) {
+        return undefined;
+    }
+    const names = allowedValues.map(value => value.name ?? value.value).filter((name): name is string => typeof name === 'string');
+    return names.length > 0 ? unique(names) : undefined;
+}
+
+function mergeAllowed(a: any[] | undefined, b: any[] | undefined): any[] | undefined {
+    if (!a || !b) {
+        return a || b;
+    }
+    const seen = new Set(a.map(value => value.id ?? value.name ?? value.value));
+    return [...a, ...b.filter(value => !seen.has(value.id ?? value.name ?? value.value))];
+}
+
+function unique(values: string[]): string[] {
+    return [...new Set(values)];
+}
+
+function isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '';
+}